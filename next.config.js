@@ -1,6 +1,8 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  // Security headers of the pages are set in src/middleware.ts
+  poweredByHeader: false,
   typescript: {
     tsconfigPath: './tsconfig.json',
   },
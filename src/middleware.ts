@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { loadSecurityConfig } from '@/shared/security/config';
+import { buildPageSecurityHeaders } from '@/shared/security/headers';
+import { getPublicConfig } from '@/utils/config';
+
+/**
+ * Next.js middleware - security headers of the pages
+ * (HSTS, Content-Security-Policy, X-Frame-Options, nosniff, ...)
+ * Configured by the same environment variables as the backend, see .env.example
+ */
+
+const production = process.env.NODE_ENV === 'production';
+
+/** Pages call the backend from the browser */
+const backendOrigin = new URL(getPublicConfig().backendUrl).origin;
+
+const headers = buildPageSecurityHeaders(loadSecurityConfig().headers, [backendOrigin], production);
+
+export function middleware() {
+  const response = NextResponse.next();
+  for (const { key, value } of headers) {
+    response.headers.set(key, value);
+  }
+  return response;
+}
+
+export const config = {
+  // Static assets do not need the headers
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};
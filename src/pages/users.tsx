@@ -0,0 +1,270 @@
+import { useState, type FormEvent } from 'react';
+import styled from 'styled-components';
+import { trpc } from '@/utils/trpc';
+import { setAccessToken } from '@/utils/auth';
+import { Container, Button } from '@/components';
+import type { RouterOutputs } from '@/shared/types';
+
+type User = RouterOutputs['users']['update'];
+
+const PageWrapper = styled.div`
+  padding: ${(props) => props.theme.spacing.xl};
+  min-height: 100vh;
+`;
+
+const Section = styled.section`
+  margin-top: ${(props) => props.theme.spacing.xl};
+  padding: ${(props) => props.theme.spacing.lg};
+  border: 1px solid ${(props) => props.theme.colors.border};
+  border-radius: ${(props) => props.theme.radius.lg};
+  background-color: ${(props) => props.theme.colors.lightGray};
+`;
+
+const Form = styled.form`
+  display: flex;
+  gap: ${(props) => props.theme.spacing.sm};
+  margin-bottom: ${(props) => props.theme.spacing.md};
+`;
+
+const Input = styled.input`
+  flex: 1;
+  padding: ${(props) => props.theme.spacing.sm};
+  border: 1px solid ${(props) => props.theme.colors.border};
+  border-radius: ${(props) => props.theme.radius.md};
+`;
+
+const UserList = styled.ul`
+  list-style: none;
+  padding: 0;
+`;
+
+const UserItem = styled.li`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  justify-content: space-between;
+  gap: ${(props) => props.theme.spacing.sm};
+  padding: ${(props) => props.theme.spacing.sm} 0;
+  border-bottom: 1px solid ${(props) => props.theme.colors.border};
+`;
+
+const Conflict = styled.div`
+  width: 100%;
+  padding: ${(props) => props.theme.spacing.md};
+  border: 1px solid ${(props) => props.theme.colors.error};
+  border-radius: ${(props) => props.theme.radius.md};
+  font-size: ${(props) => props.theme.fonts.size.sm};
+`;
+
+const Actions = styled.div`
+  display: flex;
+  gap: ${(props) => props.theme.spacing.sm};
+  margin-top: ${(props) => props.theme.spacing.sm};
+`;
+
+const Status = styled.p`
+  margin-top: ${(props) => props.theme.spacing.md};
+  color: ${(props) => props.theme.colors.textSecondary};
+  font-size: ${(props) => props.theme.fonts.size.sm};
+`;
+
+/**
+ * Users page
+ * Demonstrates cursor pagination with useInfiniteQuery,
+ * live updates with a subscription (no polling) and editing with
+ * optimistic concurrency (version conflicts)
+ */
+export default function Users() {
+  const [search, setSearch] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const utils = trpc.useUtils();
+  const usersQuery = trpc.users.list.useInfiniteQuery(
+    { limit: 20, search: search || undefined },
+    { getNextPageParam: (lastPage) => lastPage.nextCursor }
+  );
+
+  // Refetch the list whenever a user is created, updated or deleted (by anyone)
+  trpc.users.onChange.useSubscription(undefined, {
+    enabled: usersQuery.isSuccess,
+    onData: () => utils.users.list.invalidate(),
+  });
+
+  if (usersQuery.error?.data?.code === 'UNAUTHORIZED') {
+    return (
+      <PageWrapper>
+        <Container>
+          <h1>Users</h1>
+          <LoginForm onLogin={() => usersQuery.refetch()} />
+        </Container>
+      </PageWrapper>
+    );
+  }
+
+  const users = usersQuery.data?.pages.flatMap((page) => page.items) ?? [];
+
+  return (
+    <PageWrapper>
+      <Container>
+        <h1>Users</h1>
+
+        <Section>
+          <Input
+            type="search"
+            placeholder="Search by name or email"
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+          />
+          {usersQuery.isPending && <Status>Loading...</Status>}
+          {usersQuery.isError && <Status>Error: {usersQuery.error.message}</Status>}
+
+          <UserList>
+            {users.map((user) => (
+              <UserItem key={user.id}>
+                {editingId === user.id ? (
+                  <EditUserForm user={user} onDone={() => setEditingId(null)} />
+                ) : (
+                  <>
+                    {user.name} &lt;{user.email}&gt;
+                    <Button onClick={() => setEditingId(user.id)} $variant="secondary">
+                      Edit
+                    </Button>
+                  </>
+                )}
+              </UserItem>
+            ))}
+          </UserList>
+
+          {usersQuery.hasNextPage && (
+            <Button
+              onClick={() => usersQuery.fetchNextPage()}
+              disabled={usersQuery.isFetchingNextPage}
+              $variant="secondary"
+            >
+              {usersQuery.isFetchingNextPage ? 'Loading...' : 'Load more'}
+            </Button>
+          )}
+        </Section>
+      </Container>
+    </PageWrapper>
+  );
+}
+
+/**
+ * Edit form of one user
+ * Sends the version the form was loaded from - if someone saved the user meanwhile,
+ * the update fails with VERSION_CONFLICT and error.data.current holds the server state.
+ * The user then either takes the server values, or keeps the edited ones and saves them
+ * over the server version.
+ */
+function EditUserForm({ user, onDone }: { user: User; onDone: () => void }) {
+  const [name, setName] = useState(user.name);
+  const [email, setEmail] = useState(user.email);
+  const [version, setVersion] = useState(user.version);
+  const utils = trpc.useUtils();
+  const updateMutation = trpc.users.update.useMutation({
+    onSuccess: () => {
+      utils.users.list.invalidate();
+      onDone();
+    },
+  });
+
+  const conflict =
+    updateMutation.error?.data?.errorCode === 'VERSION_CONFLICT'
+      ? (updateMutation.error.data.current as User | null)
+      : null;
+
+  const save = (expectedVersion: number) => {
+    updateMutation.mutate({ id: user.id, version: expectedVersion, name, email });
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    save(version);
+  };
+
+  const takeServerVersion = (current: User) => {
+    setName(current.name);
+    setEmail(current.email);
+    setVersion(current.version);
+    updateMutation.reset();
+  };
+
+  return (
+    <>
+      <Form onSubmit={handleSubmit}>
+        <Input value={name} onChange={(event) => setName(event.target.value)} />
+        <Input type="email" value={email} onChange={(event) => setEmail(event.target.value)} />
+        <Button type="submit" disabled={updateMutation.isPending} $variant="primary">
+          Save
+        </Button>
+        <Button type="button" onClick={onDone} $variant="secondary">
+          Cancel
+        </Button>
+      </Form>
+      {conflict ? (
+        <Conflict>
+          Someone else changed this user meanwhile. Server version: {conflict.name} &lt;
+          {conflict.email}&gt;
+          <Actions>
+            <Button type="button" onClick={() => takeServerVersion(conflict)} $variant="secondary">
+              Use server version
+            </Button>
+            <Button
+              type="button"
+              onClick={() => save(conflict.version)}
+              disabled={updateMutation.isPending}
+              $variant="danger"
+            >
+              Overwrite with mine
+            </Button>
+          </Actions>
+        </Conflict>
+      ) : (
+        updateMutation.isError && <Status>Error: {updateMutation.error.message}</Status>
+      )}
+    </>
+  );
+}
+
+/**
+ * Minimal login form, stores access token for the tRPC client
+ */
+function LoginForm({ onLogin }: { onLogin: () => void }) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const loginMutation = trpc.auth.login.useMutation({
+    onSuccess: (tokens) => {
+      setAccessToken(tokens.accessToken);
+      onLogin();
+    },
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    loginMutation.mutate({ email, password });
+  };
+
+  return (
+    <Section>
+      <h2>Sign in</h2>
+      <Form onSubmit={handleSubmit}>
+        <Input
+          type="email"
+          placeholder="Email"
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+        />
+        <Input
+          type="password"
+          placeholder="Password"
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+        />
+        <Button type="submit" disabled={loginMutation.isPending} $variant="primary">
+          Sign in
+        </Button>
+      </Form>
+      {loginMutation.isError && <Status>Error: {loginMutation.error.message}</Status>}
+    </Section>
+  );
+}
@@ -0,0 +1,153 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import { z } from 'zod';
+import { publicProcedure, router } from '../trpc';
+import { protectedProcedure } from '../auth/procedures';
+import { signAccessToken } from '../auth/jwt';
+import { NotFoundError } from '../errors';
+import { setLogSink, REDACTED } from '../logging';
+import { recordAuditChange } from './context';
+import { diffRecords } from './diff';
+import { setAuditStore, type AuditEntry } from './recorder';
+import { createStubContext } from '../context.stub';
+
+/**
+ * Unit tests for the audit middleware and entity diffs
+ */
+describe('Audit', () => {
+  describe('diffRecords', () => {
+    it('should contain only changed fields', () => {
+      const before = { id: '1', name: 'John', email: 'john@example.com' };
+      const after = { id: '1', name: 'Johnny', email: 'john@example.com' };
+
+      expect(diffRecords(before, after)).to.deep.equal({
+        name: { before: 'John', after: 'Johnny' },
+      });
+    });
+
+    it('should diff deleted and created entities against null', () => {
+      expect(diffRecords({ id: '1', name: 'John' }, null)).to.deep.equal({
+        id: { before: '1', after: null },
+        name: { before: 'John', after: null },
+      });
+      expect(diffRecords(null, { id: '1' })).to.deep.equal({ id: { before: null, after: '1' } });
+    });
+
+    it('should compare dates by value', () => {
+      const before = { changedAt: new Date('2024-01-01T00:00:00Z') };
+      const after = { changedAt: new Date('2024-01-01T00:00:00Z') };
+
+      expect(diffRecords(before, after)).to.deep.equal({});
+    });
+  });
+
+  describe('middleware', () => {
+    let entries: AuditEntry[] = [];
+
+    const testRouter = router({
+      read: publicProcedure.query(() => 'read'),
+      login: publicProcedure
+        .input(z.object({ email: z.string(), password: z.string() }))
+        .mutation(() => 'ok'),
+      rename: protectedProcedure
+        .input(z.object({ id: z.string(), name: z.string() }))
+        .mutation(({ input }) => {
+          recordAuditChange('User', input.id, { name: 'John' }, { name: input.name });
+          return 'renamed';
+        }),
+      remove: protectedProcedure.requires('user/delete').mutation(() => 'removed'),
+      missing: publicProcedure.mutation(() => {
+        throw new NotFoundError('User', '1');
+      }),
+    });
+
+    function createContext(authenticated: boolean) {
+      const token = signAccessToken({ userId: 'admin-1' });
+      return createStubContext({
+        requestId: 'req-1',
+        headers: authenticated ? { authorization: `Bearer ${token}` } : {},
+        resolvePermissions: async () => ['user/write'],
+      });
+    }
+
+    beforeEach(() => {
+      entries = [];
+      setAuditStore({ record: async (entry) => void entries.push(entry) });
+    });
+
+    after(() => setAuditStore(null));
+
+    it('should record mutation with actor, sanitized input and entity changes', async () => {
+      const caller = testRouter.createCaller(createContext(true));
+
+      expect(await caller.rename({ id: 'user-1', name: 'Johnny' })).to.equal('renamed');
+
+      expect(entries).to.deep.equal([
+        {
+          actorId: 'admin-1',
+          action: 'rename',
+          input: { id: 'user-1', name: 'Johnny' },
+          outcome: 'success',
+          errorCode: null,
+          changes: [
+            {
+              entityType: 'User',
+              entityId: 'user-1',
+              diff: { name: { before: 'John', after: 'Johnny' } },
+            },
+          ],
+          requestId: 'req-1',
+        },
+      ]);
+    });
+
+    it('should redact secrets in input of public mutations', async () => {
+      const caller = testRouter.createCaller(createContext(false));
+      await caller.login({ email: 'a@b.c', password: 'secret' });
+
+      expect(entries[0]).to.include({ actorId: null, action: 'login', outcome: 'success' });
+      expect(entries[0].input).to.deep.equal({ email: 'a@b.c', password: REDACTED });
+    });
+
+    it('should record failed mutations with their error code', async () => {
+      const caller = testRouter.createCaller(createContext(true));
+      await caller.missing().catch(() => undefined);
+      await caller.remove().catch(() => undefined);
+
+      expect(entries.every((entry) => entry.outcome === 'error')).to.be.true;
+      const summary = entries.map(({ action, errorCode, actorId }) => ({
+        action,
+        errorCode,
+        actorId,
+      }));
+      expect(summary).to.deep.equal([
+        { action: 'missing', errorCode: 'USER_NOT_FOUND', actorId: null },
+        { action: 'remove', errorCode: 'MISSING_PERMISSIONS', actorId: 'admin-1' },
+      ]);
+    });
+
+    it('should not record queries', async () => {
+      await testRouter.createCaller(createContext(false)).read();
+
+      expect(entries).to.be.empty;
+    });
+
+    it('should not fail mutation when the entry can not be stored', async () => {
+      const lines: string[] = [];
+      setLogSink((line) => lines.push(line));
+      setAuditStore({
+        record: async () => {
+          throw new Error('Database down');
+        },
+      });
+      try {
+        const caller = testRouter.createCaller(createContext(true));
+        expect(await caller.rename({ id: '1', name: 'A' })).to.equal('renamed');
+      } finally {
+        setLogSink();
+      }
+
+      expect(lines.some((line) => line.includes('Failed to write audit entry'))).to.be.true;
+    });
+  });
+});
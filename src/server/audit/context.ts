@@ -0,0 +1,63 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { diffRecords, type AuditDiff } from './diff';
+
+/**
+ * Change of an entity made by the audited call
+ */
+export interface AuditChange {
+  entityType: string;
+  entityId: string;
+  diff: AuditDiff;
+}
+
+/**
+ * State of one audited call (mutation), filled while it runs
+ */
+export interface AuditScope {
+  /** Authenticated user, set by the auth middleware */
+  actorId?: string;
+  changes: AuditChange[];
+}
+
+const storage = new AsyncLocalStorage<AuditScope>();
+
+/**
+ * Run function in a new audit scope - changes recorded by DAOs it calls
+ * end up in the scope
+ */
+export function runWithAuditScope<T>(scope: AuditScope, fn: () => T): T {
+  return storage.run(scope, fn);
+}
+
+/**
+ * Audit scope of the current async call, undefined outside of a mutation
+ */
+export function getAuditScope(): AuditScope | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Set actor of the current audit scope (once authenticated)
+ * No-op outside of a mutation
+ */
+export function bindAuditActor(actorId: string): void {
+  const scope = storage.getStore();
+  if (scope) {
+    scope.actorId = actorId;
+  }
+}
+
+/**
+ * Record change of an entity for the audit log of the current call
+ * Called by DAOs after the change is committed, no-op outside of a mutation
+ * @param before - State before the change, null when created
+ * @param after - State after the change, null when deleted
+ */
+export function recordAuditChange(
+  entityType: string,
+  entityId: string,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): void {
+  storage.getStore()?.changes.push({ entityType, entityId, diff: diffRecords(before, after) });
+}
@@ -0,0 +1,28 @@
+/**
+ * Changed fields of an entity - before/after values of every field that differs
+ */
+export type AuditDiff = Record<string, { before: unknown; after: unknown }>;
+
+/**
+ * Diff of two states of an entity
+ * Values are compared by their JSON form, so equal dates and nested objects
+ * are not reported as changes
+ * @param before - State before the change, null when created
+ * @param after - State after the change, null when deleted
+ */
+export function diffRecords(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditDiff {
+  const diff: AuditDiff = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    const previous = before?.[field] ?? null;
+    const next = after?.[field] ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      diff[field] = { before: previous, after: next };
+    }
+  }
+  return diff;
+}
@@ -0,0 +1,6 @@
+export { bindAuditActor, getAuditScope, recordAuditChange, runWithAuditScope } from './context';
+export type { AuditChange, AuditScope } from './context';
+export { diffRecords } from './diff';
+export type { AuditDiff } from './diff';
+export { sanitizeAuditInput, setAuditStore, writeAuditEntry } from './recorder';
+export type { AuditEntry, AuditStore } from './recorder';
@@ -0,0 +1,62 @@
+import { getConfig } from '../config';
+import { getLogger, redact } from '../logging';
+import type { AuditChange } from './context';
+
+const logger = getLogger('Audit');
+
+/**
+ * Audit log entry of one mutation
+ */
+export interface AuditEntry {
+  /** Authenticated user, null for public procedures (login, register, ...) */
+  actorId: string | null;
+  /** tRPC procedure path, e.g. "users.update" */
+  action: string;
+  /** Input of the call with secrets redacted */
+  input: unknown;
+  outcome: 'success' | 'error';
+  /** Stable error code (see getErrorCode), null on success */
+  errorCode: string | null;
+  /** Entity changes recorded by DAOs (before/after diff) */
+  changes: AuditChange[];
+  requestId: string | null;
+}
+
+/**
+ * Persistence of audit entries (AuditLogDAO)
+ */
+export interface AuditStore {
+  record(entry: AuditEntry): Promise<void>;
+}
+
+let store: AuditStore | null = null;
+
+/**
+ * Set store of audit entries, null disables writing (no database)
+ */
+export function setAuditStore(auditStore: AuditStore | null): void {
+  store = auditStore;
+}
+
+/**
+ * Copy of procedure input safe to store - secrets (password, token, ...) are
+ * redacted the same way as in logs, including LOG_REDACT_KEYS
+ */
+export function sanitizeAuditInput(input: unknown): unknown {
+  return redact(input, getConfig().logging.redactKeys) ?? null;
+}
+
+/**
+ * Write audit entry
+ * Failure is logged, it does not fail the already finished mutation
+ */
+export async function writeAuditEntry(entry: AuditEntry): Promise<void> {
+  if (!store) {
+    return;
+  }
+  try {
+    await store.record(entry);
+  } catch (error) {
+    logger.error('Failed to write audit entry', { action: entry.action, error });
+  }
+}
@@ -0,0 +1,60 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { PermissionsGuard } from '@david.uhlir/permissions-guard';
+import { ForbiddenError } from '../errors';
+import { describeRequirement, satisfiesRequirement } from './permissions';
+
+/**
+ * Authenticated user on whose behalf the current call runs
+ */
+export interface Caller {
+  userId: string;
+  /** Effective permissions, wildcards included */
+  permissions: string[];
+}
+
+const storage = new AsyncLocalStorage<Caller>();
+
+/**
+ * Run callback on behalf of a user
+ * Sets the PermissionsGuard context checked by services and DAOs, and the caller
+ * returned by getCaller() for checks depending on the caller's own permissions
+ */
+export function runAsCaller<T>(caller: Caller, callback: () => Promise<T>): Promise<T> {
+  return storage.run(caller, () =>
+    PermissionsGuard.runWithPermissions(caller.permissions, caller.userId, callback)
+  );
+}
+
+/**
+ * Caller of the current async call, undefined outside of protected procedures
+ */
+export function getCaller(): Caller | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Check permissions in services and DAOs, use instead of PermissionsGuard.checkRequiredPermissions()
+ * The caller must hold all of the permissions, wildcard grants ("user/*", "*") included -
+ * the same rules as protectedProcedure.requires(). Without a caller (PermissionsGuard
+ * context set up elsewhere) PermissionsGuard decides, its errors become ForbiddenError
+ * so clients get FORBIDDEN instead of INTERNAL_SERVER_ERROR.
+ * @throws ForbiddenError (MISSING_PERMISSIONS) when a permission is missing
+ */
+export async function requirePermissions(permissions: string[]): Promise<void> {
+  const requirement = { allOf: permissions };
+  const message = `Missing required permissions: ${describeRequirement(requirement)}`;
+  const caller = getCaller();
+
+  if (!caller) {
+    try {
+      await PermissionsGuard.checkRequiredPermissions(permissions);
+    } catch (error) {
+      throw new ForbiddenError(message, { code: 'MISSING_PERMISSIONS', cause: error });
+    }
+    return;
+  }
+
+  if (!satisfiesRequirement(caller.permissions, requirement)) {
+    throw new ForbiddenError(message, { code: 'MISSING_PERMISSIONS' });
+  }
+}
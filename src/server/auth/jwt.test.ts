@@ -0,0 +1,58 @@
+import { expect } from 'chai';
+import jwt from 'jsonwebtoken';
+import { signAccessToken, parseAuthHeader, extractUserId, extractPermissions } from './jwt';
+import { generateOpaqueToken, hashOpaqueToken } from './tokens';
+
+/**
+ * Unit tests for token issuance and parsing
+ */
+describe('JWT', () => {
+  describe('signAccessToken', () => {
+    it('should issue a token accepted by parseAuthHeader', () => {
+      const token = signAccessToken({
+        userId: 'user-1',
+        email: 'john@example.com',
+        permissions: ['user/read'],
+      });
+
+      const payload = parseAuthHeader(`Bearer ${token}`);
+
+      expect(payload?.userId).to.equal('user-1');
+      expect(payload?.email).to.equal('john@example.com');
+      expect(payload?.permissions).to.deep.equal(['user/read']);
+      expect(payload?.exp).to.be.a('number');
+    });
+
+    it('should be readable by header helpers used in protectedProcedure', () => {
+      const token = signAccessToken({ userId: 'user-2', permissions: ['user/delete'] });
+      const headers = { authorization: `Bearer ${token}` };
+
+      expect(extractUserId(headers)).to.equal('user-2');
+      expect(extractPermissions(headers)).to.deep.equal(['user/delete']);
+    });
+  });
+
+  describe('parseAuthHeader', () => {
+    it('should reject token signed with another secret', () => {
+      const token = jwt.sign({ userId: 'user-1' }, 'another-secret');
+      expect(parseAuthHeader(`Bearer ${token}`)).to.be.null;
+    });
+
+    it('should reject malformed header', () => {
+      expect(parseAuthHeader('Token abc')).to.be.null;
+      expect(parseAuthHeader(undefined)).to.be.null;
+    });
+  });
+
+  describe('opaque tokens', () => {
+    it('should generate unique tokens', () => {
+      expect(generateOpaqueToken()).to.not.equal(generateOpaqueToken());
+    });
+
+    it('should hash tokens deterministically', () => {
+      const token = generateOpaqueToken();
+      expect(hashOpaqueToken(token)).to.equal(hashOpaqueToken(token));
+      expect(hashOpaqueToken(token)).to.not.equal(token);
+    });
+  });
+});
@@ -1,5 +1,9 @@
 import jwt from 'jsonwebtoken';
 import type { JwtPayload } from 'jsonwebtoken';
+import { getConfig } from '../config';
+import { getLogger } from '../logging';
+
+const logger = getLogger('JWT');
 
 /**
  * JWT Token payload structure
@@ -10,6 +14,34 @@ export interface TokenPayload extends JwtPayload {
   permissions?: string[];
 }
 
+/**
+ * Get secret used to sign and verify access tokens
+ * Production refuses to start without a real JWT_SECRET (see config.ts)
+ */
+function getJwtSecret(): string {
+  return getConfig().auth.jwtSecret;
+}
+
+/**
+ * Sign a short-lived access token
+ * The token is accepted by parseAuthHeader() and therefore by protectedProcedure
+ * @param payload - User ID, email and permissions carried by the token
+ * @returns Signed JWT
+ */
+export function signAccessToken(
+  payload: Pick<TokenPayload, 'userId' | 'email' | 'permissions'>
+): string {
+  return jwt.sign(
+    {
+      userId: payload.userId,
+      email: payload.email,
+      permissions: payload.permissions || [],
+    },
+    getJwtSecret(),
+    { expiresIn: getConfig().auth.accessTokenTtl as jwt.SignOptions['expiresIn'] }
+  );
+}
+
 /**
  * Extract and parse JWT token from Authorization header
  * @param authHeader - Authorization header value (e.g., "Bearer token")
@@ -24,33 +56,54 @@ export function parseAuthHeader(authHeader?: string): TokenPayload | null {
   const token = parts[1];
 
   try {
-    // Note: In production, verify with your secret
-    const secret = process.env.JWT_SECRET || 'your-secret-key';
-    const payload = jwt.verify(token, secret) as TokenPayload;
+    const payload = jwt.verify(token, getJwtSecret()) as TokenPayload;
     return payload;
   } catch (error) {
-    console.error('[JWT] Token verification failed:', error);
+    // Expired or forged tokens are expected, the caller gets UNAUTHORIZED
+    logger.debug('Token verification failed', { reason: (error as Error).message });
     return null;
   }
 }
 
 /**
- * Extract user ID from request headers
+ * Authenticated user of a request and how long it stays authenticated
+ */
+export interface Session {
+  userId: string;
+  /** Expiration of the access token (ms since epoch) */
+  expiresAt: number;
+}
+
+/**
+ * Extract session from the access token in request headers
  * @param headers - Request headers
- * @returns User ID or null if not authenticated
+ * @returns Session or null if not authenticated
  */
-export function extractUserId(headers?: Record<string, string | string[]>): string | null {
+export function extractSession(headers?: Record<string, string | string[]>): Session | null {
   if (!headers) return null;
 
   const authHeader = headers.authorization;
   if (typeof authHeader !== 'string') return null;
 
   const payload = parseAuthHeader(authHeader);
-  return payload?.userId || null;
+  if (!payload?.userId) return null;
+  // Tokens are always signed with expiresIn, a token without exp never expires
+  const expiresAt = payload.exp ? payload.exp * 1000 : Number.MAX_SAFE_INTEGER;
+  return { userId: payload.userId, expiresAt };
+}
+
+/**
+ * Extract user ID from request headers
+ * @param headers - Request headers
+ * @returns User ID or null if not authenticated
+ */
+export function extractUserId(headers?: Record<string, string | string[]>): string | null {
+  return extractSession(headers)?.userId ?? null;
 }
 
 /**
  * Extract permissions from token
+ * Informational only - protectedProcedure resolves permissions from the database
  * @param headers - Request headers
  * @returns Array of permissions or empty array
  */
@@ -0,0 +1,57 @@
+import { expect } from 'chai';
+import {
+  createPasswordSchema,
+  hashPassword,
+  passwordPolicySchema,
+  verifyPassword,
+} from './password';
+
+/**
+ * Unit tests for password hashing and password policy
+ */
+describe('Password', () => {
+  describe('hashPassword / verifyPassword', () => {
+    it('should verify correct password', async () => {
+      const hash = await hashPassword('correct horse battery staple');
+
+      expect(hash).to.match(/^scrypt\$/);
+      expect(await verifyPassword('correct horse battery staple', hash)).to.be.true;
+      expect(await verifyPassword('wrong password', hash)).to.be.false;
+    });
+
+    it('should use random salt', async () => {
+      const hash1 = await hashPassword('same password');
+      const hash2 = await hashPassword('same password');
+
+      expect(hash1).to.not.equal(hash2);
+    });
+
+    it('should reject malformed hash', async () => {
+      expect(await verifyPassword('password', 'not-a-hash')).to.be.false;
+    });
+  });
+
+  describe('password policy', () => {
+    it('should use defaults when nothing is configured', () => {
+      const policy = passwordPolicySchema.parse({});
+
+      expect(policy.minLength).to.equal(12);
+      expect(policy.requireDigit).to.be.false;
+    });
+
+    it('should reject invalid policy', () => {
+      expect(() => passwordPolicySchema.parse({ minLength: 4 })).to.throw();
+      expect(() => passwordPolicySchema.parse({ minLength: 16, maxLength: 12 })).to.throw();
+    });
+
+    it('should validate passwords against policy', () => {
+      const schema = createPasswordSchema(
+        passwordPolicySchema.parse({ minLength: 10, requireDigit: true, requireSymbol: true })
+      );
+
+      expect(schema.safeParse('short').success).to.be.false;
+      expect(schema.safeParse('longenough!').success).to.be.false;
+      expect(schema.safeParse('longenough1!').success).to.be.true;
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import type { ScryptOptions } from 'crypto';
+import { z } from 'zod';
+
+/**
+ * Password hashing and password policy
+ *
+ * Hashes use Node's built-in scrypt (memory-hard KDF) with a random salt.
+ * Stored format: scrypt$<N>$<r>$<p>$<salt base64>$<hash base64>
+ * Parameters are stored with the hash, so they can be raised later
+ * without invalidating existing passwords.
+ */
+
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+/**
+ * Run scrypt as a promise
+ */
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  options: ScryptOptions
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    // maxmem must fit 128 * N * r bytes
+    const maxmem = 256 * (options.N || 0) * (options.r || 0);
+    scrypt(password, salt, keyLength, { ...options, maxmem }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+/**
+ * Hash a password for storage
+ * @param password - Plain text password
+ * @returns Encoded hash including salt and parameters
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, KEY_LENGTH, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+/**
+ * Verify password against stored hash (constant time comparison)
+ * @param password - Plain text password
+ * @param storedHash - Hash created by hashPassword()
+ * @returns True if password matches
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const parts = storedHash.split('$');
+  if (parts.length !== 6 || parts[0] !== 'scrypt') return false;
+
+  const [, N, r, p, salt, hash] = parts;
+  const expected = Buffer.from(hash, 'base64');
+  const key = await deriveKey(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+/**
+ * Password policy configuration, from PASSWORD_* variables (see config.ts)
+ * Defaults follow NIST guidance (length over composition rules)
+ */
+export const passwordPolicySchema = z.object({
+  minLength: z.coerce.number().int().min(8).default(12),
+  maxLength: z.coerce.number().int().max(1024).default(128),
+  requireUppercase: z.boolean().default(false),
+  requireLowercase: z.boolean().default(false),
+  requireDigit: z.boolean().default(false),
+  requireSymbol: z.boolean().default(false),
+}).refine((policy) => policy.maxLength >= policy.minLength, {
+  message: 'maxLength must be greater than or equal to minLength',
+  path: ['maxLength'],
+});
+
+export type PasswordPolicy = z.infer<typeof passwordPolicySchema>;
+
+/**
+ * Create zod schema validating passwords against a policy
+ * @param policy - Password policy
+ * @returns Schema usable in services and tRPC inputs
+ */
+export function createPasswordSchema(policy: PasswordPolicy) {
+  return z
+    .string()
+    .min(policy.minLength, `Password must be at least ${policy.minLength} characters long`)
+    .max(policy.maxLength, `Password must be at most ${policy.maxLength} characters long`)
+    .refine((value) => !policy.requireUppercase || /[A-Z]/.test(value), {
+      message: 'Password must contain an uppercase letter',
+    })
+    .refine((value) => !policy.requireLowercase || /[a-z]/.test(value), {
+      message: 'Password must contain a lowercase letter',
+    })
+    .refine((value) => !policy.requireDigit || /[0-9]/.test(value), {
+      message: 'Password must contain a digit',
+    })
+    .refine((value) => !policy.requireSymbol || /[^A-Za-z0-9]/.test(value), {
+      message: 'Password must contain a symbol',
+    });
+}
@@ -0,0 +1,38 @@
+import type { AnyRouter } from '@trpc/server';
+import type { ProcedureMeta } from '../trpc';
+import type { PermissionRequirement } from './permissions';
+
+/**
+ * Row of the permission matrix
+ */
+export interface PermissionMatrixEntry {
+  path: string;
+  type: 'query' | 'mutation' | 'subscription';
+  authenticated: boolean;
+  permissions: PermissionRequirement | null;
+}
+
+/**
+ * Build permission matrix of a router from procedure metadata
+ * Lists every procedure with its authentication and permission requirements
+ *
+ * Usage:
+ *   import { appRouter } from '../routers/_app';
+ *   console.table(getPermissionMatrix(appRouter));
+ *
+ * @param appRouter - Router to introspect (usually appRouter)
+ * @returns Entries sorted by procedure path
+ */
+export function getPermissionMatrix(appRouter: AnyRouter): PermissionMatrixEntry[] {
+  return Object.entries(appRouter._def.procedures)
+    .map(([path, procedure]) => {
+      const def = (procedure as { _def: { type: PermissionMatrixEntry['type']; meta?: ProcedureMeta } })._def;
+      return {
+        path,
+        type: def.type,
+        authenticated: !!def.meta?.authenticated,
+        permissions: def.meta?.permissions ?? null,
+      };
+    })
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,149 @@
+import { expect } from 'chai';
+import {
+  createPermissionResolver,
+  createsInheritanceCycle,
+  permissionCovers,
+  resolveEffectivePermissions,
+  satisfiesRequirement,
+  ungrantablePermissions,
+} from './permissions';
+
+/**
+ * Unit tests for permission resolution
+ */
+describe('Permissions', () => {
+  const roles = [
+    { id: 'viewer', parentId: null, permissions: ['user/read'] },
+    { id: 'editor', parentId: 'viewer', permissions: ['user/write'] },
+    { id: 'admin', parentId: 'editor', permissions: ['user/delete', 'role/write'] },
+    { id: 'auditor', parentId: null, permissions: ['audit/read'] },
+  ];
+
+  describe('resolveEffectivePermissions', () => {
+    it('should include permissions of inherited roles', () => {
+      const permissions = resolveEffectivePermissions([], ['admin'], roles);
+
+      expect(permissions).to.deep.equal(['role/write', 'user/delete', 'user/read', 'user/write']);
+    });
+
+    it('should merge direct permissions and multiple roles', () => {
+      const permissions = resolveEffectivePermissions(['user/create'], ['viewer', 'auditor'], roles);
+
+      expect(permissions).to.deep.equal(['audit/read', 'user/create', 'user/read']);
+    });
+
+    it('should ignore unknown roles and cycles', () => {
+      const cyclic = [
+        { id: 'a', parentId: 'b', permissions: ['a'] },
+        { id: 'b', parentId: 'a', permissions: ['b'] },
+      ];
+
+      expect(resolveEffectivePermissions([], ['missing'], roles)).to.deep.equal([]);
+      expect(resolveEffectivePermissions([], ['a'], cyclic)).to.deep.equal(['a', 'b']);
+    });
+  });
+
+  describe('createsInheritanceCycle', () => {
+    it('should detect cycles', () => {
+      expect(createsInheritanceCycle('viewer', 'admin', roles)).to.be.true;
+      expect(createsInheritanceCycle('viewer', 'viewer', roles)).to.be.true;
+    });
+
+    it('should allow valid parent', () => {
+      expect(createsInheritanceCycle('auditor', 'viewer', roles)).to.be.false;
+    });
+  });
+
+  describe('createPermissionResolver', () => {
+    it('should load permissions once per user', async () => {
+      let calls = 0;
+      const resolve = createPermissionResolver(async (userId) => {
+        calls++;
+        return [`${userId}/read`];
+      });
+
+      await resolve('user-1');
+      const permissions = await resolve('user-1');
+
+      expect(permissions).to.deep.equal(['user-1/read']);
+      expect(calls).to.equal(1);
+    });
+
+    it('should not cache failures', async () => {
+      let calls = 0;
+      const resolve = createPermissionResolver(async () => {
+        calls++;
+        if (calls === 1) throw new Error('Database unavailable');
+        return ['user/read'];
+      });
+
+      try {
+        await resolve('user-1');
+        expect.fail('Should throw');
+      } catch (error) {
+        expect((error as Error).message).to.equal('Database unavailable');
+      }
+
+      expect(await resolve('user-1')).to.deep.equal(['user/read']);
+    });
+  });
+
+  describe('permissionCovers', () => {
+    it('should match exact permission', () => {
+      expect(permissionCovers('user/delete', 'user/delete')).to.be.true;
+      expect(permissionCovers('user/delete', 'user/read')).to.be.false;
+    });
+
+    it('should support trailing wildcard', () => {
+      expect(permissionCovers('*', 'user/delete')).to.be.true;
+      expect(permissionCovers('user/*', 'user/delete')).to.be.true;
+      expect(permissionCovers('user/*', 'user/*')).to.be.true;
+      expect(permissionCovers('user/*', 'user')).to.be.false;
+      expect(permissionCovers('user/*', 'role/read')).to.be.false;
+    });
+
+    it('should support wildcard segment in the middle', () => {
+      expect(permissionCovers('report/*/read', 'report/sales/read')).to.be.true;
+      expect(permissionCovers('report/*/read', 'report/sales/write')).to.be.false;
+      expect(permissionCovers('report/*/read', 'report/sales/read/all')).to.be.false;
+    });
+
+    it('should not treat wildcard in required permission as granted', () => {
+      expect(permissionCovers('user/read', 'user/*')).to.be.false;
+    });
+  });
+
+  describe('satisfiesRequirement', () => {
+    it('should require all permissions for allOf', () => {
+      const requirement = { allOf: ['user/read', 'user/write'] };
+
+      expect(satisfiesRequirement(['user/read'], requirement)).to.be.false;
+      expect(satisfiesRequirement(['user/read', 'user/write'], requirement)).to.be.true;
+      expect(satisfiesRequirement(['user/*'], requirement)).to.be.true;
+    });
+
+    it('should require one permission for anyOf', () => {
+      const requirement = { anyOf: ['user/delete', 'admin/users'] };
+
+      expect(satisfiesRequirement(['user/read'], requirement)).to.be.false;
+      expect(satisfiesRequirement(['admin/*'], requirement)).to.be.true;
+    });
+  });
+
+  describe('ungrantablePermissions', () => {
+    it('should allow granting only permissions covered by the own ones', () => {
+      const own = ['user/*', 'role/write'];
+
+      expect(ungrantablePermissions(own, ['user/read', 'user/*', 'role/write'])).to.be.empty;
+      expect(ungrantablePermissions(own, ['role/assign', 'audit/read'])).to.deep.equal([
+        'role/assign',
+        'audit/read',
+      ]);
+    });
+
+    it('should allow granting "*" only with "*"', () => {
+      expect(ungrantablePermissions(['user/*', 'role/*'], ['*'])).to.deep.equal(['*']);
+      expect(ungrantablePermissions(['*'], ['*', 'user/read'])).to.be.empty;
+    });
+  });
+});
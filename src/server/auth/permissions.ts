@@ -0,0 +1,167 @@
+/**
+ * Permission resolution helpers
+ *
+ * Effective permissions of a user are:
+ * - permissions granted directly to the user
+ * - permissions of every assigned role
+ * - permissions of all ancestors of those roles (role inheritance)
+ */
+
+/**
+ * Role as needed for permission resolution
+ */
+export interface RoleGraphNode {
+  id: string;
+  parentId: string | null;
+  permissions: string[];
+}
+
+/**
+ * Resolve effective permissions from direct grants and assigned roles
+ * Cycles in role inheritance are ignored
+ * @param directPermissions - Permissions granted directly to the user
+ * @param roleIds - IDs of roles assigned to the user
+ * @param roles - All roles (role graph)
+ * @returns Sorted list of unique permissions
+ */
+export function resolveEffectivePermissions(
+  directPermissions: string[],
+  roleIds: string[],
+  roles: RoleGraphNode[]
+): string[] {
+  const rolesById = new Map(roles.map((role) => [role.id, role]));
+  const permissions = new Set(directPermissions);
+  const visited = new Set<string>();
+
+  for (const roleId of roleIds) {
+    let role = rolesById.get(roleId);
+    while (role && !visited.has(role.id)) {
+      visited.add(role.id);
+      role.permissions.forEach((permission) => permissions.add(permission));
+      role = role.parentId ? rolesById.get(role.parentId) : undefined;
+    }
+  }
+
+  return Array.from(permissions).sort();
+}
+
+/**
+ * Check whether setting parentId on a role would create an inheritance cycle
+ * @param roleId - Role being updated
+ * @param parentId - New parent role
+ * @param roles - All roles (role graph)
+ */
+export function createsInheritanceCycle(
+  roleId: string,
+  parentId: string,
+  roles: RoleGraphNode[]
+): boolean {
+  const rolesById = new Map(roles.map((role) => [role.id, role]));
+  const visited = new Set<string>();
+
+  let current: string | null = parentId;
+  while (current && !visited.has(current)) {
+    if (current === roleId) return true;
+    visited.add(current);
+    current = rolesById.get(current)?.parentId ?? null;
+  }
+  return false;
+}
+
+/**
+ * Function resolving effective permissions of a user
+ */
+export type PermissionResolver = (userId: string) => Promise<string[]>;
+
+/**
+ * Create a resolver caching results for its lifetime
+ * A new resolver is created for every request (see createContext),
+ * so role changes take effect with the next request
+ * @param load - Loads effective permissions from the database
+ */
+export function createPermissionResolver(load: PermissionResolver): PermissionResolver {
+  const cache = new Map<string, Promise<string[]>>();
+
+  return (userId: string) => {
+    let permissions = cache.get(userId);
+    if (!permissions) {
+      permissions = load(userId);
+      cache.set(userId, permissions);
+      // Do not cache failures
+      permissions.catch(() => cache.delete(userId));
+    }
+    return permissions;
+  };
+}
+
+/**
+ * Permission requirement of a procedure
+ * - allOf: every permission is required
+ * - anyOf: at least one permission is required
+ */
+export type PermissionRequirement = { allOf: string[] } | { anyOf: string[] };
+
+/**
+ * Check whether a granted permission covers a required permission
+ * Wildcards are supported in granted permissions:
+ * - "*" grants everything
+ * - "user/*" grants "user/delete", "user/read", ... (and "user/*" itself)
+ * - a "*" segment in the middle matches exactly one segment
+ * @param granted - Permission the user has
+ * @param required - Permission being checked
+ */
+export function permissionCovers(granted: string, required: string): boolean {
+  if (granted === required) return true;
+
+  const grantedParts = granted.split('/');
+  const requiredParts = required.split('/');
+
+  for (let i = 0; i < grantedParts.length; i++) {
+    const part = grantedParts[i];
+    const isLast = i === grantedParts.length - 1;
+
+    if (part === '*' && isLast) return requiredParts.length > i;
+    if (i >= requiredParts.length) return false;
+    if (part !== '*' && part !== requiredParts[i]) return false;
+  }
+
+  return grantedParts.length === requiredParts.length;
+}
+
+/**
+ * Check whether granted permissions satisfy a requirement
+ * @param granted - Effective permissions of the user
+ * @param requirement - Procedure requirement
+ */
+export function satisfiesRequirement(
+  granted: string[],
+  requirement: PermissionRequirement
+): boolean {
+  const has = (required: string) =>
+    granted.some((permission) => permissionCovers(permission, required));
+
+  return 'allOf' in requirement ? requirement.allOf.every(has) : requirement.anyOf.some(has);
+}
+
+/**
+ * Permissions a caller can not grant (e.g. to a role)
+ * Only permissions covered by the caller's own can be granted, so "*" requires "*"
+ * and "user/*" requires "user/*" or "*"
+ * @param granted - Effective permissions of the caller
+ * @param requested - Permissions being granted
+ * @returns Permissions the caller does not hold, empty when all can be granted
+ */
+export function ungrantablePermissions(granted: string[], requested: string[]): string[] {
+  return requested.filter(
+    (permission) => !granted.some((own) => permissionCovers(own, permission))
+  );
+}
+
+/**
+ * Human readable description of a requirement (used in error messages)
+ */
+export function describeRequirement(requirement: PermissionRequirement): string {
+  return 'allOf' in requirement
+    ? `all of [${requirement.allOf.join(', ')}]`
+    : `any of [${requirement.anyOf.join(', ')}]`;
+}
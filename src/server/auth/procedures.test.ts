@@ -0,0 +1,119 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import { TRPCError } from '@trpc/server';
+import { router } from '../trpc';
+import { protectedProcedure, publicProcedure } from './procedures';
+import { signAccessToken } from './jwt';
+import { getPermissionMatrix } from './permission-matrix';
+import { requirePermissions } from './caller';
+import { createStubContext } from '../context.stub';
+
+/**
+ * Unit tests for declarative permission requirements on protectedProcedure
+ */
+describe('protectedProcedure', () => {
+  let resolverCalls = 0;
+
+  const testRouter = router({
+    open: publicProcedure.query(() => 'open'),
+    profile: protectedProcedure.query(({ ctx }) => ctx.userId),
+    remove: protectedProcedure.requires('user/delete').mutation(() => {
+      resolverCalls++;
+      return 'deleted';
+    }),
+    audit: protectedProcedure
+      .requires({ anyOf: ['audit/read', 'admin/audit'] })
+      .query(() => 'audit'),
+    // Permission checked inside the handler the same way services and DAOs check it
+    purge: protectedProcedure.mutation(async () => {
+      await requirePermissions(['user/purge']);
+      return 'purged';
+    }),
+  });
+
+  // Create a mock context with a signed token and stubbed permission resolver
+  function createMockContext(permissions: string[] | null) {
+    const token = signAccessToken({ userId: 'user-1' });
+    return createStubContext({
+      headers: permissions ? { authorization: `Bearer ${token}` } : {},
+      resolvePermissions: async () => permissions || [],
+    });
+  }
+
+  async function expectError(promise: Promise<unknown>, code: TRPCError['code']) {
+    try {
+      await promise;
+      expect.fail(`Should throw ${code}`);
+    } catch (error) {
+      expect(error).to.be.instanceof(TRPCError);
+      expect((error as TRPCError).code).to.equal(code);
+    }
+  }
+
+  beforeEach(() => {
+    resolverCalls = 0;
+  });
+
+  it('should reject request without token', async () => {
+    const caller = testRouter.createCaller(createMockContext(null));
+    await expectError(caller.profile(), 'UNAUTHORIZED');
+  });
+
+  it('should allow authenticated request without requirements', async () => {
+    const caller = testRouter.createCaller(createMockContext([]));
+    expect(await caller.profile()).to.equal('user-1');
+  });
+
+  it('should fail with FORBIDDEN before the resolver runs', async () => {
+    const caller = testRouter.createCaller(createMockContext(['user/read']));
+
+    await expectError(caller.remove(), 'FORBIDDEN');
+    expect(resolverCalls).to.equal(0);
+  });
+
+  it('should allow request with wildcard permission', async () => {
+    const caller = testRouter.createCaller(createMockContext(['user/*']));
+
+    expect(await caller.remove()).to.equal('deleted');
+    expect(resolverCalls).to.equal(1);
+  });
+
+  it('should let wildcard grants satisfy checks in services and DAOs', async () => {
+    expect(await testRouter.createCaller(createMockContext(['user/*'])).purge()).to.equal('purged');
+    expect(await testRouter.createCaller(createMockContext(['*'])).purge()).to.equal('purged');
+
+    await expectError(
+      testRouter.createCaller(createMockContext(['user/read', 'role/*'])).purge(),
+      'FORBIDDEN'
+    );
+  });
+
+  it('should support anyOf requirements', async () => {
+    const caller = testRouter.createCaller(createMockContext(['admin/audit']));
+    expect(await caller.audit()).to.equal('audit');
+  });
+
+  describe('getPermissionMatrix', () => {
+    it('should list requirements of all procedures', () => {
+      const matrix = getPermissionMatrix(testRouter);
+
+      expect(matrix).to.deep.equal([
+        {
+          path: 'audit',
+          type: 'query',
+          authenticated: true,
+          permissions: { anyOf: ['audit/read', 'admin/audit'] },
+        },
+        { path: 'open', type: 'query', authenticated: false, permissions: null },
+        { path: 'profile', type: 'query', authenticated: true, permissions: null },
+        { path: 'purge', type: 'mutation', authenticated: true, permissions: null },
+        {
+          path: 'remove',
+          type: 'mutation',
+          authenticated: true,
+          permissions: { allOf: ['user/delete'] },
+        },
+      ]);
+    });
+  });
+});
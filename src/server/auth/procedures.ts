@@ -1,57 +1,153 @@
-import { TRPCError } from '@trpc/server';
-import { PermissionsGuard } from '@david.uhlir/permissions-guard';
-import { t } from '../trpc';
-import { extractUserId, extractPermissions } from './jwt';
+import { baseProcedure } from '../trpc';
+import { DomainError, ForbiddenError, UnauthorizedError, toTRPCError } from '../errors';
+import { extractSession } from './jwt';
+import { bindLogContext } from '../logging';
+import { bindAuditActor } from '../audit';
+import { bindReadScopeUser } from '../database';
+import { withSpan } from '../tracing';
+import { runAsCaller } from './caller';
+import { watchSession, type SessionWatch } from './subscriptions';
+import {
+  describeRequirement,
+  satisfiesRequirement,
+  type PermissionRequirement,
+} from './permissions';
 
 /**
  * Public procedure - no authentication required
  */
-export const publicProcedure = t.procedure;
+export const publicProcedure = baseProcedure;
 
 /**
- * Protected procedure - requires valid JWT token
+ * Authenticated procedure (base of protectedProcedure)
  *
  * Wraps handler with PermissionsGuard context for permission checking.
- * Permissions are NOT validated here - validation happens in service/DAO methods
- * via PermissionsGuard.checkRequiredPermissions()
+ * Effective permissions are loaded from the database (roles + direct grants)
+ * via ctx.resolvePermissions, so revoking a role takes effect immediately -
+ * the permissions claim inside the token is NOT trusted.
  *
- * Usage in routes:
- *   protectedProcedure.query/mutation(async ({ ctx, input }) => {
- *     // Service/DAO will call PermissionsGuard.checkRequiredPermissions()
- *     return ctx.services.userDAO.delete(input.userId);
- *   })
+ * If the procedure declares required permissions in its metadata
+ * (see protectedProcedure.requires()), they are checked here and the call
+ * fails with FORBIDDEN before the resolver runs.
+ *
+ * Subscriptions authenticate with a ticket redeemed by createContext (see
+ * auth/subscriptions.ts). Their stream ends with UNAUTHORIZED when the access
+ * token expires and with FORBIDDEN when the user loses the required permissions -
+ * resolvers yield from sources bound to ctx.sessionSignal so they stop then.
  */
-export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
-  const userId = extractUserId(
-    ctx.headers ? Object.fromEntries(ctx.headers) : undefined
-  );
-  const permissions = extractPermissions(
-    ctx.headers ? Object.fromEntries(ctx.headers) : undefined
-  );
+const authenticatedProcedure = baseProcedure
+  .meta({ authenticated: true })
+  .use(async ({ ctx, meta, type, signal, next }) => {
+    // Span covers token verification and permission loading, the handler is not part of it
+    const { session, permissions } = await withSpan('middleware authenticate', async (span) => {
+      const session = ctx.subscriptionTicket ?? extractSession(ctx.headers);
+
+      if (!session) {
+        throw new UnauthorizedError('No authentication token provided', {
+          code: 'MISSING_TOKEN',
+        });
+      }
+      const { userId } = session;
+
+      bindLogContext({ userId });
+      bindAuditActor(userId);
+      span.setAttribute('user.id', userId);
+      const [permissions] = await Promise.all([
+        ctx.resolvePermissions(userId),
+        bindReadScopeUser(userId),
+      ]);
 
-  if (!userId) {
-    throw new TRPCError({
-      code: 'UNAUTHORIZED',
-      message: 'No authentication token provided',
+      if (meta?.permissions && !satisfiesRequirement(permissions, meta.permissions)) {
+        throw new ForbiddenError(
+          `Missing required permissions: ${describeRequirement(meta.permissions)}`,
+          { code: 'MISSING_PERMISSIONS' }
+        );
+      }
+      return { session, permissions };
     });
-  }
+    const { userId } = session;
+
+    const watch: SessionWatch | null =
+      type === 'subscription'
+        ? watchSession({
+            session,
+            requirement: meta?.permissions,
+            // Permissions resolved for the context are cached for the whole connection
+            loadPermissions: (id) => ctx.services.roles.getEffectivePermissions(id),
+            signal,
+          })
+        : null;
 
-  // Wrap handler execution with PermissionsGuard context
-  // This sets up async_local_storage so permissions are available
-  // to all service/DAO methods automatically
-  return PermissionsGuard.runWithPermissions(
-    permissions,
-    userId,
-    () =>
+    // Wrap handler execution with PermissionsGuard context
+    // This sets up async_local_storage so permissions are available
+    // to all service/DAO methods automatically
+    const result = await runAsCaller({ userId, permissions }, () =>
       next({
         ctx: {
           ...ctx,
           userId,
           permissions,
+          session,
+          sessionSignal: watch?.signal ?? signal ?? new AbortController().signal,
         },
       })
-  );
-});
+    );
+    if (!watch) {
+      return result;
+    }
+    if (!result.ok) {
+      watch.stop();
+      return result;
+    }
+    return { ...result, data: endWithSession(result.data as AsyncIterable<unknown>, watch) };
+  });
+
+/**
+ * Stream of a subscription ending with the error that ended its session
+ * (a disconnected client just ends it)
+ */
+async function* endWithSession<T>(stream: AsyncIterable<T>, watch: SessionWatch) {
+  try {
+    yield* stream;
+    const reason = watch.signal.reason;
+    if (reason instanceof DomainError) {
+      throw toTRPCError(reason);
+    }
+  } finally {
+    watch.stop();
+  }
+}
+
+/**
+ * Declare permissions required by a procedure
+ * - requires('user/read', 'user/write') - all of the permissions
+ * - requires({ anyOf: ['user/read', 'admin/*'] }) - at least one of them
+ * - requires({ allOf: [...] }) - explicit form of the first variant
+ * Wildcards in granted permissions (e.g. 'user/*') are supported
+ */
+function requires(
+  ...args: [PermissionRequirement] | string[]
+): typeof authenticatedProcedure {
+  const [first] = args;
+  const requirement: PermissionRequirement =
+    typeof first === 'object' ? first : { allOf: args as string[] };
+
+  return authenticatedProcedure.meta({ permissions: requirement });
+}
+
+/**
+ * Protected procedure - requires valid JWT token
+ *
+ * Permissions are validated either declaratively on the route via .requires()
+ * or in service/DAO methods via requirePermissions() (auth/caller.ts)
+ *
+ * Usage in routes:
+ *   protectedProcedure.requires('user/delete').mutation(async ({ ctx, input }) => {
+ *     // FORBIDDEN is thrown before this runs if 'user/delete' is missing
+ *     return ctx.services.userDAO.delete(input.userId);
+ *   })
+ */
+export const protectedProcedure = Object.assign(authenticatedProcedure, { requires });
 
 /**
  * Create a permission context helper
@@ -65,5 +161,5 @@ export async function withPermissions<T>(
   permissions: string[],
   callback: () => Promise<T>
 ): Promise<T> {
-  return PermissionsGuard.runWithPermissions(permissions, userId, callback);
+  return runAsCaller({ userId, permissions }, callback);
 }
@@ -0,0 +1,151 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import { TRPCError } from '@trpc/server';
+import { router } from '../trpc';
+import { createStubContext } from '../context.stub';
+import { ForbiddenError, UnauthorizedError, getErrorCode } from '../errors';
+import { setLogSink } from '../logging';
+import { iterateChannel } from '../pubsub';
+import { protectedProcedure } from './procedures';
+import {
+  MemorySubscriptionTicketStore,
+  issueSubscriptionTicket,
+  redeemSubscriptionTicket,
+  setSubscriptionTicketStore,
+  watchSession,
+} from './subscriptions';
+
+/**
+ * Unit tests for subscription tickets and sessions of running subscriptions
+ */
+describe('Subscriptions', () => {
+  const session = () => ({ userId: 'user-1', expiresAt: Date.now() + 60_000 });
+
+  const aborted = (signal: AbortSignal) =>
+    new Promise<unknown>((resolve) =>
+      signal.addEventListener('abort', () => resolve(signal.reason), { once: true })
+    );
+
+  beforeEach(() => {
+    setLogSink(() => undefined);
+    setSubscriptionTicketStore(new MemorySubscriptionTicketStore());
+  });
+
+  afterEach(() => {
+    setSubscriptionTicketStore(null);
+    setLogSink();
+  });
+
+  describe('tickets', () => {
+    it('should redeem a ticket only once', async () => {
+      const { ticket } = await issueSubscriptionTicket(session());
+
+      expect(await redeemSubscriptionTicket(ticket)).to.include({ userId: 'user-1' });
+      expect(await redeemSubscriptionTicket(ticket)).to.be.null;
+      expect(await redeemSubscriptionTicket(undefined)).to.be.null;
+    });
+
+    it('should expire tickets not redeemed in time', () => {
+      let now = 0;
+      const store = new MemorySubscriptionTicketStore(() => now);
+      store.saveSync('first', session(), 1000);
+      store.saveSync('second', session(), 1000);
+
+      now = 1000;
+      expect(store.takeSync('first')).to.be.null;
+      store.saveSync('third', session(), 1000);
+      expect(store.size).to.equal(1);
+    });
+
+    it('should not outlive the access token', async () => {
+      const { expiresAt } = await issueSubscriptionTicket({
+        userId: 'user-1',
+        expiresAt: Date.now() + 100,
+      });
+      expect(expiresAt.getTime()).to.be.at.most(Date.now() + 100);
+
+      try {
+        await issueSubscriptionTicket({ userId: 'user-1', expiresAt: Date.now() - 1 });
+        expect.fail('Should throw');
+      } catch (error) {
+        expect(error).to.be.instanceof(UnauthorizedError);
+      }
+    });
+  });
+
+  describe('watchSession', () => {
+    it('should end when the access token expires', async () => {
+      const watch = watchSession({
+        session: { userId: 'user-1', expiresAt: Date.now() + 20 },
+        loadPermissions: async () => ['*'],
+      });
+
+      const reason = await aborted(watch.signal);
+      expect(reason).to.be.instanceof(UnauthorizedError);
+      expect((reason as UnauthorizedError).code).to.equal('SESSION_EXPIRED');
+    });
+
+    it('should end when the required permissions are revoked', async () => {
+      let permissions = ['user/read'];
+      const watch = watchSession({
+        session: session(),
+        requirement: { allOf: ['user/read'] },
+        loadPermissions: async () => permissions,
+        recheckMs: 10,
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(watch.signal.aborted).to.be.false;
+      permissions = [];
+
+      const reason = await aborted(watch.signal);
+      expect(reason).to.be.instanceof(ForbiddenError);
+      expect((reason as ForbiddenError).code).to.equal('MISSING_PERMISSIONS');
+    });
+
+    it('should end with the request', () => {
+      const request = new AbortController();
+      const watch = watchSession({
+        session: session(),
+        loadPermissions: async () => [],
+        signal: request.signal,
+      });
+
+      request.abort();
+
+      expect(watch.signal.aborted).to.be.true;
+    });
+  });
+
+  describe('protectedProcedure', () => {
+    const testRouter = router({
+      changes: protectedProcedure
+        .requires('user/read')
+        .subscription(async function* ({ ctx }) {
+          yield* iterateChannel<string>('test.changes', { signal: ctx.sessionSignal });
+        }),
+    });
+
+    it('should authenticate with a ticket and end the stream on expiry', async () => {
+      const stream = await testRouter
+        .createCaller(
+          createStubContext({
+            subscriptionTicket: { userId: 'user-1', expiresAt: Date.now() + 20 },
+            resolvePermissions: async () => ['user/read'],
+          })
+        )
+        .changes();
+
+      try {
+        for await (const event of stream) {
+          expect.fail(`Unexpected event ${event}`);
+        }
+        expect.fail('Should throw');
+      } catch (error) {
+        expect(error).to.be.instanceof(TRPCError);
+        expect((error as TRPCError).code).to.equal('UNAUTHORIZED');
+        expect(getErrorCode(error as TRPCError)).to.equal('SESSION_EXPIRED');
+      }
+    });
+  });
+});
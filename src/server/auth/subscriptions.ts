@@ -0,0 +1,243 @@
+import cluster from 'cluster';
+import { registerPrimaryHandler, requestPrimary } from '../cluster/ipc';
+import { getConfig } from '../config';
+import { DomainError, ForbiddenError, UnauthorizedError } from '../errors';
+import { getLogger } from '../logging';
+import type { Session } from './jwt';
+import { satisfiesRequirement, type PermissionRequirement } from './permissions';
+import { generateOpaqueToken, hashOpaqueToken } from './tokens';
+
+const logger = getLogger('Subscriptions');
+
+/**
+ * Authentication of subscriptions (SSE)
+ *
+ * EventSource can not send headers and connectionParams end up in the query string
+ * of the stream URL (proxy and access logs), so the access token is never put there:
+ * 1. The client calls auth.subscriptionTicket with its access token
+ * 2. It opens the stream with `{ ticket }` in connectionParams
+ * 3. createContext redeems the ticket - valid for SUBSCRIPTION_TICKET_TTL_MS and only once,
+ *    a logged URL is useless
+ *
+ * A running stream ends when the access token the ticket was issued for expires, or when
+ * the user loses the permissions of the procedure (see watchSession).
+ */
+
+/**
+ * Storage of issued tickets, keyed by the ticket hash
+ * Implement for a shared backend (e.g. Redis) to redeem tickets on other machines
+ */
+export interface SubscriptionTicketStore {
+  save(ticketHash: string, session: Session, ttlMs: number): Promise<void>;
+  /**
+   * Remove the ticket and return its session, null if unknown or expired
+   */
+  take(ticketHash: string): Promise<Session | null>;
+}
+
+/**
+ * In-memory store - tickets are per process
+ * Use in single process mode, or in the primary behind ClusterSubscriptionTicketStore
+ */
+export class MemorySubscriptionTicketStore implements SubscriptionTicketStore {
+  private tickets: Map<string, { session: Session; expiresAt: number }> = new Map();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async save(ticketHash: string, session: Session, ttlMs: number): Promise<void> {
+    this.saveSync(ticketHash, session, ttlMs);
+  }
+
+  async take(ticketHash: string): Promise<Session | null> {
+    return this.takeSync(ticketHash);
+  }
+
+  saveSync(ticketHash: string, session: Session, ttlMs: number): void {
+    const now = this.now();
+    // Tickets live seconds, dropping expired ones here keeps the map small
+    for (const [hash, entry] of this.tickets) {
+      if (entry.expiresAt <= now) this.tickets.delete(hash);
+    }
+    this.tickets.set(ticketHash, { session, expiresAt: now + ttlMs });
+  }
+
+  takeSync(ticketHash: string): Session | null {
+    const entry = this.tickets.get(ticketHash);
+    this.tickets.delete(ticketHash);
+    return entry && entry.expiresAt > this.now() ? entry.session : null;
+  }
+
+  get size(): number {
+    return this.tickets.size;
+  }
+}
+
+const SAVE_METHOD = 'subscriptionTickets.save';
+const TAKE_METHOD = 'subscriptionTickets.take';
+
+/**
+ * Store shared by all cluster workers - a ticket issued by one worker is redeemed by another
+ * Tickets live in the primary process (see serveSubscriptionTickets), workers ask over IPC
+ */
+export class ClusterSubscriptionTicketStore implements SubscriptionTicketStore {
+  async save(ticketHash: string, session: Session, ttlMs: number): Promise<void> {
+    await requestPrimary(SAVE_METHOD, { ticketHash, session, ttlMs });
+  }
+
+  async take(ticketHash: string): Promise<Session | null> {
+    return requestPrimary<Session | null>(TAKE_METHOD, { ticketHash });
+  }
+}
+
+/**
+ * Serve subscription tickets to workers (call in the cluster primary)
+ */
+export function serveSubscriptionTickets(store = new MemorySubscriptionTicketStore()): void {
+  registerPrimaryHandler<{ ticketHash: string; session: Session; ttlMs: number }>(
+    SAVE_METHOD,
+    ({ ticketHash, session, ttlMs }) => store.saveSync(ticketHash, session, ttlMs)
+  );
+  registerPrimaryHandler<{ ticketHash: string }>(TAKE_METHOD, ({ ticketHash }) =>
+    store.takeSync(ticketHash)
+  );
+}
+
+let ticketStore: SubscriptionTicketStore | null = null;
+
+/**
+ * Shared across workers in cluster mode, in-memory otherwise
+ */
+export function getSubscriptionTicketStore(): SubscriptionTicketStore {
+  if (!ticketStore) {
+    ticketStore = cluster.isWorker
+      ? new ClusterSubscriptionTicketStore()
+      : new MemorySubscriptionTicketStore();
+  }
+  return ticketStore;
+}
+
+/**
+ * Replace the store, e.g. with a Redis backed one (tests: in-memory store)
+ */
+export function setSubscriptionTicketStore(store: SubscriptionTicketStore | null): void {
+  ticketStore = store;
+}
+
+/**
+ * Issue a ticket opening one subscription stream on behalf of the session
+ * @returns Raw ticket (only its hash is stored) and its expiration
+ */
+export async function issueSubscriptionTicket(
+  session: Session,
+  maxTtlMs = getConfig().auth.subscriptionTicketTtlMs
+): Promise<{ ticket: string; expiresAt: Date }> {
+  const now = Date.now();
+  const ttlMs = Math.min(maxTtlMs, session.expiresAt - now);
+  if (ttlMs <= 0) {
+    throw new UnauthorizedError('Access token expired', { code: 'SESSION_EXPIRED' });
+  }
+
+  const ticket = generateOpaqueToken();
+  await getSubscriptionTicketStore().save(hashOpaqueToken(ticket), session, ttlMs);
+  return { ticket, expiresAt: new Date(now + ttlMs) };
+}
+
+/**
+ * Redeem a ticket from connectionParams - the ticket can not be used again
+ * @returns Session the ticket was issued for, null if missing, unknown, used or expired
+ */
+export async function redeemSubscriptionTicket(ticket: unknown): Promise<Session | null> {
+  if (typeof ticket !== 'string' || !ticket) {
+    return null;
+  }
+  try {
+    const session = await getSubscriptionTicketStore().take(hashOpaqueToken(ticket));
+    return session && session.expiresAt > Date.now() ? session : null;
+  } catch (error) {
+    // Fails closed - the client gets UNAUTHORIZED and reconnects with a new ticket
+    logger.warn('Ticket store unavailable, refusing subscription', { error });
+    return null;
+  }
+}
+
+// Longest delay of setTimeout, later expirations are caught by the permission recheck
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Watch of the session of a running subscription
+ */
+export interface SessionWatch {
+  /** Aborts when the request signal does, the session expires or loses permissions */
+  signal: AbortSignal;
+  /** Stop timers once the stream is over */
+  stop(): void;
+}
+
+/**
+ * Watch the session of a subscription for its whole lifetime
+ * The abort reason is UnauthorizedError (SESSION_EXPIRED) or ForbiddenError
+ * (MISSING_PERMISSIONS) - the stream ends with it (see procedures.ts)
+ * @param options.loadPermissions - Uncached effective permissions of the user
+ * @param options.signal - Signal of the request, aborts when the client disconnects
+ */
+export function watchSession(options: {
+  session: Session;
+  requirement?: PermissionRequirement;
+  loadPermissions: (userId: string) => Promise<string[]>;
+  signal?: AbortSignal;
+  recheckMs?: number;
+}): SessionWatch {
+  const {
+    session,
+    requirement,
+    loadPermissions,
+    signal,
+    recheckMs = getConfig().auth.subscriptionRecheckMs,
+  } = options;
+  const controller = new AbortController();
+  const end = (reason: unknown) => {
+    if (controller.signal.aborted) return;
+    // Disconnected clients are not logged
+    if (reason instanceof DomainError) {
+      logger.info('Subscription session ended', { userId: session.userId, reason: reason.message });
+    }
+    controller.abort(reason);
+  };
+  const expire = () =>
+    end(new UnauthorizedError('Access token expired', { code: 'SESSION_EXPIRED' }));
+
+  const recheck = async () => {
+    if (Date.now() >= session.expiresAt) {
+      return expire();
+    }
+    if (!requirement) return;
+    try {
+      if (!satisfiesRequirement(await loadPermissions(session.userId), requirement)) {
+        end(new ForbiddenError('Permissions were revoked', { code: 'MISSING_PERMISSIONS' }));
+      }
+    } catch (error) {
+      // A stream must not outlive a check that can not be made
+      logger.warn('Permission recheck failed, ending subscription', { error });
+      end(new UnauthorizedError('Session could not be verified', { code: 'SESSION_EXPIRED' }));
+    }
+  };
+
+  const delayMs = session.expiresAt - Date.now();
+  const expiryTimer = delayMs <= MAX_TIMER_DELAY_MS ? setTimeout(expire, delayMs) : undefined;
+  const recheckTimer = setInterval(() => void recheck(), recheckMs);
+  expiryTimer?.unref();
+  recheckTimer.unref();
+
+  const onAbort = () => end(signal?.reason);
+  signal?.addEventListener('abort', onAbort);
+  if (signal?.aborted) onAbort();
+
+  const stop = () => {
+    clearTimeout(expiryTimer);
+    clearInterval(recheckTimer);
+    signal?.removeEventListener('abort', onAbort);
+  };
+  controller.signal.addEventListener('abort', stop);
+
+  return { signal: controller.signal, stop };
+}
@@ -0,0 +1,26 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Opaque token helpers (refresh tokens)
+ *
+ * Opaque tokens are random strings handed to the client once.
+ * Only their SHA-256 hash is persisted, so a database leak
+ * does not expose usable tokens.
+ */
+
+/**
+ * Generate a new random opaque token
+ * @returns URL-safe token string
+ */
+export function generateOpaqueToken(): string {
+  return randomBytes(48).toString('base64url');
+}
+
+/**
+ * Hash an opaque token for storage and lookup
+ * @param token - Raw token as received from the client
+ * @returns Hex encoded SHA-256 hash
+ */
+export function hashOpaqueToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,221 @@
+import { expect } from 'chai';
+import { setLogSink } from '../logging';
+import { LocalPubSub } from '../pubsub';
+import { Cache, setCache, skipCacheStore, type CacheStore } from './cache';
+import { Cached } from './cached';
+import { LruCache, type CacheEntry } from './lru';
+
+/**
+ * Unit tests for the cache of read results
+ */
+describe('Cache', () => {
+  const entry = (value: unknown, tags: string[] = [], ttlMs = 60_000): CacheEntry => ({
+    value,
+    tags,
+    expiresAt: Date.now() + ttlMs,
+  });
+
+  beforeEach(() => setLogSink(() => undefined));
+
+  afterEach(() => setLogSink());
+
+  describe('LruCache', () => {
+    it('should evict the least recently used entry', () => {
+      const lru = new LruCache(2);
+      lru.set('a', entry(1));
+      lru.set('b', entry(2));
+      lru.get('a');
+      lru.set('c', entry(3));
+
+      expect(lru.get('a')?.value).to.equal(1);
+      expect(lru.get('b')).to.be.undefined;
+      expect(lru.size).to.equal(2);
+    });
+
+    it('should drop expired entries', () => {
+      const lru = new LruCache(10);
+      lru.set('a', entry(1, [], 1000));
+
+      expect(lru.get('a', Date.now() + 999)?.value).to.equal(1);
+      expect(lru.get('a', Date.now() + 1000)).to.be.undefined;
+      expect(lru.size).to.equal(0);
+    });
+
+    it('should invalidate entries by tag', () => {
+      const lru = new LruCache(10);
+      lru.set('user-1', entry(1, ['users', 'user:1']));
+      lru.set('user-2', entry(2, ['users', 'user:2']));
+      lru.set('list', entry([1, 2], ['users']));
+
+      expect(lru.invalidateTags(['user:1'])).to.equal(1);
+      expect(lru.get('user-2')?.value).to.equal(2);
+      expect(lru.invalidateTags(['users'])).to.equal(2);
+      expect(lru.size).to.equal(0);
+    });
+  });
+
+  describe('Cache', () => {
+    let pubsub: LocalPubSub;
+    let loads: number;
+
+    const load = async () => ++loads;
+
+    beforeEach(() => {
+      pubsub = new LocalPubSub();
+      loads = 0;
+    });
+
+    it('should load once and serve later reads from the cache', async () => {
+      const cache = new Cache({ maxEntries: 10, defaultTtlMs: 60_000, pubsub });
+
+      expect(await cache.wrap('a', { tags: [] }, load)).to.equal(1);
+      expect(await cache.wrap('a', { tags: [] }, load)).to.equal(1);
+      expect(loads).to.equal(1);
+    });
+
+    it('should share one load between concurrent reads', async () => {
+      const cache = new Cache({ maxEntries: 10, defaultTtlMs: 60_000, pubsub });
+
+      const values = await Promise.all([1, 2, 3].map(() => cache.wrap('a', { tags: [] }, load)));
+
+      expect(values).to.deep.equal([1, 1, 1]);
+    });
+
+    it('should not cache failed loads', async () => {
+      const cache = new Cache({ maxEntries: 10, defaultTtlMs: 60_000, pubsub });
+      const failing = async () => {
+        throw new Error('Database down');
+      };
+
+      await cache.wrap('a', { tags: [] }, failing).catch(() => undefined);
+
+      expect(await cache.wrap('a', { tags: [] }, load)).to.equal(1);
+    });
+
+    it('should invalidate tags in every worker', async () => {
+      // Two workers connected by the same broker
+      const first = new Cache({ maxEntries: 10, defaultTtlMs: 60_000, pubsub });
+      const second = new Cache({ maxEntries: 10, defaultTtlMs: 60_000, pubsub });
+      await first.wrap('user:1', { tags: ['user:1'] }, load);
+      await second.wrap('user:1', { tags: ['user:1'] }, load);
+      await second.wrap('user:2', { tags: ['user:2'] }, load);
+
+      await first.invalidate(['user:1']);
+
+      expect(await first.wrap('user:1', { tags: ['user:1'] }, load)).to.equal(4);
+      expect(await second.wrap('user:1', { tags: ['user:1'] }, load)).to.equal(5);
+      expect(await second.wrap('user:2', { tags: ['user:2'] }, load)).to.equal(3);
+    });
+
+    it('should not store a load overlapping an invalidation', async () => {
+      const cache = new Cache({ maxEntries: 10, defaultTtlMs: 60_000, pubsub });
+      let release: () => void = () => undefined;
+      const slow = async () => {
+        await new Promise<void>((resolve) => (release = resolve));
+        return 'old';
+      };
+
+      const loading = cache.wrap('a', { tags: ['a'] }, slow);
+      await new Promise((resolve) => setImmediate(resolve));
+      await cache.invalidate(['a']);
+      release();
+
+      expect(await loading).to.equal('old');
+      expect(await cache.wrap('a', { tags: ['a'] }, async () => 'new')).to.equal('new');
+    });
+
+    it('should not store a load skipping the store', async () => {
+      const cache = new Cache({ maxEntries: 10, defaultTtlMs: 60_000, pubsub });
+      const fromReplica = async () => {
+        skipCacheStore();
+        return load();
+      };
+
+      expect(await cache.wrap('a', { tags: [] }, fromReplica)).to.equal(1);
+      expect(await cache.wrap('a', { tags: [] }, load)).to.equal(2);
+      expect(await cache.wrap('a', { tags: [] }, load)).to.equal(2);
+    });
+
+    it('should not store a load reading a skipped one', async () => {
+      const cache = new Cache({ maxEntries: 10, defaultTtlMs: 60_000, pubsub });
+      const fromReplica = async () => {
+        skipCacheStore();
+        return load();
+      };
+      const outer = () =>
+        cache.wrap('outer', { tags: [] }, () => cache.wrap('inner', { tags: [] }, fromReplica));
+
+      expect(await outer()).to.equal(1);
+      expect(await outer()).to.equal(2);
+    });
+
+    it('should use the shared store on a local miss and keep working when it fails', async () => {
+      const stored = new Map<string, CacheEntry>();
+      const invalidated: string[][] = [];
+      const shared: CacheStore = {
+        get: async (key) => stored.get(key),
+        set: async (key, value) => void stored.set(key, value),
+        invalidateTags: async (tags) => void invalidated.push(tags),
+      };
+      stored.set('a', entry('from shared'));
+      const cache = new Cache({ maxEntries: 10, defaultTtlMs: 60_000, shared, pubsub });
+
+      expect(await cache.wrap('a', { tags: [] }, load)).to.equal('from shared');
+      expect(await cache.wrap('b', { tags: ['b'] }, load)).to.equal(1);
+      expect(stored.get('b')?.tags).to.deep.equal(['b']);
+      await cache.invalidate(['b']);
+      expect(invalidated).to.deep.equal([['b']]);
+
+      const broken = new Cache({
+        maxEntries: 10,
+        defaultTtlMs: 60_000,
+        pubsub,
+        shared: {
+          get: async () => Promise.reject(new Error('Connection refused')),
+          set: async () => Promise.reject(new Error('Connection refused')),
+          invalidateTags: async () => Promise.reject(new Error('Connection refused')),
+        },
+      });
+      expect(await broken.wrap('a', { tags: [] }, load)).to.equal(2);
+      await broken.invalidate(['a']);
+    });
+  });
+
+  describe('@Cached', () => {
+    class UserStore {
+      loads = 0;
+
+      @Cached({ tags: (id: string) => [`user:${id}`] })
+      async findById(id: string) {
+        this.loads++;
+        return { id };
+      }
+    }
+
+    afterEach(() => setCache(null));
+
+    it('should cache results by arguments', async () => {
+      const cache = new Cache({ maxEntries: 10, defaultTtlMs: 60_000, pubsub: new LocalPubSub() });
+      setCache(cache);
+      const store = new UserStore();
+
+      await store.findById('1');
+      await store.findById('1');
+      await store.findById('2');
+      expect(store.loads).to.equal(2);
+
+      await cache.invalidate(['user:1']);
+      await store.findById('1');
+      expect(store.loads).to.equal(3);
+    });
+
+    it('should call the method when caching is disabled', async () => {
+      const store = new UserStore();
+
+      await store.findById('1');
+      await store.findById('1');
+
+      expect(store.loads).to.equal(2);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { getLogger } from '../logging';
+import { cacheRequests } from '../metrics/definitions';
+import { getPubSub, type PubSub } from '../pubsub';
+import { LruCache, type CacheEntry } from './lru';
+
+/**
+ * Two-level cache of read results with tag invalidation
+ *
+ * - local - in-memory LRU of the process, checked first
+ * - shared - optional backend shared by processes and machines (setSharedCacheStore),
+ *   checked on a local miss
+ *
+ * invalidate() removes entries of the tags from the shared store and, through the
+ * pub/sub broker, from the local LRU of every cluster worker. A load running while
+ * any invalidation happens is returned but not stored - it may have read old data.
+ * So is a load calling skipCacheStore(), e.g. one read from a lagging replica.
+ *
+ * Cached values are shared by callers - treat them as immutable.
+ *
+ * Usage:
+ *   const user = await cache.wrap(`user:${id}`, { tags: [`user:${id}`] }, () => load(id));
+ *   await cache.invalidate([`user:${id}`]);
+ */
+
+const logger = getLogger('Cache');
+
+/** Pub/sub channel of invalidated tags */
+const INVALIDATE_CHANNEL = 'cache.invalidate';
+
+/** Running load, its result is not stored once store is false */
+const loadScope = new AsyncLocalStorage<{ store: boolean }>();
+
+/**
+ * Return the result of the running load without storing it
+ * For data that may be older than the last invalidation, e.g. read from a replica
+ * No-op outside of a load
+ */
+export function skipCacheStore(): void {
+  const scope = loadScope.getStore();
+  if (scope) {
+    scope.store = false;
+  }
+}
+
+/**
+ * Cache backend shared by processes, e.g. Redis
+ * Must serialize values so they come back as stored (Dates included)
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  invalidateTags(tags: string[]): Promise<void>;
+}
+
+export interface CacheOptions {
+  /** Entries of the local LRU */
+  maxEntries: number;
+  /** TTL of entries cached without their own */
+  defaultTtlMs: number;
+  /** Shared backend, local LRU only when not set */
+  shared?: CacheStore | null;
+  /** Broker delivering invalidations to other workers, defaults to getPubSub() */
+  pubsub?: PubSub;
+}
+
+export interface WrapOptions {
+  /** Tags to invalidate the entry by */
+  tags: string[];
+  /** Defaults to CacheOptions.defaultTtlMs */
+  ttlMs?: number;
+  /** Name of the cached read in metrics, e.g. 'UserDAO.findById' */
+  name?: string;
+}
+
+export class Cache {
+  private readonly local: LruCache;
+  private readonly shared: CacheStore | null;
+  private readonly pubsub: PubSub;
+  /** Loads in progress by key, concurrent reads of a key share one load */
+  private readonly loading = new Map<string, Promise<unknown>>();
+  /** Incremented by every invalidation, loads overlapping one are not stored */
+  private generation = 0;
+  private readonly stopListening: () => void;
+
+  constructor(private readonly options: CacheOptions) {
+    this.local = new LruCache(options.maxEntries);
+    this.shared = options.shared ?? null;
+    this.pubsub = options.pubsub ?? getPubSub();
+    this.stopListening = this.pubsub.subscribe<string[]>(INVALIDATE_CHANNEL, (tags) =>
+      this.invalidateLocal(tags)
+    );
+  }
+
+  /**
+   * Cached value of a key, load and store it on a miss
+   * @param load - Reads the value, its errors are not cached
+   */
+  async wrap<T>(key: string, options: WrapOptions, load: () => Promise<T>): Promise<T> {
+    const name = options.name ?? 'default';
+    const entry = this.local.get(key);
+    if (entry) {
+      cacheRequests.inc({ name, result: 'hit' });
+      return entry.value as T;
+    }
+
+    const pending = this.loading.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+    const loading: Promise<T> = this.load(key, options, load).finally(() => {
+      if (this.loading.get(key) === loading) {
+        this.loading.delete(key);
+      }
+    });
+    this.loading.set(key, loading);
+    return loading;
+  }
+
+  /**
+   * Remove entries of the tags in every worker and in the shared store
+   * Never fails - errors of the shared store are logged
+   */
+  async invalidate(tags: string[]): Promise<void> {
+    // Delivered to this process right away, to other workers through the primary
+    this.pubsub.publish(INVALIDATE_CHANNEL, tags);
+    try {
+      await this.shared?.invalidateTags(tags);
+    } catch (error) {
+      logger.error('Shared cache invalidation failed', { tags, error });
+    }
+  }
+
+  /**
+   * Stop receiving invalidations of other workers
+   */
+  close(): void {
+    this.stopListening();
+    this.local.clear();
+  }
+
+  private async load<T>(key: string, options: WrapOptions, load: () => Promise<T>): Promise<T> {
+    const name = options.name ?? 'default';
+    const generation = this.generation;
+
+    const shared = await this.shared?.get(key).catch((error) => {
+      logger.warn('Shared cache read failed', { key, error });
+      return undefined;
+    });
+    if (shared && shared.expiresAt > Date.now()) {
+      cacheRequests.inc({ name, result: 'hit' });
+      if (generation === this.generation) {
+        this.local.set(key, shared);
+      }
+      return shared.value as T;
+    }
+
+    cacheRequests.inc({ name, result: 'miss' });
+    const scope = { store: true };
+    const value = await loadScope.run(scope, load);
+    if (!scope.store) {
+      // A cached read loading this one must not store it either
+      skipCacheStore();
+      return value;
+    }
+    if (generation !== this.generation) {
+      return value;
+    }
+    const entry: CacheEntry<T> = {
+      value,
+      tags: options.tags,
+      expiresAt: Date.now() + (options.ttlMs ?? this.options.defaultTtlMs),
+    };
+    this.local.set(key, entry);
+    await this.shared?.set(key, entry).catch((error) => {
+      logger.warn('Shared cache write failed', { key, error });
+    });
+    return value;
+  }
+
+  private invalidateLocal(tags: string[]): void {
+    this.generation++;
+    // Loads in progress may return old data, the next read starts a new one
+    this.loading.clear();
+    const removed = this.local.invalidateTags(tags);
+    logger.debug('Cache invalidated', { tags, removed });
+  }
+}
+
+let sharedStore: CacheStore | null = null;
+let defaultCache: Cache | null = null;
+
+/**
+ * Shared backend used by the cache created by CacheService, e.g. a Redis backed one
+ * Set before services are initialized
+ */
+export function setSharedCacheStore(store: CacheStore | null): void {
+  sharedStore = store;
+}
+
+export function getSharedCacheStore(): CacheStore | null {
+  return sharedStore;
+}
+
+/**
+ * Cache of the process used by @Cached, null when caching is disabled
+ */
+export function getCache(): Cache | null {
+  return defaultCache;
+}
+
+/**
+ * Set cache of the process (CacheService), null disables @Cached
+ */
+export function setCache(cache: Cache | null): void {
+  defaultCache = cache;
+}
@@ -0,0 +1,45 @@
+import { getTransaction } from '../database';
+import { getCache } from './cache';
+
+export interface CachedOptions<A extends unknown[]> {
+  /** Tags of the result, invalidated by the methods changing the data */
+  tags: (...args: A) => string[];
+  /** Defaults to CACHE_TTL_MS */
+  ttlMs?: number;
+}
+
+/**
+ * Cache results of a read method by its arguments (see cache.ts)
+ * Calls go straight to the method when caching is disabled and inside a
+ * transaction - it may read its own uncommitted changes.
+ * Arguments must be JSON serializable, they are part of the key.
+ *
+ * Usage:
+ *   @Cached({ tags: (id: string) => [`user:${id}`] })
+ *   async findById(id: string) { ... }
+ *
+ *   // in the methods changing users
+ *   await this.cacheService.invalidate([`user:${id}`]);
+ */
+export function Cached<A extends unknown[]>(options: CachedOptions<A>) {
+  return <R>(
+    target: object,
+    key: string,
+    descriptor: TypedPropertyDescriptor<(...args: A) => Promise<R>>
+  ): void => {
+    const method = descriptor.value!;
+    const name = `${target.constructor.name}.${key}`;
+
+    descriptor.value = function (this: unknown, ...args: A): Promise<R> {
+      const cache = getCache();
+      if (!cache || getTransaction()) {
+        return method.apply(this, args);
+      }
+      return cache.wrap(
+        `${name}:${JSON.stringify(args)}`,
+        { name, tags: options.tags(...args), ttlMs: options.ttlMs },
+        () => method.apply(this, args)
+      );
+    };
+  };
+}
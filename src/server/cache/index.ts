@@ -0,0 +1,13 @@
+export {
+  Cache,
+  getCache,
+  getSharedCacheStore,
+  setCache,
+  setSharedCacheStore,
+  skipCacheStore,
+} from './cache';
+export type { CacheOptions, CacheStore, WrapOptions } from './cache';
+export { Cached } from './cached';
+export type { CachedOptions } from './cached';
+export { LruCache } from './lru';
+export type { CacheEntry } from './lru';
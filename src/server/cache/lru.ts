@@ -0,0 +1,96 @@
+/**
+ * Cached value with its expiry and invalidation tags
+ */
+export interface CacheEntry<T = unknown> {
+  value: T;
+  /** Epoch milliseconds */
+  expiresAt: number;
+  tags: string[];
+}
+
+/**
+ * In-memory LRU of one process
+ * Evicts the least recently used entry beyond maxEntries, expired entries
+ * are dropped when read. Keeps an index of keys by tag for invalidation.
+ */
+export class LruCache {
+  /** Map keeps insertion order - re-inserting on read moves the key to the end */
+  private entries = new Map<string, CacheEntry>();
+  private keysByTag = new Map<string, Set<string>>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Entry of a key unless expired, marks it as recently used
+   */
+  get(key: string, now = Date.now()): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= now) {
+      this.unindex(key, entry);
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.delete(key);
+    this.entries.set(key, entry);
+    for (const tag of entry.tags) {
+      const keys = this.keysByTag.get(tag) ?? new Set();
+      keys.add(key);
+      this.keysByTag.set(tag, keys);
+    }
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.unindex(key, entry);
+    }
+  }
+
+  /**
+   * Remove entries carrying any of the tags
+   * @returns Number of removed entries
+   */
+  invalidateTags(tags: string[]): number {
+    let removed = 0;
+    for (const tag of tags) {
+      for (const key of this.keysByTag.get(tag) ?? []) {
+        this.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.keysByTag.clear();
+  }
+
+  private unindex(key: string, entry: CacheEntry): void {
+    for (const tag of entry.tags) {
+      const keys = this.keysByTag.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.keysByTag.delete(tag);
+      }
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import cluster from 'cluster';
+import type { Server } from 'http';
+import { initializeServices } from '../init';
+import { gracefulShutdown, onShutdownSignal, trackInFlightRequests } from '../shutdown';
+import { notifyPrimary, requestPrimary } from './ipc';
+import { ClusterSupervisor, type ClusterStatus } from './supervisor';
+import { serveRateLimitStore } from '../rate-limit/store';
+import { serveMetricsAggregation, serveMetricsSnapshot } from '../metrics';
+import { servePubSub } from '../pubsub';
+import { serveSubscriptionTickets } from '../auth/subscriptions';
+import { serveRecentWrites } from '../database';
+import { getConfig } from '../config';
+import { getLogger } from '../logging';
+import { getWorkerId } from './worker';
+
+export { getWorkerId };
+export type { ClusterStatus, WorkerStatus } from './supervisor';
+
+/**
+ * Cluster support for running the backend in multi-process mode
+ * Each worker process gets its own instance of services
+ * Master process supervises workers (see supervisor.ts)
+ *
+ * Usage:
+ *   import { startCluster } from '@/server/cluster';
+ *   startCluster(app);
+ */
+
+/**
+ * Start application in cluster mode
+ * Each worker gets its own event loop and service instances
+ * Safe for stateless operations and connections per-worker
+ * @param startServer - Function to start the server (passed the cluster id/port), returns the listening server
+ */
+export async function startCluster(
+  startServer: (workerId: number) => Promise<Server>
+): Promise<void> {
+  const numWorkers = getConfig().cluster.workers;
+
+  if (cluster.isPrimary) {
+    const supervisor = new ClusterSupervisor(numWorkers);
+    supervisor.start();
+
+    // Shared state of workers lives in the primary
+    serveRateLimitStore();
+    // Events published in a worker reach subscriptions in all workers
+    servePubSub();
+    // Ticket issued by one worker opens a subscription stream on another
+    serveSubscriptionTickets();
+    // Reads of a user stay on the primary after a write, whichever worker serves them
+    serveRecentWrites();
+    // Single /metrics scrape returns metrics of all workers
+    serveMetricsAggregation();
+
+    // Handle master shutdown - workers drain their requests, the master waits for them
+    onShutdownSignal('Master', () => supervisor.stop());
+  } else {
+    // Worker process
+    const workerId = getWorkerId();
+    const logger = getLogger('Worker');
+
+    // Primary collects metrics of this worker for /metrics
+    serveMetricsSnapshot();
+
+    logger.info('Initializing services...');
+    await initializeServices();
+
+    logger.info('Starting server...');
+    const server = await startServer(workerId);
+    const inFlight = trackInFlightRequests(server);
+
+    // Handle worker shutdown - drain in-flight requests, then shut down services
+    onShutdownSignal('Worker', () => gracefulShutdown(server, inFlight));
+
+    // Primary waits for this before draining the old worker in a rolling restart
+    notifyPrimary('ready');
+  }
+}
+
+/**
+ * Check if running in cluster mode
+ */
+export function isClusterMode(): boolean {
+  return getConfig().cluster.enabled;
+}
+
+/**
+ * Status of the cluster, asked from the primary over IPC
+ * Outside of cluster mode describes this single process
+ */
+export async function getClusterStatus(): Promise<ClusterStatus> {
+  if (cluster.isWorker) {
+    return requestPrimary<ClusterStatus>('cluster.status');
+  }
+
+  const uptimeSeconds = Math.round(process.uptime());
+  return {
+    mode: 'single',
+    primaryPid: process.pid,
+    uptimeSeconds,
+    rollingRestart: false,
+    workers: [
+      {
+        id: 0,
+        pid: process.pid,
+        slot: 0,
+        state: 'ready',
+        startedAt: new Date(Date.now() - uptimeSeconds * 1000).toISOString(),
+        uptimeSeconds,
+        restarts: 0,
+      },
+    ],
+    haltedSlots: [],
+  };
+}
@@ -0,0 +1,250 @@
+import cluster, { type Worker } from 'cluster';
+import { randomUUID } from 'crypto';
+import { getConfig } from '../config';
+
+/**
+ * IPC between cluster workers and the primary process
+ *
+ * - Request/response: worker calls a handler registered in the primary
+ *   (cluster status, shared stores, aggregation, ...)
+ * - Request/response the other way: primary calls a handler registered in a worker
+ *   (e.g. collect metrics of every worker)
+ * - Notifications: one-way worker -> primary messages (e.g. worker is ready)
+ *   and primary -> workers broadcasts (e.g. fan-out of subscription events)
+ *
+ * Usage:
+ *   // primary
+ *   registerPrimaryHandler('cluster.status', () => supervisor.getStatus());
+ *   // worker
+ *   const status = await requestPrimary<ClusterStatus>('cluster.status');
+ */
+
+/** Marks messages of this protocol, other process messages are ignored */
+const IPC_TAG = '__ipc';
+
+type IpcMessage =
+  | { [IPC_TAG]: true; kind: 'request'; id: string; method: string; payload: unknown }
+  | { [IPC_TAG]: true; kind: 'response'; id: string; result?: unknown; error?: string }
+  | { [IPC_TAG]: true; kind: 'notify'; event: string; payload: unknown };
+
+export type PrimaryHandler<P = unknown> = (payload: P, worker: Worker) => unknown;
+export type NotificationHandler<P = unknown> = (payload: P, worker: Worker) => void;
+export type WorkerHandler<P = unknown> = (payload: P) => unknown;
+export type PrimaryNotificationHandler<P = unknown> = (payload: P) => void;
+
+const handlers = new Map<string, PrimaryHandler>();
+const workerHandlers = new Map<string, WorkerHandler>();
+const primaryNotificationHandlers = new Map<string, PrimaryNotificationHandler[]>();
+const notificationHandlers = new Map<string, NotificationHandler[]>();
+const pending = new Map<
+  string,
+  { resolve: (value: unknown) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }
+>();
+let primaryListening = false;
+let workerListening = false;
+
+function isIpcMessage(message: unknown): message is IpcMessage {
+  return typeof message === 'object' && message !== null && IPC_TAG in message;
+}
+
+/**
+ * Register handler of worker requests (primary only)
+ * Handler may return a value or a promise, thrown errors are sent back to the worker
+ */
+export function registerPrimaryHandler<P>(method: string, handler: PrimaryHandler<P>): void {
+  handlers.set(method, handler as PrimaryHandler);
+  listenInPrimary();
+}
+
+/**
+ * Register handler of worker notifications (primary only)
+ */
+export function onWorkerNotification<P>(event: string, handler: NotificationHandler<P>): void {
+  const registered = notificationHandlers.get(event) ?? [];
+  notificationHandlers.set(event, [...registered, handler as NotificationHandler]);
+  listenInPrimary();
+}
+
+/**
+ * Register handler of primary requests (worker only)
+ */
+export function registerWorkerHandler<P>(method: string, handler: WorkerHandler<P>): void {
+  workerHandlers.set(method, handler as WorkerHandler);
+  listenInWorker();
+}
+
+/**
+ * Register handler of primary notifications (worker only)
+ */
+export function onPrimaryNotification<P>(event: string, handler: PrimaryNotificationHandler<P>): void {
+  const registered = primaryNotificationHandlers.get(event) ?? [];
+  primaryNotificationHandlers.set(event, [...registered, handler as PrimaryNotificationHandler]);
+  listenInWorker();
+}
+
+/**
+ * Send one-way notification to all connected workers (primary only, no-op elsewhere)
+ * @param except - Worker left out, e.g. the one the message came from
+ */
+export function notifyWorkers(event: string, payload?: unknown, except?: Worker): void {
+  if (!cluster.isPrimary) return;
+  for (const worker of Object.values(cluster.workers ?? {})) {
+    if (worker && worker !== except && worker.isConnected()) {
+      worker.send({ [IPC_TAG]: true, kind: 'notify', event, payload });
+    }
+  }
+}
+
+/**
+ * Call handler registered in the primary (worker only)
+ * @param method - Handler name
+ * @param payload - Handler argument, must be serializable
+ * @param timeoutMs - Reject if the primary does not answer in time
+ */
+export function requestPrimary<T>(
+  method: string,
+  payload?: unknown,
+  timeoutMs = getConfig().cluster.ipcTimeoutMs
+): Promise<T> {
+  if (!process.send || !cluster.isWorker) {
+    return Promise.reject(new Error('requestPrimary() is only available in cluster workers'));
+  }
+  listenInWorker();
+  return sendRequest<T>(send, method, payload, timeoutMs);
+}
+
+/**
+ * Call handler registered in a worker (primary only)
+ * @param worker - Worker to ask, rejects if it is not connected
+ * @param method - Handler name
+ * @param payload - Handler argument, must be serializable
+ * @param timeoutMs - Reject if the worker does not answer in time
+ */
+export function requestWorker<T>(
+  worker: Worker,
+  method: string,
+  payload?: unknown,
+  timeoutMs = getConfig().cluster.ipcTimeoutMs
+): Promise<T> {
+  if (!cluster.isPrimary) {
+    return Promise.reject(new Error('requestWorker() is only available in the primary'));
+  }
+  if (!worker.isConnected()) {
+    return Promise.reject(new Error(`Worker ${worker.id} is not connected`));
+  }
+  listenInPrimary();
+  return sendRequest<T>((message) => worker.send(message), method, payload, timeoutMs);
+}
+
+function sendRequest<T>(
+  transport: (message: IpcMessage) => void,
+  method: string,
+  payload: unknown,
+  timeoutMs: number
+): Promise<T> {
+  const id = randomUUID();
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      pending.delete(id);
+      reject(new Error(`IPC request ${method} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+    pending.set(id, { resolve: resolve as (value: unknown) => void, reject, timer });
+    transport({ [IPC_TAG]: true, kind: 'request', id, method, payload });
+  });
+}
+
+/**
+ * Send one-way notification to the primary (worker only, no-op elsewhere)
+ */
+export function notifyPrimary(event: string, payload?: unknown): void {
+  if (process.send && cluster.isWorker) {
+    send({ [IPC_TAG]: true, kind: 'notify', event, payload });
+  }
+}
+
+function send(message: IpcMessage): void {
+  process.send?.(message);
+}
+
+function listenInPrimary(): void {
+  if (primaryListening) return;
+  primaryListening = true;
+
+  cluster.on('message', async (worker: Worker, message: unknown) => {
+    if (!isIpcMessage(message)) return;
+
+    if (message.kind === 'notify') {
+      notificationHandlers.get(message.event)?.forEach((handler) => handler(message.payload, worker));
+      return;
+    }
+    if (message.kind === 'response') {
+      settle(message);
+      return;
+    }
+
+    const handler = handlers.get(message.method);
+    await handleRequest(message, handler && ((payload) => handler(payload, worker)), (response) => {
+      if (worker.isConnected()) {
+        worker.send(response);
+      }
+    });
+  });
+}
+
+function listenInWorker(): void {
+  if (workerListening) return;
+  workerListening = true;
+
+  process.on('message', async (message: unknown) => {
+    if (!isIpcMessage(message)) return;
+
+    if (message.kind === 'notify') {
+      primaryNotificationHandlers.get(message.event)?.forEach((handler) => handler(message.payload));
+      return;
+    }
+    if (message.kind === 'response') {
+      settle(message);
+      return;
+    }
+
+    await handleRequest(message, workerHandlers.get(message.method), send);
+  });
+}
+
+/**
+ * Run handler of a request and send back its result or error message
+ */
+async function handleRequest(
+  message: Extract<IpcMessage, { kind: 'request' }>,
+  handler: ((payload: unknown) => unknown) | undefined,
+  reply: (response: IpcMessage) => void
+): Promise<void> {
+  const respond = (response: { result?: unknown; error?: string }) =>
+    reply({ [IPC_TAG]: true, kind: 'response', id: message.id, ...response });
+
+  if (!handler) {
+    respond({ error: `No IPC handler for ${message.method}` });
+    return;
+  }
+  try {
+    respond({ result: await handler(message.payload) });
+  } catch (error) {
+    respond({ error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * Resolve or reject the pending request the response belongs to
+ */
+function settle(message: Extract<IpcMessage, { kind: 'response' }>): void {
+  const request = pending.get(message.id);
+  if (!request) return;
+  pending.delete(message.id);
+  clearTimeout(request.timer);
+
+  if (message.error !== undefined) {
+    request.reject(new Error(message.error));
+  } else {
+    request.resolve(message.result);
+  }
+}
@@ -0,0 +1,66 @@
+import { expect } from 'chai';
+import { RestartPolicy } from './restart-policy';
+
+/**
+ * Unit tests for worker restart policy (backoff and crash-loop detection)
+ */
+describe('RestartPolicy', () => {
+  const options = {
+    backoffMs: 1000,
+    maxBackoffMs: 5000,
+    crashLoopLimit: 4,
+    crashLoopWindowMs: 60000,
+    haltCooldownMs: 10000,
+    maxHaltCooldownMs: 30000,
+  };
+
+  it('should back off exponentially up to the maximum', () => {
+    const policy = new RestartPolicy({ ...options, crashLoopLimit: 10 });
+    const delays = [0, 1, 2, 3, 4].map((second) => {
+      const decision = policy.recordCrash(second * 1000);
+      return decision.restart ? decision.delayMs : null;
+    });
+
+    expect(delays).to.deep.equal([1000, 2000, 4000, 5000, 5000]);
+  });
+
+  it('should stop restarting after too many crashes in the window', () => {
+    const policy = new RestartPolicy(options);
+    for (let i = 0; i < 4; i++) {
+      expect(policy.recordCrash(i * 1000).restart).to.be.true;
+    }
+
+    expect(policy.recordCrash(5000)).to.deep.equal({
+      restart: false,
+      crashes: 5,
+      rearmInMs: 10000,
+    });
+  });
+
+  it('should re-arm halted slot with growing cooldown until it runs stable', () => {
+    const policy = new RestartPolicy(options);
+    const crashLoop = (from: number) => {
+      for (let i = 0; i < 4; i++) policy.recordCrash(from + i);
+      return policy.recordCrash(from + 4);
+    };
+
+    expect(crashLoop(0)).to.include({ restart: false, rearmInMs: 10000 });
+    expect(policy.recentCrashes).to.equal(0);
+    expect(crashLoop(10000)).to.include({ restart: false, rearmInMs: 20000 });
+    expect(crashLoop(30000)).to.include({ restart: false, rearmInMs: 30000 });
+
+    // Re-armed at 60s, next crash loop more than a window later
+    expect(crashLoop(130000)).to.include({ restart: false, rearmInMs: 10000 });
+  });
+
+  it('should forget crashes older than the window', () => {
+    const policy = new RestartPolicy(options);
+    policy.recordCrash(0);
+    policy.recordCrash(1000);
+
+    const decision = policy.recordCrash(120000);
+
+    expect(decision).to.deep.equal({ restart: true, delayMs: 1000 });
+    expect(policy.recentCrashes).to.equal(1);
+  });
+});
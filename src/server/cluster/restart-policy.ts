@@ -0,0 +1,77 @@
+/**
+ * Restart policy of a crashed worker slot
+ *
+ * - Exponential backoff between respawns: base * 2^(crashes - 1), capped at max
+ * - Crash loop: more than `crashLoopLimit` crashes within `crashLoopWindowMs`
+ *   stops respawning the slot (the code or environment is broken, restarting won't help)
+ * - Crashes older than the window are forgotten, a worker that ran long
+ *   enough starts again with the base delay
+ * - A halted slot is re-armed after a cooldown (the environment may have recovered,
+ *   e.g. the database is back), doubling with every halt up to maxHaltCooldownMs.
+ *   Halts are forgotten once a re-armed slot runs a whole window without a crash loop.
+ */
+
+/**
+ * Options of the policy, from CLUSTER_RESTART_* and CLUSTER_CRASH_LOOP_* (see config.ts)
+ */
+export interface RestartPolicyOptions {
+  backoffMs: number;
+  maxBackoffMs: number;
+  crashLoopLimit: number;
+  crashLoopWindowMs: number;
+  /** Halted slot is re-armed after this delay (first halt) */
+  haltCooldownMs: number;
+  maxHaltCooldownMs: number;
+}
+
+export type RestartDecision =
+  | { restart: true; delayMs: number }
+  | { restart: false; crashes: number; rearmInMs: number };
+
+export class RestartPolicy {
+  private crashes: number[] = [];
+  /** Crash loops since the slot last ran stable */
+  private halts = 0;
+  /** When the last halted slot is re-armed */
+  private rearmAt: number | null = null;
+
+  constructor(private readonly options: RestartPolicyOptions) {}
+
+  /**
+   * Record a crash and decide whether and when to respawn
+   * @param now - Crash time (ms)
+   */
+  recordCrash(now = Date.now()): RestartDecision {
+    if (this.rearmAt !== null && now - this.rearmAt >= this.options.crashLoopWindowMs) {
+      this.halts = 0;
+      this.rearmAt = null;
+    }
+    this.crashes = [...this.crashes.filter((at) => now - at < this.options.crashLoopWindowMs), now];
+
+    if (this.crashes.length > this.options.crashLoopLimit) {
+      const crashes = this.crashes.length;
+      this.halts++;
+      const rearmInMs = Math.min(
+        this.options.haltCooldownMs * 2 ** (this.halts - 1),
+        this.options.maxHaltCooldownMs
+      );
+      // The re-armed slot starts counting crashes again
+      this.crashes = [];
+      this.rearmAt = now + rearmInMs;
+      return { restart: false, crashes, rearmInMs };
+    }
+
+    const delayMs = Math.min(
+      this.options.backoffMs * 2 ** (this.crashes.length - 1),
+      this.options.maxBackoffMs
+    );
+    return { restart: true, delayMs };
+  }
+
+  /**
+   * Crashes within the current window
+   */
+  get recentCrashes(): number {
+    return this.crashes.length;
+  }
+}
@@ -0,0 +1,331 @@
+import cluster, { type Worker } from 'cluster';
+import { getForceExitAfterMs } from '../shutdown';
+import { getConfig } from '../config';
+import { getLogger } from '../logging';
+import { onWorkerNotification, registerPrimaryHandler } from './ipc';
+import { RestartPolicy, type RestartPolicyOptions } from './restart-policy';
+
+const logger = getLogger('Master');
+
+/**
+ * Status of a worker process
+ */
+export interface WorkerStatus {
+  id: number;
+  pid: number | undefined;
+  /** Position in the pool, a respawned worker takes over the slot of the crashed one */
+  slot: number;
+  state: 'starting' | 'ready' | 'draining';
+  startedAt: string;
+  uptimeSeconds: number;
+  /** Number of respawns of the slot after crashes */
+  restarts: number;
+}
+
+/**
+ * Status of the whole cluster (see health.cluster)
+ */
+export interface ClusterStatus {
+  mode: 'cluster' | 'single';
+  primaryPid: number;
+  uptimeSeconds: number;
+  rollingRestart: boolean;
+  workers: WorkerStatus[];
+  /** Slots halted after a crash loop, waiting to be re-armed */
+  haltedSlots: number[];
+}
+
+interface WorkerRecord {
+  worker: Worker;
+  slot: number;
+  startedAt: number;
+  state: WorkerStatus['state'];
+  /** Exit was requested (shutdown, rolling restart) - do not respawn */
+  expectedExit: boolean;
+  onReady: Array<(ready: boolean) => void>;
+}
+
+interface SlotState {
+  policy: RestartPolicy;
+  restarts: number;
+  /** running - served by workerId, respawning/halted - waiting for timer to fork */
+  state: 'running' | 'respawning' | 'halted';
+  workerId: number | null;
+  /** New worker started by a rolling restart, not serving the slot yet */
+  replacement: WorkerRecord | null;
+  timer: NodeJS.Timeout | null;
+}
+
+/**
+ * ClusterSupervisor - manages worker processes in the primary
+ *
+ * - Forks `size` workers, each in its own slot
+ * - Respawns crashed workers with exponential backoff, halts slots in a crash loop
+ *   and re-arms them after a growing cooldown
+ * - Rolling restart on SIGHUP: start a new worker, wait until it is ready,
+ *   then gracefully stop the old one - one slot at a time, no downtime
+ * - Serves cluster status to workers over IPC ('cluster.status')
+ *
+ * Workers report readiness with notifyPrimary('ready') once their server listens.
+ */
+export class ClusterSupervisor {
+  private records: Map<number, WorkerRecord> = new Map();
+  private slots: SlotState[] = [];
+  private stopping = false;
+  private restarting = false;
+  private readonly startedAt = Date.now();
+
+  constructor(
+    private readonly size: number,
+    private readonly restartOptions: RestartPolicyOptions = getConfig().cluster.restartPolicy
+  ) {}
+
+  /**
+   * Fork workers and start supervising them
+   */
+  start(): void {
+    logger.info(`Starting cluster with ${this.size} workers`);
+
+    cluster.on('exit', (worker, code, signal) => this.handleExit(worker, code, signal));
+    onWorkerNotification('ready', (_payload, worker) => this.handleReady(worker));
+    registerPrimaryHandler('cluster.status', () => this.getStatus());
+    process.on('SIGHUP', () => {
+      logger.info('SIGHUP received, rolling restart');
+      this.rollingRestart().catch((error) => logger.error('Rolling restart failed', { error }));
+    });
+
+    for (let index = 0; index < this.size; index++) {
+      this.slots.push({
+        policy: new RestartPolicy(this.restartOptions),
+        restarts: 0,
+        state: 'running',
+        workerId: null,
+        replacement: null,
+        timer: null,
+      });
+      this.occupy(index);
+    }
+  }
+
+  /**
+   * Replace workers one by one
+   * Aborts if a new worker does not become ready in time (old worker keeps running)
+   * @returns True if all workers were replaced
+   */
+  async rollingRestart(): Promise<boolean> {
+    if (this.restarting || this.stopping) {
+      logger.warn('Rolling restart already in progress or shutting down, ignoring');
+      return false;
+    }
+    this.restarting = true;
+
+    try {
+      for (const [index, slot] of this.slots.entries()) {
+        if (this.stopping) return false;
+        // Respawning and halted slots start a new worker on their own
+        const old = slot.workerId === null ? undefined : this.records.get(slot.workerId);
+        if (slot.state !== 'running' || !old) continue;
+
+        const replacement = this.fork(index);
+        // Not respawned if it fails to start - the old worker keeps serving
+        replacement.expectedExit = true;
+        slot.replacement = replacement;
+        const ready = await this.waitForReady(replacement, getConfig().cluster.readyTimeoutMs);
+        if (slot.replacement !== replacement) {
+          // Old worker crashed meanwhile and the replacement took over (see handleExit)
+          continue;
+        }
+        slot.replacement = null;
+        if (!ready) {
+          logger.error('New worker did not become ready, aborting rolling restart', {
+            workerPid: replacement.worker.process.pid,
+          });
+          await this.stopWorker(replacement);
+          return false;
+        }
+        replacement.expectedExit = false;
+        slot.workerId = replacement.worker.id;
+        await this.stopWorker(old);
+      }
+      logger.info('Rolling restart complete');
+      return true;
+    } finally {
+      this.restarting = false;
+    }
+  }
+
+  /**
+   * Gracefully stop all workers and wait until they exit
+   * @returns False if some worker had to be killed or exited with an error
+   */
+  async stop(): Promise<boolean> {
+    this.stopping = true;
+    for (const slot of this.slots) {
+      if (slot.timer) clearTimeout(slot.timer);
+      slot.timer = null;
+    }
+    const records = Array.from(this.records.values());
+    logger.info(`Waiting for ${records.length} worker(s) to drain...`);
+    const results = await Promise.all(records.map((record) => this.stopWorker(record)));
+    return results.every(Boolean);
+  }
+
+  getStatus(): ClusterStatus {
+    const now = Date.now();
+    return {
+      mode: 'cluster',
+      primaryPid: process.pid,
+      uptimeSeconds: Math.round((now - this.startedAt) / 1000),
+      rollingRestart: this.restarting,
+      workers: Array.from(this.records.values()).map((record) => ({
+        id: record.worker.id,
+        pid: record.worker.process.pid,
+        slot: record.slot,
+        state: record.state,
+        startedAt: new Date(record.startedAt).toISOString(),
+        uptimeSeconds: Math.round((now - record.startedAt) / 1000),
+        restarts: this.slots[record.slot].restarts,
+      })),
+      haltedSlots: this.slots.flatMap((slot, index) => (slot.state === 'halted' ? [index] : [])),
+    };
+  }
+
+  private fork(slot: number): WorkerRecord {
+    const worker = cluster.fork();
+    const record: WorkerRecord = {
+      worker,
+      slot,
+      startedAt: Date.now(),
+      state: 'starting',
+      expectedExit: false,
+      onReady: [],
+    };
+    this.records.set(worker.id, record);
+    return record;
+  }
+
+  /**
+   * Fork the worker serving the slot
+   */
+  private occupy(index: number): void {
+    const slot = this.slots[index];
+    slot.timer = null;
+    slot.state = 'running';
+    slot.workerId = this.fork(index).worker.id;
+  }
+
+  private handleReady(worker: Worker): void {
+    const record = this.records.get(worker.id);
+    if (!record || record.state !== 'starting') return;
+
+    record.state = 'ready';
+    logger.info('Worker is ready', { workerPid: worker.process.pid, slot: record.slot });
+    record.onReady.splice(0).forEach((resolve) => resolve(true));
+  }
+
+  private handleExit(worker: Worker, code: number, signal: string | null): void {
+    const record = this.records.get(worker.id);
+    if (!record) return;
+    this.records.delete(worker.id);
+    record.onReady.splice(0).forEach((resolve) => resolve(false));
+
+    const reason = signal ? `signal ${signal}` : `code ${code}`;
+    if (record.expectedExit || this.stopping) {
+      logger.info(`Worker exited (${reason})`, { workerPid: worker.process.pid });
+      return;
+    }
+
+    const slot = this.slots[record.slot];
+    if (slot.workerId !== worker.id) {
+      logger.warn(`Worker exited (${reason}), slot is served by another worker`, {
+        workerPid: worker.process.pid,
+        slot: record.slot,
+      });
+      return;
+    }
+
+    const decision = slot.policy.recordCrash();
+    if (slot.replacement) {
+      // Rolling restart already started a new worker for the slot - it takes over
+      const replacement = slot.replacement;
+      slot.replacement = null;
+      replacement.expectedExit = false;
+      slot.workerId = replacement.worker.id;
+      slot.restarts++;
+      logger.warn(`Worker crashed (${reason}), replaced by the rolling restart worker`, {
+        workerPid: worker.process.pid,
+        slot: record.slot,
+      });
+      return;
+    }
+
+    slot.workerId = null;
+    if (!decision.restart) {
+      slot.state = 'halted';
+      logger.error(
+        `Worker crashed (${reason}), slot is in a crash loop, re-arming in ${decision.rearmInMs}ms`,
+        { workerPid: worker.process.pid, slot: record.slot, crashes: decision.crashes }
+      );
+      if (this.slots.every((state) => state.state === 'halted')) {
+        logger.error('All workers are in a crash loop, exiting');
+        process.exit(1);
+      }
+      slot.timer = setTimeout(() => {
+        if (this.stopping) return;
+        logger.info('Re-arming halted slot', { slot: record.slot });
+        slot.restarts++;
+        this.occupy(record.slot);
+      }, decision.rearmInMs);
+      return;
+    }
+
+    slot.state = 'respawning';
+    logger.warn(`Worker crashed (${reason}), respawning in ${decision.delayMs}ms`, {
+      workerPid: worker.process.pid,
+      slot: record.slot,
+    });
+    slot.timer = setTimeout(() => {
+      if (this.stopping) return;
+      slot.restarts++;
+      this.occupy(record.slot);
+    }, decision.delayMs);
+  }
+
+  private waitForReady(record: WorkerRecord, timeoutMs: number): Promise<boolean> {
+    if (record.state === 'ready') return Promise.resolve(true);
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => resolve(false), timeoutMs);
+      record.onReady.push((ready) => {
+        clearTimeout(timer);
+        resolve(ready);
+      });
+    });
+  }
+
+  /**
+   * Ask worker to shut down gracefully, kill it if it does not exit in time
+   * @returns True if the worker exited cleanly
+   */
+  private stopWorker(record: WorkerRecord): Promise<boolean> {
+    const { worker } = record;
+    record.expectedExit = true;
+    record.state = 'draining';
+
+    if (worker.isDead()) return Promise.resolve(true);
+
+    return new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => {
+        logger.warn('Worker did not exit in time, killing', { workerPid: worker.process.pid });
+        worker.process.kill('SIGKILL');
+      }, getForceExitAfterMs());
+
+      worker.once('exit', (code, signal) => {
+        clearTimeout(timer);
+        resolve(code === 0 && !signal);
+      });
+      // Signal the process directly, worker.kill() would disconnect IPC first
+      worker.process.kill('SIGTERM');
+    });
+  }
+}
@@ -0,0 +1,9 @@
+import cluster from 'cluster';
+
+/**
+ * Utility to get worker ID (for logging or distinguishing requests)
+ * 0 in the primary and in single process mode
+ */
+export function getWorkerId(): number {
+  return cluster.worker?.id || 0;
+}
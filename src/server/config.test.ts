@@ -0,0 +1,151 @@
+import { expect } from 'chai';
+import { ConfigError, loadConfig } from './config';
+
+/**
+ * Unit tests for server configuration loading and validation
+ */
+describe('loadConfig', () => {
+  const productionEnv = {
+    NODE_ENV: 'production',
+    JWT_SECRET: 'a-production-secret-that-is-long-enough',
+    DATABASE_URL: 'postgresql://app:secret@db:5432/app',
+    METRICS_TOKEN: 'a-metrics-scrape-token',
+  };
+
+  function catchConfigError(env: Record<string, string | undefined>): ConfigError {
+    try {
+      loadConfig(env);
+    } catch (error) {
+      expect(error).to.be.instanceof(ConfigError);
+      return error as ConfigError;
+    }
+    return expect.fail('Should throw');
+  }
+
+  it('should use defaults in development', () => {
+    const config = loadConfig({});
+
+    expect(config.env).to.equal('development');
+    expect(config.isProduction).to.be.false;
+    expect(config.server).to.deep.equal({ port: 3001, host: 'localhost' });
+    expect(config.cluster.enabled).to.be.false;
+    expect(config.cluster.workers).to.be.greaterThan(0);
+    expect(config.database.url).to.be.null;
+    expect(config.auth.jwtSecret).to.be.a('string').and.not.be.empty;
+    expect(config.auth.accessTokenTtl).to.equal('15m');
+  });
+
+  it('should parse and convert variables', () => {
+    const config = loadConfig({
+      ...productionEnv,
+      BACKEND_PORT: '8080',
+      BACKEND_HOST: '0.0.0.0',
+      CLUSTER_MODE: 'true',
+      CLUSTER_WORKERS: '4',
+      REFRESH_TOKEN_TTL_DAYS: '7',
+    });
+
+    expect(config.isProduction).to.be.true;
+    expect(config.server).to.deep.equal({ port: 8080, host: '0.0.0.0' });
+    expect(config.cluster.enabled).to.be.true;
+    expect(config.cluster.workers).to.equal(4);
+    expect(config.auth.refreshTokenTtlDays).to.equal(7);
+    expect(config.database.url).to.equal(productionEnv.DATABASE_URL);
+  });
+
+  it('should treat empty variables as not set', () => {
+    const config = loadConfig({ BACKEND_PORT: '', JWT_SECRET: '' });
+
+    expect(config.server.port).to.equal(3001);
+  });
+
+  it('should refuse the default JWT secret in production', () => {
+    const error = catchConfigError({ ...productionEnv, JWT_SECRET: 'your-secret-key' });
+
+    expect(error.issues).to.have.length(1);
+    expect(error.issues[0]).to.match(/^JWT_SECRET: Default secret/);
+  });
+
+  it('should require secrets and database in production', () => {
+    const error = catchConfigError({ NODE_ENV: 'production' });
+
+    expect(error.issues.join('\n')).to.contain('JWT_SECRET: Required in production');
+    expect(error.issues.join('\n')).to.contain('DATABASE_URL: Required in production');
+    expect(error.issues.join('\n')).to.contain('METRICS_TOKEN: Required in production');
+  });
+
+  it('should not require a metrics token in production when metrics are disabled', () => {
+    const config = loadConfig({ ...productionEnv, METRICS_TOKEN: '', METRICS_ENABLED: 'false' });
+
+    expect(config.metrics).to.deep.equal({ enabled: false, token: null });
+  });
+
+  it('should load cluster restart policy', () => {
+    const config = loadConfig({ CLUSTER_RESTART_BACKOFF_MS: '500', CLUSTER_CRASH_LOOP_LIMIT: '3' });
+
+    expect(config.cluster.restartPolicy).to.deep.equal({
+      backoffMs: 500,
+      maxBackoffMs: 30000,
+      crashLoopLimit: 3,
+      crashLoopWindowMs: 60000,
+      haltCooldownMs: 60000,
+      maxHaltCooldownMs: 1800000,
+    });
+  });
+
+  it('should reject invalid cluster restart policy', () => {
+    const error = catchConfigError({
+      CLUSTER_RESTART_BACKOFF_MS: 'abc',
+      CLUSTER_CRASH_LOOP_LIMIT: '-3',
+    });
+
+    const variables = error.issues.map((issue) => issue.split(':')[0]);
+    expect(variables).to.have.members(['CLUSTER_RESTART_BACKOFF_MS', 'CLUSTER_CRASH_LOOP_LIMIT']);
+  });
+
+  it('should load password policy', () => {
+    const config = loadConfig({});
+    expect(config.auth.passwordPolicy.minLength).to.equal(12);
+    expect(config.auth.passwordPolicy.requireDigit).to.be.false;
+
+    const configured = loadConfig({
+      PASSWORD_MIN_LENGTH: '16',
+      PASSWORD_REQUIRE_DIGIT: 'true',
+      PASSWORD_REQUIRE_SYMBOL: '1',
+    });
+    expect(configured.auth.passwordPolicy.minLength).to.equal(16);
+    expect(configured.auth.passwordPolicy.requireDigit).to.be.true;
+    expect(configured.auth.passwordPolicy.requireSymbol).to.be.true;
+  });
+
+  it('should reject invalid password policy', () => {
+    const error = catchConfigError({
+      PASSWORD_MIN_LENGTH: 'abc',
+      PASSWORD_REQUIRE_DIGIT: 'yes',
+    });
+    expect(error.issues.map((issue) => issue.split(':')[0])).to.have.members([
+      'PASSWORD_MIN_LENGTH',
+      'PASSWORD_REQUIRE_DIGIT',
+    ]);
+
+    expect(catchConfigError({ PASSWORD_MIN_LENGTH: '4' }).issues).to.have.length(1);
+  });
+
+  it('should report all invalid variables at once', () => {
+    const error = catchConfigError({
+      BACKEND_PORT: 'abc',
+      CLUSTER_MODE: 'yes',
+      CORS_ORIGINS: 'not an origin',
+      PASSWORD_MIN_LENGTH: '0',
+    });
+
+    const variables = error.issues.map((issue) => issue.split(':')[0]);
+    expect(variables).to.include.members([
+      'BACKEND_PORT',
+      'CLUSTER_MODE',
+      'CORS_ORIGINS',
+      'PASSWORD_* policy minLength',
+    ]);
+    expect(error.message).to.match(/^Invalid configuration:\n {2}- BACKEND_PORT: /);
+  });
+});
@@ -0,0 +1,409 @@
+import os from 'os';
+import { z } from 'zod';
+import {
+  ConfigError,
+  boolean,
+  formatIssues,
+  integer,
+  list,
+  positiveInteger,
+  withoutEmpty,
+  type Env,
+} from '../shared/config/env';
+import {
+  securityEnvSchema,
+  toSecurityConfig,
+  type SecurityConfig,
+} from '../shared/security/config';
+import { passwordPolicySchema, type PasswordPolicy } from './auth/password';
+import type { RestartPolicyOptions } from './cluster/restart-policy';
+import type { LoggingOptions } from './logging';
+import type { OutboxDispatcherOptions } from './outbox';
+
+export { ConfigError } from '../shared/config/env';
+
+/**
+ * Server configuration - the only place reading environment variables of the backend
+ * Client-safe (NEXT_PUBLIC_*) configuration is in src/utils/config.ts
+ *
+ * Validated once on startup, invalid or missing values stop the server
+ * with a report listing all problems (see .env.example for the variables).
+ *
+ * Usage:
+ *   import { getConfig } from '../config';
+ *   const { port, host } = getConfig().server;
+ */
+
+/** Placeholder secrets from examples, never accepted in production */
+const DEFAULT_JWT_SECRETS = ['your-secret-key', 'your-super-secret-key-change-in-production'];
+const DEV_JWT_SECRET = 'your-secret-key';
+const MIN_PRODUCTION_JWT_SECRET_LENGTH = 32;
+
+export interface Config {
+  env: 'development' | 'production' | 'test';
+  isProduction: boolean;
+  server: {
+    port: number;
+    host: string;
+  };
+  cluster: {
+    enabled: boolean;
+    workers: number;
+    ipcTimeoutMs: number;
+    readyTimeoutMs: number;
+    restartPolicy: RestartPolicyOptions;
+  };
+  auth: {
+    jwtSecret: string;
+    /** jsonwebtoken `expiresIn` format, e.g. "15m" */
+    accessTokenTtl: string;
+    refreshTokenTtlDays: number;
+    passwordResetTokenTtlMinutes: number;
+    passwordPolicy: PasswordPolicy;
+    /** Subscription tickets must be redeemed within this time (see auth/subscriptions.ts) */
+    subscriptionTicketTtlMs: number;
+    /** Permissions of open subscription streams are rechecked this often */
+    subscriptionRecheckMs: number;
+  };
+  database: {
+    /** Null when not configured - the database is not connected (development, tests) */
+    url: string | null;
+    healthTimeoutMs: number;
+    /** Retries of a transaction after serialization failures and deadlocks */
+    transactionMaxRetries: number;
+    transactionTimeoutMs: number;
+    /** Connections of all cluster workers together, split evenly between their pools */
+    maxConnections: number;
+    /** Read replicas, empty when all reads go to the primary */
+    replicaUrls: string[];
+    replicaHealthIntervalMs: number;
+    /** Reads of a user stay on the primary this long after the user wrote, 0 = request only */
+    readYourWritesMs: number;
+  };
+  health: {
+    checkTimeoutMs: number;
+  };
+  shutdown: {
+    timeoutMs: number;
+    readinessDelayMs: number;
+  };
+  security: SecurityConfig;
+  logging: LoggingOptions;
+  metrics: {
+    /** Expose Prometheus metrics on /metrics */
+    enabled: boolean;
+    /** Bearer token scrapers must send, /metrics is open without it (development only) */
+    token: string | null;
+  };
+  tracing: {
+    enabled: boolean;
+    /** service.name of exported spans */
+    serviceName: string;
+    /** Share of traces started by the backend that are recorded (0-1) */
+    sampleRatio: number;
+    otlp: {
+      /** Collector base URL, spans are sent to /v1/traces */
+      endpoint: string;
+      headers: Record<string, string>;
+    };
+  };
+  outbox: OutboxDispatcherOptions & {
+    /** Run the dispatcher in this process (it delivers only while elected leader) */
+    enabled: boolean;
+    /** Leader lease duration, a crashed leader is replaced after it */
+    leaseTtlMs: number;
+  };
+  retention: {
+    /** Run the retention job in this process (it runs only while elected leader) */
+    enabled: boolean;
+    /** Time between runs of the retention job */
+    intervalMs: number;
+    /** Soft-deleted users are purged after */
+    deletedUserDays: number;
+  };
+  notifications: {
+    /** Page setting a new password, the reset token is added as ?token= */
+    passwordResetUrl: string;
+  };
+  cache: {
+    /** Cache reads declared with @Cached, they go to the database when disabled */
+    enabled: boolean;
+    /** TTL of cached reads without their own */
+    ttlMs: number;
+    /** Entries of the in-memory LRU of each process */
+    maxEntries: number;
+  };
+}
+
+const serverEnvSchema = z
+  .object({
+    NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
+    BACKEND_PORT: positiveInteger(3001).pipe(z.number().max(65535)),
+    BACKEND_HOST: z.string().default('localhost'),
+    CLUSTER_MODE: boolean(false),
+    CLUSTER_WORKERS: positiveInteger(os.cpus().length),
+    CLUSTER_IPC_TIMEOUT_MS: positiveInteger(5000),
+    CLUSTER_READY_TIMEOUT_MS: positiveInteger(30000),
+    CLUSTER_RESTART_BACKOFF_MS: positiveInteger(1000),
+    CLUSTER_RESTART_BACKOFF_MAX_MS: positiveInteger(30000),
+    CLUSTER_CRASH_LOOP_LIMIT: positiveInteger(5),
+    CLUSTER_CRASH_LOOP_WINDOW_MS: positiveInteger(60000),
+    CLUSTER_CRASH_LOOP_COOLDOWN_MS: positiveInteger(60000),
+    CLUSTER_CRASH_LOOP_COOLDOWN_MAX_MS: positiveInteger(1800000),
+    JWT_SECRET: z.string().optional(),
+    ACCESS_TOKEN_TTL: z
+      .string()
+      .regex(/^\d+(ms|s|m|h|d)?$/, 'Expected a duration like 900, 15m, 1h or 7d')
+      .default('15m'),
+    REFRESH_TOKEN_TTL_DAYS: positiveInteger(30),
+    PASSWORD_RESET_TOKEN_TTL_MINUTES: positiveInteger(60),
+    SUBSCRIPTION_TICKET_TTL_MS: positiveInteger(30000),
+    SUBSCRIPTION_PERMISSION_RECHECK_MS: positiveInteger(30000),
+    PASSWORD_RESET_URL: z.string().url().default('http://localhost:3000/reset-password'),
+    DATABASE_URL: z
+      .string()
+      .regex(/^postgres(ql)?:\/\//, 'Expected a PostgreSQL connection string (postgresql://...)')
+      .optional(),
+    DATABASE_HEALTH_TIMEOUT_MS: positiveInteger(2000),
+    DATABASE_TRANSACTION_MAX_RETRIES: integer(3),
+    DATABASE_TRANSACTION_TIMEOUT_MS: positiveInteger(5000),
+    DATABASE_MAX_CONNECTIONS: positiveInteger(20),
+    DATABASE_REPLICA_URLS: list('').pipe(
+      z.array(
+        z
+          .string()
+          .regex(/^postgres(ql)?:\/\//, 'Expected comma separated PostgreSQL connection strings')
+      )
+    ),
+    DATABASE_REPLICA_HEALTH_INTERVAL_MS: positiveInteger(5000),
+    DATABASE_READ_YOUR_WRITES_MS: integer(5000),
+    HEALTH_CHECK_TIMEOUT_MS: positiveInteger(2000),
+    SHUTDOWN_TIMEOUT_MS: integer(10000),
+    SHUTDOWN_READINESS_DELAY_MS: integer(0),
+    LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+    LOG_FORMAT: z.enum(['json', 'pretty']).optional(),
+    LOG_REDACT_KEYS: list(''),
+    METRICS_ENABLED: boolean(true),
+    METRICS_TOKEN: z.string().min(16).optional(),
+    TRACING_ENABLED: boolean(false),
+    TRACING_SAMPLE_RATIO: z.coerce.number().min(0).max(1).default(1),
+    OTEL_SERVICE_NAME: z.string().default('nextjs-trpc-backend'),
+    OTEL_EXPORTER_OTLP_ENDPOINT: z.string().url().default('http://localhost:4318'),
+    OTEL_EXPORTER_OTLP_HEADERS: list('').pipe(
+      z.array(z.string().regex(/^[^=]+=.*$/, 'Expected comma separated key=value pairs'))
+    ),
+    OUTBOX_DISPATCHER_ENABLED: boolean(true),
+    OUTBOX_POLL_INTERVAL_MS: positiveInteger(1000),
+    OUTBOX_BATCH_SIZE: positiveInteger(50),
+    OUTBOX_MAX_ATTEMPTS: positiveInteger(10),
+    OUTBOX_RETRY_BACKOFF_MS: positiveInteger(1000),
+    OUTBOX_RETRY_BACKOFF_MAX_MS: positiveInteger(5 * 60 * 1000),
+    OUTBOX_LEASE_TTL_MS: positiveInteger(15000),
+    OUTBOX_RETENTION_DAYS: positiveInteger(7),
+    RETENTION_JOB_ENABLED: boolean(true),
+    RETENTION_JOB_INTERVAL_MS: positiveInteger(60 * 60 * 1000),
+    DELETED_USER_RETENTION_DAYS: positiveInteger(30),
+    CACHE_ENABLED: boolean(true),
+    CACHE_TTL_MS: positiveInteger(30000),
+    CACHE_MAX_ENTRIES: positiveInteger(1000),
+  })
+  .superRefine((env, ctx) => {
+    if (env.NODE_ENV !== 'production') return;
+
+    if (!env.JWT_SECRET) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['JWT_SECRET'], message: 'Required in production' });
+    } else if (DEFAULT_JWT_SECRETS.includes(env.JWT_SECRET)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['JWT_SECRET'],
+        message: 'Default secret from the examples is not allowed in production',
+      });
+    } else if (env.JWT_SECRET.length < MIN_PRODUCTION_JWT_SECRET_LENGTH) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['JWT_SECRET'],
+        message: `Must be at least ${MIN_PRODUCTION_JWT_SECRET_LENGTH} characters long in production`,
+      });
+    }
+
+    if (!env.DATABASE_URL) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['DATABASE_URL'], message: 'Required in production' });
+    }
+
+    if (env.METRICS_ENABLED && !env.METRICS_TOKEN) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['METRICS_TOKEN'],
+        message: 'Required in production unless METRICS_ENABLED=false',
+      });
+    }
+  });
+
+/**
+ * Password policy variables - parsed apart from serverEnvSchema so policy issues are
+ * reported along with other invalid variables, bounds are checked by passwordPolicySchema
+ */
+const passwordEnvSchema = z.object({
+  PASSWORD_MIN_LENGTH: integer(12),
+  PASSWORD_MAX_LENGTH: integer(128),
+  PASSWORD_REQUIRE_UPPERCASE: boolean(false),
+  PASSWORD_REQUIRE_LOWERCASE: boolean(false),
+  PASSWORD_REQUIRE_DIGIT: boolean(false),
+  PASSWORD_REQUIRE_SYMBOL: boolean(false),
+});
+
+/**
+ * Load and validate configuration
+ * @param env - Environment variables (process.env by default)
+ * @throws ConfigError listing all invalid variables
+ */
+export function loadConfig(env: Env = process.env): Config {
+  const values = withoutEmpty(env);
+  const issues: string[] = [];
+
+  const parse = <T>(load: () => T, label?: string): T | null => {
+    try {
+      return load();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        issues.push(...formatIssues(error).map((issue) => (label ? `${label} ${issue}` : issue)));
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  const server = parse(() => serverEnvSchema.parse(values));
+  const production = (server?.NODE_ENV ?? values.NODE_ENV) === 'production';
+  const security = parse(() => securityEnvSchema(production).parse(values));
+  const password = parse(() => passwordEnvSchema.parse(values));
+  const passwordPolicy =
+    password &&
+    parse(
+      () =>
+        passwordPolicySchema.parse({
+          minLength: password.PASSWORD_MIN_LENGTH,
+          maxLength: password.PASSWORD_MAX_LENGTH,
+          requireUppercase: password.PASSWORD_REQUIRE_UPPERCASE,
+          requireLowercase: password.PASSWORD_REQUIRE_LOWERCASE,
+          requireDigit: password.PASSWORD_REQUIRE_DIGIT,
+          requireSymbol: password.PASSWORD_REQUIRE_SYMBOL,
+        }),
+      'PASSWORD_* policy'
+    );
+
+  if (!server || !security || !passwordPolicy) {
+    throw new ConfigError(issues);
+  }
+
+  return {
+    env: server.NODE_ENV,
+    isProduction: production,
+    server: {
+      port: server.BACKEND_PORT,
+      host: server.BACKEND_HOST,
+    },
+    cluster: {
+      enabled: server.CLUSTER_MODE,
+      workers: server.CLUSTER_WORKERS,
+      ipcTimeoutMs: server.CLUSTER_IPC_TIMEOUT_MS,
+      readyTimeoutMs: server.CLUSTER_READY_TIMEOUT_MS,
+      restartPolicy: {
+        backoffMs: server.CLUSTER_RESTART_BACKOFF_MS,
+        maxBackoffMs: server.CLUSTER_RESTART_BACKOFF_MAX_MS,
+        crashLoopLimit: server.CLUSTER_CRASH_LOOP_LIMIT,
+        crashLoopWindowMs: server.CLUSTER_CRASH_LOOP_WINDOW_MS,
+        haltCooldownMs: server.CLUSTER_CRASH_LOOP_COOLDOWN_MS,
+        maxHaltCooldownMs: server.CLUSTER_CRASH_LOOP_COOLDOWN_MAX_MS,
+      },
+    },
+    auth: {
+      // Only development and tests get here without a secret
+      jwtSecret: server.JWT_SECRET ?? DEV_JWT_SECRET,
+      accessTokenTtl: server.ACCESS_TOKEN_TTL,
+      refreshTokenTtlDays: server.REFRESH_TOKEN_TTL_DAYS,
+      passwordResetTokenTtlMinutes: server.PASSWORD_RESET_TOKEN_TTL_MINUTES,
+      passwordPolicy,
+      subscriptionTicketTtlMs: server.SUBSCRIPTION_TICKET_TTL_MS,
+      subscriptionRecheckMs: server.SUBSCRIPTION_PERMISSION_RECHECK_MS,
+    },
+    database: {
+      url: server.DATABASE_URL ?? null,
+      healthTimeoutMs: server.DATABASE_HEALTH_TIMEOUT_MS,
+      transactionMaxRetries: server.DATABASE_TRANSACTION_MAX_RETRIES,
+      transactionTimeoutMs: server.DATABASE_TRANSACTION_TIMEOUT_MS,
+      maxConnections: server.DATABASE_MAX_CONNECTIONS,
+      replicaUrls: server.DATABASE_REPLICA_URLS,
+      replicaHealthIntervalMs: server.DATABASE_REPLICA_HEALTH_INTERVAL_MS,
+      readYourWritesMs: server.DATABASE_READ_YOUR_WRITES_MS,
+    },
+    health: {
+      checkTimeoutMs: server.HEALTH_CHECK_TIMEOUT_MS,
+    },
+    shutdown: {
+      timeoutMs: server.SHUTDOWN_TIMEOUT_MS,
+      readinessDelayMs: server.SHUTDOWN_READINESS_DELAY_MS,
+    },
+    security: toSecurityConfig(security),
+    logging: {
+      level: server.LOG_LEVEL,
+      // JSON lines for log collectors, readable output when developing
+      format: server.LOG_FORMAT ?? (production ? 'json' : 'pretty'),
+      redactKeys: server.LOG_REDACT_KEYS,
+    },
+    metrics: {
+      enabled: server.METRICS_ENABLED,
+      token: server.METRICS_TOKEN ?? null,
+    },
+    tracing: {
+      enabled: server.TRACING_ENABLED,
+      serviceName: server.OTEL_SERVICE_NAME,
+      sampleRatio: server.TRACING_SAMPLE_RATIO,
+      otlp: {
+        endpoint: server.OTEL_EXPORTER_OTLP_ENDPOINT,
+        headers: Object.fromEntries(
+          server.OTEL_EXPORTER_OTLP_HEADERS.map((pair) => {
+            const index = pair.indexOf('=');
+            return [pair.slice(0, index).trim(), pair.slice(index + 1).trim()];
+          })
+        ),
+      },
+    },
+    outbox: {
+      enabled: server.OUTBOX_DISPATCHER_ENABLED,
+      pollIntervalMs: server.OUTBOX_POLL_INTERVAL_MS,
+      batchSize: server.OUTBOX_BATCH_SIZE,
+      maxAttempts: server.OUTBOX_MAX_ATTEMPTS,
+      retryBackoffMs: server.OUTBOX_RETRY_BACKOFF_MS,
+      retryBackoffMaxMs: server.OUTBOX_RETRY_BACKOFF_MAX_MS,
+      leaseTtlMs: server.OUTBOX_LEASE_TTL_MS,
+      retentionDays: server.OUTBOX_RETENTION_DAYS,
+    },
+    retention: {
+      enabled: server.RETENTION_JOB_ENABLED,
+      intervalMs: server.RETENTION_JOB_INTERVAL_MS,
+      deletedUserDays: server.DELETED_USER_RETENTION_DAYS,
+    },
+    notifications: {
+      passwordResetUrl: server.PASSWORD_RESET_URL,
+    },
+    cache: {
+      enabled: server.CACHE_ENABLED,
+      ttlMs: server.CACHE_TTL_MS,
+      maxEntries: server.CACHE_MAX_ENTRIES,
+    },
+  };
+}
+
+let config: Config | null = null;
+
+/**
+ * Configuration of this process, loaded from process.env on first use
+ * @throws ConfigError if the environment is invalid
+ */
+export function getConfig(): Config {
+  if (!config) {
+    config = loadConfig();
+  }
+  return config;
+}
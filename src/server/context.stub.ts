@@ -0,0 +1,40 @@
+import type { Context } from './context';
+
+type Services = Context['services'];
+
+/**
+ * Context of tRPC procedures without services - TEST DOUBLE ONLY
+ * Used with router.createCaller() in unit tests, services not passed in
+ * overrides throw when a procedure uses them.
+ *
+ * Usage in tests:
+ *   const caller = testRouter.createCaller(
+ *     createStubContext({ headers: { authorization: `Bearer ${token}` } })
+ *   );
+ */
+export function createStubContext(
+  overrides: Partial<Omit<Context, 'services'>> & { services?: Partial<Services> } = {}
+): Context {
+  const { services = {}, ...context } = overrides;
+
+  return {
+    req: undefined,
+    res: undefined,
+    headers: {},
+    requestId: 'test-request',
+    traceContext: undefined,
+    subscriptionTicket: null,
+    resolvePermissions: async () => [],
+    userId: undefined,
+    permissions: undefined,
+    ...context,
+    services: new Proxy(services, {
+      get(target, name) {
+        if (typeof name === 'string' && !(name in target)) {
+          throw new Error(`Service ${String(name)} is not stubbed in this test`);
+        }
+        return Reflect.get(target, name);
+      },
+    }) as Services,
+  };
+}
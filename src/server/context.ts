@@ -1,8 +1,18 @@
 import type { Request, Response } from 'express';
+import type { TRPCRequestInfo } from '@trpc/server/http';
 import { ServicesContext } from './services';
 import { UserService } from './services/user.service';
 import { UserDAO } from './services/user.dao';
+import { AuthService } from './services/auth.service';
+import { RoleService } from './services/role.service';
+import { HealthService } from './services/health.service';
+import { AuditService } from './services/audit.service';
+import { NotificationService } from './services/notification.service';
+import { createPermissionResolver } from './auth/permissions';
+import { redeemSubscriptionTicket } from './auth/subscriptions';
 import { ensureServicesInitialized } from './init';
+import { resolveRequestId } from './logging';
+import { parseTraceparent } from './tracing';
 
 /**
  * Creates the context for tRPC procedures
@@ -16,12 +26,14 @@ import { ensureServicesInitialized } from './init';
  * - Services call DAOs (data access)
  * - DAOs call DatabaseService (Prisma)
  *
- * @param opts - Options containing request and response (Express) or request (Fetch)
+ * @param opts - Options containing request and response (Express) or request (Fetch),
+ *   info carries connectionParams of subscriptions (the subscription ticket)
  * @returns Context object passed to procedures
  */
 export async function createContext(opts?: {
   req: Request | undefined;
   res: Response | undefined;
+  info?: TRPCRequestInfo;
 }) {
   // Ensure services are initialized on first request
   await ensureServicesInitialized();
@@ -29,19 +41,49 @@ export async function createContext(opts?: {
   // Get service instances from ServicesContext
   const userService = ServicesContext.lookup(UserService);
   const userDAO = ServicesContext.lookup(UserDAO);
+  const authService = ServicesContext.lookup(AuthService);
+  const roleService = ServicesContext.lookup(RoleService);
+  const healthService = ServicesContext.lookup(HealthService);
+  const auditService = ServicesContext.lookup(AuditService);
+  const notificationService = ServicesContext.lookup(NotificationService);
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const req = opts?.req as any;
   const headers = req?.headers || {};
 
+  // Correlates all logs of the request, echoed back so clients can report it
+  const requestId = resolveRequestId(headers['x-request-id']);
+  if (opts?.res && !opts.res.headersSent) {
+    opts.res.setHeader('X-Request-Id', requestId);
+  }
+
   return {
     req: req as any,
+    res: opts?.res,
     headers: headers as any,
+    requestId,
+    // Trace of the client (W3C traceparent header), procedures continue it
+    traceContext: parseTraceparent(headers.traceparent),
+    // EventSource can not send headers - subscriptions authenticate with a single-use
+    // ticket in connectionParams instead of the access token (see auth/subscriptions.ts)
+    subscriptionTicket:
+      opts?.info?.type === 'subscription'
+        ? await redeemSubscriptionTicket(opts.info.connectionParams?.ticket)
+        : null,
     // Services available in all procedures
     services: {
       user: userService,
       userDAO,
+      auth: authService,
+      roles: roleService,
+      health: healthService,
+      audit: auditService,
+      notifications: notificationService,
     },
+    // Loads effective permissions from the database, cached for this request only
+    resolvePermissions: createPermissionResolver((userId) =>
+      roleService.getEffectivePermissions(userId)
+    ),
     // Will be populated by auth middleware for protected procedures
     userId: req?.userId as string | undefined,
     permissions: req?.permissions as string[] | undefined,
@@ -0,0 +1,19 @@
+export {
+  afterCommit,
+  getTransaction,
+  isSerializationFailure,
+  runInTransaction,
+} from './transaction';
+export type { IsolationLevel, TransactionOptions, TransactionRunner } from './transaction';
+export { poolSizePerWorker, withConnectionLimit } from './pool';
+export { bindReadScopeUser, hasWritten, markWritten, runWithReadScope } from './read-scope';
+export {
+  ClusterRecentWriteStore,
+  getRecentWriteStore,
+  MemoryRecentWriteStore,
+  serveRecentWrites,
+  setRecentWriteStore,
+} from './recent-writes';
+export type { RecentWriteStore } from './recent-writes';
+export { isConnectionError, readWithFallback, ReplicaSet } from './replicas';
+export type { Replica } from './replicas';
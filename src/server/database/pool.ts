@@ -0,0 +1,26 @@
+/**
+ * Connection pool sizing
+ * Every cluster worker has its own pools, the connection budget of the
+ * database (DATABASE_MAX_CONNECTIONS) is split between them evenly.
+ */
+
+/**
+ * Connections of one worker's pool
+ * @param maxConnections - Connections of all workers together
+ * @param workers - Number of processes connecting to the database
+ */
+export function poolSizePerWorker(maxConnections: number, workers: number): number {
+  return Math.max(1, Math.floor(maxConnections / Math.max(1, workers)));
+}
+
+/**
+ * Set Prisma pool size (connection_limit) on a connection string
+ * A limit already present in the URL wins - set by the operator on purpose
+ */
+export function withConnectionLimit(url: string, connectionLimit: number): string {
+  const parsed = new URL(url);
+  if (!parsed.searchParams.has('connection_limit')) {
+    parsed.searchParams.set('connection_limit', String(connectionLimit));
+  }
+  return parsed.toString();
+}
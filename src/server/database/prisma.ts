@@ -0,0 +1,72 @@
+import { Prisma, type PrismaClient } from '@prisma/client';
+import { markWritten } from './read-scope';
+import { readWithFallback } from './replicas';
+
+/** Operations that never write, everything else counts as a write */
+const READ_OPERATIONS = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  '$queryRaw',
+  '$queryRawUnsafe',
+]);
+
+/**
+ * Prisma client extension of the primary noting writes of the current request,
+ * its following reads skip read replicas (see read-scope.ts)
+ *
+ * Usage:
+ *   const primary = new PrismaClient().$extends(trackWrites);
+ */
+export const trackWrites = Prisma.defineExtension({
+  name: 'track-writes',
+  query: {
+    $allOperations({ operation, args, query }) {
+      if (!READ_OPERATIONS.has(operation)) {
+        markWritten();
+      }
+      return query(args);
+    },
+  },
+});
+
+/** Model API of a client, e.g. client.user */
+type ModelDelegate = Record<string, (args: unknown) => Promise<unknown>>;
+
+/**
+ * Prisma client extension of a read replica - a model query failing because the replica
+ * can not be reached runs once more on the primary (see readWithFallback)
+ *
+ * Usage:
+ *   const replica = new PrismaClient().$extends(fallbackToPrimary(() => primary, onError));
+ * @param getPrimary - Client of the primary
+ * @param onConnectionError - Called with the error of the replica, e.g. to mark it unhealthy
+ */
+export function fallbackToPrimary(
+  getPrimary: () => PrismaClient,
+  onConnectionError: (error: unknown) => void
+) {
+  return Prisma.defineExtension({
+    name: 'fallback-to-primary',
+    query: {
+      $allOperations({ model, operation, args, query }) {
+        if (!model) {
+          return query(args);
+        }
+        return readWithFallback(
+          () => query(args),
+          () => {
+            const primary = getPrimary() as unknown as Record<string, ModelDelegate>;
+            return primary[model.charAt(0).toLowerCase() + model.slice(1)][operation](args);
+          },
+          onConnectionError
+        );
+      },
+    },
+  });
+}
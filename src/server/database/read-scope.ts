@@ -0,0 +1,98 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { getConfig } from '../config';
+import { getLogger } from '../logging';
+import { getRecentWriteStore } from './recent-writes';
+
+const logger = getLogger('ReadScope');
+
+/**
+ * Read-your-writes
+ * Reads of a request go to read replicas until the request writes, then to the
+ * primary - replicas lag behind and would not see the write yet.
+ *
+ * A write also keeps reads of the user on the primary for DATABASE_READ_YOUR_WRITES_MS
+ * in following requests (in any cluster worker, see recent-writes.ts), so a list
+ * loaded right after a mutation contains its change. 0 limits it to the request.
+ *
+ * The scope is opened for every tRPC call (see trpc.ts), the auth middleware binds
+ * the user, writes are noticed by the trackWrites Prisma extension. Outside of a
+ * scope (background jobs) reads go to replicas.
+ */
+
+interface ReadScope {
+  written: boolean;
+  userId: string | null;
+  /** Reads go to the primary until this time (a recent write of the user) */
+  primaryUntil: number;
+}
+
+const storage = new AsyncLocalStorage<ReadScope>();
+
+/**
+ * Run function in a new read scope
+ * A write of the scope bound to a user keeps the user's reads on the primary for lagMs
+ * @param lagMs - Replication lag window (DATABASE_READ_YOUR_WRITES_MS by default)
+ */
+export function runWithReadScope<T>(
+  fn: () => Promise<T>,
+  lagMs = getConfig().database.readYourWritesMs
+): Promise<T> {
+  const scope: ReadScope = { written: false, userId: null, primaryUntil: 0 };
+  return storage.run(scope, async () => {
+    try {
+      return await fn();
+    } finally {
+      if (scope.written && scope.userId && lagMs > 0) {
+        await getRecentWriteStore()
+          .record(scope.userId, Date.now() + lagMs)
+          .catch((error) => logger.warn('Failed to record write of the user', { error }));
+      }
+    }
+  });
+}
+
+/**
+ * Bind the authenticated user to the current read scope
+ * Reads go to the primary when the user wrote within the lag window
+ * No-op outside of a read scope
+ * @param lagMs - Replication lag window, 0 skips the lookup
+ */
+export async function bindReadScopeUser(
+  userId: string,
+  lagMs = getConfig().database.readYourWritesMs
+): Promise<void> {
+  const scope = storage.getStore();
+  if (!scope) {
+    return;
+  }
+  scope.userId = userId;
+  if (lagMs <= 0) {
+    return;
+  }
+  try {
+    scope.primaryUntil = (await getRecentWriteStore().get(userId)) ?? 0;
+  } catch (error) {
+    // The user may have just written - the primary is always up to date
+    logger.warn('Recent writes unavailable, reading from primary', { error });
+    scope.primaryUntil = Infinity;
+  }
+}
+
+/**
+ * Note a write of the current call, its following reads go to the primary
+ * No-op outside of a read scope
+ */
+export function markWritten(): void {
+  const scope = storage.getStore();
+  if (scope) {
+    scope.written = true;
+  }
+}
+
+/**
+ * Current call or a recent call of its user has written, reads must go to the primary
+ */
+export function hasWritten(): boolean {
+  const scope = storage.getStore();
+  return scope ? scope.written || Date.now() < scope.primaryUntil : false;
+}
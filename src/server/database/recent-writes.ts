@@ -0,0 +1,103 @@
+import cluster from 'cluster';
+import { registerPrimaryHandler, requestPrimary } from '../cluster/ipc';
+
+/**
+ * Users who wrote recently - their reads stay on the primary until replicas caught up
+ * (DATABASE_READ_YOUR_WRITES_MS, see read-scope.ts)
+ */
+
+/**
+ * Storage of the time until which reads of a user go to the primary
+ * Implement for a shared backend (e.g. Redis) to share it with other machines
+ */
+export interface RecentWriteStore {
+  /** Keep reads of the user on the primary until the time (epoch ms) */
+  record(userId: string, untilMs: number): Promise<void>;
+  /** Time until which reads of the user go to the primary, null if not recently written */
+  get(userId: string): Promise<number | null>;
+}
+
+/**
+ * In-memory store - per process
+ * Use in single process mode, or in the primary behind ClusterRecentWriteStore
+ */
+export class MemoryRecentWriteStore implements RecentWriteStore {
+  private until: Map<string, number> = new Map();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async record(userId: string, untilMs: number): Promise<void> {
+    this.recordSync(userId, untilMs);
+  }
+
+  async get(userId: string): Promise<number | null> {
+    return this.getSync(userId);
+  }
+
+  recordSync(userId: string, untilMs: number): void {
+    const now = this.now();
+    // Markers live seconds, dropping expired ones here keeps the map small
+    for (const [id, until] of this.until) {
+      if (until <= now) this.until.delete(id);
+    }
+    this.until.set(userId, Math.max(untilMs, this.until.get(userId) ?? 0));
+  }
+
+  getSync(userId: string): number | null {
+    const until = this.until.get(userId);
+    return until !== undefined && until > this.now() ? until : null;
+  }
+
+  get size(): number {
+    return this.until.size;
+  }
+}
+
+const RECORD_METHOD = 'recentWrites.record';
+const GET_METHOD = 'recentWrites.get';
+
+/**
+ * Store shared by all cluster workers - the next request of the user may hit another worker
+ * Markers live in the primary process (see serveRecentWrites), workers ask over IPC
+ */
+export class ClusterRecentWriteStore implements RecentWriteStore {
+  async record(userId: string, untilMs: number): Promise<void> {
+    await requestPrimary(RECORD_METHOD, { userId, untilMs });
+  }
+
+  async get(userId: string): Promise<number | null> {
+    return requestPrimary<number | null>(GET_METHOD, { userId });
+  }
+}
+
+/**
+ * Serve recent writes to workers (call in the cluster primary)
+ */
+export function serveRecentWrites(store = new MemoryRecentWriteStore()): void {
+  registerPrimaryHandler<{ userId: string; untilMs: number }>(
+    RECORD_METHOD,
+    ({ userId, untilMs }) => store.recordSync(userId, untilMs)
+  );
+  registerPrimaryHandler<{ userId: string }>(GET_METHOD, ({ userId }) => store.getSync(userId));
+}
+
+let recentWriteStore: RecentWriteStore | null = null;
+
+/**
+ * Shared across workers in cluster mode, in-memory otherwise
+ */
+export function getRecentWriteStore(): RecentWriteStore {
+  if (!recentWriteStore) {
+    recentWriteStore = cluster.isWorker
+      ? new ClusterRecentWriteStore()
+      : new MemoryRecentWriteStore();
+  }
+  return recentWriteStore;
+}
+
+/**
+ * Replace the store, e.g. with a Redis backed one (tests: in-memory store)
+ */
+export function setRecentWriteStore(store: RecentWriteStore | null): void {
+  recentWriteStore = store;
+}
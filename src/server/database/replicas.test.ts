@@ -0,0 +1,192 @@
+import { expect } from 'chai';
+import { setLogSink } from '../logging';
+import { poolSizePerWorker, withConnectionLimit } from './pool';
+import { bindReadScopeUser, hasWritten, markWritten, runWithReadScope } from './read-scope';
+import { MemoryRecentWriteStore, setRecentWriteStore } from './recent-writes';
+import { readWithFallback, ReplicaSet } from './replicas';
+
+/**
+ * Unit tests for read replica routing and pool sizing
+ */
+describe('Read replicas', () => {
+  describe('ReplicaSet', () => {
+    let down: Set<string>;
+    let pings: number;
+    let replicas: ReplicaSet<string>;
+
+    beforeEach(() => {
+      setLogSink(() => undefined);
+      down = new Set();
+      pings = 0;
+      replicas = new ReplicaSet(
+        ['a', 'b', 'c'].map((name) => ({
+          name,
+          client: name,
+          ping: async () => {
+            pings++;
+            if (down.has(name)) throw new Error('Connection refused');
+          },
+        }))
+      );
+    });
+
+    afterEach(() => setLogSink());
+
+    it('should pick nothing before the first health check', () => {
+      expect(replicas.pick()).to.be.null;
+    });
+
+    it('should pick healthy replicas round-robin', async () => {
+      expect(await replicas.checkHealth()).to.equal(3);
+
+      const picked = [1, 2, 3, 4].map(() => replicas.pick());
+      expect(picked).to.deep.equal(['a', 'b', 'c', 'a']);
+    });
+
+    it('should skip unhealthy replicas until they recover', async () => {
+      down.add('b');
+      expect(await replicas.checkHealth()).to.equal(2);
+      expect([1, 2, 3].map(() => replicas.pick())).to.deep.equal(['a', 'c', 'a']);
+
+      down.delete('b');
+      await replicas.checkHealth();
+      expect(replicas.status().every((replica) => replica.healthy)).to.be.true;
+    });
+
+    it('should pick nothing when all replicas are down', async () => {
+      down = new Set(['a', 'b', 'c']);
+      expect(await replicas.checkHealth()).to.equal(0);
+
+      expect(replicas.pick()).to.be.null;
+    });
+
+    it('should count a ping answered too late as failed', async () => {
+      const slow = new ReplicaSet(
+        [{ name: 'slow', client: 'slow', ping: () => new Promise<void>(() => undefined) }],
+        { pingTimeoutMs: 10 }
+      );
+
+      expect(await slow.checkHealth()).to.equal(0);
+    });
+
+    it('should join a running check instead of pinging again', async () => {
+      const [first, second] = await Promise.all([replicas.checkHealth(), replicas.checkHealth()]);
+
+      expect([first, second]).to.deep.equal([3, 3]);
+      expect(pings).to.equal(3);
+    });
+
+    it('should skip a replica failing a read until the next check', async () => {
+      await replicas.checkHealth();
+      replicas.markUnhealthy('b', new Error('Connection refused'));
+
+      expect([1, 2, 3].map(() => replicas.pick())).to.deep.equal(['a', 'c', 'a']);
+      await replicas.checkHealth();
+      expect(replicas.status().every((replica) => replica.healthy)).to.be.true;
+    });
+  });
+
+  describe('readWithFallback', () => {
+    const unreachable = () => Object.assign(new Error("Can't reach database"), { code: 'P1001' });
+
+    it('should read from the primary once the replica can not be reached', async () => {
+      const errors: unknown[] = [];
+
+      const result = await readWithFallback(
+        () => Promise.reject(unreachable()),
+        async () => 'primary',
+        (error) => errors.push(error)
+      );
+
+      expect(result).to.equal('primary');
+      expect(errors).to.have.lengthOf(1);
+    });
+
+    it('should not retry query errors on the primary', async () => {
+      const queryError = Object.assign(new Error('Unique constraint'), { code: 'P2002' });
+
+      try {
+        await readWithFallback(
+          () => Promise.reject(queryError),
+          () => expect.fail('Primary read'),
+          () => expect.fail('Replica marked unhealthy')
+        );
+        expect.fail('Should throw');
+      } catch (error) {
+        expect(error).to.equal(queryError);
+      }
+    });
+  });
+
+  describe('read scope', () => {
+    beforeEach(() => setRecentWriteStore(new MemoryRecentWriteStore()));
+
+    afterEach(() => setRecentWriteStore(null));
+
+    it('should stick to the primary after a write of the same call only', async () => {
+      const inCall = await runWithReadScope(async () => {
+        const before = hasWritten();
+        markWritten();
+        return { before, after: hasWritten() };
+      });
+      const otherCall = await runWithReadScope(async () => hasWritten());
+
+      expect(inCall).to.deep.equal({ before: false, after: true });
+      expect(otherCall).to.be.false;
+    });
+
+    it('should keep reads of the user on the primary within the lag window', async () => {
+      const readsPrimary = (userId: string, lagMs: number) =>
+        runWithReadScope(async () => {
+          await bindReadScopeUser(userId, lagMs);
+          return hasWritten();
+        }, lagMs);
+
+      await runWithReadScope(async () => {
+        await bindReadScopeUser('user-1', 1000);
+        markWritten();
+      }, 1000);
+
+      expect(await readsPrimary('user-1', 1000)).to.be.true;
+      expect(await readsPrimary('user-2', 1000)).to.be.false;
+      // Disabled - only the writing call reads from the primary
+      expect(await readsPrimary('user-1', 0)).to.be.false;
+    });
+
+    it('should read from the primary when recent writes are unavailable', async () => {
+      setRecentWriteStore({
+        record: async () => undefined,
+        get: () => Promise.reject(new Error('IPC timeout')),
+      });
+
+      const readsPrimary = await runWithReadScope(async () => {
+        await bindReadScopeUser('user-1', 1000);
+        return hasWritten();
+      }, 1000);
+
+      expect(readsPrimary).to.be.true;
+    });
+
+    it('should ignore writes outside of a scope', () => {
+      markWritten();
+
+      expect(hasWritten()).to.be.false;
+    });
+  });
+
+  describe('pool sizing', () => {
+    it('should split connections between workers', () => {
+      expect(poolSizePerWorker(20, 4)).to.equal(5);
+      expect(poolSizePerWorker(20, 3)).to.equal(6);
+      expect(poolSizePerWorker(2, 8)).to.equal(1);
+    });
+
+    it('should set connection limit unless the URL has one', () => {
+      const url = 'postgresql://user:secret@db:5432/app?schema=public';
+
+      expect(withConnectionLimit(url, 5)).to.equal(`${url}&connection_limit=5`);
+      expect(withConnectionLimit(`${url}&connection_limit=2`, 5)).to.include('connection_limit=2');
+      expect(withConnectionLimit(`${url}&connection_limit=2`, 5)).to.not.include('=5');
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { getLogger } from '../logging';
+
+const logger = getLogger('ReplicaSet');
+
+/**
+ * One read replica
+ */
+export interface Replica<C> {
+  /** Name in logs and health details, never the URL (credentials) */
+  name: string;
+  client: C;
+  /** Resolves when the replica answers queries */
+  ping: () => Promise<void>;
+}
+
+/**
+ * Prisma error codes of an unreachable database
+ * P1001 can not reach, P1002 timed out, P1008 operation timed out,
+ * P1017 server closed the connection, P2024 no connection from the pool in time
+ */
+const CONNECTION_ERROR_CODES = ['P1001', 'P1002', 'P1008', 'P1017', 'P2024'];
+
+/**
+ * Error means the database could not be reached - the query never ran
+ */
+export function isConnectionError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+  const { code, errorCode, name } = error as {
+    code?: unknown;
+    errorCode?: unknown;
+    name?: unknown;
+  };
+  return (
+    name === 'PrismaClientInitializationError' ||
+    CONNECTION_ERROR_CODES.includes((code ?? errorCode) as string)
+  );
+}
+
+/**
+ * Read from a replica, once more from the primary when the replica can not be reached
+ * @param onConnectionError - Called with the error of the replica, e.g. to mark it unhealthy
+ */
+export async function readWithFallback<T>(
+  read: () => Promise<T>,
+  readPrimary: () => Promise<T>,
+  onConnectionError: (error: unknown) => void
+): Promise<T> {
+  try {
+    return await read();
+  } catch (error) {
+    if (!isConnectionError(error)) {
+      throw error;
+    }
+    onConnectionError(error);
+    return readPrimary();
+  }
+}
+
+/**
+ * Read replicas picked round-robin
+ * Replicas failing their ping (or a read, see markUnhealthy) are skipped until a later
+ * check succeeds, pick() returns null when none is healthy - the caller reads from the primary.
+ *
+ * Usage:
+ *   const replicas = new ReplicaSet([{ name: 'replica-1', client, ping }], { pingTimeoutMs });
+ *   await replicas.checkHealth(); // periodically
+ *   const db = replicas.pick() ?? primary;
+ */
+export class ReplicaSet<C> {
+  private next = 0;
+  /** Replicas start unhealthy, the first checkHealth() enables them */
+  private readonly healthy: boolean[];
+  private checking: Promise<number> | null = null;
+
+  /**
+   * @param options.pingTimeoutMs - A ping answered later counts as failed
+   */
+  constructor(
+    private readonly replicas: Array<Replica<C>>,
+    private readonly options: { pingTimeoutMs?: number } = {}
+  ) {
+    this.healthy = replicas.map(() => false);
+  }
+
+  /**
+   * Next healthy replica, null if there is none
+   */
+  pick(): C | null {
+    for (let tried = 0; tried < this.replicas.length; tried++) {
+      const index = this.next;
+      this.next = (this.next + 1) % this.replicas.length;
+      if (this.healthy[index]) {
+        return this.replicas[index].client;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Ping all replicas and update their health, logs changes
+   * A call while a check is running joins it - slow pings never pile up
+   * @returns Number of healthy replicas
+   */
+  checkHealth(): Promise<number> {
+    if (!this.checking) {
+      this.checking = this.pingAll().finally(() => {
+        this.checking = null;
+      });
+    }
+    return this.checking;
+  }
+
+  /**
+   * Skip the replica of the client until the next successful check
+   * (a read failed with a connection error)
+   */
+  markUnhealthy(client: C, error: unknown): void {
+    const index = this.replicas.findIndex((replica) => replica.client === client);
+    if (index >= 0 && this.healthy[index]) {
+      logger.warn('Replica unreachable, reading from primary', {
+        replica: this.replicas[index].name,
+        error,
+      });
+      this.healthy[index] = false;
+    }
+  }
+
+  private async pingAll(): Promise<number> {
+    await Promise.all(
+      this.replicas.map(async (replica, index) => {
+        const healthy = await this.ping(replica).then(
+          () => true,
+          (error) => {
+            if (this.healthy[index]) {
+              logger.warn('Replica unhealthy, reading from primary', {
+                replica: replica.name,
+                error,
+              });
+            }
+            return false;
+          }
+        );
+        if (healthy && !this.healthy[index]) {
+          logger.info('Replica healthy', { replica: replica.name });
+        }
+        this.healthy[index] = healthy;
+      })
+    );
+    return this.healthy.filter(Boolean).length;
+  }
+
+  /**
+   * Ping the replica, rejects if it does not answer within pingTimeoutMs
+   */
+  private ping(replica: Replica<C>): Promise<void> {
+    const { pingTimeoutMs } = this.options;
+    if (!pingTimeoutMs) {
+      return replica.ping();
+    }
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${pingTimeoutMs}ms`)),
+        pingTimeoutMs
+      );
+    });
+    return Promise.race([replica.ping(), timeout]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Health of every replica
+   */
+  status(): Array<{ name: string; healthy: boolean }> {
+    return this.replicas.map((replica, index) => ({
+      name: replica.name,
+      healthy: this.healthy[index],
+    }));
+  }
+
+  /**
+   * All replicas, e.g. to disconnect them
+   */
+  clients(): C[] {
+    return this.replicas.map((replica) => replica.client);
+  }
+}
@@ -0,0 +1,173 @@
+import { expect } from 'chai';
+import type { Prisma } from '@prisma/client';
+import { setLogSink } from '../logging';
+import {
+  afterCommit,
+  getTransaction,
+  runInTransaction,
+  type IsolationLevel,
+  type TransactionRunner,
+} from './transaction';
+
+/**
+ * Unit tests for the unit of work over Prisma interactive transactions
+ * Uses a fake client recording the statements instead of the database
+ */
+describe('Transaction', () => {
+  let statements: string[];
+  let isolationLevels: Array<IsolationLevel | undefined>;
+
+  const tx = {
+    $executeRawUnsafe: async (sql: string) => void statements.push(sql),
+  } as unknown as Prisma.TransactionClient;
+
+  const client: TransactionRunner = {
+    async $transaction(fn, options) {
+      statements.push('BEGIN');
+      isolationLevels.push(options?.isolationLevel);
+      try {
+        const result = await fn(tx);
+        statements.push('COMMIT');
+        return result;
+      } catch (error) {
+        statements.push('ROLLBACK');
+        throw error;
+      }
+    },
+  };
+
+  const writeConflict = () => Object.assign(new Error('Write conflict'), { code: 'P2034' });
+
+  beforeEach(() => {
+    setLogSink(() => undefined);
+    statements = [];
+    isolationLevels = [];
+  });
+
+  afterEach(() => setLogSink());
+
+  it('should expose the transaction client to calls inside it only', async () => {
+    const inside = await runInTransaction(client, async () => getTransaction());
+
+    expect(inside).to.equal(tx);
+    expect(getTransaction()).to.be.undefined;
+    expect(statements).to.deep.equal(['BEGIN', 'COMMIT']);
+  });
+
+  it('should run nested calls in savepoints of the outer transaction', async () => {
+    await runInTransaction(client, async () => {
+      await runInTransaction(client, async () => {
+        await runInTransaction(client, async () => 'inner');
+      });
+      await runInTransaction(client, async () => 'second');
+    });
+
+    expect(statements).to.deep.equal([
+      'BEGIN',
+      'SAVEPOINT sp_1',
+      'SAVEPOINT sp_2',
+      'RELEASE SAVEPOINT sp_2',
+      'RELEASE SAVEPOINT sp_1',
+      'SAVEPOINT sp_3',
+      'RELEASE SAVEPOINT sp_3',
+      'COMMIT',
+    ]);
+  });
+
+  it('should roll back failed nested call alone', async () => {
+    const result = await runInTransaction(client, async () => {
+      await runInTransaction(client, async () => {
+        throw new Error('Nested failure');
+      }).catch(() => undefined);
+      return 'outer';
+    });
+
+    expect(result).to.equal('outer');
+    expect(statements).to.deep.equal([
+      'BEGIN',
+      'SAVEPOINT sp_1',
+      'ROLLBACK TO SAVEPOINT sp_1',
+      'COMMIT',
+    ]);
+  });
+
+  it('should refuse to change isolation level in a nested call', async () => {
+    try {
+      await runInTransaction(client, async () => {
+        await runInTransaction(client, async () => 'nested', { isolationLevel: 'Serializable' });
+      });
+      expect.fail('Should throw');
+    } catch (error) {
+      expect((error as Error).message).to.include('can not change isolation level');
+    }
+    expect(statements).to.deep.equal(['BEGIN', 'ROLLBACK']);
+  });
+
+  it('should retry the whole transaction after serialization failures', async () => {
+    let attempts = 0;
+    const result = await runInTransaction(
+      client,
+      async () => {
+        attempts++;
+        if (attempts < 3) throw writeConflict();
+        return 'done';
+      },
+      { isolationLevel: 'Serializable' }
+    );
+
+    expect(result).to.equal('done');
+    expect(attempts).to.equal(3);
+    expect(isolationLevels).to.deep.equal(['Serializable', 'Serializable', 'Serializable']);
+  });
+
+  it('should give up after maxRetries and not retry other errors', async () => {
+    let attempts = 0;
+    const conflict = writeConflict();
+    const failing = runInTransaction(
+      client,
+      async () => {
+        attempts++;
+        throw conflict;
+      },
+      { maxRetries: 1 }
+    );
+
+    try {
+      await failing;
+      expect.fail('Should throw');
+    } catch (error) {
+      expect(error).to.equal(conflict);
+    }
+    expect(attempts).to.equal(2);
+
+    attempts = 0;
+    await runInTransaction(client, async () => {
+      attempts++;
+      throw new Error('Not retryable');
+    }).catch(() => undefined);
+    expect(attempts).to.equal(1);
+  });
+
+  it('should run afterCommit callbacks of committed work only', async () => {
+    const committed: string[] = [];
+
+    await runInTransaction(client, async () => {
+      afterCommit(() => committed.push('outer'));
+      expect(committed).to.be.empty;
+      await runInTransaction(client, async () => {
+        afterCommit(() => committed.push('rolled back'));
+        throw new Error('Nested failure');
+      }).catch(() => undefined);
+      await runInTransaction(client, async () => {
+        afterCommit(() => committed.push('released'));
+      });
+    });
+    await runInTransaction(client, async () => {
+      afterCommit(() => committed.push('failed'));
+      throw new Error('Outer failure');
+    }).catch(() => undefined);
+    afterCommit(() => committed.push('outside'));
+
+    expect(committed).to.deep.equal(['outer', 'released', 'outside']);
+  });
+});
@@ -0,0 +1,184 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Prisma } from '@prisma/client';
+import { getLogger } from '../logging';
+
+/**
+ * Unit of work over a Prisma interactive transaction
+ * The transaction client is kept in async context, so every DAO asking
+ * DatabaseService.getPrisma() inside runInTransaction() joins it - no `tx`
+ * argument passed through service and DAO methods.
+ *
+ * - Nested calls run in a savepoint of the outer transaction - a failing nested
+ *   call is rolled back alone, the outer one may catch the error and continue
+ * - Serialization failures and deadlocks retry the whole (outermost) transaction
+ * - afterCommit() callbacks run once the outermost transaction commits, they are
+ *   dropped when their transaction or savepoint rolls back
+ *
+ * Usage:
+ *   await databaseService.runInTransaction(async () => {
+ *     const user = await userDAO.create(name, email);
+ *     await roleDAO.assignToUser(user.id, roleId);
+ *   }, { isolationLevel: 'Serializable' });
+ *
+ * Queries of one transaction run on one connection - do not run them in parallel
+ * (Promise.all) inside it.
+ */
+
+const logger = getLogger('Transaction');
+
+/** Prisma error of a serialization failure or deadlock of the transaction */
+const WRITE_CONFLICT = 'P2034';
+/** Prisma error of a failed raw query, carries the PostgreSQL SQLSTATE */
+const RAW_QUERY_FAILED = 'P2010';
+/** PostgreSQL serialization_failure and deadlock_detected */
+const RETRYABLE_SQLSTATES = ['40001', '40P01'];
+
+/** Delay before the first retry, doubled with every next one (with jitter) */
+const RETRY_BASE_DELAY_MS = 20;
+
+export type IsolationLevel = Prisma.TransactionIsolationLevel;
+
+export interface TransactionOptions {
+  /** Isolation level of the transaction, database default (READ COMMITTED) when not set */
+  isolationLevel?: IsolationLevel;
+  /** Retries after serialization failures and deadlocks, default 3 */
+  maxRetries?: number;
+  /** Maximum duration of the transaction, Prisma default (5s) when not set */
+  timeoutMs?: number;
+}
+
+/**
+ * Client starting transactions - PrismaClient
+ */
+export interface TransactionRunner {
+  $transaction<T>(
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
+    options?: { isolationLevel?: IsolationLevel; timeout?: number }
+  ): Promise<T>;
+}
+
+interface TransactionScope {
+  tx: Prisma.TransactionClient;
+  isolationLevel?: IsolationLevel;
+  /** Savepoints created so far, names are unique within the transaction */
+  savepoints: number;
+  afterCommit: Array<() => void>;
+}
+
+const storage = new AsyncLocalStorage<TransactionScope>();
+
+/**
+ * Client of the transaction of the current async call, undefined outside of runInTransaction
+ */
+export function getTransaction(): Prisma.TransactionClient | undefined {
+  return storage.getStore()?.tx;
+}
+
+/**
+ * Run function in a transaction, or in a savepoint when called inside another one
+ * @param client - Client starting the outermost transaction
+ * @param fn - Work of the transaction, runs again on retry - keep side effects in afterCommit()
+ * @throws Error of fn (after rollback), or the serialization failure when retries run out
+ */
+export async function runInTransaction<T>(
+  client: TransactionRunner,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  options: TransactionOptions = {}
+): Promise<T> {
+  const scope = storage.getStore();
+  if (scope) {
+    return runInSavepoint(scope, fn, options);
+  }
+
+  const { isolationLevel, maxRetries = 3, timeoutMs } = options;
+  for (let attempt = 0; ; attempt++) {
+    const afterCommit: Array<() => void> = [];
+    try {
+      const result = await client.$transaction(
+        (tx) => storage.run({ tx, isolationLevel, savepoints: 0, afterCommit }, () => fn(tx)),
+        { isolationLevel, timeout: timeoutMs }
+      );
+      runAfterCommit(afterCommit);
+      return result;
+    } catch (error) {
+      if (attempt >= maxRetries || !isSerializationFailure(error)) {
+        throw error;
+      }
+      logger.warn('Transaction conflict, retrying', { attempt: attempt + 1, isolationLevel });
+      await delay(Math.random() * RETRY_BASE_DELAY_MS * 2 ** (attempt + 1));
+    }
+  }
+}
+
+/**
+ * Run callback once the current transaction commits, right away outside of a transaction
+ * Used for effects that must not happen for rolled back work (audit changes, cache invalidation)
+ */
+export function afterCommit(callback: () => void): void {
+  const scope = storage.getStore();
+  if (scope) {
+    scope.afterCommit.push(callback);
+  } else {
+    callback();
+  }
+}
+
+/**
+ * Error is a serialization failure or deadlock - the transaction can be retried
+ */
+export function isSerializationFailure(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+  const { code, meta } = error as { code?: unknown; meta?: { code?: unknown } };
+  return (
+    code === WRITE_CONFLICT ||
+    (code === RAW_QUERY_FAILED && RETRYABLE_SQLSTATES.includes(meta?.code as string))
+  );
+}
+
+async function runInSavepoint<T>(
+  scope: TransactionScope,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  options: TransactionOptions
+): Promise<T> {
+  if (options.isolationLevel && options.isolationLevel !== scope.isolationLevel) {
+    throw new Error(
+      `Nested transaction can not change isolation level ` +
+        `(${scope.isolationLevel ?? 'default'} -> ${options.isolationLevel})`
+    );
+  }
+
+  // Generated name, never user input
+  const savepoint = `sp_${++scope.savepoints}`;
+  const pending = scope.afterCommit.length;
+  await scope.tx.$executeRawUnsafe(`SAVEPOINT ${savepoint}`);
+  try {
+    const result = await fn(scope.tx);
+    await scope.tx.$executeRawUnsafe(`RELEASE SAVEPOINT ${savepoint}`);
+    return result;
+  } catch (error) {
+    scope.afterCommit.length = pending;
+    try {
+      await scope.tx.$executeRawUnsafe(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+    } catch (rollbackError) {
+      // Transaction is gone (timeout, closed connection), the outer call fails anyway
+      logger.warn('Rollback to savepoint failed', { savepoint, error: rollbackError });
+    }
+    throw error;
+  }
+}
+
+function runAfterCommit(callbacks: Array<() => void>): void {
+  for (const callback of callbacks) {
+    try {
+      callback();
+    } catch (error) {
+      logger.error('After commit callback failed', { error });
+    }
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,113 @@
+import { expect } from 'chai';
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { publicProcedure, router } from './trpc';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationFailedError,
+  getConflictState,
+  getErrorCode,
+  getValidationErrors,
+} from './errors';
+import { createStubContext } from './context.stub';
+
+/**
+ * Unit tests for domain errors and their mapping to tRPC errors
+ */
+describe('Domain errors', () => {
+  const testRouter = router({
+    notFound: publicProcedure.query(() => {
+      throw new NotFoundError('RefreshToken', 'abc');
+    }),
+    conflict: publicProcedure.mutation(() => {
+      throw new ConflictError('Email taken', { code: 'EMAIL_TAKEN' });
+    }),
+    stale: publicProcedure.mutation(() => {
+      throw new ConflictError('User was changed', {
+        code: 'VERSION_CONFLICT',
+        current: { id: '1', version: 3 },
+      });
+    }),
+    forbidden: publicProcedure.mutation(() => {
+      throw new ForbiddenError('Not yours');
+    }),
+    invalid: publicProcedure.mutation(() => {
+      throw new ValidationFailedError('Invalid parent', { parentId: ['Creates a cycle'] });
+    }),
+    crash: publicProcedure.query(() => {
+      throw new Error('Boom');
+    }),
+    echo: publicProcedure
+      .input(z.object({ email: z.string().email() }))
+      .query(({ input }) => input.email),
+  });
+
+  const caller = testRouter.createCaller(createStubContext());
+
+  async function catchTRPCError(promise: Promise<unknown>): Promise<TRPCError> {
+    try {
+      await promise;
+    } catch (error) {
+      expect(error).to.be.instanceof(TRPCError);
+      return error as TRPCError;
+    }
+    return expect.fail('Should throw');
+  }
+
+  it('should derive not found code from entity name', () => {
+    const error = new NotFoundError('RefreshToken', 'abc');
+
+    expect(error.message).to.equal('RefreshToken abc not found');
+    expect(error.code).to.equal('REFRESH_TOKEN_NOT_FOUND');
+    expect(error.name).to.equal('NotFoundError');
+  });
+
+  it('should map domain errors to tRPC codes', async () => {
+    expect((await catchTRPCError(caller.notFound())).code).to.equal('NOT_FOUND');
+    expect((await catchTRPCError(caller.conflict())).code).to.equal('CONFLICT');
+    expect((await catchTRPCError(caller.forbidden())).code).to.equal('FORBIDDEN');
+    expect((await catchTRPCError(caller.invalid())).code).to.equal('BAD_REQUEST');
+  });
+
+  it('should keep message and expose stable error code', async () => {
+    const error = await catchTRPCError(caller.conflict());
+
+    expect(error.message).to.equal('Email taken');
+    expect(getErrorCode(error)).to.equal('EMAIL_TAKEN');
+  });
+
+  it('should expose current server state of conflicts', async () => {
+    const error = await catchTRPCError(caller.stale());
+
+    expect(getErrorCode(error)).to.equal('VERSION_CONFLICT');
+    expect(getConflictState(error)).to.deep.equal({ id: '1', version: 3 });
+    expect(getConflictState(await catchTRPCError(caller.conflict()))).to.be.null;
+  });
+
+  it('should leave unexpected errors as INTERNAL_SERVER_ERROR', async () => {
+    const error = await catchTRPCError(caller.crash());
+
+    expect(error.code).to.equal('INTERNAL_SERVER_ERROR');
+    expect(getErrorCode(error)).to.equal('INTERNAL_SERVER_ERROR');
+    expect(getValidationErrors(error)).to.be.null;
+  });
+
+  it('should expose field errors of ValidationFailedError', async () => {
+    const error = await catchTRPCError(caller.invalid());
+
+    expect(getErrorCode(error)).to.equal('VALIDATION_FAILED');
+    expect(getValidationErrors(error)?.fieldErrors).to.deep.equal({
+      parentId: ['Creates a cycle'],
+    });
+  });
+
+  it('should flatten zod input errors', async () => {
+    const error = await catchTRPCError(caller.echo({ email: 'not-an-email' }));
+
+    expect(error.code).to.equal('BAD_REQUEST');
+    expect(getErrorCode(error)).to.equal('VALIDATION_FAILED');
+    expect(getValidationErrors(error)?.fieldErrors).to.have.property('email');
+  });
+});
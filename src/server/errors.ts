@@ -0,0 +1,208 @@
+import { TRPCError } from '@trpc/server';
+import { ZodError } from 'zod';
+
+type TRPCErrorCode = TRPCError['code'];
+
+/**
+ * Field errors in the shape of zod's error.flatten()
+ */
+export interface ValidationErrors {
+  formErrors: string[];
+  fieldErrors: Record<string, string[] | undefined>;
+}
+
+export interface DomainErrorOptions {
+  /** Stable machine-readable code, defaults to the code of the error class */
+  code?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class of errors thrown from services and DAOs
+ *
+ * Services do not know about tRPC - they throw domain errors and
+ * the error middleware (see trpc.ts) maps them to tRPC error codes.
+ * Clients read the stable machine-readable code from error.data.errorCode.
+ *
+ * Usage:
+ *   throw new NotFoundError('User', id);
+ *   throw new ConflictError('Email already taken', { code: 'EMAIL_TAKEN' });
+ */
+export abstract class DomainError extends Error {
+  /** tRPC code the error is mapped to */
+  abstract readonly trpcCode: TRPCErrorCode;
+  /** Stable machine-readable code */
+  readonly code: string;
+  readonly cause?: unknown;
+
+  constructor(message: string, defaultCode: string, options: DomainErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = options.code ?? defaultCode;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Requested entity does not exist
+ * Code is derived from the entity name, e.g. USER_NOT_FOUND
+ */
+export class NotFoundError extends DomainError {
+  readonly trpcCode = 'NOT_FOUND';
+
+  constructor(entity: string, id: string, options?: DomainErrorOptions) {
+    super(`${entity} ${id} not found`, `${toCodeSegment(entity)}_NOT_FOUND`, options);
+  }
+}
+
+export interface ConflictErrorOptions extends DomainErrorOptions {
+  /** Current server state of the entity, sent to the client so it can merge or retry */
+  current?: unknown;
+}
+
+/**
+ * Operation collides with the current state (unique value taken, stale version, ...)
+ *
+ * Usage:
+ *   throw new ConflictError('User was changed', { code: 'VERSION_CONFLICT', current: user });
+ */
+export class ConflictError extends DomainError {
+  readonly trpcCode = 'CONFLICT';
+  readonly current: unknown;
+
+  constructor(message: string, options: ConflictErrorOptions = {}) {
+    super(message, 'CONFLICT', options);
+    this.current = options.current ?? null;
+  }
+}
+
+/**
+ * Caller is authenticated but not allowed to perform the operation
+ */
+export class ForbiddenError extends DomainError {
+  readonly trpcCode = 'FORBIDDEN';
+
+  constructor(message: string, options?: DomainErrorOptions) {
+    super(message, 'FORBIDDEN', options);
+  }
+}
+
+/**
+ * Caller is not authenticated or presented invalid credentials
+ */
+export class UnauthorizedError extends DomainError {
+  readonly trpcCode = 'UNAUTHORIZED';
+
+  constructor(message: string, options?: DomainErrorOptions) {
+    super(message, 'UNAUTHORIZED', options);
+  }
+}
+
+/**
+ * Caller exceeded a rate limit (see rate-limit/)
+ * Clients should wait retryAfterSeconds before retrying
+ */
+export class TooManyRequestsError extends DomainError {
+  readonly trpcCode = 'TOO_MANY_REQUESTS';
+
+  constructor(
+    message: string,
+    readonly retryAfterSeconds: number,
+    options?: DomainErrorOptions
+  ) {
+    super(message, 'RATE_LIMITED', options);
+  }
+}
+
+/**
+ * Input is well-formed but violates a business rule
+ * Field errors are exposed to the client like zod input errors
+ *
+ * Usage:
+ *   throw new ValidationFailedError('Invalid parent role', { parentId: ['Creates a cycle'] });
+ */
+export class ValidationFailedError extends DomainError {
+  readonly trpcCode = 'BAD_REQUEST';
+  readonly fieldErrors: Record<string, string[]>;
+
+  constructor(
+    message: string,
+    fieldErrors: Record<string, string[]> = {},
+    options?: DomainErrorOptions
+  ) {
+    super(message, 'VALIDATION_FAILED', options);
+    this.fieldErrors = fieldErrors;
+  }
+
+  /**
+   * Create from a failed zod parse of a single value
+   * @param field - Field the value belongs to
+   * @param error - Zod error
+   */
+  static fromZodError(field: string, error: ZodError, options?: DomainErrorOptions) {
+    const messages = error.issues.map((issue) => issue.message);
+    return new ValidationFailedError(messages.join(', '), { [field]: messages }, {
+      cause: error,
+      ...options,
+    });
+  }
+}
+
+/**
+ * Map domain error to TRPCError, keeping the original error as cause
+ */
+export function toTRPCError(error: DomainError): TRPCError {
+  return new TRPCError({ code: error.trpcCode, message: error.message, cause: error });
+}
+
+/**
+ * Stable machine-readable code of an error
+ * Domain error code, VALIDATION_FAILED for invalid input, otherwise the tRPC code
+ */
+export function getErrorCode(error: TRPCError): string {
+  if (error.cause instanceof DomainError) {
+    return error.cause.code;
+  }
+  if (error.cause instanceof ZodError) {
+    return 'VALIDATION_FAILED';
+  }
+  return error.code;
+}
+
+/**
+ * Field errors of invalid input (zod) or ValidationFailedError
+ * @returns Flattened errors or null for other errors
+ */
+export function getValidationErrors(error: TRPCError): ValidationErrors | null {
+  if (error.cause instanceof ZodError) {
+    return error.cause.flatten();
+  }
+  if (error.cause instanceof ValidationFailedError) {
+    return { formErrors: [], fieldErrors: error.cause.fieldErrors };
+  }
+  return null;
+}
+
+/**
+ * Seconds the client should wait before retrying, null if not rate limited
+ */
+export function getRetryAfter(error: TRPCError): number | null {
+  return error.cause instanceof TooManyRequestsError ? error.cause.retryAfterSeconds : null;
+}
+
+/**
+ * Current server state of a conflicting entity, null for other errors
+ */
+export function getConflictState(error: TRPCError): unknown {
+  return error.cause instanceof ConflictError ? error.cause.current : null;
+}
+
+/**
+ * 'Role permission' -> 'ROLE_PERMISSION', 'RefreshToken' -> 'REFRESH_TOKEN'
+ */
+function toCodeSegment(entity: string): string {
+  return entity
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .toUpperCase();
+}
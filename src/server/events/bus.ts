@@ -0,0 +1,269 @@
+import { randomUUID } from 'crypto';
+import { getLogger } from '../logging';
+import { eventHandlerErrors } from '../metrics/definitions';
+import {
+  domainEvents,
+  isDomainEventName,
+  type DomainEvent,
+  type DomainEventName,
+  type DomainEventPayload,
+} from './catalog';
+import type { EventTransport } from './transport';
+
+/**
+ * In-process bus of domain events (see catalog.ts)
+ *
+ * Services publish what happened, other services react without the publisher
+ * knowing about them. Every handler is isolated - its error is logged and counted
+ * (domain_event_handler_errors_total), the publisher and other handlers are not affected.
+ *
+ * Usage:
+ *   await events.publish('user.created', { user });
+ *
+ *   class MailService extends Service {
+ *     @OnEvent('user.created')
+ *     async sendWelcome(event: DomainEvent<'user.created'>) { ... }
+ *   }
+ */
+
+const logger = getLogger('EventBus');
+
+export type EventHandler<N extends DomainEventName = DomainEventName> = (
+  event: DomainEvent<N>
+) => unknown;
+
+export interface SubscribeOptions {
+  /**
+   * - async (default) - handler runs after publish() returns, e.g. sending emails
+   * - sync - publish() waits for the handler, e.g. invalidating a cache before the response
+   */
+  delivery?: 'sync' | 'async';
+  /**
+   * - local (default) - events published in this process only
+   * - cluster - also events of other processes received by the transport, always async
+   *   (e.g. per-process caches - every worker has to react, a side effect like an email should not)
+   */
+  scope?: 'local' | 'cluster';
+  /** Handler name in logs and metrics */
+  name?: string;
+}
+
+/**
+ * Publishing side of the bus, what services depend on
+ */
+export interface EventPublisher {
+  publish<N extends DomainEventName>(name: N, payload: DomainEventPayload<N>): Promise<void>;
+}
+
+interface Subscription {
+  handler: EventHandler;
+  delivery: 'sync' | 'async';
+  scope: 'local' | 'cluster';
+  name: string;
+}
+
+interface DeclaredHandler {
+  key: string;
+  names: DomainEventName[];
+  options: SubscribeOptions;
+}
+
+/** Handlers declared by @OnEvent, by class prototype */
+const declaredHandlers = new WeakMap<object, DeclaredHandler[]>();
+
+/**
+ * Declare method as handler of events
+ * Subscribed when the instance is passed to EventBus.subscribeHandlers()
+ * (done for all services in init.ts)
+ */
+export function OnEvent<N extends DomainEventName>(names: N | N[], options: SubscribeOptions = {}) {
+  return <T extends EventHandler<N>>(
+    target: object,
+    key: string,
+    _descriptor: TypedPropertyDescriptor<T>
+  ): void => {
+    const declared = declaredHandlers.get(target) ?? [];
+    declaredHandlers.set(target, [...declared, { key, names: toArray(names), options }]);
+  };
+}
+
+export class EventBus implements EventPublisher {
+  /** Identifies events of this bus coming back from the transport */
+  readonly origin = randomUUID();
+  private subscriptions = new Map<DomainEventName, Subscription[]>();
+  private pending = new Set<Promise<void>>();
+  private transport: EventTransport | null = null;
+  private stopReceiving: (() => void) | null = null;
+
+  /**
+   * Publish event
+   * Resolves when sync handlers finished, async handlers are only scheduled
+   * @throws Error if the payload does not match the schema of the event
+   */
+  async publish<N extends DomainEventName>(name: N, payload: DomainEventPayload<N>): Promise<void> {
+    const result = domainEvents[name].safeParse(payload);
+    if (!result.success) {
+      throw new Error(`Invalid payload of event ${name}: ${result.error.message}`);
+    }
+
+    const event = {
+      id: randomUUID(),
+      name,
+      payload: result.data,
+      occurredAt: new Date().toISOString(),
+      origin: this.origin,
+    } as DomainEvent;
+
+    this.transport?.send(event);
+    await this.dispatch(event, false);
+  }
+
+  /**
+   * Subscribe handler to one or more events
+   * @returns Function removing the subscription
+   */
+  subscribe<N extends DomainEventName>(
+    names: N | N[],
+    handler: EventHandler<N>,
+    options: SubscribeOptions = {}
+  ): () => void {
+    const subscription: Subscription = {
+      handler: handler as EventHandler,
+      delivery: options.delivery ?? 'async',
+      scope: options.scope ?? 'local',
+      name: options.name ?? (handler.name || 'anonymous'),
+    };
+    const eventNames = toArray(names);
+    for (const eventName of eventNames) {
+      const existing = this.subscriptions.get(eventName) ?? [];
+      this.subscriptions.set(eventName, [...existing, subscription]);
+    }
+
+    return () => {
+      for (const eventName of eventNames) {
+        const existing = this.subscriptions.get(eventName) ?? [];
+        this.subscriptions.set(
+          eventName,
+          existing.filter((entry) => entry !== subscription)
+        );
+      }
+    };
+  }
+
+  /**
+   * Subscribe methods of an instance declared with @OnEvent (also of parent classes)
+   * The method is looked up on every call, so wrappers installed later (tracing) are used
+   * @returns Function removing the subscriptions
+   */
+  subscribeHandlers(instance: object): () => void {
+    const className = instance.constructor.name;
+    const unsubscribes: (() => void)[] = [];
+
+    for (
+      let prototype = Object.getPrototypeOf(instance);
+      prototype && prototype !== Object.prototype;
+      prototype = Object.getPrototypeOf(prototype)
+    ) {
+      for (const { key, names, options } of declaredHandlers.get(prototype) ?? []) {
+        const handler = (event: DomainEvent) =>
+          (instance as Record<string, EventHandler>)[key](event);
+        const name = `${className}.${key}`;
+        unsubscribes.push(this.subscribe(names, handler, { name, ...options }));
+      }
+    }
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }
+
+  /**
+   * Send events to other processes and receive theirs, null stops it
+   */
+  setTransport(transport: EventTransport | null): void {
+    this.stopReceiving?.();
+    this.transport = transport;
+    this.stopReceiving = transport?.receive((event) => this.receive(event)) ?? null;
+  }
+
+  /**
+   * Wait until scheduled async handlers finish (shutdown, tests)
+   * @returns False if handlers were still running after timeoutMs
+   */
+  async drain(timeoutMs = 10_000): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<false>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+
+    try {
+      // Handlers may publish further events, wait until nothing is scheduled
+      while (this.pending.size) {
+        const idle = Promise.all(this.pending).then(() => true);
+        if (!(await Promise.race([idle, timedOut]))) {
+          return false;
+        }
+      }
+      return true;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Event published by another process
+   * Payload is validated again - processes may run different versions during a rolling restart
+   */
+  private receive(event: DomainEvent): void {
+    if (event.origin === this.origin) return;
+
+    const result = isDomainEventName(event.name)
+      ? domainEvents[event.name].safeParse(event.payload)
+      : undefined;
+    if (!result?.success) {
+      logger.warn('Dropping unknown or invalid event', { event: event.name, eventId: event.id });
+      return;
+    }
+    void this.dispatch({ ...event, payload: result.data } as DomainEvent, true);
+  }
+
+  private async dispatch(event: DomainEvent, remote: boolean): Promise<void> {
+    const subscriptions = (this.subscriptions.get(event.name) ?? []).filter(
+      (subscription) => !remote || subscription.scope === 'cluster'
+    );
+
+    for (const subscription of subscriptions) {
+      if (remote || subscription.delivery === 'async') {
+        this.schedule(subscription, event);
+      }
+    }
+    for (const subscription of subscriptions) {
+      if (!remote && subscription.delivery === 'sync') {
+        await this.invoke(subscription, event);
+      }
+    }
+  }
+
+  private schedule(subscription: Subscription, event: DomainEvent): void {
+    const run = new Promise<void>((resolve) => setImmediate(resolve)).then(() =>
+      this.invoke(subscription, event)
+    );
+    this.pending.add(run);
+    void run.then(() => this.pending.delete(run));
+  }
+
+  private async invoke(subscription: Subscription, event: DomainEvent): Promise<void> {
+    try {
+      await subscription.handler(event);
+    } catch (error) {
+      eventHandlerErrors.inc({ event: event.name, handler: subscription.name });
+      logger.error('Event handler failed', {
+        event: event.name,
+        eventId: event.id,
+        handler: subscription.name,
+        error,
+      });
+    }
+  }
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
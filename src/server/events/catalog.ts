@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+/**
+ * Catalog of domain events and schemas of their payloads
+ *
+ * Payloads are validated when published and when received from other workers.
+ * They must be serializable (dates as ISO strings) - they may cross process boundaries.
+ * Add new events here, the name and payload type of publish() and handlers follow.
+ */
+
+const userSnapshot = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string(),
+});
+
+export const domainEvents = {
+  'user.created': z.object({ user: userSnapshot }),
+  'user.updated': z.object({ user: userSnapshot }),
+  'user.deleted': z.object({ user: userSnapshot }),
+  'user.restored': z.object({ user: userSnapshot }),
+};
+
+export type DomainEventName = keyof typeof domainEvents;
+
+export type DomainEventPayload<N extends DomainEventName> = z.infer<(typeof domainEvents)[N]>;
+
+/**
+ * Published event as delivered to handlers
+ * Union of the named events, `event.name` narrows the payload
+ */
+export type DomainEvent<N extends DomainEventName = DomainEventName> = {
+  [K in N]: {
+    id: string;
+    name: K;
+    payload: DomainEventPayload<K>;
+    occurredAt: string;
+    /** Bus (process) which published the event */
+    origin: string;
+  };
+}[N];
+
+export function isDomainEventName(name: string): name is DomainEventName {
+  return Object.prototype.hasOwnProperty.call(domainEvents, name);
+}
@@ -0,0 +1,139 @@
+import { expect } from 'chai';
+import { LocalPubSub } from '../pubsub';
+import { registry } from '../metrics/definitions';
+import { setLogSink } from '../logging';
+import { EventBus, OnEvent } from './bus';
+import { PubSubEventTransport } from './transport';
+import type { DomainEvent, DomainEventPayload } from './catalog';
+
+/**
+ * Unit tests for the domain event bus
+ */
+describe('EventBus', () => {
+  const user = { id: 'u1', name: 'John', email: 'john@example.com' };
+  let bus: EventBus;
+
+  beforeEach(() => {
+    bus = new EventBus();
+    registry.reset();
+    // Failing handlers are logged
+    setLogSink(() => undefined);
+  });
+
+  afterEach(() => setLogSink());
+
+  it('should validate payload against the catalog', async () => {
+    try {
+      // Payload missing name and email - only the runtime check can catch it
+      const payload = { user: { id: 'u1' } } as unknown as DomainEventPayload<'user.created'>;
+      await bus.publish('user.created', payload);
+      expect.fail('Should throw');
+    } catch (error) {
+      expect((error as Error).message).to.contain('Invalid payload of event user.created');
+    }
+  });
+
+  it('should wait for sync handlers and run async handlers afterwards', async () => {
+    const calls: string[] = [];
+    bus.subscribe('user.created', () => calls.push('async'));
+    bus.subscribe('user.created', async () => calls.push('sync'), { delivery: 'sync' });
+    bus.subscribe('user.deleted', () => calls.push('other'), { delivery: 'sync' });
+
+    await bus.publish('user.created', { user });
+    expect(calls).to.deep.equal(['sync']);
+
+    expect(await bus.drain()).to.be.true;
+    expect(calls).to.deep.equal(['sync', 'async']);
+  });
+
+  it('should isolate failing handlers', async () => {
+    const delivered: string[] = [];
+    const failing = () => {
+      throw new Error('Boom');
+    };
+    bus.subscribe('user.created', failing, { delivery: 'sync' });
+    bus.subscribe(
+      'user.created',
+      (event) => delivered.push(event.payload.user.id),
+      { delivery: 'sync' }
+    );
+
+    await bus.publish('user.created', { user });
+
+    expect(delivered).to.deep.equal(['u1']);
+    const errors = registry
+      .collect()
+      .find((family) => family.name === 'domain_event_handler_errors_total')!;
+    expect(errors.samples).to.deep.equal([
+      { labels: { event: 'user.created', handler: 'failing' }, value: 1 },
+    ]);
+  });
+
+  it('should stop delivery after unsubscribe', async () => {
+    const calls: string[] = [];
+    const unsubscribe = bus.subscribe(
+      ['user.created', 'user.updated'],
+      (event) => calls.push(event.name),
+      { delivery: 'sync' }
+    );
+
+    await bus.publish('user.created', { user });
+    unsubscribe();
+    await bus.publish('user.updated', { user });
+
+    expect(calls).to.deep.equal(['user.created']);
+  });
+
+  it('should subscribe handlers declared with @OnEvent', async () => {
+    class MailService {
+      sent: string[] = [];
+
+      @OnEvent('user.created', { delivery: 'sync' })
+      async sendWelcome(event: DomainEvent<'user.created'>): Promise<void> {
+        this.sent.push(event.payload.user.email);
+      }
+    }
+    const service = new MailService();
+    const unsubscribe = bus.subscribeHandlers(service);
+
+    await bus.publish('user.created', { user });
+    unsubscribe();
+    await bus.publish('user.created', { user });
+
+    expect(service.sent).to.deep.equal(['john@example.com']);
+  });
+
+  describe('transport', () => {
+    it('should deliver events of other processes to cluster scoped handlers', async () => {
+      const pubsub = new LocalPubSub();
+      const other = new EventBus();
+      bus.setTransport(new PubSubEventTransport(pubsub));
+      other.setTransport(new PubSubEventTransport(pubsub));
+
+      const received: string[] = [];
+      other.subscribe('user.updated', () => received.push('cluster'), { scope: 'cluster' });
+      other.subscribe('user.updated', () => received.push('local'));
+      bus.subscribe('user.updated', () => received.push('publisher'), { scope: 'cluster' });
+
+      await bus.publish('user.updated', { user });
+      await Promise.all([bus.drain(), other.drain()]);
+
+      expect(received).to.have.members(['publisher', 'cluster']);
+      expect(received).to.have.length(2);
+    });
+
+    it('should drop invalid events of other processes', async () => {
+      const pubsub = new LocalPubSub();
+      bus.setTransport(new PubSubEventTransport(pubsub));
+      const received: unknown[] = [];
+      bus.subscribe('user.created', (event) => received.push(event), { scope: 'cluster' });
+
+      const remote = { payload: {}, occurredAt: '', origin: 'other' };
+      pubsub.publish('domain-events', { ...remote, id: '1', name: 'user.created' });
+      pubsub.publish('domain-events', { ...remote, id: '2', name: 'order.paid' });
+      await bus.drain();
+
+      expect(received).to.be.empty;
+    });
+  });
+});
@@ -0,0 +1,6 @@
+export { EventBus, OnEvent } from './bus';
+export type { EventHandler, EventPublisher, SubscribeOptions } from './bus';
+export { domainEvents, isDomainEventName } from './catalog';
+export type { DomainEvent, DomainEventName, DomainEventPayload } from './catalog';
+export { PubSubEventTransport } from './transport';
+export type { EventTransport } from './transport';
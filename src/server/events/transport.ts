@@ -0,0 +1,33 @@
+import { getPubSub, type PubSub } from '../pubsub';
+import type { DomainEvent } from './catalog';
+
+/**
+ * Delivery of events to buses of other processes
+ */
+export interface EventTransport {
+  send(event: DomainEvent): void;
+  /**
+   * Deliver events of other processes (own events may be received too, the bus skips them)
+   * @returns Function stopping the delivery
+   */
+  receive(handler: (event: DomainEvent) => void): () => void;
+}
+
+/**
+ * Transport over pub/sub - with the default broker events reach all cluster workers,
+ * a broker shared by machines (setPubSub) extends it to the whole deployment
+ */
+export class PubSubEventTransport implements EventTransport {
+  constructor(
+    private readonly pubsub: PubSub = getPubSub(),
+    private readonly channel = 'domain-events'
+  ) {}
+
+  send(event: DomainEvent): void {
+    this.pubsub.publish(this.channel, event);
+  }
+
+  receive(handler: (event: DomainEvent) => void): () => void {
+    return this.pubsub.subscribe<DomainEvent>(this.channel, handler);
+  }
+}
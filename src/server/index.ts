@@ -1,44 +1,82 @@
 import 'reflect-metadata';
-import express, { type Request, type Response, type NextFunction } from 'express';
+import type { Server } from 'http';
+import express, { type Request, type Response } from 'express';
 import { createExpressMiddleware } from '@trpc/server/adapters/express';
 import { initializeServices } from './init';
 import { appRouter } from './routers/_app';
 import { createContext } from './context';
+import { ServicesContext } from './services';
+import { HealthService } from './services/health.service';
+import { gracefulShutdown, onShutdownSignal, trackInFlightRequests } from './shutdown';
+import { isClusterMode, startCluster } from './cluster';
+import { corsMiddleware, securityHeadersMiddleware } from './security';
+import { ConfigError, getConfig, type Config } from './config';
+import { configureLogging, getLogger } from './logging';
+import {
+  PROMETHEUS_CONTENT_TYPE,
+  collectMetrics,
+  isScrapeAuthorized,
+  renderPrometheus,
+} from './metrics';
 
-const PORT = parseInt(process.env.BACKEND_PORT || '3001', 10);
-const HOST = process.env.BACKEND_HOST || 'localhost';
+const logger = getLogger('Backend');
 
 /**
- * Start Express backend server with tRPC
+ * Create Express backend server with tRPC and start listening
  * Runs on separate port from frontend
+ * Services must be initialized before
+ * @param config - Server configuration
+ * @returns Listening server
  */
-async function start() {
-  console.log('[Backend] Initializing services...');
-  await initializeServices();
-
+async function createServer(config: Config): Promise<Server> {
+  const { port, host } = config.server;
+  const { security } = config;
   const app = express();
+  app.disable('x-powered-by');
 
   // Middleware
+  app.use(securityHeadersMiddleware(security.headers));
+  // CORS - origin allowlist, answers preflight requests (see CORS_* variables)
+  app.use(corsMiddleware(security.cors));
   app.use(express.json());
 
-  // Enable CORS
-  app.use((req: Request, res: Response, next: NextFunction) => {
-    res.header('Access-Control-Allow-Origin', '*');
-    res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  const healthService: HealthService = ServicesContext.lookup(HealthService);
 
-    if (req.method === 'OPTIONS') {
-      res.sendStatus(200);
-      return;
-    }
-
-    next();
+  // Liveness - process is running, restart the worker if this fails
+  app.get('/health/live', (_req: Request, res: Response) => {
+    res.json({ status: 'ok', uptime: process.uptime() });
   });
 
-  // Health check
-  app.get('/health', (_req: Request, res: Response) => {
-    res.json({ status: 'ok' });
-  });
+  // Readiness - worker can serve traffic (critical checks pass, not shutting down)
+  const readiness = async (_req: Request, res: Response) => {
+    const report = await healthService.getReport();
+    res.status(report.ready ? 200 : 503).json({
+      status: report.ready ? 'ok' : 'unavailable',
+      shuttingDown: report.shuttingDown,
+      checks: report.checks.map(({ name, status, latencyMs }) => ({ name, status, latencyMs })),
+    });
+  };
+  app.get('/health/ready', readiness);
+  app.get('/health', readiness);
+
+  // Prometheus metrics - aggregated from all workers in cluster mode
+  if (config.metrics.enabled) {
+    app.get('/metrics', async (req: Request, res: Response) => {
+      if (!isScrapeAuthorized(req.headers.authorization, config.metrics.token)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        res.status(401).send('Unauthorized\n');
+        return;
+      }
+      try {
+        const metrics = await collectMetrics();
+        res.setHeader('Content-Type', PROMETHEUS_CONTENT_TYPE);
+        res.send(renderPrometheus(metrics));
+      } catch (error) {
+        logger.error('Failed to collect metrics', { error });
+        res.status(503).send('Metrics unavailable\n');
+      }
+    });
+  }
 
   // tRPC handler
   app.use(
@@ -46,25 +84,66 @@ async function start() {
     createExpressMiddleware({
       router: appRouter,
       createContext,
+      onError({ error, path, ctx }) {
+        // Expected errors (NOT_FOUND, CONFLICT, ...) are part of the API, log only crashes
+        if (error.code === 'INTERNAL_SERVER_ERROR') {
+          logger.error('Unexpected error', {
+            path,
+            requestId: ctx?.requestId,
+            userId: ctx?.userId,
+            error: error.cause ?? error,
+          });
+        }
+      },
     })
   );
 
-  const server = app.listen(PORT, HOST, () => {
-    console.log(`[Backend] tRPC server running at http://${HOST}:${PORT}/trpc`);
-    console.log(`[Backend] Health check at http://${HOST}:${PORT}/health`);
-  });
-
-  // Graceful shutdown
-  process.on('SIGTERM', async () => {
-    console.log('[Backend] SIGTERM received, shutting down gracefully...');
-    server.close(() => {
-      console.log('[Backend] Server closed');
-      process.exit(0);
+  return new Promise((resolve, reject) => {
+    const server = app.listen(port, host, (error?: Error) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      logger.info(`tRPC server running at http://${host}:${port}/trpc`);
+      logger.info(`Health checks at http://${host}:${port}/health/live and /health/ready`);
+      if (config.metrics.enabled) {
+        logger.info(`Metrics at http://${host}:${port}/metrics`);
+      }
+      resolve(server);
     });
   });
 }
 
+/**
+ * Start backend - supervised worker processes in cluster mode (CLUSTER_MODE=true),
+ * otherwise a single process
+ */
+async function start() {
+  // Fail before forking workers if the configuration is invalid
+  const config = getConfig();
+  configureLogging(config.logging);
+
+  if (isClusterMode()) {
+    await startCluster(() => createServer(config));
+    return;
+  }
+
+  logger.info('Initializing services...');
+  await initializeServices();
+
+  const server = await createServer(config);
+  const inFlight = trackInFlightRequests(server);
+
+  // Graceful shutdown on SIGTERM/SIGINT - drain requests, then shut down services
+  onShutdownSignal('Backend', () => gracefulShutdown(server, inFlight));
+}
+
 start().catch((err) => {
-  console.error('[Backend] Failed to start server:', err);
+  if (err instanceof ConfigError) {
+    // Readable list of invalid variables, logging is not configured yet
+    console.error(`[Backend] ${err.message}`);
+  } else {
+    logger.error('Failed to start server', { error: err });
+  }
   process.exit(1);
 });
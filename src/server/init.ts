@@ -1,41 +1,98 @@
 import 'reflect-metadata';
+import { Service } from '@david.uhlir/services';
 import { ServicesContext } from './services';
 import { UserService } from './services/user.service';
 import { DatabaseService } from './services/database.service';
 import { UserDAO } from './services/user.dao';
+import { RefreshTokenDAO } from './services/refresh-token.dao';
+import { AuthService } from './services/auth.service';
+import { RoleDAO } from './services/role.dao';
+import { RoleService } from './services/role.service';
+import { HealthService } from './services/health.service';
+import { LoggerService } from './services/logger.service';
+import { TracingService } from './services/tracing.service';
+import { EventBusService } from './services/event-bus.service';
+import { OutboxDAO } from './services/outbox.dao';
+import { LeaseDAO } from './services/lease.dao';
+import { OutboxService } from './services/outbox.service';
+import { AuditLogDAO } from './services/audit-log.dao';
+import { AuditService } from './services/audit.service';
+import { RetentionService } from './services/retention.service';
+import { CacheService } from './services/cache.service';
+import { NotificationService } from './services/notification.service';
+import { getConfig } from './config';
+import { traceMethods } from './tracing';
+import { getLogger } from './logging';
+
+const logger = getLogger('ServicesContext');
 
 let initialized = false;
 
+/** Services in initialization order, shut down in reverse */
+let services: Service[] = [];
+
 /**
  * Initialize all services on application startup
  * Should be called once when the application starts
  * Example: Automatically called on first tRPC request or API route
  *
  * Service initialization order matters:
- * 1. Database service (required by DAOs)
- * 2. Data access objects (use database service)
- * 3. Business logic services (use DAOs)
+ * 0. Logger and tracing services (used by everything below, shut down last)
+ * 1. Health service (services register their health checks)
+ * 2. Database and cache services (required by DAOs)
+ * 3. Data access objects (use database service)
+ * 4. Business logic services (use DAOs)
+ * 5. Event bus (shut down first, so pending event handlers can still use the services)
  */
 export async function initializeServices(): Promise<void> {
-  console.log('[ServicesContext] Initializing services...');
+  logger.info('Initializing services...');
+
+  const eventBus = new EventBusService();
 
   // Register all services - ORDER MATTERS!
   // Database service must initialize before DAOs
-  await ServicesContext.initialize([
+  services = [
+    new LoggerService(),
+    new TracingService(),
+    new HealthService(),
     new DatabaseService(),
+    new CacheService(),
+    new OutboxDAO(),
+    new LeaseDAO(),
+    new AuditLogDAO(),
     new UserDAO(),
+    new RefreshTokenDAO(),
+    new RoleDAO(),
+    new NotificationService(),
     new UserService(),
+    new RoleService(),
+    new AuthService(),
+    new OutboxService(),
+    new AuditService(),
+    new RetentionService(),
     // Add more services here as needed
     // new ConfigurationService(),
     // new MachinesService(),
     // new AIService(),
     // etc.
-  ]);
+    eventBus,
+  ];
+
+  // Spans for every service method call (lookup and injection return these instances)
+  if (getConfig().tracing.enabled) {
+    services.forEach((service) => traceMethods(service, { stopAt: Service.prototype }));
+  }
+
+  // Event handlers declared with @OnEvent
+  services.forEach((service) => eventBus.subscribeHandlers(service));
+
+  await ServicesContext.initialize(services);
 
   // Wait for all services to complete initialization
   await ServicesContext.waitForInit();
+  initialized = true;
 
-  console.log('[ServicesContext] All services initialized successfully');
+  logger.info('All services initialized successfully');
 }
 
 /**
@@ -45,17 +102,27 @@ export async function initializeServices(): Promise<void> {
 export async function ensureServicesInitialized(): Promise<void> {
   if (!initialized) {
     await initializeServices();
-    initialized = true;
   }
 }
 
 /**
  * Shutdown all services on application termination
+ * Runs in reverse initialization order, so services shut down before
+ * the services they depend on (e.g. DAOs before DatabaseService).
+ * Failure of one service does not prevent shutdown of the others.
  */
 export async function shutdownServices(): Promise<void> {
-  console.log('[ServicesContext] Shutting down services...');
-  // ServicesContext handles cleanup automatically during shutdown
-  // No explicit destroy call needed - services cleanup is called internally
-  console.log('[ServicesContext] All services shut down');
+  logger.info('Shutting down services...');
+
+  for (const service of [...services].reverse()) {
+    try {
+      await service.shutdown();
+    } catch (error) {
+      logger.error('Failed to shut down service', { service: service.constructor.name, error });
+    }
+  }
+
+  logger.info('All services shut down');
+  services = [];
   initialized = false;
 }
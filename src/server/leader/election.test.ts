@@ -0,0 +1,87 @@
+import { expect } from 'chai';
+import { setLogSink } from '../logging';
+import { LeaderElection, type LeaseStore } from './election';
+
+/**
+ * Lease store test double with controllable clock
+ */
+class MemoryLeaseStore implements LeaseStore {
+  now = 0;
+  failing = false;
+  private leases = new Map<string, { holder: string; expiresAt: number }>();
+
+  async acquire(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    if (this.failing) throw new Error('Database unavailable');
+    const lease = this.leases.get(name);
+    if (lease && lease.holder !== holder && lease.expiresAt > this.now) {
+      return false;
+    }
+    this.leases.set(name, { holder, expiresAt: this.now + ttlMs });
+    return true;
+  }
+
+  async release(name: string, holder: string): Promise<void> {
+    if (this.leases.get(name)?.holder === holder) {
+      this.leases.delete(name);
+    }
+  }
+}
+
+/**
+ * Unit tests for lease based leader election
+ */
+describe('LeaderElection', () => {
+  let store: MemoryLeaseStore;
+  let first: LeaderElection;
+  let second: LeaderElection;
+
+  beforeEach(() => {
+    setLogSink(() => undefined);
+    store = new MemoryLeaseStore();
+    first = new LeaderElection(store, { name: 'outbox', ttlMs: 1000, holder: 'first' });
+    second = new LeaderElection(store, { name: 'outbox', ttlMs: 1000, holder: 'second' });
+  });
+
+  afterEach(() => setLogSink());
+
+  it('should elect one leader and keep it while it renews the lease', async () => {
+    expect(await first.check()).to.be.true;
+    expect(await second.check()).to.be.false;
+
+    store.now = 900;
+    expect(await first.check()).to.be.true;
+    store.now = 1500;
+    expect(await second.check()).to.be.false;
+  });
+
+  it('should let another candidate take over an expired lease', async () => {
+    await first.check();
+    store.now = 1001;
+
+    expect(await second.check()).to.be.true;
+    expect(await first.check()).to.be.false;
+    expect(first.isLeader).to.be.false;
+  });
+
+  it('should hand over immediately after resigning', async () => {
+    await first.check();
+    await first.resign();
+
+    expect(first.isLeader).to.be.false;
+    expect(await second.check()).to.be.true;
+  });
+
+  it('should not lead when the store fails', async () => {
+    await first.check();
+    store.failing = true;
+
+    expect(await first.check()).to.be.false;
+  });
+
+  it('should use separate leases per name', async () => {
+    const other = new LeaderElection(store, { name: 'retention', ttlMs: 1000, holder: 'second' });
+
+    expect(await first.check()).to.be.true;
+    expect(await other.check()).to.be.true;
+  });
+});
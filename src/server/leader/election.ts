@@ -0,0 +1,104 @@
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { getLogger } from '../logging';
+
+/**
+ * Leader election over leases
+ * One process among all cluster workers (and machines sharing the database)
+ * does singleton work, e.g. dispatching the outbox
+ *
+ * The leader holds the lease of a name and renews it on every check().
+ * When it stops (crash, shutdown) another candidate takes over - immediately
+ * after resign(), after the TTL at the latest.
+ *
+ * A leader stalled for longer than the TTL may still finish its work while another
+ * process has taken over - work done by leaders must tolerate running twice.
+ *
+ * Usage:
+ *   const election = new LeaderElection(leaseStore, { name: 'outbox', ttlMs: 15000 });
+ *   setInterval(async () => { if (await election.check()) await doWork(); }, 5000);
+ */
+
+const logger = getLogger('LeaderElection');
+
+/**
+ * Storage of leases, must decide atomically (e.g. a database row, see LeaseDAO)
+ */
+export interface LeaseStore {
+  /**
+   * Take the lease if it is free or expired, renew it if `holder` holds it
+   * @returns True if `holder` holds the lease for the next ttlMs
+   */
+  acquire(name: string, holder: string, ttlMs: number): Promise<boolean>;
+  /**
+   * Free the lease if `holder` holds it
+   */
+  release(name: string, holder: string): Promise<void>;
+}
+
+export interface LeaderElectionOptions {
+  /** Lease name, one leader per name */
+  name: string;
+  /** Lease duration, check() has to be called more often */
+  ttlMs: number;
+  /** Identity of this candidate, unique per process by default */
+  holder?: string;
+}
+
+export class LeaderElection {
+  readonly name: string;
+  readonly holder: string;
+  private readonly ttlMs: number;
+  private leader = false;
+
+  constructor(
+    private readonly store: LeaseStore,
+    { name, ttlMs, holder }: LeaderElectionOptions
+  ) {
+    this.name = name;
+    this.ttlMs = ttlMs;
+    this.holder = holder ?? `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  }
+
+  /**
+   * Result of the last check
+   */
+  get isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Take or renew leadership
+   * A failing store counts as lost leadership
+   * @returns True if this process is the leader
+   */
+  async check(): Promise<boolean> {
+    let leader = false;
+    try {
+      leader = await this.store.acquire(this.name, this.holder, this.ttlMs);
+    } catch (error) {
+      logger.warn('Lease check failed', { lease: this.name, error });
+    }
+
+    if (leader !== this.leader) {
+      const fields = { lease: this.name, holder: this.holder };
+      logger.info(leader ? 'Became leader' : 'Lost leadership', fields);
+    }
+    this.leader = leader;
+    return leader;
+  }
+
+  /**
+   * Give up leadership, another candidate can take over right away (shutdown)
+   */
+  async resign(): Promise<void> {
+    if (!this.leader) return;
+    this.leader = false;
+    try {
+      await this.store.release(this.name, this.holder);
+      logger.info('Resigned', { lease: this.name, holder: this.holder });
+    } catch (error) {
+      logger.warn('Lease release failed, it expires on its own', { lease: this.name, error });
+    }
+  }
+}
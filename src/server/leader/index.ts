@@ -0,0 +1,4 @@
+export { LeaderElection } from './election';
+export type { LeaseStore, LeaderElectionOptions } from './election';
+export { ScheduledJob } from './scheduled-job';
+export type { ScheduledJobOptions } from './scheduled-job';
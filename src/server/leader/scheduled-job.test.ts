@@ -0,0 +1,75 @@
+import { expect } from 'chai';
+import { setLogSink } from '../logging';
+import { LeaderElection, type LeaseStore } from './election';
+import { ScheduledJob } from './scheduled-job';
+
+/**
+ * Unit tests for jobs run by the elected leader
+ */
+describe('ScheduledJob', () => {
+  let leader: boolean;
+  let released: number;
+  let runs: number;
+  let election: LeaderElection;
+
+  const store: LeaseStore = {
+    acquire: async () => leader,
+    release: async () => void released++,
+  };
+
+  beforeEach(() => {
+    setLogSink(() => undefined);
+    leader = true;
+    released = 0;
+    runs = 0;
+    election = new LeaderElection(store, { name: 'retention', ttlMs: 1000, holder: 'first' });
+  });
+
+  afterEach(() => setLogSink());
+
+  it('should run the task only while elected leader', async () => {
+    const task = async () => void runs++;
+    const job = new ScheduledJob(election, { name: 'test', intervalMs: 1000, task });
+
+    expect(await job.run()).to.be.true;
+    leader = false;
+    expect(await job.run()).to.be.false;
+    expect(runs).to.equal(1);
+  });
+
+  it('should run right after start and keep running when the task fails', async () => {
+    const job = new ScheduledJob(election, {
+      name: 'test',
+      intervalMs: 5,
+      task: async () => {
+        runs++;
+        throw new Error('Database unavailable');
+      },
+    });
+
+    job.start();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    await job.stop();
+
+    expect(runs).to.be.greaterThan(1);
+    expect(released).to.equal(1);
+  });
+
+  it('should wait for the run in progress when stopped', async () => {
+    let finished = false;
+    const job = new ScheduledJob(election, {
+      name: 'test',
+      intervalMs: 1000,
+      task: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        finished = true;
+      },
+    });
+
+    job.start();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await job.stop();
+
+    expect(finished).to.be.true;
+  });
+});
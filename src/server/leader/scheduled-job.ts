@@ -0,0 +1,85 @@
+import { getLogger } from '../logging';
+import type { LeaderElection } from './election';
+
+const logger = getLogger('ScheduledJob');
+
+export interface ScheduledJobOptions {
+  /** Job name in logs */
+  name: string;
+  /** Time between runs, also a good lease TTL of the election */
+  intervalMs: number;
+  /** Work of one run, runs outside of requests - no request permissions */
+  task: () => Promise<void>;
+}
+
+/**
+ * Periodic job run by the elected leader only (e.g. data retention purge)
+ * Every process schedules the job, the run is skipped unless it holds the lease
+ *
+ * Usage:
+ *   const election = new LeaderElection(leaseStore, { name: 'retention', ttlMs: intervalMs });
+ *   const job = new ScheduledJob(election, { name: 'retention', intervalMs, task: purge });
+ *   job.start();
+ */
+export class ScheduledJob {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<boolean> | null = null;
+  private started = false;
+
+  constructor(
+    private readonly election: LeaderElection,
+    private readonly options: ScheduledJobOptions
+  ) {}
+
+  /**
+   * Run right away and then every intervalMs until stop()
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stop scheduling, wait for the run in progress and resign leadership
+   */
+  async stop(): Promise<void> {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.running?.catch(() => undefined);
+    await this.election.resign();
+  }
+
+  /**
+   * One run of the task if this process is the leader
+   * @returns True if the task ran
+   */
+  async run(): Promise<boolean> {
+    if (!(await this.election.check())) {
+      return false;
+    }
+    await this.options.task();
+    return true;
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      this.running = this.run();
+      try {
+        await this.running;
+      } catch (error) {
+        logger.error('Job failed', { job: this.options.name, error });
+      } finally {
+        this.running = null;
+      }
+      if (this.started) {
+        this.schedule(this.options.intervalMs);
+      }
+    }, delayMs);
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,52 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+/**
+ * Request scoped fields added to every log line
+ */
+export interface LogContext {
+  requestId: string;
+  /** Authenticated user, set by the auth middleware */
+  userId?: string;
+  /** tRPC procedure path */
+  path?: string;
+}
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run function with log context - logs from all async calls it makes
+ * (services, DAOs, ...) carry the request id automatically
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Log context of the current async call, undefined outside of a request
+ */
+export function getLogContext(): LogContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Add fields to the current log context (e.g. userId once authenticated)
+ * No-op outside of a request
+ */
+export function bindLogContext(fields: Partial<Omit<LogContext, 'requestId'>>): void {
+  const context = storage.getStore();
+  if (context) {
+    Object.assign(context, fields);
+  }
+}
+
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Request id propagated from the X-Request-Id header (e.g. set by a proxy),
+ * a new one when missing or malformed
+ */
+export function resolveRequestId(header: string | string[] | undefined): string {
+  const value = Array.isArray(header) ? header[0] : header;
+  return value && REQUEST_ID_PATTERN.test(value) ? value : randomUUID();
+}
@@ -0,0 +1,66 @@
+/**
+ * Formatting of log entries
+ * - json   - one JSON object per line, for log collectors (production)
+ * - pretty - human readable, colored on a terminal (local development)
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'json' | 'pretty';
+
+export const LOG_LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  /** Module or service writing the log, e.g. 'UserDAO' */
+  component: string;
+  msg: string;
+  pid: number;
+  workerId: number;
+  requestId?: string;
+  userId?: string;
+  [field: string]: unknown;
+}
+
+const COLORS: Record<LogLevel, string> = {
+  debug: '\x1b[90m',
+  info: '\x1b[36m',
+  warn: '\x1b[33m',
+  error: '\x1b[31m',
+};
+const RESET = '\x1b[0m';
+const DIM = '\x1b[2m';
+
+export function formatJson(entry: LogEntry): string {
+  return JSON.stringify(entry);
+}
+
+/**
+ * 12:00:00.000 INFO  [Worker 1] [UserDAO] User created  req=3f2c… user=42 {"id":"42"}
+ */
+export function formatPretty(entry: LogEntry, colors: boolean): string {
+  // pid is not shown, the worker id identifies the process
+  const { time, level, component, msg, pid: _pid, workerId, requestId, userId, error, ...fields } =
+    entry;
+  const paint = (color: string, text: string) => (colors ? `${color}${text}${RESET}` : text);
+
+  const parts = [
+    paint(DIM, time.slice(11, 23)),
+    paint(COLORS[level], level.toUpperCase().padEnd(5)),
+    workerId ? `[Worker ${workerId}] [${component}]` : `[${component}]`,
+    msg,
+  ];
+  const correlation = [requestId && `req=${requestId}`, userId && `user=${userId}`].filter(Boolean);
+  if (correlation.length) {
+    parts.push(paint(DIM, correlation.join(' ')));
+  }
+  // Stack of an error goes below the line, it contains the message
+  const stack = (error as { stack?: string } | undefined)?.stack;
+  const rest = error !== undefined && !stack ? { ...fields, error } : fields;
+  if (Object.keys(rest).length) {
+    parts.push(paint(DIM, JSON.stringify(rest)));
+  }
+
+  const line = parts.join(' ');
+  return stack ? `${line}\n${paint(COLORS.error, stack)}` : line;
+}
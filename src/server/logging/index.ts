@@ -0,0 +1,11 @@
+export { Logger, getLogger, configureLogging, setLogSink } from './logger';
+export type { LogFields, LoggingOptions, LogSink } from './logger';
+export type { LogLevel, LogFormat, LogEntry } from './format';
+export {
+  runWithLogContext,
+  getLogContext,
+  bindLogContext,
+  resolveRequestId,
+} from './context';
+export type { LogContext } from './context';
+export { redact, REDACTED } from './redact';
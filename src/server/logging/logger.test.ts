@@ -0,0 +1,193 @@
+import { expect } from 'chai';
+import { configureLogging, getLogger, setLogSink } from './logger';
+import { bindLogContext, resolveRequestId, runWithLogContext } from './context';
+import { REDACTED, redact } from './redact';
+import { formatPretty } from './format';
+
+/**
+ * Unit tests for structured logger, log context and redaction
+ */
+describe('Logger', () => {
+  let lines: string[];
+
+  const entries = () => lines.map((line) => JSON.parse(line));
+
+  beforeEach(() => {
+    lines = [];
+    setLogSink((line) => lines.push(line));
+    configureLogging({ level: 'info', format: 'json', redactKeys: [] });
+  });
+
+  after(() => {
+    setLogSink();
+    configureLogging({ level: 'info', format: 'json', redactKeys: [] });
+  });
+
+  describe('entries', () => {
+    it('should write JSON line with base fields', () => {
+      getLogger('Test').info('Hello', { count: 2 });
+
+      const [entry] = entries();
+      expect(entry).to.include({ level: 'info', component: 'Test', msg: 'Hello', count: 2, pid: process.pid });
+      expect(entry.time).to.be.a('string');
+      expect(entry).to.have.property('workerId');
+      expect(entry).not.to.have.property('requestId');
+    });
+
+    it('should skip entries below configured level', () => {
+      const logger = getLogger('Test');
+      logger.debug('Hidden');
+      configureLogging({ level: 'warn' });
+      logger.info('Hidden');
+      logger.warn('Shown');
+
+      expect(entries().map((entry) => entry.msg)).to.deep.equal(['Shown']);
+    });
+
+    it('should not let fields override base properties', () => {
+      getLogger('Test').info('Hello', { level: 'error', component: 'Other' });
+
+      expect(entries()[0]).to.include({ level: 'info', component: 'Test' });
+    });
+
+    it('should add bindings of child logger', () => {
+      getLogger('Test').child({ jobId: 'j1' }).info('Running', { step: 1 });
+
+      expect(entries()[0]).to.include({ jobId: 'j1', step: 1 });
+    });
+
+    it('should serialize errors', () => {
+      const error = Object.assign(new Error('Boom'), { code: 'E_BOOM' });
+      getLogger('Test').error('Failed', { error });
+
+      expect(entries()[0].error).to.include({ name: 'Error', message: 'Boom', code: 'E_BOOM' });
+      expect(entries()[0].error.stack).to.contain('Boom');
+    });
+
+    it('should format pretty line with fields and component', () => {
+      configureLogging({ format: 'pretty' });
+      getLogger('Test').warn('Careful', { count: 2 });
+
+      expect(lines[0]).to.contain('WARN').and.contain('[Test]').and.contain('Careful').and.contain('"count":2');
+    });
+  });
+
+  describe('request context', () => {
+    it('should add requestId and userId bound later in the request', async () => {
+      const logger = getLogger('UserDAO');
+
+      await runWithLogContext({ requestId: 'req-1', path: 'users.create' }, async () => {
+        logger.info('Before auth');
+        bindLogContext({ userId: 'user-1' });
+        await Promise.resolve();
+        logger.info('After auth');
+      });
+      logger.info('Outside');
+
+      const [before, after, outside] = entries();
+      expect(before).to.include({ requestId: 'req-1', path: 'users.create' });
+      expect(before).not.to.have.property('userId');
+      expect(after).to.include({ requestId: 'req-1', userId: 'user-1' });
+      expect(outside).not.to.have.property('requestId');
+    });
+
+    it('should isolate concurrent requests', async () => {
+      const logger = getLogger('Test');
+      const run = (requestId: string, delayMs: number) =>
+        runWithLogContext({ requestId }, async () => {
+          await new Promise((resolve) => setTimeout(resolve, delayMs));
+          logger.info(requestId);
+        });
+
+      await Promise.all([run('a', 10), run('b', 0)]);
+
+      expect(entries().map((entry) => [entry.msg, entry.requestId])).to.deep.equal([
+        ['b', 'b'],
+        ['a', 'a'],
+      ]);
+    });
+
+    it('should propagate valid X-Request-Id and generate otherwise', () => {
+      expect(resolveRequestId('abc-123')).to.equal('abc-123');
+      expect(resolveRequestId(['first', 'second'])).to.equal('first');
+      expect(resolveRequestId('has spaces\n')).to.match(/^[0-9a-f-]{36}$/);
+      expect(resolveRequestId(undefined)).to.match(/^[0-9a-f-]{36}$/);
+    });
+  });
+
+  describe('redaction', () => {
+    it('should redact secret fields at any depth', () => {
+      getLogger('Test').info('Login', {
+        email: 'john@example.com',
+        password: 'hunter2',
+        headers: { Authorization: 'Bearer abc', cookie: 'sid=1' },
+        tokens: [{ refreshToken: 'r1' }],
+      });
+
+      const entry = entries()[0];
+      expect(entry.email).to.equal('john@example.com');
+      expect(entry.password).to.equal(REDACTED);
+      expect(entry.headers).to.deep.equal({ Authorization: REDACTED, cookie: REDACTED });
+      expect(entry.tokens).to.deep.equal([{ refreshToken: REDACTED }]);
+    });
+
+    it('should match sensitive words at the end of the key only', () => {
+      expect(
+        redact({
+          'x-api-key': 'k1',
+          client_secret: 's1',
+          passwordHash: 'h1',
+          tokenCount: 2,
+          refreshTokenExpiresAt: '2030-01-01',
+        })
+      ).to.deep.equal({
+        'x-api-key': REDACTED,
+        client_secret: REDACTED,
+        passwordHash: REDACTED,
+        tokenCount: 2,
+        refreshTokenExpiresAt: '2030-01-01',
+      });
+    });
+
+    it('should mask bearer tokens in strings', () => {
+      getLogger('Test').info('Request', { raw: 'Authorization: Bearer eyJhbGciOi.abc.def' });
+
+      expect(entries()[0].raw).to.equal(`Authorization: Bearer ${REDACTED}`);
+      expect(lines[0]).not.to.contain('eyJhbGciOi');
+    });
+
+    it('should redact configured keys', () => {
+      configureLogging({ redactKeys: ['iban'] });
+      getLogger('Test').info('Payment', { iban: 'CZ65 0800', amount: 10 });
+
+      expect(entries()[0]).to.include({ iban: REDACTED, amount: 10 });
+    });
+
+    it('should handle cycles', () => {
+      const value: Record<string, unknown> = { name: 'loop' };
+      value.self = value;
+
+      expect(redact(value)).to.deep.equal({ name: 'loop', self: '[Truncated]' });
+    });
+  });
+
+  describe('pretty format', () => {
+    it('should print error stack on next line', () => {
+      const line = formatPretty(
+        {
+          time: '2024-01-01T00:00:00.000Z',
+          level: 'error',
+          component: 'Test',
+          msg: 'Failed',
+          pid: 1,
+          workerId: 2,
+          error: { name: 'Error', message: 'Boom', stack: 'Error: Boom\n    at test' },
+        },
+        false
+      );
+
+      expect(line.split('\n')[0]).to.contain('[Worker 2] [Test] Failed');
+      expect(line).to.contain('Error: Boom\n    at test');
+    });
+  });
+});
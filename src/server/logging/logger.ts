@@ -0,0 +1,156 @@
+import { getWorkerId } from '../cluster/worker';
+import { getLogContext } from './context';
+import { getActiveSpan } from '../tracing/tracer';
+import { redact } from './redact';
+import {
+  LOG_LEVELS,
+  formatJson,
+  formatPretty,
+  type LogEntry,
+  type LogFormat,
+  type LogLevel,
+} from './format';
+
+export type LogFields = Record<string, unknown>;
+
+export interface LoggingOptions {
+  level: LogLevel;
+  format: LogFormat;
+  /** Additional keys whose values are never logged */
+  redactKeys: string[];
+}
+
+/**
+ * Destination of formatted lines, replaceable in tests
+ */
+export type LogSink = (line: string, level: LogLevel) => void;
+
+const defaultSink: LogSink = (line, level) => {
+  const stream = level === 'error' || level === 'warn' ? process.stderr : process.stdout;
+  stream.write(`${line}\n`);
+};
+
+let options: LoggingOptions = { level: 'info', format: 'json', redactKeys: [] };
+let sink: LogSink = defaultSink;
+
+/**
+ * Configure all loggers (see LoggerService, called on startup from config)
+ */
+export function configureLogging(next: Partial<LoggingOptions>): void {
+  options = { ...options, ...next };
+}
+
+/**
+ * Redirect formatted lines (e.g. capture them in tests), no argument restores stdout/stderr
+ */
+export function setLogSink(next: LogSink = defaultSink): void {
+  sink = next;
+}
+
+/**
+ * Structured logger
+ * Every entry carries time, level, component, pid and worker id, inside a request
+ * also requestId and userId (see logging/context.ts) and the trace id of the
+ * active span. Fields are redacted.
+ *
+ * Usage:
+ *   const logger = getLogger('UserDAO');
+ *   logger.info('User created', { id: user.id });
+ *   logger.error('Connection failed', { error });
+ */
+export class Logger {
+  constructor(
+    readonly component: string,
+    private readonly bindings: LogFields = {}
+  ) {}
+
+  /**
+   * Logger adding fields to every entry
+   */
+  child(bindings: LogFields): Logger {
+    return new Logger(this.component, { ...this.bindings, ...bindings });
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS[level] >= LOG_LEVELS[options.level];
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.write('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.write('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.write('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.write('error', msg, fields);
+  }
+
+  private write(level: LogLevel, msg: string, fields?: LogFields): void {
+    if (!this.isLevelEnabled(level)) return;
+
+    const context = getLogContext();
+    const span = getActiveSpan();
+    const extra = redact(serializeErrors({ ...this.bindings, ...fields }), options.redactKeys) as LogFields;
+    const base: LogEntry = {
+      time: new Date().toISOString(),
+      level,
+      component: this.component,
+      msg,
+      pid: process.pid,
+      workerId: getWorkerId(),
+      ...(context && { requestId: context.requestId }),
+      ...(context?.userId && { userId: context.userId }),
+      ...(context?.path && { path: context.path }),
+      // Correlates the line with the trace of the request (recorded spans only)
+      ...(span?.isRecording() && { traceId: span.traceId, spanId: span.spanId }),
+    };
+    // Fields can not override the base properties, which stay first in the line
+    const entry: LogEntry = { ...base, ...extra, ...base };
+
+    try {
+      sink(options.format === 'pretty' ? formatPretty(entry, !!process.stdout.isTTY) : formatJson(entry), level);
+    } catch {
+      // Logging must never break the request
+    }
+  }
+}
+
+/**
+ * Errors do not serialize to JSON - keep name, message, stack and code
+ */
+function serializeErrors(fields: LogFields): LogFields {
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [key, value instanceof Error ? serializeError(value) : value])
+  );
+}
+
+function serializeError(error: Error): Record<string, unknown> {
+  const { code, cause } = error as Error & { code?: unknown; cause?: unknown };
+  return {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+    ...(code !== undefined && { code }),
+    ...(cause instanceof Error && { cause: serializeError(cause) }),
+  };
+}
+
+const loggers = new Map<string, Logger>();
+
+/**
+ * Logger of a component, e.g. getLogger('UserDAO')
+ */
+export function getLogger(component: string): Logger {
+  let logger = loggers.get(component);
+  if (!logger) {
+    logger = new Logger(component);
+    loggers.set(component, logger);
+  }
+  return logger;
+}
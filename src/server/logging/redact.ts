@@ -0,0 +1,59 @@
+/**
+ * Redaction of secrets in logged fields
+ *
+ * - Values of sensitive keys (authorization, cookie, password, token, secret, ...)
+ *   are replaced, in nested objects and arrays too. A key is sensitive when it ends
+ *   with one of them (refreshToken, x-api-key), not when it only contains one
+ *   (tokens, refreshTokenExpiresAt)
+ * - Bearer tokens inside strings are masked
+ */
+
+export const REDACTED = '[REDACTED]';
+
+/** Matched against the lowercased key without - and _ */
+const SENSITIVE_KEY_PATTERN =
+  /(?:authorization|cookies?|passw(?:or)?d(?:hash)?|secrets?|token(?:hash)?|apikey|credentials?)$/;
+const BEARER_PATTERN = /(Bearer\s+)[A-Za-z0-9\-._~+/]+=*/g;
+const MAX_DEPTH = 8;
+
+/**
+ * Copy of the value with secrets replaced
+ * @param extraKeys - Additional sensitive keys (case-insensitive, exact match)
+ */
+export function redact(value: unknown, extraKeys: string[] = []): unknown {
+  const extra = new Set(extraKeys.map((key) => key.toLowerCase()));
+  const isSensitive = (key: string) =>
+    SENSITIVE_KEY_PATTERN.test(key.toLowerCase().replace(/[-_]/g, '')) ||
+    extra.has(key.toLowerCase());
+  return redactValue(value, isSensitive, 0, new WeakSet());
+}
+
+function redactValue(
+  value: unknown,
+  isSensitive: (key: string) => boolean,
+  depth: number,
+  seen: WeakSet<object>
+): unknown {
+  if (typeof value === 'string') {
+    return value.replace(BEARER_PATTERN, `$1${REDACTED}`);
+  }
+  if (typeof value !== 'object' || value === null || value instanceof Date) {
+    return value;
+  }
+  if (seen.has(value) || depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, isSensitive, depth + 1, seen));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      isSensitive(key) && item !== undefined && item !== null
+        ? REDACTED
+        : redactValue(item, isSensitive, depth + 1, seen),
+    ])
+  );
+}
@@ -0,0 +1,72 @@
+import cluster from 'cluster';
+import { registerPrimaryHandler, registerWorkerHandler, requestPrimary, requestWorker } from '../cluster/ipc';
+import { getConfig } from '../config';
+import { getLogger } from '../logging';
+import { registry } from './definitions';
+import { mergeMetrics, type MetricFamily } from './registry';
+
+const logger = getLogger('Metrics');
+
+const SNAPSHOT_METHOD = 'metrics.snapshot';
+const COLLECT_METHOD = 'metrics.collect';
+
+/**
+ * Answer snapshot requests of the primary (cluster worker)
+ */
+export function serveMetricsSnapshot(): void {
+  registerWorkerHandler(SNAPSHOT_METHOD, () => registry.collect());
+}
+
+/**
+ * Aggregate metrics of all workers on request (cluster primary)
+ *
+ * Counters must not go down when a worker exits or does not answer, so the primary
+ * keeps the last snapshot of every worker - it stands in for a worker that does not
+ * answer (starting, stopping) and is folded into `retired` once the worker exits.
+ * Counts of an exited worker since the previous scrape are lost.
+ */
+export function serveMetricsAggregation(): void {
+  const lastSnapshots = new Map<number, MetricFamily[]>();
+  let retired: MetricFamily[] = [];
+
+  cluster.on('exit', (worker) => {
+    const snapshot = lastSnapshots.get(worker.id);
+    if (snapshot) {
+      lastSnapshots.delete(worker.id);
+      retired = mergeMetrics([retired, snapshot]);
+    }
+  });
+
+  registerPrimaryHandler(COLLECT_METHOD, async () => {
+    const workers = Object.values(cluster.workers ?? {}).filter((worker) => worker?.isConnected());
+    // Answer before the asking worker gives up, even if another worker hangs
+    const timeoutMs = Math.ceil(getConfig().cluster.ipcTimeoutMs / 2);
+    const snapshots = await Promise.allSettled(
+      workers.map((worker) => requestWorker<MetricFamily[]>(worker!, SNAPSHOT_METHOD, undefined, timeoutMs))
+    );
+
+    snapshots.forEach((snapshot, index) => {
+      const worker = workers[index]!;
+      if (snapshot.status === 'fulfilled') {
+        // Worker may have exited while answering, its counts are then already retired
+        if (!worker.isDead()) lastSnapshots.set(worker.id, snapshot.value);
+      } else {
+        logger.warn('Worker did not report metrics, using its last snapshot', {
+          workerPid: worker.process.pid,
+          error: snapshot.reason,
+        });
+      }
+    });
+    return mergeMetrics([retired, ...lastSnapshots.values()]);
+  });
+}
+
+/**
+ * Metrics of the whole backend - all workers in cluster mode, this process otherwise
+ */
+export async function collectMetrics(): Promise<MetricFamily[]> {
+  if (cluster.isWorker) {
+    return requestPrimary<MetricFamily[]>(COLLECT_METHOD);
+  }
+  return registry.collect();
+}
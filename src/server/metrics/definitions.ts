@@ -0,0 +1,71 @@
+import { MetricsRegistry } from './registry';
+
+/**
+ * Metrics of the backend process
+ * Add new metrics here so they are collected, aggregated and exposed on /metrics
+ */
+export const registry = new MetricsRegistry();
+
+export const trpcRequests = registry.counter(
+  'trpc_requests_total',
+  'tRPC procedure calls by procedure path and type'
+);
+
+export const trpcErrors = registry.counter(
+  'trpc_errors_total',
+  'Failed tRPC procedure calls by procedure path, type and tRPC error code'
+);
+
+export const trpcRequestDuration = registry.histogram(
+  'trpc_request_duration_seconds',
+  'Duration of tRPC procedure calls in seconds by procedure path and type'
+);
+
+export const prismaQueryDuration = registry.histogram(
+  'prisma_query_duration_seconds',
+  'Duration of Prisma queries in seconds by model and operation',
+  [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5]
+);
+
+export const prismaQueryErrors = registry.counter(
+  'prisma_query_errors_total',
+  'Failed Prisma queries by model and operation'
+);
+
+export const eventHandlerErrors = registry.counter(
+  'domain_event_handler_errors_total',
+  'Failed domain event handlers by event name and handler'
+);
+
+export const outboxDelivered = registry.counter(
+  'outbox_messages_delivered_total',
+  'Outbox messages delivered by topic'
+);
+
+export const outboxDeliveryFailures = registry.counter(
+  'outbox_delivery_failures_total',
+  'Failed outbox deliveries (retried or given up) by topic'
+);
+
+export const cacheRequests = registry.counter(
+  'cache_requests_total',
+  'Cached reads by name (e.g. UserDAO.findById) and result (hit, miss)'
+);
+
+/**
+ * Record finished procedure call
+ * @param errorCode - tRPC code (NOT_FOUND, ...) of a failed call
+ */
+export function recordProcedureCall(
+  path: string,
+  type: string,
+  durationSeconds: number,
+  errorCode?: string
+): void {
+  const labels = { path, type };
+  trpcRequests.inc(labels);
+  trpcRequestDuration.observe(labels, durationSeconds);
+  if (errorCode) {
+    trpcErrors.inc({ ...labels, code: errorCode });
+  }
+}
@@ -0,0 +1,15 @@
+export {
+  registry,
+  trpcRequests,
+  trpcErrors,
+  trpcRequestDuration,
+  prismaQueryDuration,
+  prismaQueryErrors,
+  recordProcedureCall,
+} from './definitions';
+export { MetricsRegistry, Counter, Histogram, mergeMetrics, DEFAULT_BUCKETS } from './registry';
+export type { Labels, MetricFamily, CounterSample, HistogramSample } from './registry';
+export { renderPrometheus, PROMETHEUS_CONTENT_TYPE } from './prometheus';
+export { isScrapeAuthorized } from './scrape';
+export { collectMetrics, serveMetricsSnapshot, serveMetricsAggregation } from './cluster';
+// Prisma extension is imported from './prisma' directly (depends on the generated client)
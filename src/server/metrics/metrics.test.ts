@@ -0,0 +1,148 @@
+import { expect } from 'chai';
+import { TRPCError } from '@trpc/server';
+import { publicProcedure, router } from '../trpc';
+import { NotFoundError } from '../errors';
+import { MetricsRegistry, mergeMetrics, type MetricFamily } from './registry';
+import { renderPrometheus } from './prometheus';
+import { isScrapeAuthorized } from './scrape';
+import { registry } from './definitions';
+import { createStubContext } from '../context.stub';
+
+/**
+ * Unit tests for metrics registry, Prometheus format and procedure metrics
+ */
+describe('Metrics', () => {
+  describe('registry', () => {
+    it('should count by labels', () => {
+      const metrics = new MetricsRegistry();
+      const counter = metrics.counter('calls_total', 'Calls');
+      counter.inc({ path: 'a' });
+      counter.inc({ path: 'a' });
+      counter.inc({ path: 'b' }, 5);
+
+      expect(metrics.collect()[0].samples).to.deep.equal([
+        { labels: { path: 'a' }, value: 2 },
+        { labels: { path: 'b' }, value: 5 },
+      ]);
+    });
+
+    it('should fill cumulative histogram buckets', () => {
+      const metrics = new MetricsRegistry();
+      const histogram = metrics.histogram('duration_seconds', 'Duration', [0.1, 1]);
+      histogram.observe({}, 0.05);
+      histogram.observe({}, 0.5);
+      histogram.observe({}, 3);
+
+      const [family] = metrics.collect();
+      expect(family.samples[0]).to.deep.equal({ labels: {}, buckets: [1, 2], sum: 3.55, count: 3 });
+    });
+
+    it('should reject duplicate metric names', () => {
+      const metrics = new MetricsRegistry();
+      metrics.counter('calls_total', 'Calls');
+
+      expect(() => metrics.counter('calls_total', 'Calls')).to.throw('already registered');
+    });
+
+    it('should sum metrics of workers', () => {
+      const worker = (value: number): MetricFamily[] => [
+        { type: 'counter', name: 'calls_total', help: 'Calls', samples: [{ labels: { path: 'a' }, value }] },
+        {
+          type: 'histogram',
+          name: 'duration_seconds',
+          help: 'Duration',
+          buckets: [1],
+          samples: [{ labels: { path: 'a' }, buckets: [value], sum: value, count: value }],
+        },
+      ];
+      const other: MetricFamily[] = [
+        { type: 'counter', name: 'calls_total', help: 'Calls', samples: [{ labels: { path: 'b' }, value: 1 }] },
+      ];
+
+      const merged = mergeMetrics([worker(1), worker(2), other]);
+
+      expect(merged[0].samples).to.deep.equal([
+        { labels: { path: 'a' }, value: 3 },
+        { labels: { path: 'b' }, value: 1 },
+      ]);
+      expect(merged[1].samples).to.deep.equal([{ labels: { path: 'a' }, buckets: [3], sum: 3, count: 3 }]);
+    });
+  });
+
+  describe('Prometheus format', () => {
+    it('should render counters and histograms', () => {
+      const metrics = new MetricsRegistry();
+      metrics.counter('calls_total', 'Calls').inc({ path: 'users."list"' });
+      metrics.histogram('duration_seconds', 'Duration', [0.1]).observe({ path: 'a' }, 0.05);
+
+      expect(renderPrometheus(metrics.collect())).to.equal(
+        [
+          '# HELP calls_total Calls',
+          '# TYPE calls_total counter',
+          'calls_total{path="users.\\"list\\""} 1',
+          '# HELP duration_seconds Duration',
+          '# TYPE duration_seconds histogram',
+          'duration_seconds_bucket{path="a",le="0.1"} 1',
+          'duration_seconds_bucket{path="a",le="+Inf"} 1',
+          'duration_seconds_sum{path="a"} 0.05',
+          'duration_seconds_count{path="a"} 1',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should require the bearer token when configured', () => {
+      const token = 'a-metrics-scrape-token';
+
+      expect(isScrapeAuthorized(`Bearer ${token}`, token)).to.be.true;
+      expect(isScrapeAuthorized('Bearer wrong', token)).to.be.false;
+      expect(isScrapeAuthorized(token, token)).to.be.false;
+      expect(isScrapeAuthorized(undefined, token)).to.be.false;
+      expect(isScrapeAuthorized(undefined, null)).to.be.true;
+    });
+  });
+
+  describe('procedure middleware', () => {
+    const testRouter = router({
+      ok: publicProcedure.query(() => 'ok'),
+      missing: publicProcedure.query(() => {
+        throw new NotFoundError('User', '1');
+      }),
+      save: publicProcedure.mutation(() => 'saved'),
+    });
+    const caller = testRouter.createCaller(createStubContext());
+
+    const family = (name: string) => registry.collect().find((metric) => metric.name === name)!;
+
+    beforeEach(() => registry.reset());
+    after(() => registry.reset());
+
+    it('should count calls and record latency by path and type', async () => {
+      await caller.ok();
+      await caller.ok();
+      await caller.save();
+
+      expect(family('trpc_requests_total').samples).to.deep.equal([
+        { labels: { path: 'ok', type: 'query' }, value: 2 },
+        { labels: { path: 'save', type: 'mutation' }, value: 1 },
+      ]);
+      const [latency] = family('trpc_request_duration_seconds').samples;
+      expect(latency).to.include({ count: 2 });
+      expect(latency.labels).to.deep.equal({ path: 'ok', type: 'query' });
+    });
+
+    it('should count errors by mapped tRPC code', async () => {
+      try {
+        await caller.missing();
+        expect.fail('Should throw');
+      } catch (error) {
+        expect(error).to.be.instanceof(TRPCError);
+      }
+
+      expect(family('trpc_errors_total').samples).to.deep.equal([
+        { labels: { path: 'missing', type: 'query', code: 'NOT_FOUND' }, value: 1 },
+      ]);
+      expect(family('trpc_requests_total').samples[0].labels).to.deep.equal({ path: 'missing', type: 'query' });
+    });
+  });
+});
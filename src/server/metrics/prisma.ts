@@ -0,0 +1,23 @@
+import { Prisma } from '@prisma/client';
+import { prismaQueryDuration, prismaQueryErrors } from './definitions';
+
+/**
+ * Prisma client extension timing every query (model operations and raw queries)
+ *
+ * Usage:
+ *   const prisma = new PrismaClient().$extends(queryMetrics);
+ */
+export const queryMetrics = Prisma.defineExtension({
+  name: 'query-metrics',
+  query: {
+    async $allOperations({ model, operation, args, query }) {
+      const labels = { model: model ?? 'raw', operation };
+      try {
+        return await prismaQueryDuration.time(labels, () => query(args));
+      } catch (error) {
+        prismaQueryErrors.inc(labels);
+        throw error;
+      }
+    },
+  },
+});
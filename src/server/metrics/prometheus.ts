@@ -0,0 +1,59 @@
+import type { Labels, MetricFamily } from './registry';
+
+/**
+ * Prometheus text exposition format (version 0.0.4)
+ * https://prometheus.io/docs/instrumenting/exposition_formats/
+ */
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels, extra?: Labels): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (!entries.length) return '';
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Render metrics as Prometheus text
+ */
+export function renderPrometheus(families: MetricFamily[]): string {
+  const lines: string[] = [];
+
+  for (const family of families) {
+    lines.push(`# HELP ${family.name} ${escapeHelp(family.help)}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+
+    if (family.type === 'counter') {
+      for (const sample of family.samples) {
+        lines.push(`${family.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+      }
+      continue;
+    }
+
+    for (const sample of family.samples) {
+      family.buckets.forEach((bound, index) => {
+        const labels = formatLabels(sample.labels, { le: formatValue(bound) });
+        lines.push(`${family.name}_bucket${labels} ${sample.buckets[index]}`);
+      });
+      lines.push(`${family.name}_bucket${formatLabels(sample.labels, { le: '+Inf' })} ${sample.count}`);
+      lines.push(`${family.name}_sum${formatLabels(sample.labels)} ${formatValue(sample.sum)}`);
+      lines.push(`${family.name}_count${formatLabels(sample.labels)} ${sample.count}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,198 @@
+/**
+ * Minimal metrics registry (counters and histograms with labels)
+ *
+ * Snapshots are plain serializable objects - workers send them to the primary
+ * over IPC, the primary merges them (see cluster.ts) and prometheus.ts renders
+ * the text exposition format.
+ */
+
+export type Labels = Record<string, string>;
+
+export interface CounterSample {
+  labels: Labels;
+  value: number;
+}
+
+export interface HistogramSample {
+  labels: Labels;
+  /** Cumulative counts, one per bucket of the family (le), +Inf is `count` */
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export type MetricFamily =
+  | { type: 'counter'; name: string; help: string; samples: CounterSample[] }
+  | { type: 'histogram'; name: string; help: string; buckets: number[]; samples: HistogramSample[] };
+
+/** Latency buckets in seconds */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Stable key of a label set - values are ordered by label name
+ */
+function labelsKey(labels: Labels): string {
+  return JSON.stringify(
+    Object.keys(labels)
+      .sort()
+      .map((name) => [name, labels[name]])
+  );
+}
+
+export class Counter {
+  private samples = new Map<string, CounterSample>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelsKey(labels);
+    const sample = this.samples.get(key);
+    if (sample) {
+      sample.value += value;
+    } else {
+      this.samples.set(key, { labels: { ...labels }, value });
+    }
+  }
+
+  collect(): MetricFamily {
+    return {
+      type: 'counter',
+      name: this.name,
+      help: this.help,
+      samples: [...this.samples.values()].map((sample) => ({ ...sample })),
+    };
+  }
+
+  reset(): void {
+    this.samples.clear();
+  }
+}
+
+export class Histogram {
+  private samples = new Map<string, HistogramSample>();
+  readonly buckets: number[];
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    buckets: number[] = DEFAULT_BUCKETS
+  ) {
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelsKey(labels);
+    let sample = this.samples.get(key);
+    if (!sample) {
+      sample = { labels: { ...labels }, buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.samples.set(key, sample);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        sample.buckets[index]++;
+      }
+    });
+    sample.sum += value;
+    sample.count++;
+  }
+
+  /**
+   * Measure duration of a function in seconds, recorded also when it throws
+   */
+  async time<T>(labels: Labels, fn: () => Promise<T>): Promise<T> {
+    const start = process.hrtime.bigint();
+    try {
+      return await fn();
+    } finally {
+      this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+    }
+  }
+
+  collect(): MetricFamily {
+    return {
+      type: 'histogram',
+      name: this.name,
+      help: this.help,
+      buckets: [...this.buckets],
+      samples: [...this.samples.values()].map((sample) => ({ ...sample, buckets: [...sample.buckets] })),
+    };
+  }
+
+  reset(): void {
+    this.samples.clear();
+  }
+}
+
+/**
+ * Set of metrics of a process
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Counter | Histogram>();
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Current values of all metrics
+   */
+  collect(): MetricFamily[] {
+    return [...this.metrics.values()].map((metric) => metric.collect());
+  }
+
+  /**
+   * Clear recorded values, metrics stay registered (tests)
+   */
+  reset(): void {
+    this.metrics.forEach((metric) => metric.reset());
+  }
+
+  private register<T extends Counter | Histogram>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+/**
+ * Sum metrics of several processes (cluster workers) into one set
+ * Samples with the same name and labels are added together
+ */
+export function mergeMetrics(sets: MetricFamily[][]): MetricFamily[] {
+  const families = new Map<string, MetricFamily>();
+  const samples = new Map<string, CounterSample | HistogramSample>();
+
+  for (const family of sets.flat()) {
+    let merged = families.get(family.name);
+    if (!merged) {
+      merged = { ...family, samples: [] } as MetricFamily;
+      families.set(family.name, merged);
+    }
+
+    for (const sample of family.samples) {
+      const key = `${family.name}${labelsKey(sample.labels)}`;
+      const existing = samples.get(key);
+      if (!existing) {
+        const copy = 'buckets' in sample ? { ...sample, buckets: [...sample.buckets] } : { ...sample };
+        samples.set(key, copy);
+        (merged.samples as (CounterSample | HistogramSample)[]).push(copy);
+      } else if ('buckets' in existing && 'buckets' in sample) {
+        sample.buckets.forEach((value, index) => (existing.buckets[index] += value));
+        existing.sum += sample.sum;
+        existing.count += sample.count;
+      } else if ('value' in existing && 'value' in sample) {
+        existing.value += sample.value;
+      }
+    }
+  }
+  return [...families.values()];
+}
@@ -0,0 +1,20 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * Check the bearer token of a /metrics request (METRICS_TOKEN)
+ * Prometheus sends it with `authorization: { credentials: <token> }` in the scrape config.
+ * @param authorization - Authorization header of the request
+ * @param token - Configured token, every request is allowed without one (development)
+ */
+export function isScrapeAuthorized(
+  authorization: string | undefined,
+  token: string | null
+): boolean {
+  if (token === null) return true;
+
+  const match = /^Bearer\s+(.+)$/i.exec(authorization ?? '');
+  if (!match) return false;
+  // Digests have the same length, timingSafeEqual does not leak the token length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1]), digest(token));
+}
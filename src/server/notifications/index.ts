@@ -0,0 +1,2 @@
+export { getMailer, logMailer, setMailer } from './mailer';
+export type { Mailer, MailMessage } from './mailer';
@@ -0,0 +1,54 @@
+import { getLogger } from '../logging';
+
+const logger = getLogger('Mailer');
+
+/**
+ * Email sent to a user
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  /** Plain text body */
+  text: string;
+  /**
+   * Key of the email, the same key means the same email (outbox redeliveries)
+   * Pass it to mail APIs supporting idempotent sends
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Delivery of emails, e.g. an SMTP or mail API client
+ * Errors are reported by rejecting, NotificationService logs them
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Default mailer - writes messages to the log instead of sending them
+ * The body is logged outside of production only, it may contain secrets (reset links)
+ */
+export const logMailer = (production: boolean): Mailer => ({
+  async send({ to, subject, text }) {
+    if (production) {
+      logger.warn('No mailer configured, email not delivered', { to, subject });
+      return;
+    }
+    logger.info('Email (not delivered, no mailer configured)', { to, subject, text });
+  },
+});
+
+let mailer: Mailer | null = null;
+
+/**
+ * Set delivery of emails, null falls back to logMailer
+ * Set before services are initialized
+ */
+export function setMailer(value: Mailer | null): void {
+  mailer = value;
+}
+
+export function getMailer(): Mailer | null {
+  return mailer;
+}
@@ -0,0 +1,241 @@
+import { expect } from 'chai';
+import { setLogSink } from '../logging';
+import { LeaderElection, type LeaseStore } from '../leader';
+import {
+  OutboxDispatcher,
+  retryDelayMs,
+  type OutboxDispatcherOptions,
+  type OutboxMessage,
+  type OutboxStore,
+} from './dispatcher';
+
+interface StoredMessage extends OutboxMessage {
+  availableAt: number;
+  processedAt?: number;
+  failedAt?: number;
+  lastError?: string;
+}
+
+/**
+ * Outbox store test double with controllable clock
+ */
+class MemoryOutboxStore implements OutboxStore {
+  now = 0;
+  messages: StoredMessage[] = [];
+
+  add(topic: string, payload: unknown): StoredMessage {
+    const message = {
+      id: `m${this.messages.length + 1}`,
+      topic,
+      payload,
+      attempts: 0,
+      createdAt: new Date(this.now),
+      availableAt: this.now,
+    };
+    this.messages.push(message);
+    return message;
+  }
+
+  async fetchDue(limit: number, topics: string[]): Promise<OutboxMessage[]> {
+    return this.messages
+      .filter((m) => m.processedAt === undefined && m.failedAt === undefined)
+      .filter((m) => topics.includes(m.topic))
+      .filter((m) => m.availableAt <= this.now)
+      .slice(0, limit)
+      .map(({ id, topic, payload, attempts, createdAt }) => ({
+        id,
+        topic,
+        payload,
+        attempts,
+        createdAt,
+      }));
+  }
+
+  async markProcessed(id: string): Promise<void> {
+    this.find(id).processedAt = this.now;
+  }
+
+  async markFailed(id: string, error: string, retryAt: Date | null): Promise<void> {
+    const message = this.find(id);
+    message.attempts++;
+    message.lastError = error;
+    if (retryAt) {
+      message.availableAt = retryAt.getTime();
+    } else {
+      message.failedAt = this.now;
+    }
+  }
+
+  async failUnhandled(topics: string[], before: Date, error: string): Promise<number> {
+    const unhandled = this.messages
+      .filter((m) => m.processedAt === undefined && m.failedAt === undefined)
+      .filter((m) => m.createdAt < before && !topics.includes(m.topic));
+    unhandled.forEach((m) => {
+      m.lastError = error;
+      m.failedAt = this.now;
+    });
+    return unhandled.length;
+  }
+
+  async purge(before: Date): Promise<number> {
+    const count = this.messages.length;
+    const old = (at?: number) => at !== undefined && at < before.getTime();
+    this.messages = this.messages.filter((m) => !old(m.processedAt) && !old(m.failedAt));
+    return count - this.messages.length;
+  }
+
+  private find(id: string): StoredMessage {
+    return this.messages.find((m) => m.id === id)!;
+  }
+}
+
+/**
+ * Unit tests for the outbox dispatcher
+ */
+describe('OutboxDispatcher', () => {
+  const user = { id: 'u1', name: 'John', email: 'john@example.com' };
+  const options: OutboxDispatcherOptions = {
+    pollIntervalMs: 1000,
+    batchSize: 10,
+    maxAttempts: 3,
+    retryBackoffMs: 1000,
+    retryBackoffMaxMs: 1500,
+    retentionDays: 1,
+  };
+  let store: MemoryOutboxStore;
+  let leader: boolean;
+  let dispatcher: OutboxDispatcher;
+
+  beforeEach(() => {
+    setLogSink(() => undefined);
+    store = new MemoryOutboxStore();
+    leader = true;
+    const leases: LeaseStore = { acquire: async () => leader, release: async () => undefined };
+    dispatcher = new OutboxDispatcher(
+      store,
+      new LeaderElection(leases, { name: 'outbox', ttlMs: 5000 }),
+      options,
+      () => store.now
+    );
+  });
+
+  afterEach(() => setLogSink());
+
+  it('should deliver due messages to the handler of their topic', async () => {
+    const delivered: string[] = [];
+    dispatcher.handle('user.created', (message) => {
+      delivered.push(`${message.id}:${message.payload.user.email}`);
+    });
+    store.add('user.created', { user });
+    store.add('user.deleted', { user });
+
+    expect(await dispatcher.dispatch()).to.equal(1);
+    expect(delivered).to.deep.equal(['m1:john@example.com']);
+    expect(store.messages[0].processedAt).to.not.be.undefined;
+    expect(await dispatcher.dispatch()).to.equal(0);
+  });
+
+  it('should leave messages of topics without a handler pending', async () => {
+    const delivered: string[] = [];
+    store.add('user.deleted', { user });
+
+    expect(await dispatcher.dispatch()).to.equal(0);
+    expect(store.messages[0].processedAt).to.be.undefined;
+    expect(store.messages[0].failedAt).to.be.undefined;
+
+    // Delivered once a handler is registered
+    dispatcher.handle('user.deleted', (message) => void delivered.push(message.id));
+    expect(await dispatcher.dispatch()).to.equal(1);
+    expect(delivered).to.deep.equal(['m1']);
+  });
+
+  it('should give up messages of topics without a handler after an hour', async () => {
+    dispatcher.handle('user.created', () => undefined);
+    const unhandled = store.add('user.deleted', { user });
+    await dispatcher.dispatch();
+    expect(unhandled.failedAt).to.be.undefined;
+
+    store.now = 60 * 60 * 1000 + 1;
+    const recent = store.add('user.deleted', { user });
+    await dispatcher.dispatch();
+
+    expect(unhandled).to.include({ failedAt: store.now, lastError: 'No handler for topic' });
+    expect(recent.failedAt).to.be.undefined;
+  });
+
+  it('should not deliver unless elected leader', async () => {
+    leader = false;
+    store.add('user.created', { user });
+
+    expect(await dispatcher.dispatch()).to.equal(0);
+    expect(store.messages[0].processedAt).to.be.undefined;
+  });
+
+  it('should retry with backoff and give up after max attempts', async () => {
+    let calls = 0;
+    dispatcher.handle('user.created', () => {
+      calls++;
+      throw new Error('Mail server down');
+    });
+    const message = store.add('user.created', { user });
+
+    await dispatcher.dispatch();
+    expect(message).to.include({ attempts: 1, availableAt: 1000, lastError: 'Mail server down' });
+
+    // Not due yet
+    store.now = 999;
+    await dispatcher.dispatch();
+    expect(calls).to.equal(1);
+
+    store.now = 1000;
+    await dispatcher.dispatch();
+    expect(message).to.include({ attempts: 2, availableAt: 2500 });
+
+    store.now = 2500;
+    await dispatcher.dispatch();
+    expect(calls).to.equal(3);
+    expect(message.failedAt).to.equal(2500);
+    expect(await store.fetchDue(10, ['user.created'])).to.be.empty;
+  });
+
+  it('should give up on invalid payload without calling the handler', async () => {
+    dispatcher.handle('user.created', () => expect.fail('Handler called'));
+    const message = store.add('user.created', { user: { id: 'u1' } });
+
+    await dispatcher.dispatch();
+
+    expect(message.failedAt).to.equal(0);
+  });
+
+  it('should purge old processed messages', async () => {
+    dispatcher.handle('user.created', () => undefined);
+    store.add('user.created', { user });
+    await dispatcher.dispatch();
+
+    store.now = 2 * 24 * 60 * 60 * 1000;
+    await dispatcher.dispatch();
+
+    expect(store.messages).to.be.empty;
+  });
+
+  it('should purge old failed messages', async () => {
+    // Invalid payload - given up right away
+    dispatcher.handle('user.created', () => undefined);
+    store.add('user.created', { user: { id: 'u1' } });
+    await dispatcher.dispatch();
+    expect(store.messages[0].failedAt).to.equal(0);
+
+    store.now = 2 * 24 * 60 * 60 * 1000;
+    await dispatcher.dispatch();
+
+    expect(store.messages).to.be.empty;
+  });
+
+  it('should compute exponential backoff capped at max', () => {
+    const backoff = { retryBackoffMs: 100, retryBackoffMaxMs: 1000 };
+
+    expect([1, 2, 3, 4, 5].map((attempts) => retryDelayMs(attempts, backoff))).to.deep.equal([
+      100, 200, 400, 800, 1000,
+    ]);
+  });
+});
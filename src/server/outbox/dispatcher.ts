@@ -0,0 +1,250 @@
+import { getLogger } from '../logging';
+import { outboxDelivered, outboxDeliveryFailures } from '../metrics/definitions';
+import {
+  domainEvents,
+  isDomainEventName,
+  type DomainEventName,
+  type DomainEventPayload,
+} from '../events';
+import type { LeaderElection } from '../leader';
+
+/**
+ * Dispatcher of the transactional outbox
+ *
+ * Messages are written in the same transaction as the domain change (OutboxDAO.enqueue),
+ * so they exist exactly when the change was committed - also if the process crashes
+ * right after the commit. The dispatcher of the elected leader polls due messages
+ * and passes them to the handler of their topic:
+ * - success marks the message processed
+ * - a thrown error schedules a retry with exponential backoff, after maxAttempts
+ *   the message is marked failed and left for inspection
+ * - messages of topics without a handler are not fetched - they are marked failed
+ *   once older than an hour (time for a rolling deploy to bring the handler)
+ * - processed and failed messages are deleted after retentionDays, payloads
+ *   carry personal data
+ *
+ * Delivery is at least once - a crash between the handler and marking the message
+ * processed delivers it again. Handlers use message.id as idempotency key.
+ */
+
+const logger = getLogger('Outbox');
+
+export interface OutboxMessage {
+  id: string;
+  topic: string;
+  payload: unknown;
+  /** Failed deliveries so far */
+  attempts: number;
+  createdAt: Date;
+}
+
+/**
+ * Message as passed to the handler of its topic, payload validated against the event catalog
+ */
+export type OutboxDelivery<N extends DomainEventName> = Omit<OutboxMessage, 'topic' | 'payload'> & {
+  topic: N;
+  payload: DomainEventPayload<N>;
+};
+
+export type OutboxHandler<N extends DomainEventName = DomainEventName> = (
+  message: OutboxDelivery<N>
+) => Promise<void> | void;
+
+/**
+ * Storage of outbox messages (see OutboxDAO)
+ */
+export interface OutboxStore {
+  /**
+   * Messages neither processed nor failed with availableAt in the past, oldest first
+   * @param topics - Only messages of these topics (topics with a handler)
+   */
+  fetchDue(limit: number, topics: string[]): Promise<OutboxMessage[]>;
+  markProcessed(id: string): Promise<void>;
+  /**
+   * Record failed delivery
+   * @param retryAt - Next attempt, null gives up (message is marked failed)
+   */
+  markFailed(id: string, error: string, retryAt: Date | null): Promise<void>;
+  /**
+   * Give up pending messages created before the date (marked failed)
+   * @param topics - Keep messages of these topics (topics with a handler)
+   * @returns Number of failed messages
+   */
+  failUnhandled(topics: string[], before: Date, error: string): Promise<number>;
+  /** Delete messages processed or failed before the date, @returns Number of deleted messages */
+  purge(before: Date): Promise<number>;
+}
+
+export interface OutboxDispatcherOptions {
+  pollIntervalMs: number;
+  batchSize: number;
+  maxAttempts: number;
+  retryBackoffMs: number;
+  retryBackoffMaxMs: number;
+  /** Processed and failed messages are deleted after this many days */
+  retentionDays: number;
+}
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const UNHANDLED_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * Delay before the next delivery: base * 2^(attempts - 1), capped at max
+ * @param attempts - Failed deliveries including the last one
+ */
+export function retryDelayMs(
+  attempts: number,
+  options: Pick<OutboxDispatcherOptions, 'retryBackoffMs' | 'retryBackoffMaxMs'>
+): number {
+  return Math.min(options.retryBackoffMs * 2 ** (attempts - 1), options.retryBackoffMaxMs);
+}
+
+export class OutboxDispatcher {
+  private handlers = new Map<DomainEventName, OutboxHandler>();
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<number> | null = null;
+  private started = false;
+  private lastPurgeAt = -Infinity;
+
+  constructor(
+    private readonly store: OutboxStore,
+    private readonly election: LeaderElection,
+    private readonly options: OutboxDispatcherOptions,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Set handler of a topic, messages of topics without a handler are given up after an hour
+   * Handlers run outside of requests - no request permissions are available
+   */
+  handle<N extends DomainEventName>(topic: N, handler: OutboxHandler<N>): void {
+    this.handlers.set(topic, handler as OutboxHandler);
+  }
+
+  /**
+   * Poll in the background until stop()
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling, wait for the batch being delivered and resign leadership
+   */
+  async stop(): Promise<void> {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.running?.catch(() => undefined);
+    await this.election.resign();
+  }
+
+  /**
+   * One round - deliver a batch of due messages if this process is the leader
+   * @returns Number of messages handled in the round
+   */
+  async dispatch(): Promise<number> {
+    if (!(await this.election.check())) {
+      return 0;
+    }
+
+    const messages = await this.store.fetchDue(this.options.batchSize, [...this.handlers.keys()]);
+    for (const message of messages) {
+      await this.deliver(message);
+    }
+    await this.purge();
+    return messages.length;
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      this.running = this.dispatch();
+      let handled = 0;
+      try {
+        handled = await this.running;
+      } catch (error) {
+        logger.error('Dispatch failed', { error });
+      } finally {
+        this.running = null;
+      }
+      if (this.started) {
+        // Full batch - there is probably more waiting
+        this.schedule(handled >= this.options.batchSize ? 0 : this.options.pollIntervalMs);
+      }
+    }, delayMs);
+    this.timer.unref();
+  }
+
+  private async deliver(message: OutboxMessage): Promise<void> {
+    const fields = { messageId: message.id, topic: message.topic };
+    const handler = isDomainEventName(message.topic) ? this.handlers.get(message.topic) : undefined;
+    if (!handler) {
+      // Not fetched normally - given up by purge() unless a handler is registered
+      logger.warn('No handler for outbox message, left pending', fields);
+      return;
+    }
+
+    const topic = message.topic as DomainEventName;
+    const parsed = domainEvents[topic].safeParse(message.payload);
+    if (!parsed.success) {
+      // Retrying does not fix the payload
+      logger.error('Invalid outbox message payload, giving up', { ...fields, error: parsed.error });
+      await this.store.markFailed(message.id, parsed.error.message, null);
+      outboxDeliveryFailures.inc({ topic });
+      return;
+    }
+
+    try {
+      await handler({ ...message, topic, payload: parsed.data } as OutboxDelivery<DomainEventName>);
+      await this.store.markProcessed(message.id);
+      outboxDelivered.inc({ topic });
+    } catch (error) {
+      const attempts = message.attempts + 1;
+      const retryAt =
+        attempts < this.options.maxAttempts
+          ? new Date(this.now() + retryDelayMs(attempts, this.options))
+          : null;
+      const reason = error instanceof Error ? error.message : String(error);
+      await this.store.markFailed(message.id, reason, retryAt);
+      outboxDeliveryFailures.inc({ topic });
+
+      if (retryAt) {
+        logger.warn('Outbox delivery failed, retrying', { ...fields, attempts, retryAt, error });
+      } else {
+        logger.error('Outbox delivery failed, giving up', { ...fields, attempts, error });
+      }
+    }
+  }
+
+  /**
+   * Give up messages of topics without a handler and delete old processed and failed
+   * messages, at most once an hour
+   */
+  private async purge(): Promise<void> {
+    const now = this.now();
+    if (now - this.lastPurgeAt < PURGE_INTERVAL_MS) return;
+    this.lastPurgeAt = now;
+
+    const topics = [...this.handlers.keys()];
+    const failed = await this.store.failUnhandled(
+      topics,
+      new Date(now - UNHANDLED_GRACE_MS),
+      'No handler for topic'
+    );
+    if (failed) {
+      logger.warn('Gave up outbox messages of topics without a handler', { failed, topics });
+    }
+
+    const deleted = await this.store.purge(
+      new Date(now - this.options.retentionDays * 24 * 60 * 60 * 1000)
+    );
+    if (deleted) {
+      logger.info('Purged processed and failed outbox messages', { deleted });
+    }
+  }
+}
@@ -0,0 +1,8 @@
+export { OutboxDispatcher, retryDelayMs } from './dispatcher';
+export type {
+  OutboxMessage,
+  OutboxDelivery,
+  OutboxHandler,
+  OutboxStore,
+  OutboxDispatcherOptions,
+} from './dispatcher';
@@ -0,0 +1,9 @@
+export {
+  LocalPubSub,
+  ClusterPubSub,
+  servePubSub,
+  getPubSub,
+  setPubSub,
+  iterateChannel,
+} from './pubsub';
+export type { PubSub, PubSubListener, IterateChannelOptions } from './pubsub';
@@ -0,0 +1,70 @@
+import { expect } from 'chai';
+import { ClusterPubSub, LocalPubSub, iterateChannel } from './pubsub';
+
+/**
+ * Unit tests for pub/sub and channel iteration used by subscriptions
+ */
+describe('PubSub', () => {
+  describe('LocalPubSub', () => {
+    it('should deliver messages to subscribers of the channel', () => {
+      const pubsub = new LocalPubSub();
+      const received: unknown[] = [];
+      const unsubscribe = pubsub.subscribe('a', (payload) => received.push(payload));
+      pubsub.subscribe('b', () => expect.fail('Other channel'));
+
+      pubsub.publish('a', 1);
+      unsubscribe();
+      pubsub.publish('a', 2);
+
+      expect(received).to.deep.equal([1]);
+      expect(pubsub.listenerCount('a')).to.equal(0);
+    });
+  });
+
+  describe('ClusterPubSub', () => {
+    it('should deliver locally and messages relayed by the primary', () => {
+      const pubsub = new ClusterPubSub();
+      const received: unknown[] = [];
+      pubsub.subscribe('a', (payload) => received.push(payload));
+
+      pubsub.publish('a', 'local');
+      // Relayed message as sent by notifyWorkers() in the primary
+      const relayed = { channel: 'a', payload: 'remote' };
+      const message = { __ipc: true, kind: 'notify', event: 'pubsub.message', payload: relayed };
+      process.emit('message', message, undefined);
+
+      expect(received).to.deep.equal(['local', 'remote']);
+    });
+  });
+
+  describe('iterateChannel', () => {
+    it('should yield published messages until aborted', async () => {
+      const pubsub = new LocalPubSub();
+      const controller = new AbortController();
+      const messages = iterateChannel<number>('a', { pubsub, signal: controller.signal });
+
+      pubsub.publish('a', 1);
+      pubsub.publish('a', 2);
+      expect((await messages.next()).value).to.equal(1);
+      expect((await messages.next()).value).to.equal(2);
+
+      const waiting = messages.next();
+      controller.abort();
+
+      expect((await waiting).done).to.be.true;
+      expect(pubsub.listenerCount('a')).to.equal(0);
+    });
+
+    it('should drop oldest messages of a slow consumer', async () => {
+      const pubsub = new LocalPubSub();
+      const messages = iterateChannel<number>('a', { pubsub, maxBuffered: 2 });
+
+      [1, 2, 3].forEach((value) => pubsub.publish('a', value));
+
+      expect((await messages.next()).value).to.equal(2);
+      expect((await messages.next()).value).to.equal(3);
+      await messages.return();
+      expect(pubsub.listenerCount('a')).to.equal(0);
+    });
+  });
+});
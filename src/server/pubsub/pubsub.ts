@@ -0,0 +1,172 @@
+import cluster from 'cluster';
+import { EventEmitter } from 'events';
+import {
+  notifyPrimary,
+  notifyWorkers,
+  onPrimaryNotification,
+  onWorkerNotification,
+} from '../cluster/ipc';
+
+/**
+ * Publish/subscribe of in-app events (e.g. user changes streamed to subscriptions)
+ *
+ * In cluster mode a message published in one worker is delivered in every worker:
+ * the worker delivers it locally and sends it to the primary, which relays it
+ * to the other workers (see servePubSub). Payloads must be serializable.
+ *
+ * Usage:
+ *   getPubSub().publish('users.changes', event);
+ *   for await (const event of iterateChannel<UserChangeEvent>('users.changes', { signal })) { ... }
+ */
+
+export type PubSubListener<T = unknown> = (payload: T) => void;
+
+/**
+ * Message broker
+ * Implement for a shared backend (e.g. Redis) to deliver messages across machines
+ */
+export interface PubSub {
+  publish<T>(channel: string, payload: T): void;
+  /**
+   * @returns Function removing the listener
+   */
+  subscribe<T>(channel: string, listener: PubSubListener<T>): () => void;
+}
+
+/**
+ * In-process broker - messages reach subscribers of this process only
+ */
+export class LocalPubSub implements PubSub {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // Every open subscription is a listener, there is no sensible limit
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish<T>(channel: string, payload: T): void {
+    this.deliver(channel, payload);
+  }
+
+  subscribe<T>(channel: string, listener: PubSubListener<T>): () => void {
+    this.emitter.on(channel, listener);
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+
+  /**
+   * Number of listeners of a channel
+   */
+  listenerCount(channel: string): number {
+    return this.emitter.listenerCount(channel);
+  }
+
+  protected deliver(channel: string, payload: unknown): void {
+    this.emitter.emit(channel, payload);
+  }
+}
+
+const PUBLISH_EVENT = 'pubsub.publish';
+const MESSAGE_EVENT = 'pubsub.message';
+
+interface PubSubMessage {
+  channel: string;
+  payload: unknown;
+}
+
+/**
+ * Broker shared by all cluster workers
+ * Delivers locally right away, other workers get the message through the primary
+ */
+export class ClusterPubSub extends LocalPubSub {
+  constructor() {
+    super();
+    onPrimaryNotification<PubSubMessage>(MESSAGE_EVENT, ({ channel, payload }) =>
+      this.deliver(channel, payload)
+    );
+  }
+
+  publish<T>(channel: string, payload: T): void {
+    this.deliver(channel, payload);
+    notifyPrimary(PUBLISH_EVENT, { channel, payload });
+  }
+}
+
+/**
+ * Relay messages published in a worker to all other workers (call in the cluster primary)
+ */
+export function servePubSub(): void {
+  onWorkerNotification<PubSubMessage>(PUBLISH_EVENT, (message, worker) =>
+    notifyWorkers(MESSAGE_EVENT, message, worker)
+  );
+}
+
+let defaultPubSub: PubSub | null = null;
+
+/**
+ * Broker of the process
+ * Shared across workers in cluster mode, in-process otherwise
+ */
+export function getPubSub(): PubSub {
+  if (!defaultPubSub) {
+    defaultPubSub = cluster.isWorker ? new ClusterPubSub() : new LocalPubSub();
+  }
+  return defaultPubSub;
+}
+
+/**
+ * Replace the broker, e.g. with a Redis backed one
+ */
+export function setPubSub(pubsub: PubSub): void {
+  defaultPubSub = pubsub;
+}
+
+export interface IterateChannelOptions {
+  /** Ends the iteration, e.g. when the client disconnects */
+  signal?: AbortSignal;
+  /** Broker to subscribe to, defaults to getPubSub() */
+  pubsub?: PubSub;
+  /** Messages kept for a slow consumer, the oldest are dropped beyond it */
+  maxBuffered?: number;
+}
+
+/**
+ * Messages of a channel as an async iterable (tRPC subscription resolvers)
+ * The listener is registered immediately and removed when the signal aborts
+ * or the consumer stops iterating
+ */
+export function iterateChannel<T>(
+  channel: string,
+  { signal, pubsub = getPubSub(), maxBuffered = 100 }: IterateChannelOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  const queue: T[] = [];
+  let wake: (() => void) | null = null;
+
+  const unsubscribe = pubsub.subscribe<T>(channel, (payload) => {
+    queue.push(payload);
+    if (queue.length > maxBuffered) {
+      queue.shift();
+    }
+    wake?.();
+  });
+  const onAbort = () => wake?.();
+  signal?.addEventListener('abort', onAbort);
+
+  async function* iterate(): AsyncGenerator<T, void, undefined> {
+    try {
+      while (!signal?.aborted) {
+        if (queue.length) {
+          yield queue.shift()!;
+          continue;
+        }
+        await new Promise<void>((resolve) => (wake = resolve));
+        wake = null;
+      }
+    } finally {
+      unsubscribe();
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+  return iterate();
+}
@@ -0,0 +1,61 @@
+import { expect } from 'chai';
+import { consume, type RateLimitRule, type RateLimitState } from './algorithms';
+
+/**
+ * Unit tests for rate limiting algorithms
+ */
+describe('Rate limit algorithms', () => {
+  function run(rule: RateLimitRule, times: number[]) {
+    let state: RateLimitState | undefined;
+    return times.map((now) => {
+      const step = consume(state, rule, now);
+      state = step.state;
+      return step.result;
+    });
+  }
+
+  describe('token-bucket', () => {
+    const rule: RateLimitRule = { algorithm: 'token-bucket', limit: 3, windowMs: 3000 };
+
+    it('should allow a burst up to the limit', () => {
+      const results = run(rule, [0, 0, 0, 0]);
+
+      expect(results.map((result) => result.allowed)).to.deep.equal([true, true, true, false]);
+      expect(results.map((result) => result.remaining)).to.deep.equal([2, 1, 0, 0]);
+    });
+
+    it('should refill tokens over time', () => {
+      const results = run(rule, [0, 0, 0, 0, 1000, 1000]);
+
+      expect(results[3]).to.deep.equal({ allowed: false, remaining: 0, retryAfterMs: 1000 });
+      expect(results[4].allowed).to.be.true;
+      expect(results[5].allowed).to.be.false;
+    });
+  });
+
+  describe('sliding-window', () => {
+    const rule: RateLimitRule = { algorithm: 'sliding-window', limit: 2, windowMs: 1000 };
+
+    it('should allow at most limit requests in a window', () => {
+      const results = run(rule, [0, 100, 200]);
+
+      expect(results.map((result) => result.allowed)).to.deep.equal([true, true, false]);
+      expect(results[2].retryAfterMs).to.be.greaterThan(0);
+    });
+
+    it('should count requests of the previous window by their overlap', () => {
+      // Both requests of the first window still weigh 1.5 at 1250
+      const results = run(rule, [0, 0, 1250, 1600]);
+
+      expect(results[2].allowed).to.be.false;
+      expect(results[2].retryAfterMs).to.equal(250);
+      expect(results[3].allowed).to.be.true;
+    });
+
+    it('should start over after an idle window', () => {
+      const results = run(rule, [0, 0, 0, 5000]);
+
+      expect(results[3]).to.deep.equal({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    });
+  });
+});
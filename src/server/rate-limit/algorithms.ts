@@ -0,0 +1,142 @@
+/**
+ * Rate limiting algorithms
+ * Pure functions over serializable state, so any store (memory, primary
+ * process over IPC, Redis, ...) can persist the state between calls
+ *
+ * - token-bucket   - bucket of `limit` tokens refilled evenly over `windowMs`,
+ *                    allows short bursts up to `limit`
+ * - sliding-window - at most `limit` requests in any `windowMs` period
+ *                    (weighted counter of the current and previous window)
+ */
+
+export type RateLimitAlgorithm = 'token-bucket' | 'sliding-window';
+
+export interface RateLimitRule {
+  algorithm: RateLimitAlgorithm;
+  /** Requests allowed per window (bucket capacity for token-bucket) */
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Requests left right now */
+  remaining: number;
+  /** When the request may be retried, 0 if allowed */
+  retryAfterMs: number;
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface SlidingWindowState {
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+export type RateLimitState = TokenBucketState | SlidingWindowState;
+
+/**
+ * Consume one request
+ * @param state - State from the previous call for the same key, undefined for a new key
+ * @param rule - Limit
+ * @param now - Current time (ms)
+ * @returns New state to store and the result
+ */
+export function consume(
+  state: RateLimitState | undefined,
+  rule: RateLimitRule,
+  now: number
+): { state: RateLimitState; result: RateLimitResult } {
+  return rule.algorithm === 'token-bucket'
+    ? consumeTokenBucket(state as TokenBucketState | undefined, rule, now)
+    : consumeSlidingWindow(state as SlidingWindowState | undefined, rule, now);
+}
+
+/**
+ * Time after which the state of an idle key equals a fresh one and can be dropped
+ */
+export function stateTtlMs(rule: RateLimitRule): number {
+  return rule.algorithm === 'token-bucket' ? rule.windowMs : rule.windowMs * 2;
+}
+
+function consumeTokenBucket(
+  state: TokenBucketState | undefined,
+  rule: RateLimitRule,
+  now: number
+): { state: TokenBucketState; result: RateLimitResult } {
+  const refillPerMs = rule.limit / rule.windowMs;
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const tokens = state ? Math.min(rule.limit, state.tokens + elapsed * refillPerMs) : rule.limit;
+
+  if (tokens < 1) {
+    return {
+      state: { tokens, updatedAt: now },
+      result: { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - tokens) / refillPerMs) },
+    };
+  }
+  return {
+    state: { tokens: tokens - 1, updatedAt: now },
+    result: { allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 },
+  };
+}
+
+function consumeSlidingWindow(
+  state: SlidingWindowState | undefined,
+  rule: RateLimitRule,
+  now: number
+): { state: SlidingWindowState; result: RateLimitResult } {
+  const windowStart = now - (now % rule.windowMs);
+  let current = 0;
+  let previous = 0;
+  if (state?.windowStart === windowStart) {
+    current = state.current;
+    previous = state.previous;
+  } else if (state?.windowStart === windowStart - rule.windowMs) {
+    previous = state.current;
+  }
+
+  // Part of the previous window still inside the sliding window
+  const previousWeight = 1 - (now - windowStart) / rule.windowMs;
+  const count = previous * previousWeight + current;
+
+  if (count + 1 > rule.limit) {
+    return {
+      state: { windowStart, current, previous },
+      result: {
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: retryAfterSlidingWindow(rule, windowStart, now, current, previous),
+      },
+    };
+  }
+  return {
+    state: { windowStart, current: current + 1, previous },
+    result: { allowed: true, remaining: Math.floor(rule.limit - count - 1), retryAfterMs: 0 },
+  };
+}
+
+/**
+ * Time until previous window requests slide out enough to allow one more request
+ */
+function retryAfterSlidingWindow(
+  rule: RateLimitRule,
+  windowStart: number,
+  now: number,
+  current: number,
+  previous: number
+): number {
+  if (current + 1 <= rule.limit) {
+    // previous * (1 - (t - windowStart) / windowMs) + current + 1 <= limit
+    const allowedAt = windowStart + rule.windowMs * (1 - (rule.limit - current - 1) / previous);
+    return Math.max(1, Math.ceil(allowedAt - now));
+  }
+  // Current window alone is full - it becomes the previous window of the next one
+  // current * (1 - (t - windowEnd) / windowMs) + 1 <= limit
+  const windowEnd = windowStart + rule.windowMs;
+  const allowedAt = windowEnd + rule.windowMs * (1 - (rule.limit - 1) / current);
+  return Math.max(1, Math.ceil(allowedAt - now));
+}
@@ -0,0 +1,11 @@
+export { rateLimit, getClientIp } from './middleware';
+export type { RateLimitOptions, RateLimitKey } from './middleware';
+export {
+  MemoryRateLimitStore,
+  ClusterRateLimitStore,
+  serveRateLimitStore,
+  getDefaultRateLimitStore,
+  setDefaultRateLimitStore,
+} from './store';
+export type { RateLimitStore } from './store';
+export type { RateLimitAlgorithm, RateLimitRule, RateLimitResult } from './algorithms';
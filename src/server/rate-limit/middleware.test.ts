@@ -0,0 +1,92 @@
+import { expect } from 'chai';
+import { TRPCError } from '@trpc/server';
+import type { Request } from 'express';
+import { publicProcedure, router } from '../trpc';
+import { getErrorCode, getRetryAfter } from '../errors';
+import { createStubContext } from '../context.stub';
+import { rateLimit } from './middleware';
+import { MemoryRateLimitStore } from './store';
+
+/**
+ * Unit tests for the rate limit middleware
+ */
+describe('rateLimit middleware', () => {
+  let now: number;
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    now = 0;
+    store = new MemoryRateLimitStore(() => now);
+  });
+
+  afterEach(() => store.close());
+
+  function createCaller(ctx: { ip?: string; userId?: string }) {
+    const testRouter = router({
+      byIp: publicProcedure.use(rateLimit({ limit: 2, windowMs: 1000, store })).query(() => 'ok'),
+      byUser: publicProcedure
+        .use(rateLimit({ limit: 1, windowMs: 1000, key: 'user', store }))
+        .query(() => 'ok'),
+    });
+    // Only the client IP of the request is read
+    const req = { ip: ctx.ip ?? '10.0.0.1' } as Request;
+    return testRouter.createCaller(createStubContext({ req, userId: ctx.userId }));
+  }
+
+  async function catchTRPCError(promise: Promise<unknown>): Promise<TRPCError> {
+    try {
+      await promise;
+    } catch (error) {
+      expect(error).to.be.instanceof(TRPCError);
+      return error as TRPCError;
+    }
+    return expect.fail('Should throw');
+  }
+
+  it('should reject requests over the limit with TOO_MANY_REQUESTS', async () => {
+    const caller = createCaller({});
+    await caller.byIp();
+    await caller.byIp();
+
+    const error = await catchTRPCError(caller.byIp());
+
+    expect(error.code).to.equal('TOO_MANY_REQUESTS');
+    expect(getErrorCode(error)).to.equal('RATE_LIMITED');
+    // Requests of the full window slide out enough at 1500ms
+    expect(getRetryAfter(error)).to.equal(2);
+  });
+
+  it('should limit each client IP separately', async () => {
+    await createCaller({ ip: '10.0.0.1' }).byIp();
+    await createCaller({ ip: '10.0.0.1' }).byIp();
+
+    expect(await createCaller({ ip: '10.0.0.2' }).byIp()).to.equal('ok');
+  });
+
+  it('should limit each procedure separately', async () => {
+    const caller = createCaller({});
+    await caller.byIp();
+    await caller.byIp();
+
+    expect(await caller.byUser()).to.equal('ok');
+  });
+
+  it('should limit authenticated users regardless of their IP', async () => {
+    await createCaller({ ip: '10.0.0.1', userId: 'user-1' }).byUser();
+
+    const error = await catchTRPCError(createCaller({ ip: '10.0.0.2', userId: 'user-1' }).byUser());
+
+    expect(error.code).to.equal('TOO_MANY_REQUESTS');
+    expect(await createCaller({ ip: '10.0.0.2', userId: 'user-2' }).byUser()).to.equal('ok');
+  });
+
+  it('should allow requests again after the window', async () => {
+    const caller = createCaller({});
+    await caller.byIp();
+    await caller.byIp();
+
+    now = 2000;
+
+    expect(await caller.byIp()).to.equal('ok');
+  });
+});
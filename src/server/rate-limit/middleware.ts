@@ -0,0 +1,104 @@
+import type { Request } from 'express';
+import { t } from '../trpc';
+import type { Context } from '../context';
+import { TooManyRequestsError } from '../errors';
+import type { RateLimitAlgorithm, RateLimitRule } from './algorithms';
+import { getDefaultRateLimitStore, type RateLimitStore } from './store';
+import { withSpan } from '../tracing';
+
+export type RateLimitKey =
+  | 'ip'
+  | 'user'
+  | ((opts: { ctx: Context; path: string; rawInput: unknown }) => string | Promise<string>);
+
+export interface RateLimitOptions {
+  /** Requests allowed per window */
+  limit: number;
+  windowMs: number;
+  /** Default 'sliding-window' */
+  algorithm?: RateLimitAlgorithm;
+  /**
+   * What is limited (default 'ip'):
+   * - 'ip'   - client IP (respects Express 'trust proxy' setting)
+   * - 'user' - authenticated user, falls back to IP for anonymous calls
+   * - function returning a custom key (e.g. email of a login attempt)
+   */
+  key?: RateLimitKey;
+  /** Procedures with the same name share the limit, default is a limit per procedure */
+  name?: string;
+  /** Default: shared across workers in cluster mode, in-memory otherwise */
+  store?: RateLimitStore;
+}
+
+/**
+ * Rate limiting middleware
+ * Exceeded limit fails with TOO_MANY_REQUESTS, error.data.retryAfter holds
+ * seconds to wait and the Retry-After header is set on HTTP responses.
+ *
+ * Usage:
+ *   login: publicProcedure
+ *     .use(rateLimit({ limit: 10, windowMs: 60_000 }))
+ *     .mutation(...)
+ *
+ *   create: protectedProcedure
+ *     .requires('user/create')
+ *     .use(rateLimit({ limit: 20, windowMs: 60_000, key: 'user', algorithm: 'token-bucket' }))
+ *     .mutation(...)
+ */
+export function rateLimit(options: RateLimitOptions) {
+  const rule: RateLimitRule = {
+    algorithm: options.algorithm ?? 'sliding-window',
+    limit: options.limit,
+    windowMs: options.windowMs,
+  };
+
+  return t.middleware(async ({ ctx, path, getRawInput, next }) => {
+    const result = await withSpan('middleware rateLimit', async (span) => {
+      const key = await resolveKey(options.key ?? 'ip', ctx, path, getRawInput);
+      const store = options.store ?? getDefaultRateLimitStore();
+      const result = await store.consume(`${options.name ?? path}:${key}`, rule);
+      span.setAttributes({ 'rate_limit.allowed': result.allowed, 'rate_limit.remaining': result.remaining });
+      return result;
+    });
+
+    if (ctx.res && !ctx.res.headersSent) {
+      ctx.res.setHeader('RateLimit-Limit', rule.limit);
+      ctx.res.setHeader('RateLimit-Remaining', result.remaining);
+    }
+
+    if (!result.allowed) {
+      const retryAfterSeconds = Math.ceil(result.retryAfterMs / 1000);
+      if (ctx.res && !ctx.res.headersSent) {
+        ctx.res.setHeader('Retry-After', retryAfterSeconds);
+      }
+      throw new TooManyRequestsError(
+        `Too many requests, retry after ${retryAfterSeconds}s`,
+        retryAfterSeconds
+      );
+    }
+    return next();
+  });
+}
+
+async function resolveKey(
+  key: RateLimitKey,
+  ctx: Context,
+  path: string,
+  getRawInput: () => Promise<unknown>
+): Promise<string> {
+  if (key === 'user') {
+    return ctx.userId ? `user:${ctx.userId}` : `ip:${getClientIp(ctx.req)}`;
+  }
+  if (key === 'ip') {
+    return `ip:${getClientIp(ctx.req)}`;
+  }
+  return `custom:${await key({ ctx, path, rawInput: await getRawInput() })}`;
+}
+
+/**
+ * Client IP of a request
+ * Behind a proxy enable app.set('trust proxy', ...) so req.ip reads X-Forwarded-For
+ */
+export function getClientIp(req: Request | undefined): string {
+  return req?.ip ?? req?.socket?.remoteAddress ?? 'unknown';
+}
@@ -0,0 +1,125 @@
+import cluster from 'cluster';
+import { registerPrimaryHandler, requestPrimary } from '../cluster/ipc';
+import { getLogger } from '../logging';
+import {
+  consume,
+  stateTtlMs,
+  type RateLimitResult,
+  type RateLimitRule,
+  type RateLimitState,
+} from './algorithms';
+
+/**
+ * Storage of rate limit state
+ * Implement for a shared backend (e.g. Redis) to share limits between machines
+ */
+export interface RateLimitStore {
+  /**
+   * Count one request of the key against the rule
+   */
+  consume(key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+}
+
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * In-memory store - limits are per process
+ * Use in single process mode, or in the primary behind ClusterRateLimitStore
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries: Map<string, { state: RateLimitState; expiresAt: number }> = new Map();
+  private cleanupTimer: NodeJS.Timeout;
+
+  constructor(private readonly now: () => number = Date.now) {
+    this.cleanupTimer = setInterval(() => this.cleanup(), CLEANUP_INTERVAL_MS);
+    this.cleanupTimer.unref();
+  }
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    return this.consumeSync(key, rule);
+  }
+
+  consumeSync(key: string, rule: RateLimitRule): RateLimitResult {
+    const now = this.now();
+    const entry = this.entries.get(key);
+    const { state, result } = consume(
+      entry && entry.expiresAt > now ? entry.state : undefined,
+      rule,
+      now
+    );
+    this.entries.set(key, { state, expiresAt: now + stateTtlMs(rule) });
+    return result;
+  }
+
+  /**
+   * Number of tracked keys
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Drop state of idle keys
+   */
+  cleanup(): void {
+    const now = this.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  close(): void {
+    clearInterval(this.cleanupTimer);
+  }
+}
+
+const CONSUME_METHOD = 'rateLimit.consume';
+
+/**
+ * Store shared by all cluster workers
+ * State lives in the primary process (see serveRateLimitStore), workers ask over IPC
+ *
+ * Fails open - if the primary does not answer, the request is allowed
+ * (a stuck primary should not take the whole API down).
+ */
+export class ClusterRateLimitStore implements RateLimitStore {
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    try {
+      return await requestPrimary<RateLimitResult>(CONSUME_METHOD, { key, rule });
+    } catch (error) {
+      getLogger('RateLimit').warn('Shared store unavailable, allowing request', { error });
+      return { allowed: true, remaining: 0, retryAfterMs: 0 };
+    }
+  }
+}
+
+/**
+ * Serve rate limit state to workers (call in the cluster primary)
+ */
+export function serveRateLimitStore(store = new MemoryRateLimitStore()): void {
+  registerPrimaryHandler<{ key: string; rule: RateLimitRule }>(CONSUME_METHOD, ({ key, rule }) =>
+    store.consumeSync(key, rule)
+  );
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+/**
+ * Store used by rateLimit() unless configured otherwise
+ * Shared across workers in cluster mode, in-memory otherwise
+ */
+export function getDefaultRateLimitStore(): RateLimitStore {
+  if (!defaultStore) {
+    defaultStore = cluster.isWorker ? new ClusterRateLimitStore() : new MemoryRateLimitStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Replace the default store, e.g. with a Redis backed one
+ */
+export function setDefaultRateLimitStore(store: RateLimitStore): void {
+  defaultStore = store;
+}
@@ -3,6 +3,9 @@ import { exampleRouter } from './example';
 import { usersRouter } from './users';
 import { healthRouter } from './health';
 import { securedExampleRouter } from './secured-example';
+import { authRouter } from './auth';
+import { rolesRouter } from './roles';
+import { auditRouter } from './audit';
 
 /**
  * Main app router combining all feature routers
@@ -10,9 +13,12 @@ import { securedExampleRouter } from './secured-example';
  */
 export const appRouter = router({
   health: healthRouter,
+  auth: authRouter,
   example: exampleRouter,
   users: usersRouter,
   secured: securedExampleRouter,
+  roles: rolesRouter,
+  audit: auditRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,25 @@
+import { router } from '../trpc';
+import { protectedProcedure } from '../auth/procedures';
+import { auditListInput } from '../schemas/audit';
+
+/**
+ * Audit log router
+ * Entries are written for every mutation by the audit middleware (see trpc.ts)
+ * Required permissions:
+ * - audit/read - list entries
+ */
+export const auditRouter = router({
+  /**
+   * List audit entries, newest first
+   * Filters: actorId, entityType + entityId, search (action), createdAfter/createdBefore
+   * Returns { items, nextCursor } - use with useInfiniteQuery on the client
+   */
+  list: protectedProcedure
+    .requires('audit/read')
+    .input(auditListInput)
+    .query(({ ctx, input }) => {
+      return ctx.services.audit.listEntries(input);
+    }),
+});
+
+export type AuditRouter = typeof auditRouter;
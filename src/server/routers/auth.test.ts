@@ -0,0 +1,66 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import { authRouter } from './auth';
+import { createStubContext } from '../context.stub';
+import { setLogSink } from '../logging';
+import type { UserService } from '../services/user.service';
+import type { NotificationService } from '../services/notification.service';
+
+/**
+ * Unit tests for password reset requests of the auth router
+ */
+describe('Auth Router', () => {
+  const reset = { token: 'reset-token', expiresAt: new Date('2030-01-01T00:00:00Z') };
+  let sent: string[];
+  let mailerDone: () => void;
+
+  function createCaller(registered: string[]) {
+    const user = {
+      requestPasswordReset: async (email: string) => (registered.includes(email) ? reset : null),
+    };
+    const notifications = {
+      // Slow mailer - resolves only when the test lets it
+      sendPasswordReset: (email: string) => {
+        sent.push(email);
+        return new Promise<void>((resolve) => (mailerDone = resolve));
+      },
+    };
+    return authRouter.createCaller(
+      createStubContext({
+        services: {
+          user: user as unknown as UserService,
+          notifications: notifications as unknown as NotificationService,
+        },
+      })
+    );
+  }
+
+  beforeEach(() => {
+    setLogSink(() => undefined);
+    sent = [];
+    mailerDone = () => undefined;
+  });
+
+  afterEach(() => {
+    mailerDone();
+    setLogSink();
+  });
+
+  it('should answer without waiting for the mailer', async () => {
+    const result = await createCaller(['john@example.com']).requestPasswordReset({
+      email: 'john@example.com',
+    });
+
+    expect(result).to.deep.equal({ success: true });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(sent).to.deep.equal(['john@example.com']);
+  });
+
+  it('should answer the same for unknown emails', async () => {
+    const result = await createCaller([]).requestPasswordReset({ email: 'jane@example.com' });
+
+    expect(result).to.deep.equal({ success: true });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(sent).to.be.empty;
+  });
+});
@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { publicProcedure, router } from '../trpc';
+import { protectedProcedure } from '../auth/procedures';
+import { rateLimit } from '../rate-limit';
+import { issueSubscriptionTicket } from '../auth/subscriptions';
+import { getLogger } from '../logging';
+import type { Context } from '../context';
+
+const logger = getLogger('AuthRouter');
+
+/**
+ * Authentication router
+ * Issues access tokens and rotating refresh tokens
+ *
+ * Flow:
+ * 1. login -> { accessToken, refreshToken }
+ * 2. Send accessToken as "Authorization: Bearer <token>" to protected procedures
+ * 3. When accessToken expires, call refresh with the refreshToken
+ *    (the old refreshToken becomes invalid, always store the new one)
+ * 4. logout revokes the refresh token and its whole family
+ *
+ * Password changes and resets revoke all refresh tokens of the user
+ */
+export const authRouter = router({
+  /**
+   * Login with email and password
+   * Limited per client IP to slow down password guessing
+   */
+  login: publicProcedure
+    .use(rateLimit({ limit: 10, windowMs: 60 * 1000 }))
+    .input(
+      z.object({
+        email: z.string().email(),
+        password: z.string().min(1),
+      })
+    )
+    .mutation(({ ctx, input }) => {
+      return ctx.services.auth.login(input.email, input.password);
+    }),
+
+  /**
+   * Rotate refresh token and issue a new access token
+   */
+  refresh: publicProcedure
+    .input(z.object({ refreshToken: z.string().min(1) }))
+    .mutation(({ ctx, input }) => {
+      return ctx.services.auth.refresh(input.refreshToken);
+    }),
+
+  /**
+   * Revoke refresh token family
+   * Public on purpose - the access token may already be expired
+   */
+  logout: publicProcedure
+    .input(z.object({ refreshToken: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.services.auth.logout(input.refreshToken);
+      return { success: true };
+    }),
+
+  /**
+   * Single-use ticket opening one subscription stream (SSE), valid for seconds
+   * Sent in connectionParams instead of the access token, which would end up in the URL
+   */
+  subscriptionTicket: protectedProcedure.mutation(({ ctx }) => {
+    return issueSubscriptionTicket(ctx.session);
+  }),
+
+  /**
+   * Change password of the authenticated user
+   */
+  changePassword: protectedProcedure
+    .input(
+      z.object({
+        currentPassword: z.string().min(1),
+        newPassword: z.string().min(1),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await ctx.services.user.changePassword(ctx.userId, input.currentPassword, input.newPassword);
+      return { success: true };
+    }),
+
+  /**
+   * Request password reset token
+   * Always succeeds so the endpoint cannot be used to discover registered emails -
+   * the token and the email are made after the response, which takes the same time
+   * for registered and unknown emails
+   * Limited per client IP, every call may deliver an email
+   */
+  requestPasswordReset: publicProcedure
+    .use(rateLimit({ limit: 5, windowMs: 15 * 60 * 1000 }))
+    .input(z.object({ email: z.string().email() }))
+    .mutation(({ ctx, input }) => {
+      void sendPasswordReset(ctx.services, input.email);
+      return { success: true };
+    }),
+
+  /**
+   * Set new password using a reset token
+   */
+  resetPassword: publicProcedure
+    .input(
+      z.object({
+        token: z.string().min(1),
+        newPassword: z.string().min(1),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await ctx.services.user.resetPassword(input.token, input.newPassword);
+      return { success: true };
+    }),
+});
+
+export type AuthRouter = typeof authRouter;
+
+/**
+ * Create a reset token for a registered email and email it, in the background
+ * The token is only emailed, never returned in the response
+ */
+async function sendPasswordReset(services: Context['services'], email: string): Promise<void> {
+  try {
+    const reset = await services.user.requestPasswordReset(email);
+    if (reset) {
+      await services.notifications.sendPasswordReset(email, reset);
+    }
+  } catch (error) {
+    logger.error('Password reset request failed', { error });
+  }
+}
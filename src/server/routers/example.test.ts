@@ -3,6 +3,11 @@ import { expect } from 'chai';
 import { ServicesContext } from '../services';
 import { UserService } from '../services/user.service';
 import { UserDAO } from '../services/user.dao';
+import { AuthService } from '../services/auth.service';
+import { RoleService } from '../services/role.service';
+import { HealthService } from '../services/health.service';
+import { AuditService } from '../services/audit.service';
+import { NotificationService } from '../services/notification.service';
 import { exampleRouter } from './example';
 import { ensureServicesInitialized } from '../init';
 
@@ -20,11 +25,21 @@ describe('Example Router', () => {
   function createMockContext() {
     return {
       req: undefined,
+      res: undefined,
+      requestId: 'test-request',
+      traceContext: undefined,
+      subscriptionTicket: null,
       headers: undefined,
       services: {
         user: ServicesContext.lookup(UserService),
         userDAO: ServicesContext.lookup(UserDAO),
+        auth: ServicesContext.lookup(AuthService),
+        roles: ServicesContext.lookup(RoleService),
+        health: ServicesContext.lookup(HealthService),
+        audit: ServicesContext.lookup(AuditService),
+        notifications: ServicesContext.lookup(NotificationService),
       },
+      resolvePermissions: async () => [],
       userId: undefined,
       permissions: undefined,
     };
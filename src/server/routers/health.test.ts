@@ -0,0 +1,82 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import { TRPCError } from '@trpc/server';
+import { healthRouter } from './health';
+import { signAccessToken } from '../auth/jwt';
+import { createStubContext } from '../context.stub';
+import { HealthService } from '../services/health.service';
+import { setLogSink } from '../logging';
+
+/**
+ * Unit tests for the health router
+ */
+describe('Health Router', () => {
+  let healthService: HealthService;
+
+  function createCaller(permissions?: string[]) {
+    const headers = permissions
+      ? { authorization: `Bearer ${signAccessToken({ userId: 'operator-1' })}` }
+      : {};
+    return healthRouter.createCaller(
+      createStubContext({
+        headers,
+        resolvePermissions: async () => permissions ?? [],
+        services: { health: healthService },
+      })
+    );
+  }
+
+  beforeEach(() => {
+    setLogSink(() => undefined);
+    healthService = new HealthService();
+    healthService.register({
+      name: 'database',
+      check: () => Promise.reject(new Error('connect ECONNREFUSED db.internal:5432')),
+    });
+  });
+
+  afterEach(() => setLogSink());
+
+  it('should not show check errors to anonymous callers', async () => {
+    const report = await createCaller().deep();
+
+    expect(report.status).to.equal('unavailable');
+    expect(report.checks[0]).to.include({ name: 'database', status: 'down' });
+    expect(report.checks[0]).to.not.have.any.keys('error', 'lastError', 'details');
+  });
+
+  it('should show check errors with health/read', async () => {
+    const report = await createCaller(['health/read']).details();
+
+    expect(report.checks[0].error).to.equal('connect ECONNREFUSED db.internal:5432');
+    expect(report.checks[0].lastError?.message).to.equal('connect ECONNREFUSED db.internal:5432');
+  });
+
+  it('should require health/read for check errors', async () => {
+    try {
+      await createCaller(['user/read']).details();
+      expect.fail('Should throw');
+    } catch (error) {
+      expect(error).to.be.instanceof(TRPCError);
+      expect((error as TRPCError).code).to.equal('FORBIDDEN');
+    }
+  });
+
+  it('should show the cluster status with health/read', async () => {
+    const status = await createCaller(['health/read']).cluster();
+
+    expect(status.mode).to.equal('single');
+    expect(status.primaryPid).to.equal(process.pid);
+    expect(status.workers[0]).to.include({ pid: process.pid, restarts: 0 });
+  });
+
+  it('should require health/read for the cluster status', async () => {
+    try {
+      await createCaller().cluster();
+      expect.fail('Should throw');
+    } catch (error) {
+      expect(error).to.be.instanceof(TRPCError);
+      expect((error as TRPCError).code).to.equal('UNAUTHORIZED');
+    }
+  });
+});
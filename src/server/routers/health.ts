@@ -1,13 +1,20 @@
 import { publicProcedure, router } from '../trpc';
+import { protectedProcedure } from '../auth/procedures';
+import { getConfig } from '../config';
+import { getClusterStatus } from '../cluster';
+import { toPublicCheck } from '../services/health.service';
 
 /**
  * Health check router for monitoring and Docker health checks
- * Simple endpoints to verify service is running
+ * Load balancers should use the plain HTTP endpoints instead
+ * (/health/live, /health/ready - see index.ts), they return proper status codes
+ * Required permissions:
+ * - health/read - check errors and details (details), cluster status (cluster)
  */
 export const healthRouter = router({
   /**
-   * Basic health check
-   * Returns OK status
+   * Basic health check (liveness)
+   * Returns OK status while the process is running
    */
   status: publicProcedure.query(() => {
     return {
@@ -18,18 +25,45 @@ export const healthRouter = router({
   }),
 
   /**
-   * Deep health check with service status
+   * Deep health check with results of all registered checks
+   * Includes per-check status and latency - errors are only logged by HealthService,
+   * this endpoint is public
    */
-  deep: publicProcedure.query(({ ctx }) => {
+  deep: publicProcedure.query(async ({ ctx }) => {
+    const report = await ctx.services.health.getReport();
     return {
-      status: 'ok',
+      status: report.ready ? 'ok' : 'unavailable',
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime(),
+      shuttingDown: report.shuttingDown,
+      checks: report.checks.map(toPublicCheck),
+      environment: getConfig().env,
+    };
+  }),
+
+  /**
+   * Deep health check for operators - like deep, with the error, last error
+   * and details of every check (they may reveal hosts, so health/read is required)
+   */
+  details: protectedProcedure.requires('health/read').query(async ({ ctx }) => {
+    const report = await ctx.services.health.getReport();
+    return {
+      status: report.ready ? 'ok' : 'unavailable',
       timestamp: new Date().toISOString(),
-      services: {
-        user: !!ctx.services.user,
-      },
-      environment: process.env.NODE_ENV,
+      uptime: process.uptime(),
+      shuttingDown: report.shuttingDown,
+      checks: report.checks,
+      environment: getConfig().env,
     };
   }),
+
+  /**
+   * Status of the cluster - worker pids, uptime, restart counts and halted slots
+   * Workers ask the primary over IPC, outside of cluster mode describes this process
+   */
+  cluster: protectedProcedure.requires('health/read').query(() => {
+    return getClusterStatus();
+  }),
 });
 
 export type HealthRouter = typeof healthRouter;
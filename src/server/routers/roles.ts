@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import { router } from '../trpc';
+import { protectedProcedure } from '../auth/procedures';
+
+const permissionName = z.string().min(1).max(100);
+
+/**
+ * Role administration router
+ * Required permissions:
+ * - role/read   - list roles and user roles
+ * - role/write  - create, update, delete roles and set their permissions
+ * - role/assign - assign and unassign roles
+ */
+export const rolesRouter = router({
+  /**
+   * List all roles with their permissions
+   */
+  list: protectedProcedure.requires('role/read').query(({ ctx }) => {
+    return ctx.services.roles.listRoles();
+  }),
+
+  /**
+   * Create a new role, optionally inheriting from a parent role
+   */
+  create: protectedProcedure
+    .requires('role/write')
+    .input(
+      z.object({
+        name: z.string().min(1).max(100),
+        description: z.string().max(500).optional(),
+        parentId: z.string().nullable().optional(),
+      })
+    )
+    .mutation(({ ctx, input }) => {
+      return ctx.services.roles.createRole(input);
+    }),
+
+  /**
+   * Update role name, description or parent role
+   */
+  update: protectedProcedure
+    .requires('role/write')
+    .input(
+      z.object({
+        id: z.string(),
+        name: z.string().min(1).max(100).optional(),
+        description: z.string().max(500).nullable().optional(),
+        parentId: z.string().nullable().optional(),
+      })
+    )
+    .mutation(({ ctx, input }) => {
+      const { id, ...data } = input;
+      return ctx.services.roles.updateRole(id, data);
+    }),
+
+  /**
+   * Delete role
+   */
+  delete: protectedProcedure
+    .requires('role/write')
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.services.roles.deleteRole(input.id);
+      return { success: true };
+    }),
+
+  /**
+   * Replace permissions of a role
+   */
+  setPermissions: protectedProcedure
+    .requires('role/write')
+    .input(
+      z.object({
+        id: z.string(),
+        permissions: z.array(permissionName),
+      })
+    )
+    .mutation(({ ctx, input }) => {
+      return ctx.services.roles.setRolePermissions(input.id, input.permissions);
+    }),
+
+  /**
+   * Get roles assigned to a user
+   */
+  userRoles: protectedProcedure
+    .requires('role/read')
+    .input(z.object({ userId: z.string() }))
+    .query(({ ctx, input }) => {
+      return ctx.services.roles.getUserRoles(input.userId);
+    }),
+
+  /**
+   * Assign role to a user
+   */
+  assign: protectedProcedure
+    .requires('role/assign')
+    .input(z.object({ userId: z.string(), roleId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.services.roles.assignRole(input.userId, input.roleId);
+      return { success: true };
+    }),
+
+  /**
+   * Remove role from a user
+   */
+  unassign: protectedProcedure
+    .requires('role/assign')
+    .input(z.object({ userId: z.string(), roleId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const removed = await ctx.services.roles.unassignRole(input.userId, input.roleId);
+      return { success: removed };
+    }),
+});
+
+export type RolesRouter = typeof rolesRouter;
@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import { TRPCError } from '@trpc/server';
+import { userListInput } from '../schemas/user';
+import { ForbiddenError, NotFoundError } from '../errors';
 import { router } from '../trpc';
 import {
   publicProcedure,
@@ -43,7 +44,7 @@ export const securedExampleRouter = router({
       notifications: z.boolean().optional(),
     })
   ).mutation(async ({ ctx, input }) => {
-    // Service/DAO will check permissions via PermissionsGuard.checkRequiredPermissions()
+    // Service/DAO will check permissions via requirePermissions()
     // Permission validation happens in service/DAO layer
 
     return {
@@ -55,10 +56,11 @@ export const securedExampleRouter = router({
   }),
 
   /**
-   * Create user - permission checked in service/DAO
-   * Service/DAO will call PermissionsGuard.checkRequiredPermissions(['user/create'])
+   * Create user - permission declared on the route
+   * Fails with FORBIDDEN before the handler runs if 'user/create' is missing
+   * Service/DAO also calls requirePermissions(['user/create'])
    */
-  createUser: protectedProcedure.input(
+  createUser: protectedProcedure.requires('user/create').input(
     z.object({
       name: z.string().min(1),
       email: z.string().email(),
@@ -66,7 +68,7 @@ export const securedExampleRouter = router({
   ).mutation(async ({ ctx, input }) => {
     const userService = ctx.services.user;
     // userService or userDAO will check permissions automatically
-    const newUser = userService.createUser(input.name, input.email);
+    const newUser = await userService.createUser(input.name, input.email);
 
     return {
       success: true,
@@ -77,42 +79,36 @@ export const securedExampleRouter = router({
   }),
 
   /**
-   * List users - permission checked in service/DAO
-   * Service/DAO will call PermissionsGuard.checkRequiredPermissions(['user/read'])
+   * List users - requires 'user/read'
+   * Paginated, see schemas/pagination.ts
    */
-  listUsers: protectedProcedure.query(async ({ ctx }) => {
+  listUsers: protectedProcedure.requires('user/read').input(userListInput).query(async ({ ctx, input }) => {
     const userService = ctx.services.user;
-    const users = userService.getAllUsers();
+    const page = await userService.listUsers(input);
 
     return {
       requestedBy: ctx.userId,
-      count: users.length,
-      users,
+      count: page.items.length,
+      users: page.items,
+      nextCursor: page.nextCursor,
     };
   }),
 
   /**
-   * Delete user - permission checked in service/DAO
-   * Service/DAO will call PermissionsGuard.checkRequiredPermissions(['user/delete'])
+   * Delete user - requires 'user/delete'
    */
-  deleteUser: protectedProcedure.input(
+  deleteUser: protectedProcedure.requires('user/delete').input(
     z.object({ userId: z.string() })
   ).mutation(async ({ ctx, input }) => {
     if (input.userId === ctx.userId) {
-      throw new TRPCError({
-        code: 'BAD_REQUEST',
-        message: 'Cannot delete your own account',
-      });
+      throw new ForbiddenError('Cannot delete your own account', { code: 'CANNOT_DELETE_SELF' });
     }
 
     const userService = ctx.services.user;
-    const deleted = userService.deleteUser(input.userId);
+    const deleted = await userService.deleteUser(input.userId);
 
     if (!deleted) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: `User ${input.userId} not found`,
-      });
+      throw new NotFoundError('User', input.userId);
     }
 
     return {
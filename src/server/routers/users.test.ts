@@ -0,0 +1,96 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import { TRPCError } from '@trpc/server';
+import { PermissionsGuard } from '@david.uhlir/permissions-guard';
+import { usersRouter } from './users';
+import { publicProcedure, router } from '../trpc';
+import { signAccessToken } from '../auth/jwt';
+import { requirePermissions } from '../auth/caller';
+import { getErrorCode } from '../errors';
+import { createStubContext } from '../context.stub';
+import { UserService } from '../services/user.service';
+import { InMemoryUserRepository } from '../services/user.repository.memory';
+import { EventBus } from '../events';
+
+/**
+ * Unit tests for permission errors of the users router
+ * Uses UserService with the in-memory repository instead of the database
+ */
+describe('Users Router', () => {
+  let userService: UserService;
+
+  function createCaller(permissions: string[]) {
+    const token = signAccessToken({ userId: 'caller-1' });
+    return usersRouter.createCaller(
+      createStubContext({
+        headers: { authorization: `Bearer ${token}` },
+        resolvePermissions: async () => permissions,
+        services: { user: userService },
+      })
+    );
+  }
+
+  async function catchTRPCError(promise: Promise<unknown>): Promise<TRPCError> {
+    try {
+      await promise;
+    } catch (error) {
+      expect(error).to.be.instanceof(TRPCError);
+      return error as TRPCError;
+    }
+    return expect.fail('Should throw');
+  }
+
+  beforeEach(() => {
+    userService = new UserService(new InMemoryUserRepository(), new EventBus());
+  });
+
+  it('should fail with FORBIDDEN for a caller without user/write', async () => {
+    const user = await userService.createUser('John Doe', 'john@example.com');
+
+    const error = await catchTRPCError(
+      createCaller(['user/read']).update({ id: user.id, version: user.version, name: 'Johnny' })
+    );
+
+    expect(error.code).to.equal('FORBIDDEN');
+    expect(getErrorCode(error)).to.equal('MISSING_PERMISSIONS');
+    expect((await userService.getUserById(user.id))?.name).to.equal('John Doe');
+  });
+
+  it('should update for a caller with a wildcard grant', async () => {
+    const user = await userService.createUser('John Doe', 'john@example.com');
+
+    const updated = await createCaller(['user/*']).update({
+      id: user.id,
+      version: user.version,
+      name: 'Johnny',
+    });
+
+    expect(updated.name).to.equal('Johnny');
+  });
+
+  describe('PermissionsGuard errors', () => {
+    const checkRequiredPermissions = PermissionsGuard.checkRequiredPermissions;
+    const testRouter = router({
+      // No protectedProcedure caller - PermissionsGuard decides
+      remove: publicProcedure.mutation(async () => {
+        await requirePermissions(['user/delete']);
+        return 'removed';
+      }),
+    });
+
+    afterEach(() => {
+      PermissionsGuard.checkRequiredPermissions = checkRequiredPermissions;
+    });
+
+    it('should reach the client as FORBIDDEN', async () => {
+      PermissionsGuard.checkRequiredPermissions = async () => {
+        throw new Error('Missing permission user/delete');
+      };
+
+      const error = await catchTRPCError(testRouter.createCaller(createStubContext()).remove());
+
+      expect(error.code).to.equal('FORBIDDEN');
+      expect(getErrorCode(error)).to.equal('MISSING_PERMISSIONS');
+    });
+  });
+});
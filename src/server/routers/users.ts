@@ -1,35 +1,55 @@
 import { z } from 'zod';
-import { publicProcedure, router } from '../trpc';
+import { router } from '../trpc';
+import { protectedProcedure } from '../auth/procedures';
+import { userListInput } from '../schemas/user';
+import { NotFoundError } from '../errors';
+import { rateLimit } from '../rate-limit';
 
 /**
  * User router with tRPC procedures using the UserService
  * Demonstrates how to access services from the context
+ *
+ * Users are stored in PostgreSQL via UserDAO, which checks
+ * user/read, user/create, user/write, user/delete and user/purge permissions
+ *
+ * Deleting is a soft delete - the user can be restored until purged
+ * by an administrator or the retention job (DELETED_USER_RETENTION_DAYS)
  */
 export const usersRouter = router({
   /**
-   * List all users
+   * List users with cursor pagination, sorting and filtering
+   * Returns { items, nextCursor } - use with useInfiniteQuery on the client
    */
-  list: publicProcedure.query(({ ctx }) => {
-    return ctx.services.user.getAllUsers();
-  }),
+  list: protectedProcedure
+    .requires('user/read')
+    .input(userListInput)
+    .query(({ ctx, input }) => {
+      return ctx.services.user.listUsers(input);
+    }),
 
   /**
    * Get user by ID
+   * Missing user fails with NOT_FOUND (errorCode USER_NOT_FOUND)
    */
-  getById: publicProcedure
+  getById: protectedProcedure
+    .requires('user/read')
     .input(z.object({ id: z.string() }))
-    .query(({ ctx, input }) => {
-      const user = ctx.services.user.getUserById(input.id);
+    .query(async ({ ctx, input }) => {
+      const user = await ctx.services.user.getUserById(input.id);
       if (!user) {
-        throw new Error(`User with id ${input.id} not found`);
+        throw new NotFoundError('User', input.id);
       }
       return user;
     }),
 
   /**
    * Create a new user
+   * Duplicate email fails with CONFLICT
+   * Limited per user, bursts up to the limit are allowed
    */
-  create: publicProcedure
+  create: protectedProcedure
+    .requires('user/create')
+    .use(rateLimit({ limit: 30, windowMs: 60 * 1000, key: 'user', algorithm: 'token-bucket' }))
     .input(
       z.object({
         name: z.string().min(1),
@@ -37,56 +57,100 @@ export const usersRouter = router({
       })
     )
     .mutation(({ ctx, input }) => {
-      // Check if email already exists
-      const existing = ctx.services.user.findByEmail(input.email);
-      if (existing) {
-        throw new Error(`User with email ${input.email} already exists`);
-      }
-
       return ctx.services.user.createUser(input.name, input.email);
     }),
 
   /**
    * Update user by ID
+   * `version` is the version of the user the client has seen - when someone changed
+   * the user meanwhile, fails with CONFLICT (errorCode VERSION_CONFLICT) and the current
+   * user in error.data.current, so the client can merge and retry
+   * Email taken by another user fails with CONFLICT (EMAIL_TAKEN)
    */
-  update: publicProcedure
+  update: protectedProcedure
+    .requires('user/write')
     .input(
       z.object({
         id: z.string(),
+        version: z.number().int().positive(),
         name: z.string().min(1).optional(),
         email: z.string().email().optional(),
       })
     )
-    .mutation(({ ctx, input }) => {
-      const { id, ...updates } = input;
+    .mutation(async ({ ctx, input }) => {
+      const { id, version, ...updates } = input;
 
-      // Check if email is taken by another user
-      if (updates.email) {
-        const existing = ctx.services.user.findByEmail(updates.email);
-        if (existing && existing.id !== id) {
-          throw new Error(`User with email ${updates.email} already exists`);
-        }
+      const user = await ctx.services.user.updateUser(id, updates, version);
+      if (!user) {
+        throw new NotFoundError('User', id);
       }
+      return user;
+    }),
+
+  /**
+   * List deleted users that can still be restored
+   */
+  listDeleted: protectedProcedure
+    .requires('user/read', 'user/delete')
+    .input(userListInput)
+    .query(({ ctx, input }) => {
+      return ctx.services.user.listDeletedUsers(input);
+    }),
 
-      const user = ctx.services.user.updateUser(id, updates);
+  /**
+   * Delete user by ID (soft delete, see restore and purge)
+   */
+  delete: protectedProcedure
+    .requires('user/delete')
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const deleted = await ctx.services.user.deleteUser(input.id);
+      if (!deleted) {
+        throw new NotFoundError('User', input.id);
+      }
+      return { success: true };
+    }),
+
+  /**
+   * Restore deleted user
+   * Fails with CONFLICT (EMAIL_TAKEN) if another user took the email meanwhile
+   */
+  restore: protectedProcedure
+    .requires('user/delete')
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const user = await ctx.services.user.restoreUser(input.id);
       if (!user) {
-        throw new Error(`User with id ${id} not found`);
+        throw new NotFoundError('User', input.id);
       }
       return user;
     }),
 
   /**
-   * Delete user by ID
+   * Permanently remove deleted user - administrators only (user/purge)
+   * Active users have to be deleted first, otherwise fails with NOT_FOUND
    */
-  delete: publicProcedure
+  purge: protectedProcedure
+    .requires('user/purge')
     .input(z.object({ id: z.string() }))
-    .mutation(({ ctx, input }) => {
-      const deleted = ctx.services.user.deleteUser(input.id);
-      if (!deleted) {
-        throw new Error(`User with id ${input.id} not found`);
+    .mutation(async ({ ctx, input }) => {
+      const purged = await ctx.services.user.purgeUser(input.id);
+      if (!purged) {
+        throw new NotFoundError('User', input.id);
       }
       return { success: true };
     }),
+
+  /**
+   * Stream of user changes (created / updated / deleted / restored) made in any worker
+   * Served over SSE - use httpSubscriptionLink with a ticket in connectionParams
+   * (auth.subscriptionTicket), ends when the session expires or loses user/read
+   */
+  onChange: protectedProcedure
+    .requires('user/read')
+    .subscription(async function* ({ ctx }) {
+      yield* ctx.services.user.watchChanges(ctx.sessionSignal);
+    }),
 });
 
 export type UsersRouter = typeof usersRouter;
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { createListInputSchema, type ListQuery } from './pagination';
+
+/**
+ * Fields audit entries can be sorted by
+ */
+export const AUDIT_SORT_FIELDS = ['createdAt'] as const;
+
+export type AuditSortField = (typeof AUDIT_SORT_FIELDS)[number];
+
+/**
+ * Input of audit.list
+ * Free-text search matches the action (procedure path), createdAfter/createdBefore
+ * select the time range
+ */
+export const auditListInput = createListInputSchema(AUDIT_SORT_FIELDS, 'createdAt').and(
+  z.object({
+    actorId: z.string().min(1).optional(),
+    entityType: z.string().min(1).optional(),
+    entityId: z.string().min(1).optional(),
+  })
+);
+
+export type AuditListQuery = ListQuery<AuditSortField> & {
+  actorId?: string;
+  entityType?: string;
+  entityId?: string;
+};
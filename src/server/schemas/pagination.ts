@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import { ValidationFailedError } from '../errors';
+
+/**
+ * Reusable cursor pagination, filtering and sorting schemas
+ *
+ * Cursor pagination (keyset) is stable while rows are inserted or deleted
+ * and does not get slower on later pages like OFFSET does.
+ *
+ * Usage in routers:
+ *   const listInput = createListInputSchema(['createdAt', 'name'], 'createdAt');
+ *   list: publicProcedure.input(listInput).query(({ input }) => service.list(input))
+ *
+ * Works with useInfiniteQuery on the client - the `cursor` field is filled
+ * from `nextCursor` of the previous page automatically.
+ */
+
+export const MAX_PAGE_SIZE = 100;
+export const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Create list input schema for given sortable fields
+ * @param sortFields - Fields the list may be sorted by
+ * @param defaultSortBy - Default sort field
+ */
+export function createListInputSchema<TField extends string>(
+  sortFields: readonly [TField, ...TField[]],
+  defaultSortBy: NoInfer<TField>
+) {
+  return z
+    .object({
+      cursor: z.string().nullish(),
+      limit: z.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+      sortBy: z.enum(sortFields).default(defaultSortBy),
+      sortDirection: z.enum(['asc', 'desc']).default('desc'),
+      search: z.string().trim().min(1).max(200).optional(),
+      createdAfter: z.coerce.date().optional(),
+      createdBefore: z.coerce.date().optional(),
+    })
+    .refine(
+      (input) =>
+        !input.createdAfter || !input.createdBefore || input.createdAfter <= input.createdBefore,
+      { message: 'createdAfter must be before createdBefore', path: ['createdAfter'] }
+    );
+}
+
+/**
+ * Parsed list query
+ */
+export interface ListQuery<TField extends string = string> {
+  cursor?: string | null;
+  limit: number;
+  sortBy: TField;
+  sortDirection: 'asc' | 'desc';
+  search?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+}
+
+/**
+ * One page of results
+ */
+export interface Page<T> {
+  items: T[];
+  /** Cursor of the next page, null on the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * Position of the last row of a page (sort value + id as tie-breaker)
+ */
+export interface CursorPosition {
+  value: string | number | Date;
+  id: string;
+}
+
+/**
+ * Encode position of a row into an opaque cursor
+ */
+export function encodeCursor(position: CursorPosition): string {
+  const value =
+    position.value instanceof Date ? { d: position.value.toISOString() } : { v: position.value };
+  return Buffer.from(JSON.stringify({ ...value, id: position.id })).toString('base64url');
+}
+
+/**
+ * Decode cursor created by encodeCursor()
+ * @throws ValidationFailedError INVALID_CURSOR if the cursor is malformed
+ */
+export function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof parsed.id !== 'string') throw new Error('Missing id');
+
+    if (typeof parsed.d === 'string') {
+      const date = new Date(parsed.d);
+      if (isNaN(date.getTime())) throw new Error('Invalid date');
+      return { value: date, id: parsed.id };
+    }
+    if (typeof parsed.v === 'string' || typeof parsed.v === 'number') {
+      return { value: parsed.v, id: parsed.id };
+    }
+    throw new Error('Missing value');
+  } catch {
+    throw new ValidationFailedError('Invalid cursor', { cursor: ['Invalid cursor'] }, {
+      code: 'INVALID_CURSOR',
+    });
+  }
+}
+
+/**
+ * Prisma where condition selecting rows after the cursor position
+ * Rows are ordered by (sortBy, id), id breaks ties of equal sort values
+ * @param sortBy - Sort field
+ * @param direction - Sort direction
+ * @param cursor - Cursor of the previous page
+ */
+export function cursorWhere(sortBy: string, direction: 'asc' | 'desc', cursor: string) {
+  const { value, id } = decodeCursor(cursor);
+  const op = direction === 'asc' ? 'gt' : 'lt';
+  return {
+    OR: [{ [sortBy]: { [op]: value } }, { [sortBy]: value, id: { [op]: id } }],
+  };
+}
+
+/**
+ * Prisma orderBy matching cursorWhere()
+ */
+export function cursorOrderBy(sortBy: string, direction: 'asc' | 'desc') {
+  return [{ [sortBy]: direction }, { id: direction }];
+}
+
+/**
+ * Build page from rows fetched with `limit + 1`
+ * The extra row only signals that another page exists
+ * @param rows - Rows fetched with take: limit + 1
+ * @param limit - Requested page size
+ * @param getPosition - Cursor position of a row
+ */
+export function toPage<T>(
+  rows: T[],
+  limit: number,
+  getPosition: (row: T) => CursorPosition
+): Page<T> {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > limit && last ? encodeCursor(getPosition(last)) : null,
+  };
+}
@@ -0,0 +1,16 @@
+import { createListInputSchema, type ListQuery } from './pagination';
+
+/**
+ * Fields users can be sorted by
+ */
+export const USER_SORT_FIELDS = ['createdAt', 'name', 'email'] as const;
+
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+
+/**
+ * Input of user list procedures (users.list, secured.listUsers)
+ * Free-text search matches name and email
+ */
+export const userListInput = createListInputSchema(USER_SORT_FIELDS, 'createdAt');
+
+export type UserListQuery = ListQuery<UserSortField>;
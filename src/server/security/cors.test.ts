@@ -0,0 +1,101 @@
+import { expect } from 'chai';
+import http, { type Server, type IncomingHttpHeaders } from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import { loadSecurityConfig } from '../../shared/security/config';
+import { corsMiddleware } from './cors';
+import { securityHeadersMiddleware } from './headers';
+
+/**
+ * Unit tests for CORS and security headers middlewares
+ */
+describe('CORS and security headers', () => {
+  let server: Server;
+
+  before(async () => {
+    const config = loadSecurityConfig({
+      NODE_ENV: 'production',
+      CORS_ORIGINS: 'https://app.example.com,https://*.example.org',
+      CORS_CREDENTIALS: 'true',
+      CORS_MAX_AGE_SECONDS: '300',
+    });
+    const app = express();
+    app.use(securityHeadersMiddleware(config.headers));
+    app.use(corsMiddleware(config.cors));
+    app.all('/trpc', (_req, res) => {
+      res.json({ ok: true });
+    });
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function request(
+    method: string,
+    headers: Record<string, string>
+  ): Promise<{ status: number; headers: IncomingHttpHeaders }> {
+    const { port } = server.address() as AddressInfo;
+    return new Promise((resolve, reject) => {
+      http
+        .request({ host: '127.0.0.1', port, path: '/trpc', method, headers, agent: false }, (res) => {
+          res.resume();
+          res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers }));
+        })
+        .on('error', reject)
+        .end();
+    });
+  }
+
+  it('should echo an allowed origin with credentials', async () => {
+    const response = await request('GET', { origin: 'https://app.example.com' });
+
+    expect(response.status).to.equal(200);
+    expect(response.headers['access-control-allow-origin']).to.equal('https://app.example.com');
+    expect(response.headers['access-control-allow-credentials']).to.equal('true');
+    expect(response.headers['access-control-expose-headers']).to.contain('Retry-After');
+    expect(response.headers.vary).to.contain('Origin');
+  });
+
+  it('should not add CORS headers for other origins', async () => {
+    const response = await request('GET', { origin: 'https://evil.example.com' });
+
+    expect(response.status).to.equal(200);
+    expect(response.headers['access-control-allow-origin']).to.be.undefined;
+  });
+
+  it('should answer preflight of allowed origins', async () => {
+    const response = await request('OPTIONS', {
+      origin: 'https://admin.example.org',
+      'access-control-request-method': 'POST',
+    });
+
+    expect(response.status).to.equal(204);
+    expect(response.headers['access-control-allow-origin']).to.equal('https://admin.example.org');
+    expect(response.headers['access-control-allow-methods']).to.contain('POST');
+    expect(response.headers['access-control-allow-headers']).to.contain('Authorization');
+    expect(response.headers['access-control-max-age']).to.equal('300');
+  });
+
+  it('should reject preflight of other origins', async () => {
+    const response = await request('OPTIONS', {
+      origin: 'https://evil.example.com',
+      'access-control-request-method': 'POST',
+    });
+
+    expect(response.status).to.equal(403);
+    expect(response.headers['access-control-allow-origin']).to.be.undefined;
+  });
+
+  it('should set security headers', async () => {
+    const response = await request('GET', {});
+
+    expect(response.headers['x-content-type-options']).to.equal('nosniff');
+    expect(response.headers['x-frame-options']).to.equal('DENY');
+    expect(response.headers['strict-transport-security']).to.match(/^max-age=\d+; includeSubDomains$/);
+    expect(response.headers['content-security-policy']).to.contain("default-src 'none'");
+  });
+});
@@ -0,0 +1,71 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { CorsConfig, OriginRule } from '../../shared/security/config';
+
+/**
+ * Whether the origin matches one of the allowlist rules
+ */
+export function isOriginAllowed(origin: string, rules: OriginRule[]): boolean {
+  const normalized = origin.toLowerCase();
+  return rules.some((rule) => {
+    switch (rule.type) {
+      case 'any':
+        return true;
+      case 'exact':
+        return rule.origin === normalized;
+      case 'pattern':
+        return rule.pattern.test(origin);
+    }
+  });
+}
+
+/**
+ * CORS middleware with an origin allowlist
+ *
+ * - Allowed origin is echoed back in Access-Control-Allow-Origin (never *, so
+ *   responses vary by Origin and credentials work)
+ * - Requests of other origins get no CORS headers - the browser blocks them,
+ *   same-origin and non-browser clients are not affected
+ * - Preflight (OPTIONS with Access-Control-Request-Method) is answered here:
+ *   204 with allowed methods/headers and max-age, 403 for disallowed origins
+ *
+ * Usage:
+ *   app.use(corsMiddleware(getConfig().security.cors));
+ */
+export function corsMiddleware(config: CorsConfig): RequestHandler {
+  const allowedMethods = config.allowedMethods.join(', ');
+  const allowedHeaders = config.allowedHeaders.join(', ');
+  const exposedHeaders = config.exposedHeaders.join(', ');
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const origin = req.headers.origin;
+    const preflight = req.method === 'OPTIONS' && req.headers['access-control-request-method'] !== undefined;
+    res.vary('Origin');
+
+    if (!origin || !isOriginAllowed(origin, config.origins)) {
+      if (preflight) {
+        res.sendStatus(403);
+        return;
+      }
+      next();
+      return;
+    }
+
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    if (config.credentials) {
+      res.setHeader('Access-Control-Allow-Credentials', 'true');
+    }
+
+    if (!preflight) {
+      if (exposedHeaders) {
+        res.setHeader('Access-Control-Expose-Headers', exposedHeaders);
+      }
+      next();
+      return;
+    }
+
+    res.setHeader('Access-Control-Allow-Methods', allowedMethods);
+    res.setHeader('Access-Control-Allow-Headers', allowedHeaders);
+    res.setHeader('Access-Control-Max-Age', String(config.maxAgeSeconds));
+    res.sendStatus(204);
+  };
+}
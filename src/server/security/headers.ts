@@ -0,0 +1,22 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { SecurityHeadersConfig } from '../../shared/security/config';
+import { buildApiSecurityHeaders } from '../../shared/security/headers';
+
+/**
+ * Security headers middleware of the API
+ * nosniff, frame options, referrer policy, HSTS (when enabled) and a CSP
+ * that forbids rendering responses as documents
+ *
+ * Usage:
+ *   app.use(securityHeadersMiddleware(getConfig().security.headers));
+ */
+export function securityHeadersMiddleware(config: SecurityHeadersConfig): RequestHandler {
+  const headers = buildApiSecurityHeaders(config);
+
+  return (_req: Request, res: Response, next: NextFunction) => {
+    for (const { key, value } of headers) {
+      res.setHeader(key, value);
+    }
+    next();
+  };
+}
@@ -0,0 +1,8 @@
+export type {
+  SecurityConfig,
+  CorsConfig,
+  SecurityHeadersConfig,
+  OriginRule,
+} from '../../shared/security/config';
+export { corsMiddleware, isOriginAllowed } from './cors';
+export { securityHeadersMiddleware } from './headers';
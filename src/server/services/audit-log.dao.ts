@@ -0,0 +1,89 @@
+import type { Prisma } from '@prisma/client';
+import { Service, ServicesContext } from '@david.uhlir/services';
+import { DatabaseService } from './database.service';
+import { getLogger } from '../logging';
+import type { AuditEntry, AuditStore } from '../audit';
+import { cursorOrderBy, cursorWhere, toPage } from '../schemas/pagination';
+import type { AuditListQuery } from '../schemas/audit';
+
+const logger = getLogger('AuditLogDAO');
+
+/**
+ * Audit log Data Access Object (DAO)
+ * Stores entries written by the audit middleware (see src/server/audit)
+ *
+ * Permission checks live in AuditService
+ */
+export class AuditLogDAO extends Service implements AuditStore {
+  @ServicesContext.inject(DatabaseService)
+  private databaseService!: DatabaseService;
+
+  async record(entry: AuditEntry): Promise<void> {
+    const [entity] = entry.changes;
+    const db = this.databaseService.getPrisma();
+    await db.auditLog.create({
+      data: {
+        actorId: entry.actorId,
+        action: entry.action,
+        input: (entry.input ?? undefined) as Prisma.InputJsonValue | undefined,
+        outcome: entry.outcome,
+        errorCode: entry.errorCode,
+        entityType: entity?.entityType,
+        entityId: entity?.entityId,
+        changes: entry.changes as unknown as Prisma.InputJsonValue,
+        requestId: entry.requestId,
+      },
+    });
+  }
+
+  /**
+   * Get one page of audit entries, newest first by default
+   * Filters by actor, entity, action (search) and createdAt range
+   * Reads from a replica when configured - entries of the last moments may be missing
+   */
+  async findAll(query: AuditListQuery) {
+    const { cursor, limit, sortBy, sortDirection, search, createdAfter, createdBefore } = query;
+    const conditions: Prisma.AuditLogWhereInput[] = [];
+
+    if (query.actorId) {
+      conditions.push({ actorId: query.actorId });
+    }
+    if (query.entityType) {
+      conditions.push({ entityType: query.entityType });
+    }
+    if (query.entityId) {
+      conditions.push({ entityId: query.entityId });
+    }
+    if (search) {
+      conditions.push({ action: { contains: search, mode: 'insensitive' } });
+    }
+    if (createdAfter || createdBefore) {
+      conditions.push({ createdAt: { gte: createdAfter, lte: createdBefore } });
+    }
+    if (cursor) {
+      conditions.push(cursorWhere(sortBy, sortDirection, cursor));
+    }
+
+    const db = this.databaseService.getReadPrisma();
+    const rows = await db.auditLog.findMany({
+      where: { AND: conditions },
+      orderBy: cursorOrderBy(sortBy, sortDirection),
+      take: limit + 1,
+    });
+    return toPage(rows, limit, (entry) => ({ value: entry[sortBy], id: entry.id }));
+  }
+
+  /**
+   * Initialize DAO
+   */
+  async initialize(): Promise<void> {
+    logger.info('Initialized');
+  }
+
+  /**
+   * Shutdown DAO
+   */
+  async shutdown(): Promise<void> {
+    logger.info('Shutdown');
+  }
+}
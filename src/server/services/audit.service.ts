@@ -0,0 +1,44 @@
+import { Service, ServicesContext } from '@david.uhlir/services';
+import { AuditLogDAO } from './audit-log.dao';
+import { getConfig } from '../config';
+import { getLogger } from '../logging';
+import { setAuditStore } from '../audit';
+import { requirePermissions } from '../auth/caller';
+import type { AuditListQuery } from '../schemas/audit';
+
+const logger = getLogger('AuditService');
+
+/**
+ * AuditService - audit log of mutations
+ *
+ * - Connects the audit middleware (see src/server/audit) to AuditLogDAO,
+ *   entries are not stored without DATABASE_URL
+ * - Lists entries for administrators, requires audit/read
+ *
+ * Usage: ServicesContext.lookup(AuditService).listEntries({ actorId, limit: 20 })
+ */
+export class AuditService extends Service {
+  @ServicesContext.inject(AuditLogDAO)
+  private auditLogDAO!: AuditLogDAO;
+
+  async initialize(): Promise<void> {
+    if (getConfig().database.url) {
+      setAuditStore(this.auditLogDAO);
+    }
+    logger.info('Initializing...');
+  }
+
+  async shutdown(): Promise<void> {
+    logger.info('Shutting down...');
+    setAuditStore(null);
+  }
+
+  /**
+   * List audit entries with cursor pagination
+   * Filters by actor, entity (type and id), action and time range
+   */
+  async listEntries(query: AuditListQuery) {
+    await requirePermissions(['audit/read']);
+    return this.auditLogDAO.findAll(query);
+  }
+}
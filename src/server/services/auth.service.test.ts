@@ -0,0 +1,171 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import type { RefreshToken, User } from '@prisma/client';
+import { AuthService, type AuthDependencies } from './auth.service';
+import { hashOpaqueToken } from '../auth/tokens';
+import { UnauthorizedError } from '../errors';
+import { setLogSink } from '../logging';
+
+type RefreshTokenStore = AuthDependencies['refreshTokens'];
+
+/**
+ * In-memory refresh tokens with the semantics of RefreshTokenDAO
+ */
+class InMemoryRefreshTokens implements RefreshTokenStore {
+  readonly tokens = new Map<string, RefreshToken>();
+  private nextId = 1;
+
+  async create(data: { userId: string; familyId: string; tokenHash: string; expiresAt: Date }) {
+    const token: RefreshToken = {
+      ...data,
+      id: `token-${this.nextId++}`,
+      revokedAt: null,
+      replacedById: null,
+      createdAt: new Date(),
+    };
+    this.tokens.set(token.id, token);
+    return token;
+  }
+
+  async findByHash(tokenHash: string) {
+    return [...this.tokens.values()].find((token) => token.tokenHash === tokenHash) ?? null;
+  }
+
+  async revokeIfActive(id: string) {
+    const token = this.tokens.get(id);
+    if (!token || token.revokedAt) {
+      return false;
+    }
+    token.revokedAt = new Date();
+    return true;
+  }
+
+  async setReplacedBy(id: string, replacedById: string) {
+    const token = this.tokens.get(id)!;
+    token.replacedById = replacedById;
+    return token;
+  }
+
+  async revokeFamily(familyId: string) {
+    return this.revokeWhere((token) => token.familyId === familyId);
+  }
+
+  async revokeAllForUser(userId: string) {
+    return this.revokeWhere((token) => token.userId === userId);
+  }
+
+  private revokeWhere(matches: (token: RefreshToken) => boolean): number {
+    const active = [...this.tokens.values()].filter((token) => !token.revokedAt && matches(token));
+    active.forEach((token) => (token.revokedAt = new Date()));
+    return active.length;
+  }
+}
+
+/**
+ * Unit tests for AuthService token rotation
+ * Uses in-memory collaborators instead of the database
+ */
+describe('AuthService', () => {
+  const user: User = {
+    id: 'user-1',
+    email: 'john@example.com',
+    name: 'John Doe',
+    permissions: [],
+    passwordHash: null,
+    passwordChangedAt: null,
+    deletedAt: null,
+    deletionKey: '',
+    version: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  let refreshTokens: InMemoryRefreshTokens;
+  let authService: AuthService;
+  // Soft delete - UserDAO finders return active users only
+  let deleted: boolean;
+
+  const expectUnauthorized = async (promise: Promise<unknown>, code: string) => {
+    try {
+      await promise;
+      expect.fail(`Should throw ${code}`);
+    } catch (error) {
+      expect(error).to.be.instanceof(UnauthorizedError);
+      expect((error as UnauthorizedError).code).to.equal(code);
+    }
+  };
+
+  const login = async () => {
+    const token = await refreshTokens.create({
+      userId: user.id,
+      familyId: 'family-1',
+      tokenHash: hashOpaqueToken('first'),
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    return { raw: 'first', token };
+  };
+
+  beforeEach(() => {
+    setLogSink(() => undefined);
+    refreshTokens = new InMemoryRefreshTokens();
+    deleted = false;
+    authService = new AuthService({
+      users: {
+        findByIdUncached: async (id) => (id === user.id && !deleted ? user : null),
+        findByEmail: async () => null,
+      },
+      refreshTokens,
+      roles: { getEffectivePermissions: async () => ['user/read'] },
+    });
+  });
+
+  afterEach(() => setLogSink());
+
+  describe('refresh', () => {
+    it('should rotate the token within its family', async () => {
+      const { raw, token } = await login();
+
+      const pair = await authService.refresh(raw);
+
+      const rotated = await refreshTokens.findByHash(hashOpaqueToken(pair.refreshToken));
+      expect(pair.accessToken).to.be.a('string');
+      expect(pair.refreshToken).to.not.equal(raw);
+      expect(rotated?.familyId).to.equal('family-1');
+      expect(token.revokedAt).to.be.instanceof(Date);
+      expect(token.replacedById).to.equal(rotated?.id);
+    });
+
+    it('should revoke the whole family when a rotated token is reused', async () => {
+      const { raw } = await login();
+      const pair = await authService.refresh(raw);
+
+      await expectUnauthorized(authService.refresh(raw), 'REFRESH_TOKEN_REUSED');
+
+      const successor = await refreshTokens.findByHash(hashOpaqueToken(pair.refreshToken));
+      expect(successor?.revokedAt).to.be.instanceof(Date);
+      await expectUnauthorized(authService.refresh(pair.refreshToken), 'REFRESH_TOKEN_REUSED');
+    });
+
+    it('should reject an expired token without issuing a new one', async () => {
+      const { raw, token } = await login();
+      token.expiresAt = new Date(Date.now() - 1);
+
+      await expectUnauthorized(authService.refresh(raw), 'REFRESH_TOKEN_EXPIRED');
+
+      expect(refreshTokens.tokens.size).to.equal(1);
+    });
+
+    it('should reject the token of a deleted user', async () => {
+      const { raw } = await login();
+      deleted = true;
+
+      await expectUnauthorized(authService.refresh(raw), 'INVALID_REFRESH_TOKEN');
+
+      expect(refreshTokens.tokens.size).to.equal(1);
+    });
+
+    it('should reject an unknown token', async () => {
+      await expectUnauthorized(authService.refresh('unknown'), 'INVALID_REFRESH_TOKEN');
+    });
+  });
+});
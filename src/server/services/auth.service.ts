@@ -0,0 +1,206 @@
+import { randomUUID } from 'crypto';
+import { Service, ServicesContext } from '@david.uhlir/services';
+import { signAccessToken } from '../auth/jwt';
+import { generateOpaqueToken, hashOpaqueToken } from '../auth/tokens';
+import { hashPassword, verifyPassword } from '../auth/password';
+import { UserDAO } from './user.dao';
+import { RefreshTokenDAO } from './refresh-token.dao';
+import { RoleService } from './role.service';
+import { UnauthorizedError } from '../errors';
+import { getConfig } from '../config';
+import { getLogger } from '../logging';
+
+const logger = getLogger('AuthService');
+
+/**
+ * Tokens returned to the client after login or refresh
+ */
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+/**
+ * Collaborators of AuthService, replaceable by test doubles
+ */
+export interface AuthDependencies {
+  users: Pick<UserDAO, 'findByIdUncached' | 'findByEmail'>;
+  refreshTokens: Pick<
+    RefreshTokenDAO,
+    'create' | 'findByHash' | 'revokeIfActive' | 'setReplacedBy' | 'revokeFamily' | 'revokeAllForUser'
+  >;
+  roles: Pick<RoleService, 'getEffectivePermissions'>;
+}
+
+/**
+ * AuthService - issues and rotates tokens
+ *
+ * - Access tokens are short-lived JWTs accepted by protectedProcedure
+ * - Refresh tokens are opaque, stored hashed and rotated on every use
+ * - Presenting an already rotated refresh token is treated as token theft
+ *   and revokes the whole token family
+ *
+ * Usage: ServicesContext.lookup(AuthService).login(email, password)
+ *
+ * Usage in tests (no database):
+ *   const authService = new AuthService({ users, refreshTokens, roles });
+ */
+export class AuthService extends Service {
+  @ServicesContext.inject(UserDAO)
+  private userDAO!: UserDAO;
+
+  @ServicesContext.inject(RefreshTokenDAO)
+  private refreshTokenDAO!: RefreshTokenDAO;
+
+  @ServicesContext.inject(RoleService)
+  private roleService!: RoleService;
+
+  /**
+   * @param dependenciesOverride - Alternative collaborators (test doubles),
+   *   defaults to UserDAO, RefreshTokenDAO and RoleService
+   */
+  constructor(private readonly dependenciesOverride?: AuthDependencies) {
+    super();
+  }
+
+  private get users(): AuthDependencies['users'] {
+    return this.dependenciesOverride?.users || this.userDAO;
+  }
+
+  private get refreshTokens(): AuthDependencies['refreshTokens'] {
+    return this.dependenciesOverride?.refreshTokens || this.refreshTokenDAO;
+  }
+
+  private get roles(): AuthDependencies['roles'] {
+    return this.dependenciesOverride?.roles || this.roleService;
+  }
+
+  async initialize(): Promise<void> {
+    logger.info('Initializing...');
+  }
+
+  async shutdown(): Promise<void> {
+    logger.info('Shutting down...');
+  }
+
+  /**
+   * Authenticate user and start a new token family
+   * @param email - User email
+   * @param password - Plain text password
+   * @returns Access and refresh token
+   */
+  async login(email: string, password: string): Promise<TokenPair> {
+    const user = await this.verifyCredentials(email, password);
+    if (!user) {
+      throw new UnauthorizedError('Invalid email or password', { code: 'INVALID_CREDENTIALS' });
+    }
+
+    return this.issueTokens(user, randomUUID());
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair
+   * The presented token is revoked and replaced (rotation)
+   * @param refreshToken - Raw refresh token
+   */
+  async refresh(refreshToken: string): Promise<TokenPair> {
+    const stored = await this.refreshTokens.findByHash(hashOpaqueToken(refreshToken));
+    if (!stored) {
+      throw new UnauthorizedError('Invalid refresh token', { code: 'INVALID_REFRESH_TOKEN' });
+    }
+
+    // Reuse of a rotated token - somebody else may hold the chain
+    if (stored.revokedAt || !(await this.refreshTokens.revokeIfActive(stored.id))) {
+      const revoked = await this.refreshTokens.revokeFamily(stored.familyId);
+      logger.warn('Refresh token reuse detected, token family revoked', {
+        targetUserId: stored.userId,
+        revoked,
+      });
+      throw new UnauthorizedError('Refresh token was already used', {
+        code: 'REFRESH_TOKEN_REUSED',
+      });
+    }
+
+    if (stored.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedError('Refresh token expired', { code: 'REFRESH_TOKEN_EXPIRED' });
+    }
+
+    // Uncached - a user deleted in another worker must not get new tokens
+    const user = await this.users.findByIdUncached(stored.userId);
+    if (!user) {
+      throw new UnauthorizedError('User no longer exists', { code: 'INVALID_REFRESH_TOKEN' });
+    }
+
+    return this.issueTokens(user, stored.familyId, stored.id);
+  }
+
+  /**
+   * Revoke the token family of the given refresh token (logout)
+   * Unknown tokens are ignored so logout is idempotent
+   * @param refreshToken - Raw refresh token
+   */
+  async logout(refreshToken: string): Promise<void> {
+    const stored = await this.refreshTokens.findByHash(hashOpaqueToken(refreshToken));
+    if (stored) {
+      await this.refreshTokens.revokeFamily(stored.familyId);
+    }
+  }
+
+  /**
+   * Revoke all refresh tokens of a user (logout everywhere)
+   * @param userId - User ID
+   */
+  async logoutAll(userId: string): Promise<void> {
+    await this.refreshTokens.revokeAllForUser(userId);
+  }
+
+  /**
+   * Verify login credentials
+   * @returns User or null if credentials are invalid
+   */
+  protected async verifyCredentials(email: string, password: string) {
+    const user = await this.users.findByEmail(email);
+    if (!user?.passwordHash) {
+      // Hash anyway so unknown emails take as long as wrong passwords
+      await hashPassword(password);
+      return null;
+    }
+
+    return (await verifyPassword(password, user.passwordHash)) ? user : null;
+  }
+
+  /**
+   * Sign access token and persist a new refresh token in the given family
+   */
+  private async issueTokens(
+    user: { id: string; email: string },
+    familyId: string,
+    rotatedFromId?: string
+  ): Promise<TokenPair> {
+    // Permissions in the token are informational only,
+    // protectedProcedure always resolves them from the database
+    const accessToken = signAccessToken({
+      userId: user.id,
+      email: user.email,
+      permissions: await this.roles.getEffectivePermissions(user.id),
+    });
+
+    const refreshToken = generateOpaqueToken();
+    const refreshTokenExpiresAt = new Date(
+      Date.now() + getConfig().auth.refreshTokenTtlDays * 24 * 60 * 60 * 1000
+    );
+    const created = await this.refreshTokens.create({
+      userId: user.id,
+      familyId,
+      tokenHash: hashOpaqueToken(refreshToken),
+      expiresAt: refreshTokenExpiresAt,
+    });
+
+    if (rotatedFromId) {
+      await this.refreshTokens.setReplacedBy(rotatedFromId, created.id);
+    }
+
+    return { accessToken, refreshToken, refreshTokenExpiresAt };
+  }
+}
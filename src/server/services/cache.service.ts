@@ -0,0 +1,52 @@
+import { Service } from '@david.uhlir/services';
+import { getConfig } from '../config';
+import { getLogger } from '../logging';
+import { Cache, getSharedCacheStore, setCache } from '../cache';
+
+const logger = getLogger('CacheService');
+
+/**
+ * CacheService - cache of read-heavy DAO methods
+ *
+ * - Creates the cache used by @Cached methods (see src/server/cache): in-memory
+ *   LRU of this process plus the shared store set by setSharedCacheStore()
+ * - invalidate() removes entries of tags in all cluster workers, called by DAOs
+ *   after their changes commit
+ *
+ * Must be registered before DAOs using it (see init.ts).
+ *
+ * Usage:
+ *   @ServicesContext.inject(CacheService)
+ *   private cacheService!: CacheService;
+ *
+ *   afterCommit(() => void this.cacheService.invalidate([`user:${id}`]));
+ */
+export class CacheService extends Service {
+  private cache: Cache | null = null;
+
+  async initialize(): Promise<void> {
+    logger.info('Initializing...');
+    const { enabled, ttlMs, maxEntries } = getConfig().cache;
+    if (!enabled) {
+      logger.info('Cache disabled');
+      return;
+    }
+    this.cache = new Cache({ maxEntries, defaultTtlMs: ttlMs, shared: getSharedCacheStore() });
+    setCache(this.cache);
+  }
+
+  async shutdown(): Promise<void> {
+    logger.info('Shutting down...');
+    setCache(null);
+    this.cache?.close();
+    this.cache = null;
+  }
+
+  /**
+   * Remove cached reads carrying any of the tags, in every worker
+   * Never fails - a cache error must not fail the change
+   */
+  async invalidate(tags: string[]): Promise<void> {
+    await this.cache?.invalidate(tags);
+  }
+}
@@ -1,22 +1,106 @@
-import { PrismaClient } from '@prisma/client';
-import { Service } from '@david.uhlir/services';
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { Service, ServicesContext } from '@david.uhlir/services';
+import { HealthService } from './health.service';
+import { getConfig } from '../config';
+import { getLogger } from '../logging';
+import { skipCacheStore } from '../cache';
+import {
+  getTransaction,
+  hasWritten,
+  poolSizePerWorker,
+  ReplicaSet,
+  runInTransaction,
+  withConnectionLimit,
+  type TransactionOptions,
+} from '../database';
+import { fallbackToPrimary, trackWrites } from '../database/prisma';
+import { queryMetrics } from '../metrics/prisma';
+import { queryTracing } from '../tracing/prisma';
+
+const logger = getLogger('DatabaseService');
 
 /**
  * Database Service
  * Manages Prisma client connection lifecycle
  * Provides single instance for all data access
- * Usage: ServicesContext.lookup(DatabaseService).prisma
+ * Contributes the 'database' health check (SELECT 1)
+ * Query timings are recorded as prisma_query_duration_seconds (see metrics/)
+ * and as spans of the active trace (see tracing/)
+ * Transactions spanning several DAOs via runInTransaction() (see database/)
+ *
+ * Pools of all cluster workers share DATABASE_MAX_CONNECTIONS. Read-only DAO
+ * methods may use getReadPrisma() - round-robin over healthy read replicas
+ * (DATABASE_REPLICA_URLS), the primary after the request or a recent request of
+ * the user wrote (read-your-writes) or when no replica is healthy. A read failing
+ * to reach its replica is retried on the primary. Replica health is the non-critical
+ * 'database-replicas' check.
+ *
+ * Usage: ServicesContext.lookup(DatabaseService).getPrisma()
  */
 export class DatabaseService extends Service {
+  @ServicesContext.inject(HealthService)
+  private healthService!: HealthService;
+
   private prisma: PrismaClient | null = null;
+  private replicas: ReplicaSet<PrismaClient> | null = null;
+  private replicaHealthTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Get Prisma client
+   * Inside runInTransaction() the client of the transaction, so the caller joins it
+   */
+  getPrisma(): Prisma.TransactionClient {
+    return getTransaction() ?? this.getClient();
+  }
+
+  /**
+   * Get Prisma client for reads that tolerate replication lag (lists, lookups)
+   * A read replica unless in a transaction, after a write of the current request
+   * or of the user within DATABASE_READ_YOUR_WRITES_MS, or when no replica is
+   * configured and healthy
+   * A cached read (see src/server/cache) given a replica is not stored - the row
+   * may predate the last invalidation
+   */
+  getReadPrisma(): Prisma.TransactionClient {
+    const transaction = getTransaction();
+    if (transaction) {
+      return transaction;
+    }
+    const replica = hasWritten() ? null : this.replicas?.pick();
+    if (replica) {
+      skipCacheStore();
+      return replica;
+    }
+    return this.getClient();
+  }
 
   /**
-   * Get Prisma client instance
+   * Run function in a transaction - DAOs called inside it join the transaction
+   * Nested calls run in a savepoint, serialization failures are retried
+   * (DATABASE_TRANSACTION_MAX_RETRIES)
+   * @param options - Isolation level, retries and timeout overriding the configured defaults
+   */
+  runInTransaction<T>(
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
+    options: TransactionOptions = {}
+  ): Promise<T> {
+    const { transactionMaxRetries, transactionTimeoutMs } = getConfig().database;
+    return runInTransaction(this.getClient(), fn, {
+      maxRetries: transactionMaxRetries,
+      timeoutMs: transactionTimeoutMs,
+      ...options,
+    });
+  }
+
+  /**
+   * Get Prisma client instance outside of any transaction
    * Ensures lazy connection establishment
    */
-  getPrisma(): PrismaClient {
+  private getClient(): PrismaClient {
     if (!this.prisma) {
-      this.prisma = new PrismaClient();
+      // Query extensions keep the model API, the client is used as a plain PrismaClient
+      this.prisma = createClient(getConfig().database.url)
+        .$extends(trackWrites) as unknown as PrismaClient;
     }
     return this.prisma;
   }
@@ -26,32 +110,126 @@ export class DatabaseService extends Service {
    * Only connects if DATABASE_URL is configured
    */
   async initialize(): Promise<void> {
-    console.log('[DatabaseService] Initializing...');
+    logger.info('Initializing...');
+    this.healthService.register({
+      name: 'database',
+      timeoutMs: getConfig().database.healthTimeoutMs,
+      check: () => this.ping(),
+    });
+
     try {
       // Check if DATABASE_URL is configured
-      if (!process.env.DATABASE_URL) {
-        console.warn('[DatabaseService] DATABASE_URL not configured - skipping connection');
+      if (!getConfig().database.url) {
+        logger.warn('DATABASE_URL not configured - skipping connection');
         return;
       }
 
-      const prisma = this.getPrisma();
+      const prisma = this.getClient();
       await prisma.$connect();
-      console.log('[DatabaseService] Connected to PostgreSQL');
+      logger.info('Connected to PostgreSQL');
     } catch (error) {
-      console.error('[DatabaseService] Connection failed:', error);
+      logger.error('Connection failed', { error });
       throw error;
     }
+    await this.connectReplicas();
+  }
+
+  /**
+   * Create clients of read replicas and check their health periodically
+   * Replicas are optional - failing ones are skipped, never fail the startup
+   */
+  private async connectReplicas(): Promise<void> {
+    const { replicaUrls, replicaHealthIntervalMs, healthTimeoutMs } = getConfig().database;
+    if (!replicaUrls.length) {
+      return;
+    }
+
+    const replicas: ReplicaSet<PrismaClient> = new ReplicaSet(
+      replicaUrls.map((url, index) => {
+        // Reads of an unreachable replica are retried on the primary, the replica is skipped
+        const client = createClient(url).$extends(
+          fallbackToPrimary(
+            () => this.getClient(),
+            (error) => replicas.markUnhealthy(client, error)
+          )
+        ) as unknown as PrismaClient;
+        return {
+          name: `replica-${index + 1}`,
+          client,
+          ping: async () => {
+            await client.$queryRaw`SELECT 1`;
+          },
+        };
+      }),
+      { pingTimeoutMs: healthTimeoutMs }
+    );
+    this.replicas = replicas;
+    this.healthService.register({
+      name: 'database-replicas',
+      critical: false,
+      timeoutMs: healthTimeoutMs,
+      check: async () => {
+        const status = replicas.status();
+        if (!status.some((replica) => replica.healthy)) {
+          throw new Error('No healthy read replica, reading from primary');
+        }
+        return { replicas: status };
+      },
+    });
+
+    const healthy = await replicas.checkHealth();
+    // A check still running when the interval fires is not started again
+    this.replicaHealthTimer = setInterval(
+      () => void replicas.checkHealth(),
+      replicaHealthIntervalMs
+    );
+    this.replicaHealthTimer.unref();
+    logger.info('Read replicas configured', { total: replicaUrls.length, healthy });
+  }
+
+  /**
+   * Verify the database answers queries
+   * @throws If DATABASE_URL is not configured or the query fails
+   */
+  async ping(): Promise<void> {
+    if (!getConfig().database.url) {
+      throw new Error('DATABASE_URL not configured');
+    }
+    await this.getPrisma().$queryRaw`SELECT 1`;
   }
 
   /**
    * Shutdown database connection
    */
   async shutdown(): Promise<void> {
-    console.log('[DatabaseService] Shutting down...');
+    logger.info('Shutting down...');
+    if (this.replicaHealthTimer) {
+      clearInterval(this.replicaHealthTimer);
+      this.replicaHealthTimer = null;
+    }
+    if (this.replicas) {
+      await Promise.all(this.replicas.clients().map((client) => client.$disconnect()));
+      this.replicas = null;
+    }
     if (this.prisma) {
       await this.prisma.$disconnect();
       this.prisma = null;
-      console.log('[DatabaseService] Disconnected from PostgreSQL');
+      logger.info('Disconnected from PostgreSQL');
     }
   }
 }
+
+/**
+ * Prisma client with this worker's share of DATABASE_MAX_CONNECTIONS
+ * @param url - Connection string, null falls back to the environment (client is never connected)
+ */
+function createClient(url: string | null) {
+  const { database, cluster } = getConfig();
+  const workers = cluster.enabled ? cluster.workers : 1;
+  const connectionLimit = poolSizePerWorker(database.maxConnections, workers);
+  return new PrismaClient({
+    datasourceUrl: url ? withConnectionLimit(url, connectionLimit) : undefined,
+  })
+    .$extends(queryMetrics)
+    .$extends(queryTracing);
+}
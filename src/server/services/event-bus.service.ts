@@ -0,0 +1,63 @@
+import cluster from 'cluster';
+import { Service } from '@david.uhlir/services';
+import { getLogger } from '../logging';
+import {
+  EventBus,
+  PubSubEventTransport,
+  type DomainEventName,
+  type DomainEventPayload,
+  type EventHandler,
+  type EventPublisher,
+  type SubscribeOptions,
+} from '../events';
+
+const logger = getLogger('EventBusService');
+
+/** Time async handlers get to finish on shutdown */
+const DRAIN_TIMEOUT_MS = 5000;
+
+/**
+ * Event Bus Service
+ * Domain events of the process (see src/server/events) available to all services
+ *
+ * Handlers declared with @OnEvent on services are subscribed in init.ts.
+ * In cluster workers events are also broadcast to other workers, handlers
+ * subscribed with scope 'cluster' receive them.
+ *
+ * Registered as the last service, so it shuts down first - pending async
+ * handlers finish while the services they use are still running.
+ */
+export class EventBusService extends Service implements EventPublisher {
+  private readonly bus = new EventBus();
+
+  async initialize(): Promise<void> {
+    if (cluster.isWorker) {
+      this.bus.setTransport(new PubSubEventTransport());
+      logger.info('Broadcasting events to cluster workers');
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    logger.info('Shutting down...');
+    this.bus.setTransport(null);
+    if (!(await this.bus.drain(DRAIN_TIMEOUT_MS))) {
+      logger.warn(`Event handlers still running after ${DRAIN_TIMEOUT_MS}ms`);
+    }
+  }
+
+  publish<N extends DomainEventName>(name: N, payload: DomainEventPayload<N>): Promise<void> {
+    return this.bus.publish(name, payload);
+  }
+
+  subscribe<N extends DomainEventName>(
+    names: N | N[],
+    handler: EventHandler<N>,
+    options?: SubscribeOptions
+  ): () => void {
+    return this.bus.subscribe(names, handler, options);
+  }
+
+  subscribeHandlers(instance: object): () => void {
+    return this.bus.subscribeHandlers(instance);
+  }
+}
@@ -0,0 +1,127 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import { HealthService, toPublicCheck } from './health.service';
+import { setLogSink } from '../logging';
+
+/**
+ * Unit tests for HealthService (health-check registry)
+ */
+describe('HealthService', () => {
+  let healthService: HealthService;
+  let logs: string[];
+
+  beforeEach(() => {
+    healthService = new HealthService();
+    logs = [];
+    setLogSink((line) => void logs.push(line));
+  });
+
+  afterEach(() => setLogSink());
+
+  it('should be ready without checks', async () => {
+    const report = await healthService.getReport();
+
+    expect(report.ready).to.be.true;
+    expect(report.checks).to.be.empty;
+  });
+
+  it('should report passing check with latency and details', async () => {
+    healthService.register({ name: 'database', check: async () => ({ pool: 5 }) });
+
+    const [result] = await healthService.runChecks();
+
+    expect(result.name).to.equal('database');
+    expect(result.status).to.equal('up');
+    expect(result.latencyMs).to.be.a('number');
+    expect(result.details).to.deep.equal({ pool: 5 });
+  });
+
+  it('should fail readiness when critical check fails', async () => {
+    healthService.register({
+      name: 'database',
+      check: async () => {
+        throw new Error('Connection refused');
+      },
+    });
+
+    const report = await healthService.getReport();
+
+    expect(report.ready).to.be.false;
+    expect(report.checks[0].status).to.equal('down');
+    expect(report.checks[0].error).to.equal('Connection refused');
+  });
+
+  it('should stay ready when non-critical check fails', async () => {
+    healthService.register({
+      name: 'cache',
+      critical: false,
+      check: async () => {
+        throw new Error('Cache unavailable');
+      },
+    });
+
+    const report = await healthService.getReport();
+
+    expect(report.ready).to.be.true;
+    expect(report.checks[0].status).to.equal('down');
+  });
+
+  it('should fail check that exceeds timeout', async () => {
+    healthService.register({
+      name: 'slow',
+      timeoutMs: 10,
+      check: () => new Promise((resolve) => setTimeout(resolve, 200)),
+    });
+
+    const [result] = await healthService.runChecks();
+
+    expect(result.status).to.equal('down');
+    expect(result.error).to.match(/Timed out/);
+  });
+
+  it('should keep last error after check recovers', async () => {
+    let healthy = false;
+    healthService.register({
+      name: 'database',
+      check: async () => {
+        if (!healthy) throw new Error('Connection refused');
+      },
+    });
+
+    await healthService.runChecks();
+    healthy = true;
+    const [result] = await healthService.runChecks();
+
+    expect(result.status).to.equal('up');
+    expect(result.error).to.be.undefined;
+    expect(result.lastError?.message).to.equal('Connection refused');
+  });
+
+  it('should log failures once and keep them out of public results', async () => {
+    healthService.register({
+      name: 'database',
+      check: async () => {
+        throw new Error('getaddrinfo ENOTFOUND db.internal');
+      },
+    });
+
+    await healthService.runChecks();
+    const [result] = await healthService.runChecks();
+
+    expect(logs.filter((line) => line.includes('Health check failed'))).to.have.lengthOf(1);
+    expect(logs.join('\n')).to.include('db.internal');
+    const publicCheck = toPublicCheck(result);
+    expect(publicCheck).to.have.keys('name', 'status', 'critical', 'latencyMs', 'checkedAt');
+    expect(JSON.stringify(publicCheck)).to.not.include('db.internal');
+  });
+
+  it('should fail readiness while shutting down', async () => {
+    healthService.register({ name: 'database', check: async () => undefined });
+    healthService.markShuttingDown();
+
+    const report = await healthService.getReport();
+
+    expect(report.ready).to.be.false;
+    expect(report.shuttingDown).to.be.true;
+  });
+});
@@ -0,0 +1,192 @@
+import { Service } from '@david.uhlir/services';
+import { getConfig } from '../config';
+import { getLogger } from '../logging';
+
+const logger = getLogger('HealthService');
+
+/**
+ * Health check contributed by a service
+ */
+export interface HealthCheck {
+  /** Unique name, e.g. 'database' */
+  name: string;
+  /** Resolves when healthy, rejects (or times out) when not. May return details */
+  check: () => Promise<Record<string, unknown> | void>;
+  /** Failing critical check makes the worker not ready (default true) */
+  critical?: boolean;
+  /** Check fails if it does not finish in time (default HEALTH_CHECK_TIMEOUT_MS or 2000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Result of a single health check run
+ */
+export interface HealthCheckResult {
+  name: string;
+  status: 'up' | 'down';
+  critical: boolean;
+  latencyMs: number;
+  checkedAt: string;
+  details?: Record<string, unknown>;
+  error?: string;
+  /** Last failure of the check, kept after it recovers */
+  lastError?: { message: string; at: string };
+}
+
+/**
+ * Result of a check as shown to unauthenticated clients (health.deep)
+ * Errors and details are logged instead, they may reveal hosts or credentials
+ */
+export type PublicHealthCheck = Pick<
+  HealthCheckResult,
+  'name' | 'status' | 'critical' | 'latencyMs' | 'checkedAt'
+>;
+
+/**
+ * Readiness of this worker
+ */
+export interface HealthReport {
+  ready: boolean;
+  shuttingDown: boolean;
+  checks: HealthCheckResult[];
+}
+
+/**
+ * HealthService - health-check registry
+ *
+ * Services contribute checks in their initialize(), the registry runs them
+ * in parallel with a timeout and reports per-check latency and errors.
+ * - liveness  - process is running (no checks)
+ * - readiness - all critical checks pass and the worker is not shutting down
+ *
+ * Must be registered before services contributing checks (see init.ts).
+ *
+ * Usage:
+ *   @ServicesContext.inject(HealthService)
+ *   private healthService!: HealthService;
+ *
+ *   this.healthService.register({ name: 'cache', check: () => this.client.ping() });
+ */
+export class HealthService extends Service {
+  private checks: Map<string, HealthCheck> = new Map();
+  private lastErrors: Map<string, { message: string; at: string }> = new Map();
+  /** Checks failing since their last run, failures are logged once until they recover */
+  private failing = new Set<string>();
+  private shuttingDown = false;
+
+  async initialize(): Promise<void> {
+    logger.info('Initializing...');
+  }
+
+  async shutdown(): Promise<void> {
+    logger.info('Shutting down...');
+    this.shuttingDown = true;
+  }
+
+  /**
+   * Register health check, replaces a check with the same name
+   */
+  register(check: HealthCheck): void {
+    this.checks.set(check.name, check);
+  }
+
+  /**
+   * Remove health check
+   */
+  unregister(name: string): void {
+    this.checks.delete(name);
+    this.lastErrors.delete(name);
+    this.failing.delete(name);
+  }
+
+  /**
+   * Flip readiness to failing so load balancers stop routing to this worker
+   * Called at the beginning of graceful shutdown
+   */
+  markShuttingDown(): void {
+    this.shuttingDown = true;
+  }
+
+  isShuttingDown(): boolean {
+    return this.shuttingDown;
+  }
+
+  /**
+   * Run all checks in parallel
+   */
+  async runChecks(): Promise<HealthCheckResult[]> {
+    return Promise.all(Array.from(this.checks.values()).map((check) => this.runCheck(check)));
+  }
+
+  /**
+   * Run all checks and evaluate readiness
+   */
+  async getReport(): Promise<HealthReport> {
+    const checks = await this.runChecks();
+    const failing = checks.some((result) => result.critical && result.status === 'down');
+    return {
+      ready: !this.shuttingDown && !failing,
+      shuttingDown: this.shuttingDown,
+      checks,
+    };
+  }
+
+  private async runCheck(check: HealthCheck): Promise<HealthCheckResult> {
+    const startedAt = Date.now();
+    const base = { name: check.name, critical: check.critical ?? true };
+
+    try {
+      const details = await withTimeout(check.check(), check.timeoutMs ?? getConfig().health.checkTimeoutMs);
+      if (this.failing.delete(check.name)) {
+        logger.info('Health check recovered', { check: check.name });
+      }
+      return {
+        ...base,
+        status: 'up',
+        latencyMs: Date.now() - startedAt,
+        checkedAt: new Date().toISOString(),
+        ...(details ? { details } : {}),
+        ...this.lastErrorOf(check.name),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (this.lastErrors.get(check.name)?.message !== message || !this.failing.has(check.name)) {
+        logger.warn('Health check failed', { check: check.name, critical: base.critical, error });
+      }
+      this.failing.add(check.name);
+      this.lastErrors.set(check.name, { message, at: new Date().toISOString() });
+      return {
+        ...base,
+        status: 'down',
+        latencyMs: Date.now() - startedAt,
+        checkedAt: new Date().toISOString(),
+        error: message,
+        ...this.lastErrorOf(check.name),
+      };
+    }
+  }
+
+  private lastErrorOf(name: string) {
+    const lastError = this.lastErrors.get(name);
+    return lastError ? { lastError } : {};
+  }
+}
+
+/**
+ * Public view of a check result - status and name only, no error messages or details
+ */
+export function toPublicCheck(result: HealthCheckResult): PublicHealthCheck {
+  const { name, status, critical, latencyMs, checkedAt } = result;
+  return { name, status, critical, latencyMs, checkedAt };
+}
+
+/**
+ * Reject if the promise does not settle in time
+ */
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -4,3 +4,19 @@ export type { Service } from '@david.uhlir/services';
 export { UserService } from './user.service';
 export { DatabaseService } from './database.service';
 export { UserDAO } from './user.dao';
+export { RefreshTokenDAO } from './refresh-token.dao';
+export { AuthService } from './auth.service';
+export { RoleDAO } from './role.dao';
+export { RoleService } from './role.service';
+export { HealthService } from './health.service';
+export { LoggerService } from './logger.service';
+export { TracingService } from './tracing.service';
+export { EventBusService } from './event-bus.service';
+export { OutboxDAO } from './outbox.dao';
+export { LeaseDAO } from './lease.dao';
+export { OutboxService } from './outbox.service';
+export { AuditLogDAO } from './audit-log.dao';
+export { AuditService } from './audit.service';
+export { RetentionService } from './retention.service';
+export { CacheService } from './cache.service';
+export { NotificationService } from './notification.service';
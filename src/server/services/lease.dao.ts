@@ -0,0 +1,55 @@
+import { Service, ServicesContext } from '@david.uhlir/services';
+import { DatabaseService } from './database.service';
+import { getLogger } from '../logging';
+import type { LeaseStore } from '../leader';
+
+const logger = getLogger('LeaseDAO');
+
+/**
+ * Lease Data Access Object (DAO)
+ * Stores leases of leader election (see src/server/leader) in the Lease table,
+ * so one leader is elected among all workers and machines sharing the database
+ *
+ * Expiration uses the database clock - clocks of the processes may differ
+ */
+export class LeaseDAO extends Service implements LeaseStore {
+  @ServicesContext.inject(DatabaseService)
+  private databaseService!: DatabaseService;
+
+  /**
+   * Take a free or expired lease, or renew own lease - atomically in one statement
+   */
+  async acquire(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    const db = this.databaseService.getPrisma();
+    const rows = await db.$queryRaw<{ holder: string }[]>`
+      INSERT INTO "Lease" ("name", "holder", "expiresAt")
+      VALUES (${name}, ${holder}, now() + make_interval(secs => ${ttlMs / 1000}))
+      ON CONFLICT ("name") DO UPDATE
+        SET "holder" = EXCLUDED."holder", "expiresAt" = EXCLUDED."expiresAt"
+        WHERE "Lease"."holder" = EXCLUDED."holder" OR "Lease"."expiresAt" < now()
+      RETURNING "holder"`;
+    return rows.length > 0;
+  }
+
+  /**
+   * Free the lease if the holder still holds it
+   */
+  async release(name: string, holder: string): Promise<void> {
+    const db = this.databaseService.getPrisma();
+    await db.lease.deleteMany({ where: { name, holder } });
+  }
+
+  /**
+   * Initialize DAO
+   */
+  async initialize(): Promise<void> {
+    logger.info('Initialized');
+  }
+
+  /**
+   * Shutdown DAO
+   */
+  async shutdown(): Promise<void> {
+    logger.info('Shutdown');
+  }
+}
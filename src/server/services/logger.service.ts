@@ -0,0 +1,29 @@
+import { Service } from '@david.uhlir/services';
+import { getConfig } from '../config';
+import { configureLogging, getLogger, type Logger } from '../logging';
+
+/**
+ * Logger Service
+ * Configures structured logging of the process (level, json/pretty format, redaction)
+ * from LOG_* variables on initialization - registered first, so all services log with it
+ *
+ * Modules outside of ServicesContext (cluster, shutdown) use getLogger() directly,
+ * the loggers share the configuration.
+ *
+ * Usage:
+ *   ServicesContext.lookup(LoggerService).get('Payments').info('Charged', { orderId });
+ */
+export class LoggerService extends Service {
+  async initialize(): Promise<void> {
+    configureLogging(getConfig().logging);
+    getLogger('LoggerService').info('Initialized', { ...getConfig().logging });
+  }
+
+  get(component: string): Logger {
+    return getLogger(component);
+  }
+
+  async shutdown(): Promise<void> {
+    getLogger('LoggerService').info('Shutting down...');
+  }
+}
@@ -0,0 +1,97 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import { NotificationService } from './notification.service';
+import type { OutboxService } from './outbox.service';
+import { setMailer, type MailMessage } from '../notifications';
+import { setLogSink } from '../logging';
+import type { OutboxHandler, OutboxDelivery } from '../outbox';
+import type { DomainEventName } from '../events';
+
+/**
+ * Unit tests for NotificationService
+ */
+describe('NotificationService', () => {
+  const reset = { token: 'reset-token', expiresAt: new Date('2030-01-01T00:00:00Z') };
+  let sent: MailMessage[];
+  let logs: string[];
+
+  beforeEach(() => {
+    sent = [];
+    logs = [];
+    setLogSink((line) => void logs.push(line));
+    setMailer({ send: async (message) => void sent.push(message) });
+  });
+
+  afterEach(() => {
+    setMailer(null);
+    setLogSink();
+  });
+
+  it('should email a reset link carrying the token', async () => {
+    await new NotificationService().sendPasswordReset('john@example.com', reset);
+
+    expect(sent).to.have.lengthOf(1);
+    expect(sent[0].to).to.equal('john@example.com');
+    expect(sent[0].text).to.include('/reset-password?token=reset-token');
+    expect(sent[0].text).to.include('2030-01-01T00:00:00.000Z');
+  });
+
+  it('should log delivery failures instead of throwing', async () => {
+    setMailer({ send: async () => Promise.reject(new Error('Connection refused')) });
+
+    await new NotificationService().sendPasswordReset('john@example.com', reset);
+
+    expect(logs.some((line) => line.includes('Failed to send email'))).to.be.true;
+  });
+
+  describe('account emails', () => {
+    const user = { id: 'u1', name: 'John', email: 'john@example.com' };
+    let handlers: Map<DomainEventName, OutboxHandler>;
+
+    const deliver = <N extends DomainEventName>(topic: N) =>
+      handlers.get(topic)!({
+        id: `${topic}-1`,
+        topic,
+        payload: { user },
+        attempts: 0,
+        createdAt: new Date(),
+      } as OutboxDelivery<DomainEventName>);
+
+    beforeEach(async () => {
+      handlers = new Map();
+      const outbox: Pick<OutboxService, 'handle'> = {
+        handle: (topic, handler) => void handlers.set(topic, handler as OutboxHandler),
+      };
+      await new NotificationService(outbox).initialize();
+    });
+
+    it('should handle every user event of the outbox', async () => {
+      expect([...handlers.keys()]).to.have.members([
+        'user.created',
+        'user.updated',
+        'user.deleted',
+        'user.restored',
+      ]);
+
+      await deliver('user.created');
+
+      expect(sent).to.have.lengthOf(1);
+      expect(sent[0]).to.include({
+        to: 'john@example.com',
+        subject: 'Welcome',
+        idempotencyKey: 'user.created-1',
+      });
+    });
+
+    it('should reject on delivery failures so the outbox retries', async () => {
+      setMailer({ send: async () => Promise.reject(new Error('Connection refused')) });
+
+      try {
+        await deliver('user.deleted');
+        expect.fail('Should throw');
+      } catch (error) {
+        expect((error as Error).message).to.equal('Connection refused');
+      }
+    });
+  });
+});
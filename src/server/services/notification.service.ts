@@ -0,0 +1,132 @@
+import { Service, ServicesContext } from '@david.uhlir/services';
+import { OutboxService } from './outbox.service';
+import { getConfig } from '../config';
+import { getLogger } from '../logging';
+import { getMailer, logMailer, type Mailer, type MailMessage } from '../notifications';
+import type { OutboxDelivery } from '../outbox';
+
+const logger = getLogger('NotificationService');
+
+type AccountEventName = 'user.created' | 'user.updated' | 'user.deleted' | 'user.restored';
+
+type AccountEmail = Pick<MailMessage, 'subject' | 'text'>;
+
+/**
+ * Emails about changes of the account, sent to the address of the user in the event
+ */
+const ACCOUNT_EMAILS: Record<AccountEventName, (user: { name: string }) => AccountEmail> = {
+  'user.created': ({ name }) => ({
+    subject: 'Welcome',
+    text: `Hello ${name},\n\nyour account was created.`,
+  }),
+  'user.updated': ({ name }) => ({
+    subject: 'Your account was updated',
+    text: [
+      `Hello ${name},`,
+      'the details of your account were changed.',
+      'If you did not make the change, contact an administrator.',
+    ].join('\n\n'),
+  }),
+  'user.deleted': ({ name }) => ({
+    subject: 'Your account was deleted',
+    text: `Hello ${name},\n\nyour account was deleted. Contact an administrator to restore it.`,
+  }),
+  'user.restored': ({ name }) => ({
+    subject: 'Your account was restored',
+    text: `Hello ${name},\n\nyour account was restored, you can sign in again.`,
+  }),
+};
+
+/**
+ * NotificationService - messages sent to users
+ *
+ * Delivers through the mailer set by setMailer() (see src/server/notifications),
+ * without one messages are only logged (bodies outside of production only).
+ * Account emails (user.created, user.updated, user.deleted, user.restored) are sent
+ * from the transactional outbox - a failed send is retried by the dispatcher.
+ *
+ * Usage: ServicesContext.lookup(NotificationService).sendPasswordReset(email, reset)
+ */
+export class NotificationService extends Service {
+  @ServicesContext.inject(OutboxService)
+  private outboxService!: OutboxService;
+
+  /**
+   * @param outboxOverride - Alternative outbox (test doubles), defaults to OutboxService
+   */
+  constructor(private readonly outboxOverride?: Pick<OutboxService, 'handle'>) {
+    super();
+  }
+
+  /**
+   * Outbox the account emails are delivered from
+   */
+  private get outbox(): Pick<OutboxService, 'handle'> {
+    return this.outboxOverride || this.outboxService;
+  }
+
+  async initialize(): Promise<void> {
+    logger.info('Initializing...');
+    if (!getMailer() && getConfig().isProduction) {
+      logger.warn('No mailer configured, emails will not be delivered');
+    }
+
+    for (const topic of Object.keys(ACCOUNT_EMAILS) as AccountEventName[]) {
+      this.outbox.handle(topic, (message) => this.sendAccountEmail(message));
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    logger.info('Shutting down...');
+  }
+
+  /**
+   * Email a password reset link to the user
+   * Never fails - the caller must not reveal whether the email is registered
+   * @param email - Address of the user
+   * @param reset - Raw reset token and its expiration (UserService.requestPasswordReset)
+   */
+  async sendPasswordReset(email: string, reset: { token: string; expiresAt: Date }): Promise<void> {
+    const url = new URL(getConfig().notifications.passwordResetUrl);
+    url.searchParams.set('token', reset.token);
+
+    await this.send({
+      to: email,
+      subject: 'Reset your password',
+      text: [
+        'A password reset was requested for your account.',
+        `Set a new password at ${url.toString()}`,
+        `The link expires at ${reset.expiresAt.toISOString()}.`,
+        'If you did not request it, ignore this email.',
+      ].join('\n\n'),
+    });
+  }
+
+  /**
+   * Email the user about a change of the account (outbox handler)
+   * Rejects when the mailer fails, so the outbox retries the message
+   */
+  private async sendAccountEmail(message: OutboxDelivery<AccountEventName>): Promise<void> {
+    const { user } = message.payload;
+    await this.mailer.send({
+      to: user.email,
+      ...ACCOUNT_EMAILS[message.topic](user),
+      idempotencyKey: message.id,
+    });
+  }
+
+  /**
+   * Mailer set by setMailer(), logMailer when none is set
+   */
+  private get mailer(): Mailer {
+    return getMailer() ?? logMailer(getConfig().isProduction);
+  }
+
+  private async send(message: MailMessage): Promise<void> {
+    try {
+      await this.mailer.send(message);
+    } catch (error) {
+      logger.error('Failed to send email', { subject: message.subject, error });
+    }
+  }
+}
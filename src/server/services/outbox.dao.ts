@@ -0,0 +1,106 @@
+import type { Prisma } from '@prisma/client';
+import { Service, ServicesContext } from '@david.uhlir/services';
+import { DatabaseService } from './database.service';
+import { getLogger } from '../logging';
+import { domainEvents, type DomainEventName, type DomainEventPayload } from '../events';
+import type { OutboxMessage, OutboxStore } from '../outbox';
+
+const logger = getLogger('OutboxDAO');
+
+/**
+ * Outbox Data Access Object (DAO)
+ * Stores messages of the transactional outbox (see src/server/outbox)
+ *
+ * Usage - in the transaction of the domain change:
+ *   await this.databaseService.runInTransaction(async (tx) => {
+ *     const user = await tx.user.create({ data });
+ *     await this.outboxDAO.enqueue('user.created', { user });
+ *   });
+ */
+export class OutboxDAO extends Service implements OutboxStore {
+  @ServicesContext.inject(DatabaseService)
+  private databaseService!: DatabaseService;
+
+  /**
+   * Add message to the outbox
+   * @param topic - Domain event name, payload is validated against its schema
+   * @param db - Client of the domain change, the message is committed with it
+   *             (the transaction of the current runInTransaction() by default)
+   */
+  async enqueue<N extends DomainEventName>(
+    topic: N,
+    payload: DomainEventPayload<N>,
+    db: Prisma.TransactionClient = this.databaseService.getPrisma()
+  ): Promise<void> {
+    const data = domainEvents[topic].parse(payload) as Prisma.InputJsonValue;
+    await db.outbox.create({ data: { topic, payload: data } });
+  }
+
+  async fetchDue(limit: number, topics: string[]): Promise<OutboxMessage[]> {
+    const db = this.databaseService.getPrisma();
+    return db.outbox.findMany({
+      where: {
+        processedAt: null,
+        failedAt: null,
+        availableAt: { lte: new Date() },
+        topic: { in: topics },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+      select: { id: true, topic: true, payload: true, attempts: true, createdAt: true },
+    });
+  }
+
+  async markProcessed(id: string): Promise<void> {
+    const db = this.databaseService.getPrisma();
+    await db.outbox.update({ where: { id }, data: { processedAt: new Date() } });
+  }
+
+  async markFailed(id: string, error: string, retryAt: Date | null): Promise<void> {
+    const db = this.databaseService.getPrisma();
+    await db.outbox.update({
+      where: { id },
+      data: {
+        attempts: { increment: 1 },
+        lastError: error,
+        ...(retryAt ? { availableAt: retryAt } : { failedAt: new Date() }),
+      },
+    });
+  }
+
+  async failUnhandled(topics: string[], before: Date, error: string): Promise<number> {
+    const db = this.databaseService.getPrisma();
+    const result = await db.outbox.updateMany({
+      where: {
+        processedAt: null,
+        failedAt: null,
+        createdAt: { lt: before },
+        topic: { notIn: topics },
+      },
+      data: { lastError: error, failedAt: new Date() },
+    });
+    return result.count;
+  }
+
+  async purge(before: Date): Promise<number> {
+    const db = this.databaseService.getPrisma();
+    const result = await db.outbox.deleteMany({
+      where: { OR: [{ processedAt: { lt: before } }, { failedAt: { lt: before } }] },
+    });
+    return result.count;
+  }
+
+  /**
+   * Initialize DAO
+   */
+  async initialize(): Promise<void> {
+    logger.info('Initialized');
+  }
+
+  /**
+   * Shutdown DAO
+   */
+  async shutdown(): Promise<void> {
+    logger.info('Shutdown');
+  }
+}
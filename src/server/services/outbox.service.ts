@@ -0,0 +1,73 @@
+import { Service, ServicesContext } from '@david.uhlir/services';
+import { OutboxDAO } from './outbox.dao';
+import { LeaseDAO } from './lease.dao';
+import { getConfig } from '../config';
+import { getLogger } from '../logging';
+import { LeaderElection } from '../leader';
+import { OutboxDispatcher, type OutboxHandler } from '../outbox';
+import { domainEvents, type DomainEventName } from '../events';
+
+const logger = getLogger('OutboxService');
+
+/**
+ * Outbox Service
+ * Delivers messages of the transactional outbox (see src/server/outbox)
+ *
+ * Every process runs a dispatcher, only the elected leader (lease 'outbox')
+ * delivers - one process at a time among cluster workers and machines.
+ * Disabled with OUTBOX_DISPATCHER_ENABLED=false or without DATABASE_URL.
+ * Messages of topics without a handler are given up after an hour (see NotificationService
+ * for handlers).
+ *
+ * Usage (in initialize() of a service initialized before OutboxService):
+ *   this.outbox.handle('user.created', async (message) => {
+ *     await mailer.send({ ...welcome(message.payload.user), idempotencyKey: message.id });
+ *   });
+ */
+export class OutboxService extends Service {
+  @ServicesContext.inject(OutboxDAO)
+  private outboxDAO!: OutboxDAO;
+
+  @ServicesContext.inject(LeaseDAO)
+  private leaseDAO!: LeaseDAO;
+
+  private handlers = new Map<DomainEventName, OutboxHandler>();
+  private dispatcher: OutboxDispatcher | null = null;
+
+  /**
+   * Set handler of a topic - delivered at least once, use message.id as idempotency key
+   */
+  handle<N extends DomainEventName>(topic: N, handler: OutboxHandler<N>): void {
+    this.handlers.set(topic, handler as OutboxHandler);
+    this.dispatcher?.handle(topic, handler);
+  }
+
+  async initialize(): Promise<void> {
+    const { outbox, database } = getConfig();
+    if (!outbox.enabled || !database.url) {
+      logger.info('Dispatcher disabled');
+      return;
+    }
+
+    const election = new LeaderElection(this.leaseDAO, {
+      name: 'outbox',
+      ttlMs: outbox.leaseTtlMs,
+    });
+    this.dispatcher = new OutboxDispatcher(this.outboxDAO, election, outbox);
+    this.handlers.forEach((handler, topic) => this.dispatcher?.handle(topic, handler));
+    const unhandled = Object.keys(domainEvents).filter(
+      (topic) => !this.handlers.has(topic as DomainEventName)
+    );
+    if (unhandled.length) {
+      logger.warn('Topics without a handler, their messages are given up', { topics: unhandled });
+    }
+    this.dispatcher.start();
+    logger.info('Dispatcher started', { holder: election.holder });
+  }
+
+  async shutdown(): Promise<void> {
+    logger.info('Shutting down...');
+    await this.dispatcher?.stop();
+    this.dispatcher = null;
+  }
+}
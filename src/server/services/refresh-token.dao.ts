@@ -0,0 +1,108 @@
+import { Service, ServicesContext } from '@david.uhlir/services';
+import { DatabaseService } from './database.service';
+import { getLogger } from '../logging';
+
+const logger = getLogger('RefreshTokenDAO');
+
+/**
+ * Refresh Token Data Access Object (DAO)
+ * Handles persistence of rotating refresh tokens
+ *
+ * Tokens are stored hashed (see auth/tokens.ts).
+ * Tokens issued from a single login share a familyId, so a detected
+ * reuse can revoke the whole chain at once.
+ *
+ * Usage: ServicesContext.lookup(RefreshTokenDAO).findByHash(...)
+ */
+export class RefreshTokenDAO extends Service {
+  @ServicesContext.inject(DatabaseService)
+  private databaseService!: DatabaseService;
+
+  /**
+   * Store a new refresh token
+   */
+  async create(data: {
+    userId: string;
+    familyId: string;
+    tokenHash: string;
+    expiresAt: Date;
+  }) {
+    const db = this.databaseService.getPrisma();
+    return db.refreshToken.create({ data });
+  }
+
+  /**
+   * Get refresh token by its hash
+   */
+  async findByHash(tokenHash: string) {
+    const db = this.databaseService.getPrisma();
+    return db.refreshToken.findUnique({
+      where: { tokenHash },
+    });
+  }
+
+  /**
+   * Revoke a token, but only if it is still active
+   * Guards against two concurrent refreshes with the same token
+   * @returns True if this call revoked the token
+   */
+  async revokeIfActive(id: string, replacedById?: string): Promise<boolean> {
+    const db = this.databaseService.getPrisma();
+    const result = await db.refreshToken.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date(), replacedById },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Link a rotated token to its successor
+   */
+  async setReplacedBy(id: string, replacedById: string) {
+    const db = this.databaseService.getPrisma();
+    return db.refreshToken.update({
+      where: { id },
+      data: { replacedById },
+    });
+  }
+
+  /**
+   * Revoke every active token of a token family
+   * @returns Number of revoked tokens
+   */
+  async revokeFamily(familyId: string): Promise<number> {
+    const db = this.databaseService.getPrisma();
+    const result = await db.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return result.count;
+  }
+
+  /**
+   * Revoke every active token of a user (all sessions)
+   * @returns Number of revoked tokens
+   */
+  async revokeAllForUser(userId: string): Promise<number> {
+    const db = this.databaseService.getPrisma();
+    const result = await db.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return result.count;
+  }
+
+  /**
+   * Initialize DAO
+   */
+  async initialize(): Promise<void> {
+    logger.info('Initialized');
+  }
+
+  /**
+   * Shutdown DAO
+   */
+  async shutdown(): Promise<void> {
+    logger.info('Shutdown');
+  }
+}
@@ -0,0 +1,79 @@
+import { Service, ServicesContext } from '@david.uhlir/services';
+import { UserDAO } from './user.dao';
+import { LeaseDAO } from './lease.dao';
+import { getConfig } from '../config';
+import { getLogger } from '../logging';
+import { LeaderElection, ScheduledJob } from '../leader';
+
+const logger = getLogger('RetentionService');
+
+/** Users removed by one query, the run repeats until none are left */
+const PURGE_BATCH_SIZE = 500;
+
+/**
+ * Retention Service
+ * Permanently removes soft-deleted users after DELETED_USER_RETENTION_DAYS
+ *
+ * Every process schedules the job every RETENTION_JOB_INTERVAL_MS, only the
+ * elected leader (lease 'retention') runs it. Disabled with
+ * RETENTION_JOB_ENABLED=false or without DATABASE_URL.
+ */
+export class RetentionService extends Service {
+  @ServicesContext.inject(UserDAO)
+  private userDAO!: UserDAO;
+
+  @ServicesContext.inject(LeaseDAO)
+  private leaseDAO!: LeaseDAO;
+
+  private job: ScheduledJob | null = null;
+
+  async initialize(): Promise<void> {
+    const { retention, database } = getConfig();
+    if (!retention.enabled || !database.url) {
+      logger.info('Retention job disabled');
+      return;
+    }
+
+    // Lease lasts until the next run, so one process runs the job per interval
+    const election = new LeaderElection(this.leaseDAO, {
+      name: 'retention',
+      ttlMs: retention.intervalMs,
+    });
+    this.job = new ScheduledJob(election, {
+      name: 'retention',
+      intervalMs: retention.intervalMs,
+      task: async () => {
+        await this.purgeDeletedUsers();
+      },
+    });
+    this.job.start();
+    logger.info('Retention job started', { holder: election.holder });
+  }
+
+  async shutdown(): Promise<void> {
+    logger.info('Shutting down...');
+    await this.job?.stop();
+    this.job = null;
+  }
+
+  /**
+   * Remove users deleted longer than the retention period ago
+   * @returns Number of removed users
+   */
+  async purgeDeletedUsers(): Promise<number> {
+    const days = getConfig().retention.deletedUserDays;
+    const before = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    let purged = 0;
+    let batch: number;
+    do {
+      batch = await this.userDAO.purgeDeletedBefore(before, PURGE_BATCH_SIZE);
+      purged += batch;
+    } while (batch >= PURGE_BATCH_SIZE);
+
+    if (purged) {
+      logger.info('Purged deleted users', { count: purged, deletedBefore: before.toISOString() });
+    }
+    return purged;
+  }
+}
@@ -0,0 +1,202 @@
+import type { Prisma } from '@prisma/client';
+import { Service, ServicesContext } from '@david.uhlir/services';
+import type { RoleGraphNode } from '../auth/permissions';
+import { DatabaseService } from './database.service';
+import { getLogger } from '../logging';
+
+const logger = getLogger('RoleDAO');
+
+const roleInclude = {
+  permissions: { include: { permission: true } },
+} satisfies Prisma.RoleInclude;
+
+type RoleWithPermissionLinks = Prisma.RoleGetPayload<{ include: typeof roleInclude }>;
+
+/**
+ * Role with flattened permission names
+ */
+export type RoleWithPermissions = Omit<RoleWithPermissionLinks, 'permissions'> & {
+  permissions: string[];
+};
+
+/**
+ * Role Data Access Object (DAO)
+ * Handles roles, their permissions and user-to-role assignments
+ *
+ * Permission checks for role management live in RoleService
+ *
+ * Usage: ServicesContext.lookup(RoleDAO).findAll()
+ */
+export class RoleDAO extends Service {
+  @ServicesContext.inject(DatabaseService)
+  private databaseService!: DatabaseService;
+
+  /**
+   * Get all roles with their permission names
+   */
+  async findAll() {
+    const db = this.databaseService.getPrisma();
+    const roles = await db.role.findMany({
+      include: roleInclude,
+      orderBy: { name: 'asc' },
+    });
+    return roles.map(RoleDAO.toRole);
+  }
+
+  /**
+   * Get role by ID
+   */
+  async findById(id: string) {
+    const db = this.databaseService.getPrisma();
+    const role = await db.role.findUnique({
+      where: { id },
+      include: roleInclude,
+    });
+    return role ? RoleDAO.toRole(role) : null;
+  }
+
+  /**
+   * Create a new role
+   */
+  async create(data: { name: string; description?: string; parentId?: string | null }) {
+    const db = this.databaseService.getPrisma();
+    const role = await db.role.create({
+      data,
+      include: roleInclude,
+    });
+    return RoleDAO.toRole(role);
+  }
+
+  /**
+   * Update role
+   */
+  async update(
+    id: string,
+    data: { name?: string; description?: string | null; parentId?: string | null }
+  ) {
+    const db = this.databaseService.getPrisma();
+    const role = await db.role.update({
+      where: { id },
+      data,
+      include: roleInclude,
+    });
+    return RoleDAO.toRole(role);
+  }
+
+  /**
+   * Delete role
+   * Assignments and permission links are removed by cascade,
+   * child roles lose their parent
+   */
+  async delete(id: string) {
+    const db = this.databaseService.getPrisma();
+    return db.role.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Replace permissions of a role
+   * Unknown permission names are created
+   */
+  async setPermissions(roleId: string, permissionNames: string[]) {
+    const names = [...new Set(permissionNames)];
+    await this.databaseService.runInTransaction(async (tx) => {
+      // Concurrent upserts of a new name fail with P2002, skipDuplicates does not
+      await tx.permission.createMany({
+        data: names.map((name) => ({ name })),
+        skipDuplicates: true,
+      });
+      const permissions = await tx.permission.findMany({ where: { name: { in: names } } });
+
+      await tx.rolePermission.deleteMany({ where: { roleId } });
+      await tx.rolePermission.createMany({
+        data: permissions.map((permission) => ({
+          roleId,
+          permissionId: permission.id,
+        })),
+      });
+    });
+    return this.findById(roleId);
+  }
+
+  /**
+   * Assign role to user (no-op if already assigned)
+   */
+  async assignToUser(userId: string, roleId: string) {
+    const db = this.databaseService.getPrisma();
+    return db.userRole.upsert({
+      where: { userId_roleId: { userId, roleId } },
+      create: { userId, roleId },
+      update: {},
+    });
+  }
+
+  /**
+   * Remove role from user
+   * @returns True if the assignment existed
+   */
+  async unassignFromUser(userId: string, roleId: string): Promise<boolean> {
+    const db = this.databaseService.getPrisma();
+    const result = await db.userRole.deleteMany({
+      where: { userId, roleId },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Get roles directly assigned to a user
+   * Soft-deleted users have no roles - their assignments are kept for restore
+   */
+  async findByUser(userId: string) {
+    const db = this.databaseService.getPrisma();
+    const assignments = await db.userRole.findMany({
+      where: { userId, user: { deletedAt: null } },
+      include: { role: { include: roleInclude } },
+    });
+    return assignments.map((assignment) => RoleDAO.toRole(assignment.role));
+  }
+
+  /**
+   * Get all roles as a lightweight graph for permission resolution
+   */
+  async findRoleGraph(): Promise<RoleGraphNode[]> {
+    const db = this.databaseService.getPrisma();
+    const roles = await db.role.findMany({
+      select: {
+        id: true,
+        parentId: true,
+        permissions: { select: { permission: { select: { name: true } } } },
+      },
+    });
+    return roles.map((role) => ({
+      id: role.id,
+      parentId: role.parentId,
+      permissions: role.permissions.map((link) => link.permission.name),
+    }));
+  }
+
+  /**
+   * Flatten permission links to permission names
+   */
+  private static toRole(role: RoleWithPermissionLinks): RoleWithPermissions {
+    return {
+      ...role,
+      permissions: role.permissions.map((link) => link.permission.name),
+    };
+  }
+
+  /**
+   * Initialize DAO
+   */
+  async initialize(): Promise<void> {
+    logger.info('Initialized');
+  }
+
+  /**
+   * Shutdown DAO
+   */
+  async shutdown(): Promise<void> {
+    logger.info('Shutdown');
+  }
+}
@@ -0,0 +1,202 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import { RoleService, type RoleDependencies } from './role.service';
+import type { RoleWithPermissions } from './role.dao';
+import { runAsCaller } from '../auth/caller';
+import { ForbiddenError } from '../errors';
+
+type RoleStore = RoleDependencies['roles'];
+
+/**
+ * In-memory roles with the semantics of RoleDAO (assignments are only recorded)
+ */
+class InMemoryRoles implements RoleStore {
+  readonly roles = new Map<string, RoleWithPermissions>();
+
+  async findAll() {
+    return [...this.roles.values()];
+  }
+
+  async findById(id: string) {
+    return this.roles.get(id) ?? null;
+  }
+
+  async create(data: { name: string; description?: string; parentId?: string | null }) {
+    const role: RoleWithPermissions = {
+      id: data.name,
+      name: data.name,
+      description: data.description ?? null,
+      parentId: data.parentId ?? null,
+      permissions: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.roles.set(role.id, role);
+    return role;
+  }
+
+  async update(
+    id: string,
+    data: { name?: string; description?: string | null; parentId?: string | null }
+  ) {
+    const role = { ...this.roles.get(id)!, ...data };
+    this.roles.set(id, role);
+    return role;
+  }
+
+  async delete(id: string) {
+    const role = this.roles.get(id)!;
+    this.roles.delete(id);
+    return role;
+  }
+
+  async setPermissions(roleId: string, permissionNames: string[]) {
+    const role = { ...this.roles.get(roleId)!, permissions: permissionNames };
+    this.roles.set(roleId, role);
+    return role;
+  }
+
+  async findByUser() {
+    return [];
+  }
+
+  async findRoleGraph() {
+    return [...this.roles.values()].map(({ id, parentId, permissions }) => ({
+      id,
+      parentId,
+      permissions,
+    }));
+  }
+
+  readonly assignments: Array<{ userId: string; roleId: string }> = [];
+
+  async assignToUser(userId: string, roleId: string) {
+    this.assignments.push({ userId, roleId });
+    return { userId, roleId, assignedAt: new Date() };
+  }
+
+  async unassignFromUser() {
+    return false;
+  }
+}
+
+/**
+ * Unit tests for RoleService
+ * Uses in-memory collaborators instead of the database
+ */
+describe('RoleService', () => {
+  const user = {
+    id: 'user-1',
+    email: 'john@example.com',
+    name: 'John Doe',
+    permissions: [],
+    passwordChangedAt: null,
+    deletedAt: null,
+    deletionKey: '',
+    version: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  let roles: InMemoryRoles;
+  let roleService: RoleService;
+
+  const asCaller = <T>(permissions: string[], callback: () => Promise<T>) =>
+    runAsCaller({ userId: 'caller', permissions }, callback);
+
+  const expectForbidden = async (promise: Promise<unknown>, code: string) => {
+    try {
+      await promise;
+      expect.fail(`Should throw ${code}`);
+    } catch (error) {
+      expect(error).to.be.instanceof(ForbiddenError);
+      expect((error as ForbiddenError).code).to.equal(code);
+    }
+  };
+
+  beforeEach(async () => {
+    roles = new InMemoryRoles();
+    roleService = new RoleService({
+      roles,
+      users: { findById: async (id) => (id === user.id ? user : null) },
+    });
+    await roles.create({ name: 'editor' });
+    await roles.create({ name: 'admin' });
+    await roles.setPermissions('admin', ['*']);
+  });
+
+  describe('setRolePermissions', () => {
+    it('should set permissions the caller holds', async () => {
+      const role = await asCaller(['role/write', 'user/*'], () =>
+        roleService.setRolePermissions('editor', ['user/read', 'user/write'])
+      );
+
+      expect(role?.permissions).to.deep.equal(['user/read', 'user/write']);
+    });
+
+    it('should reject permissions the caller does not hold', async () => {
+      await expectForbidden(
+        asCaller(['role/write', 'user/read'], () =>
+          roleService.setRolePermissions('editor', ['user/read', 'role/assign'])
+        ),
+        'PERMISSION_NOT_GRANTABLE'
+      );
+
+      expect(roles.roles.get('editor')?.permissions).to.be.empty;
+    });
+
+    it('should reject "*" unless the caller has "*"', async () => {
+      await expectForbidden(
+        asCaller(['role/*', 'user/*', 'audit/*'], () =>
+          roleService.setRolePermissions('editor', ['*'])
+        ),
+        'PERMISSION_NOT_GRANTABLE'
+      );
+
+      const role = await asCaller(['*'], () => roleService.setRolePermissions('editor', ['*']));
+      expect(role?.permissions).to.deep.equal(['*']);
+    });
+
+    it('should keep permissions already on the role the caller does not hold', async () => {
+      const role = await asCaller(['role/write'], () =>
+        roleService.setRolePermissions('admin', ['*'])
+      );
+
+      expect(role?.permissions).to.deep.equal(['*']);
+    });
+  });
+
+  describe('updateRole', () => {
+    it('should reject a parent role with permissions the caller does not hold', async () => {
+      await expectForbidden(
+        asCaller(['role/write'], () => roleService.updateRole('editor', { parentId: 'admin' })),
+        'PERMISSION_NOT_GRANTABLE'
+      );
+    });
+  });
+
+  describe('assignRole', () => {
+    it('should reject a role with permissions the caller does not hold', async () => {
+      await expectForbidden(
+        asCaller(['role/assign', 'user/*'], () => roleService.assignRole(user.id, 'admin')),
+        'PERMISSION_NOT_GRANTABLE'
+      );
+
+      expect(roles.assignments).to.be.empty;
+    });
+
+    it('should reject a role inheriting permissions the caller does not hold', async () => {
+      await roles.update('editor', { parentId: 'admin' });
+
+      await expectForbidden(
+        asCaller(['role/assign'], () => roleService.assignRole(user.id, 'editor')),
+        'PERMISSION_NOT_GRANTABLE'
+      );
+    });
+
+    it('should assign a role whose permissions the caller holds', async () => {
+      await asCaller(['*'], () => roleService.assignRole(user.id, 'admin'));
+
+      expect(roles.assignments).to.deep.equal([{ userId: user.id, roleId: 'admin' }]);
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import { Service, ServicesContext } from '@david.uhlir/services';
+import {
+  createsInheritanceCycle,
+  resolveEffectivePermissions,
+  ungrantablePermissions,
+  type RoleGraphNode,
+} from '../auth/permissions';
+import { getCaller, requirePermissions } from '../auth/caller';
+import { RoleDAO } from './role.dao';
+import { UserDAO } from './user.dao';
+import { getLogger } from '../logging';
+import { isUniqueConstraintError } from './user.repository';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationFailedError } from '../errors';
+
+const logger = getLogger('RoleService');
+
+/**
+ * RoleService - role based permission model
+ *
+ * - Resolves effective permissions of users (used by protectedProcedure)
+ * - Manages roles, role permissions and user-to-role assignments
+ *
+ * Management methods check permissions via requirePermissions():
+ * - role/read   - list roles and assignments
+ * - role/write  - create, update, delete roles and set their permissions
+ * - role/assign - assign roles to users and remove them
+ *
+ * A role can only be given permissions the caller holds - directly or through
+ * its parent role - so role/write alone does not allow granting e.g. "*".
+ *
+ * Usage: ServicesContext.lookup(RoleService).getEffectivePermissions(userId)
+ *
+ * Usage in tests (no database):
+ *   const roleService = new RoleService({ roles, users });
+ */
+/**
+ * Collaborators of RoleService, replaceable by test doubles
+ */
+export interface RoleDependencies {
+  roles: Pick<
+    RoleDAO,
+    | 'findAll'
+    | 'findById'
+    | 'create'
+    | 'update'
+    | 'delete'
+    | 'setPermissions'
+    | 'findByUser'
+    | 'findRoleGraph'
+    | 'assignToUser'
+    | 'unassignFromUser'
+  >;
+  users: Pick<UserDAO, 'findById'>;
+}
+
+export class RoleService extends Service {
+  @ServicesContext.inject(RoleDAO)
+  private roleDAO!: RoleDAO;
+
+  @ServicesContext.inject(UserDAO)
+  private userDAO!: UserDAO;
+
+  /**
+   * @param dependenciesOverride - Alternative collaborators (test doubles),
+   *   defaults to RoleDAO and UserDAO
+   */
+  constructor(private readonly dependenciesOverride?: RoleDependencies) {
+    super();
+  }
+
+  private get roles(): RoleDependencies['roles'] {
+    return this.dependenciesOverride?.roles || this.roleDAO;
+  }
+
+  private get users(): RoleDependencies['users'] {
+    return this.dependenciesOverride?.users || this.userDAO;
+  }
+
+  async initialize(): Promise<void> {
+    logger.info('Initializing...');
+  }
+
+  async shutdown(): Promise<void> {
+    logger.info('Shutting down...');
+  }
+
+  /**
+   * Load effective permissions of a user from the database
+   * Direct user permissions + permissions of assigned roles and their ancestors
+   * @param userId - User ID
+   * @returns Permissions, empty if the user does not exist
+   */
+  async getEffectivePermissions(userId: string): Promise<string[]> {
+    const user = await this.users.findById(userId);
+    if (!user) {
+      return [];
+    }
+
+    const [assignedRoles, roleGraph] = await Promise.all([
+      this.roles.findByUser(userId),
+      this.roles.findRoleGraph(),
+    ]);
+
+    return resolveEffectivePermissions(
+      user.permissions,
+      assignedRoles.map((role) => role.id),
+      roleGraph
+    );
+  }
+
+  /**
+   * List all roles
+   */
+  async listRoles() {
+    await requirePermissions(['role/read']);
+    return this.roles.findAll();
+  }
+
+  /**
+   * Create a new role
+   */
+  async createRole(data: { name: string; description?: string; parentId?: string | null }) {
+    await requirePermissions(['role/write']);
+
+    if (data.parentId) {
+      await this.getRoleOrThrow(data.parentId);
+      this.assertGrantable(inheritedPermissions(data.parentId, await this.roles.findRoleGraph()));
+    }
+    try {
+      return await this.roles.create(data);
+    } catch (error) {
+      throw mapUniqueNameError(error, data.name);
+    }
+  }
+
+  /**
+   * Update role, including its parent role
+   */
+  async updateRole(
+    id: string,
+    data: { name?: string; description?: string | null; parentId?: string | null }
+  ) {
+    await requirePermissions(['role/write']);
+    const role = await this.getRoleOrThrow(id);
+
+    if (data.parentId) {
+      await this.getRoleOrThrow(data.parentId);
+      const roleGraph = await this.roles.findRoleGraph();
+      if (createsInheritanceCycle(id, data.parentId, roleGraph)) {
+        throw new ValidationFailedError(
+          'Role cannot inherit from itself or its descendants',
+          { parentId: ['Role cannot inherit from itself or its descendants'] },
+          { code: 'ROLE_INHERITANCE_CYCLE' }
+        );
+      }
+      if (data.parentId !== role.parentId) {
+        this.assertGrantable(inheritedPermissions(data.parentId, roleGraph));
+      }
+    }
+    try {
+      return await this.roles.update(id, data);
+    } catch (error) {
+      throw mapUniqueNameError(error, data.name);
+    }
+  }
+
+  /**
+   * Delete role - users lose its permissions with their next request
+   */
+  async deleteRole(id: string) {
+    await requirePermissions(['role/write']);
+    await this.getRoleOrThrow(id);
+    await this.roles.delete(id);
+  }
+
+  /**
+   * Replace permissions of a role
+   * Permissions added to the role must be held by the caller, kept ones are not checked
+   */
+  async setRolePermissions(id: string, permissions: string[]) {
+    await requirePermissions(['role/write']);
+    const role = await this.getRoleOrThrow(id);
+    const added = permissions.filter((permission) => !role.permissions.includes(permission));
+    this.assertGrantable(added);
+    return this.roles.setPermissions(id, Array.from(new Set(permissions)));
+  }
+
+  /**
+   * Get roles assigned to a user
+   */
+  async getUserRoles(userId: string) {
+    await requirePermissions(['role/read']);
+    return this.roles.findByUser(userId);
+  }
+
+  /**
+   * Assign role to a user
+   * The caller must hold every permission the role grants, including inherited ones
+   */
+  async assignRole(userId: string, roleId: string) {
+    await requirePermissions(['role/assign']);
+    await this.getRoleOrThrow(roleId);
+    this.assertGrantable(inheritedPermissions(roleId, await this.roles.findRoleGraph()));
+
+    if (!(await this.users.findById(userId))) {
+      throw new NotFoundError('User', userId);
+    }
+    await this.roles.assignToUser(userId, roleId);
+  }
+
+  /**
+   * Remove role from a user - takes effect with the user's next request
+   * @returns True if the role was assigned
+   */
+  async unassignRole(userId: string, roleId: string): Promise<boolean> {
+    await requirePermissions(['role/assign']);
+    return this.roles.unassignFromUser(userId, roleId);
+  }
+
+  /**
+   * Fail unless the caller holds every permission being granted
+   * Calls outside of a protected procedure have no caller and can not grant anything
+   */
+  private assertGrantable(permissions: string[]): void {
+    const missing = ungrantablePermissions(getCaller()?.permissions ?? [], permissions);
+    if (missing.length > 0) {
+      throw new ForbiddenError(
+        `Cannot grant permissions you do not have: ${missing.join(', ')}`,
+        { code: 'PERMISSION_NOT_GRANTABLE' }
+      );
+    }
+  }
+
+  private async getRoleOrThrow(id: string) {
+    const role = await this.roles.findById(id);
+    if (!role) {
+      throw new NotFoundError('Role', id);
+    }
+    return role;
+  }
+}
+
+/**
+ * Permissions a role gets from a parent role and its ancestors
+ */
+function inheritedPermissions(parentId: string, roleGraph: RoleGraphNode[]): string[] {
+  return resolveEffectivePermissions([], [parentId], roleGraph);
+}
+
+/**
+ * Map unique constraint violation (Prisma P2002) to ConflictError
+ */
+function mapUniqueNameError(error: unknown, name?: string): unknown {
+  if (isUniqueConstraintError(error)) {
+    return new ConflictError(`Role ${name} already exists`, {
+      code: 'ROLE_NAME_TAKEN',
+      cause: error,
+    });
+  }
+  return error;
+}
@@ -0,0 +1,48 @@
+import { Service } from '@david.uhlir/services';
+import { getConfig } from '../config';
+import { getLogger } from '../logging';
+import {
+  BatchSpanProcessor,
+  OtlpHttpExporter,
+  configureTracing,
+  shutdownTracing,
+} from '../tracing';
+
+const logger = getLogger('TracingService');
+
+/**
+ * Tracing Service
+ * Enables tracing (TRACING_ENABLED) with spans exported in batches over OTLP/HTTP
+ * Registered right after LoggerService, so it shuts down last and flushes
+ * spans of the other services' shutdown.
+ *
+ * Spans are created by the tRPC middlewares, service method wrappers (init.ts)
+ * and the Prisma extension of DatabaseService - see src/server/tracing.
+ */
+export class TracingService extends Service {
+  async initialize(): Promise<void> {
+    const { tracing } = getConfig();
+    if (!tracing.enabled) {
+      logger.info('Tracing disabled');
+      return;
+    }
+
+    configureTracing({
+      enabled: true,
+      sampleRatio: tracing.sampleRatio,
+      processor: new BatchSpanProcessor(
+        new OtlpHttpExporter({
+          endpoint: tracing.otlp.endpoint,
+          headers: tracing.otlp.headers,
+          serviceName: tracing.serviceName,
+        })
+      ),
+    });
+    logger.info('Exporting spans', { endpoint: tracing.otlp.endpoint, sampleRatio: tracing.sampleRatio });
+  }
+
+  async shutdown(): Promise<void> {
+    logger.info('Shutting down...');
+    await shutdownTracing();
+  }
+}
@@ -1,6 +1,37 @@
+import type { Prisma, User } from '@prisma/client';
 import { Service, ServicesContext } from '@david.uhlir/services';
-import { PermissionsGuard } from '@david.uhlir/permissions-guard';
 import { DatabaseService } from './database.service';
+import { OutboxDAO } from './outbox.dao';
+import { CacheService } from './cache.service';
+import { getLogger } from '../logging';
+import { recordAuditChange } from '../audit';
+import { requirePermissions } from '../auth/caller';
+import { afterCommit } from '../database';
+import { Cached } from '../cache';
+import { VersionMismatchError, type UserRepository } from './user.repository';
+import { cursorOrderBy, cursorWhere, toPage, type Page } from '../schemas/pagination';
+import type { UserListQuery } from '../schemas/user';
+
+const logger = getLogger('UserDAO');
+
+/** deletionKey of active users, see User model */
+const ACTIVE = '';
+
+/** Cache tag of user lists, invalidated by every change */
+const USERS_TAG = 'users';
+
+/** Cache tag of one user */
+function userTag(id: string): string {
+  return `user:${id}`;
+}
+
+/** Credentials never enter the cache, they are read by findByIdUncached() and findByEmail() */
+const omitCredentials = { passwordHash: true } satisfies Prisma.UserOmit;
+
+/**
+ * User without credentials, as returned by the cached finders
+ */
+export type UserProfile = Omit<User, 'passwordHash'>;
 
 /**
  * User Data Access Object (DAO)
@@ -8,13 +39,36 @@ import { DatabaseService } from './database.service';
  * Acts as intermediary between routes and database
  *
  * Permission checking:
- * - PermissionsGuard.checkRequiredPermissions() checks against async_local_storage context
+ * - requirePermissions() checks against the caller set in async_local_storage
  * - Permissions are set via protectedProcedure middleware automatically
- * - Throws exception if user doesn't have required permission
+ * - Throws ForbiddenError if user doesn't have required permission (wildcards count)
+ *
+ * Implements UserRepository used by UserService
+ *
+ * Soft delete - delete() only sets deletedAt, finders return active users
+ * only. Deleted users can be restored or purged (permanently removed), the
+ * retention job purges them after DELETED_USER_RETENTION_DAYS.
+ *
+ * Every change increments User.version, update() can require the version
+ * the caller has seen (optimistic concurrency).
+ *
+ * Changes are recorded in the outbox in the same transaction (user.created,
+ * user.updated, user.deleted) - delivered by OutboxService even if the process
+ * crashes right after the commit. Updates and deletes are added to the audit
+ * log of the mutation as a before/after diff (see src/server/audit) once the
+ * outermost transaction commits - methods join a transaction of the caller
+ * (DatabaseService.runInTransaction) and run in a savepoint of it
+ *
+ * findById() and findAll() read from a replica when configured (see
+ * DatabaseService.getReadPrisma) and leave out the password hash, other methods
+ * use the primary. Their results are cached (see src/server/cache), changes
+ * invalidate them in all workers once committed - only results read from the
+ * primary are stored, a replica may not have the change yet. Credential checks
+ * use findByIdUncached() and findByEmail().
  *
  * Usage: ServicesContext.lookup(UserDAO).create(...)
  */
-export class UserDAO extends Service {
+export class UserDAO extends Service implements UserRepository {
   /**
    * DatabaseService injected via decorator
    * Provides access to Prisma client
@@ -22,97 +76,367 @@ export class UserDAO extends Service {
   @ServicesContext.inject(DatabaseService)
   private databaseService!: DatabaseService;
 
+  @ServicesContext.inject(OutboxDAO)
+  private outboxDAO!: OutboxDAO;
+
+  @ServicesContext.inject(CacheService)
+  private cacheService!: CacheService;
+
   /**
    * Create a new user in database
    */
   async create(name: string, email: string) {
-    // Permission check - PermissionsGuard gets permissions from async context
-    await PermissionsGuard.checkRequiredPermissions(['user/create']);
+    // Permission check - permissions of the caller come from async context
+    await requirePermissions(['user/create']);
 
-    const db = this.databaseService.getPrisma();
-    return db.user.create({
-      data: {
-        name,
-        email,
-      },
+    const user = await this.databaseService.runInTransaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          name,
+          email,
+        },
+      });
+      await this.outboxDAO.enqueue('user.created', { user: toSnapshot(created) }, tx);
+      return created;
     });
+    this.invalidateCache();
+    // userId of the caller and requestId come from the log context
+    logger.info('User created', { targetUserId: user.id });
+    return user;
   }
 
   /**
-   * Get user by ID
+   * Get active user by ID, without the password hash
    */
-  async findById(id: string) {
+  @Cached({ tags: (id: string) => [userTag(id)] })
+  async findById(id: string): Promise<UserProfile | null> {
     // Read operations might not need permissions, depends on business logic
+    const db = this.databaseService.getReadPrisma();
+    return db.user.findUnique({
+      where: { id, deletedAt: null },
+      omit: omitCredentials,
+    });
+  }
+
+  /**
+   * Get active user by ID with the password hash, bypassing the cache
+   * For credential checks and token refresh - they must see the current row
+   */
+  async findByIdUncached(id: string) {
     const db = this.databaseService.getPrisma();
     return db.user.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
     });
   }
 
   /**
-   * Get user by email
+   * Get active user by email
    */
   async findByEmail(email: string) {
     const db = this.databaseService.getPrisma();
     return db.user.findUnique({
-      where: { email },
+      where: { email_deletionKey: { email, deletionKey: ACTIVE } },
     });
   }
 
   /**
-   * Get all users
+   * Get one page of users
+   * Supports cursor, sorting, free-text search on name/email and createdAt range
+   * @param options - deleted: list soft-deleted users instead of active ones (requires user/delete)
    */
-  async findAll() {
+  async findAll(
+    query: UserListQuery,
+    options: { deleted?: boolean } = {}
+  ): Promise<Page<UserProfile>> {
     // Permission check for reading all users
-    await PermissionsGuard.checkRequiredPermissions(['user/read']);
+    await requirePermissions(
+      options.deleted ? ['user/read', 'user/delete'] : ['user/read']
+    );
 
-    const db = this.databaseService.getPrisma();
-    return db.user.findMany();
+    return this.findPage(query, options.deleted ?? false);
+  }
+
+  /**
+   * Page of active or deleted users, cached - permissions are checked by findAll()
+   */
+  @Cached<[UserListQuery, boolean]>({ tags: () => [USERS_TAG] })
+  private async findPage(query: UserListQuery, deleted: boolean): Promise<Page<UserProfile>> {
+    const { cursor, limit, sortBy, sortDirection, search, createdAfter, createdBefore } = query;
+    const conditions: Prisma.UserWhereInput[] = [{ deletedAt: deleted ? { not: null } : null }];
+
+    if (search) {
+      conditions.push({
+        OR: [
+          { name: { contains: search, mode: 'insensitive' } },
+          { email: { contains: search, mode: 'insensitive' } },
+        ],
+      });
+    }
+    if (createdAfter || createdBefore) {
+      conditions.push({ createdAt: { gte: createdAfter, lte: createdBefore } });
+    }
+    if (cursor) {
+      conditions.push(cursorWhere(sortBy, sortDirection, cursor));
+    }
+
+    const db = this.databaseService.getReadPrisma();
+    const rows: UserProfile[] = await db.user.findMany({
+      where: { AND: conditions },
+      orderBy: cursorOrderBy(sortBy, sortDirection),
+      take: limit + 1,
+      omit: omitCredentials,
+    });
+    return toPage<UserProfile>(rows, limit, (user: UserProfile) => ({
+      value: user[sortBy],
+      id: user.id,
+    }));
   }
 
   /**
-   * Update user
+   * Update user and increment its version
+   * The version is compared in the UPDATE itself, so of two concurrent updates
+   * expecting the same version only one succeeds
+   * @param expectedVersion - Version the caller has seen, undefined overwrites unconditionally
+   * @returns Updated user or null if not found
+   * @throws VersionMismatchError with the current user if the version does not match
    */
-  async update(id: string, data: { name?: string; email?: string }) {
+  async update(id: string, data: { name?: string; email?: string }, expectedVersion?: number) {
     // Permission check for updates
-    await PermissionsGuard.checkRequiredPermissions(['user/write']);
+    await requirePermissions(['user/write']);
 
-    const db = this.databaseService.getPrisma();
-    return db.user.update({
-      where: { id },
-      data,
+    const updated = await this.databaseService.runInTransaction(async (tx) => {
+      const user = await tx.user.findUnique({ where: { id, deletedAt: null } });
+      if (!user) {
+        return null;
+      }
+      const [changed] = await tx.user.updateManyAndReturn({
+        where: { id, deletedAt: null, version: expectedVersion },
+        data: { ...data, version: { increment: 1 } },
+      });
+      if (!changed) {
+        const current = await tx.user.findUnique({ where: { id, deletedAt: null } });
+        if (!current) {
+          return null;
+        }
+        throw new VersionMismatchError(current);
+      }
+      await this.outboxDAO.enqueue('user.updated', { user: toSnapshot(changed) }, tx);
+      return { before: user, after: changed };
     });
+    if (!updated) {
+      return null;
+    }
+    afterCommit(() =>
+      recordAuditChange('User', id, toAuditState(updated.before), toAuditState(updated.after))
+    );
+    this.invalidateCache(id);
+    logger.info('User updated', { targetUserId: id, fields: Object.keys(data) });
+    return updated.after;
   }
 
   /**
-   * Delete user
+   * Soft delete user
+   * Sessions (refresh tokens) of the user are revoked, the email can be used by a new user
    */
   async delete(id: string) {
     // Permission check - must have user/delete permission
-    // PermissionsGuard gets permissions from async_local_storage, throws if missing
-    await PermissionsGuard.checkRequiredPermissions(['user/delete']);
+    // Permissions come from async_local_storage, throws FORBIDDEN if missing
+    await requirePermissions(['user/delete']);
+
+    const deleted = await this.databaseService.runInTransaction(async (tx) => {
+      const user = await tx.user.findUnique({ where: { id, deletedAt: null } });
+      if (!user) {
+        return null;
+      }
+      const removed = await tx.user.update({
+        where: { id },
+        data: { deletedAt: new Date(), deletionKey: id, version: { increment: 1 } },
+      });
+      await tx.refreshToken.updateMany({
+        where: { userId: id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+      await this.outboxDAO.enqueue('user.deleted', { user: toSnapshot(removed) }, tx);
+      return { before: user, after: removed };
+    });
+    if (!deleted) {
+      return null;
+    }
+    afterCommit(() =>
+      recordAuditChange('User', id, toAuditState(deleted.before), toAuditState(deleted.after))
+    );
+    this.invalidateCache(id);
+    logger.info('User deleted', { targetUserId: id });
+    return deleted.after;
+  }
+
+  /**
+   * Restore soft-deleted user
+   * Fails with unique constraint error (P2002) if the email was taken by another user meanwhile
+   * @returns Restored user or null if not found among deleted users
+   */
+  async restore(id: string) {
+    await requirePermissions(['user/delete']);
+
+    const restored = await this.databaseService.runInTransaction(async (tx) => {
+      const user = await tx.user.findUnique({ where: { id, deletedAt: { not: null } } });
+      if (!user) {
+        return null;
+      }
+      const active = await tx.user.update({
+        where: { id },
+        data: { deletedAt: null, deletionKey: ACTIVE, version: { increment: 1 } },
+      });
+      await this.outboxDAO.enqueue('user.restored', { user: toSnapshot(active) }, tx);
+      return { before: user, after: active };
+    });
+    if (!restored) {
+      return null;
+    }
+    afterCommit(() =>
+      recordAuditChange('User', id, toAuditState(restored.before), toAuditState(restored.after))
+    );
+    this.invalidateCache(id);
+    logger.info('User restored', { targetUserId: id });
+    return restored.after;
+  }
+
+  /**
+   * Permanently remove soft-deleted user (with tokens and role assignments)
+   * Active users have to be deleted first
+   * @returns Purged user or null if not found among deleted users
+   */
+  async purge(id: string) {
+    await requirePermissions(['user/purge']);
 
     const db = this.databaseService.getPrisma();
-    const user = await db.user.findUnique({ where: { id } });
+    const user = await db.user.findUnique({ where: { id, deletedAt: { not: null } } });
     if (!user) {
       return null;
     }
-    return db.user.delete({
+    // deleteMany does not fail when the user was purged concurrently
+    await db.user.deleteMany({ where: { id, deletedAt: { not: null } } });
+    afterCommit(() => recordAuditChange('User', id, toAuditState(user), null));
+    this.invalidateCache(id);
+    logger.info('User purged', { targetUserId: id });
+    return user;
+  }
+
+  /**
+   * Permanently remove users deleted before given time (retention job)
+   * Runs without request permissions
+   * @param limit - Maximum number of users removed by one call
+   * @returns Number of removed users
+   */
+  async purgeDeletedBefore(before: Date, limit: number): Promise<number> {
+    const db = this.databaseService.getPrisma();
+    const users = await db.user.findMany({
+      where: { deletedAt: { lt: before } },
+      select: { id: true },
+      take: limit,
+    });
+    if (!users.length) {
+      return 0;
+    }
+    const ids = users.map((user: { id: string }) => user.id);
+    const result = await db.user.deleteMany({
+      where: { id: { in: ids }, deletedAt: { lt: before } },
+    });
+    this.invalidateCache();
+    return result.count;
+  }
+
+  /**
+   * Store new password hash
+   * Hash is computed by the caller (see auth/password.ts)
+   */
+  async setPasswordHash(id: string, passwordHash: string) {
+    const db = this.databaseService.getPrisma();
+    const user = await db.user.update({
       where: { id },
+      data: { passwordHash, passwordChangedAt: new Date() },
+    });
+    this.invalidateCache(id);
+    return user;
+  }
+
+  /**
+   * Store a new password reset token (hashed)
+   */
+  async createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date) {
+    const db = this.databaseService.getPrisma();
+    return db.passwordResetToken.create({
+      data: { userId, tokenHash, expiresAt },
+    });
+  }
+
+  /**
+   * Get password reset token by its hash
+   */
+  async findPasswordResetToken(tokenHash: string) {
+    const db = this.databaseService.getPrisma();
+    return db.passwordResetToken.findUnique({
+      where: { tokenHash },
+    });
+  }
+
+  /**
+   * Mark password reset token as used, but only if it was not used yet
+   * @returns True if this call consumed the token
+   */
+  async consumePasswordResetToken(id: string): Promise<boolean> {
+    const db = this.databaseService.getPrisma();
+    const result = await db.passwordResetToken.updateMany({
+      where: { id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Invalidate all unused password reset tokens of a user
+   */
+  async invalidatePasswordResetTokens(userId: string) {
+    const db = this.databaseService.getPrisma();
+    return db.passwordResetToken.updateMany({
+      where: { userId, usedAt: null },
+      data: { usedAt: new Date() },
     });
   }
 
+  /**
+   * Drop cached user lists (and the user) once the change commits
+   */
+  private invalidateCache(id?: string): void {
+    const tags = id ? [USERS_TAG, userTag(id)] : [USERS_TAG];
+    afterCommit(() => void this.cacheService.invalidate(tags));
+  }
+
   /**
    * Initialize DAO
    */
   async initialize(): Promise<void> {
-    console.log('[UserDAO] Initialized');
+    logger.info('Initialized');
   }
 
   /**
    * Shutdown DAO
    */
   async shutdown(): Promise<void> {
-    console.log('[UserDAO] Shutdown');
+    logger.info('Shutdown');
   }
 }
+
+/**
+ * Public fields of a user carried by outbox messages
+ */
+function toSnapshot(user: { id: string; name: string; email: string }) {
+  return { id: user.id, name: user.name, email: user.email };
+}
+
+/**
+ * Fields of a user compared in audit diffs
+ */
+function toAuditState(user: { id: string; name: string; email: string; deletedAt: Date | null }) {
+  return { ...toSnapshot(user), deletedAt: user.deletedAt };
+}
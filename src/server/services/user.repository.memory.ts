@@ -0,0 +1,168 @@
+import { randomBytes } from 'crypto';
+import { VersionMismatchError, type UserRecord, type UserRepository } from './user.repository';
+import { decodeCursor, toPage, type Page } from '../schemas/pagination';
+import type { UserListQuery } from '../schemas/user';
+
+/**
+ * In-memory UserRepository - TEST DOUBLE ONLY
+ * Data is not persisted and not shared between cluster workers,
+ * never use it in the running application.
+ *
+ * Usage in tests:
+ *   const userService = new UserService(new InMemoryUserRepository());
+ */
+export class InMemoryUserRepository implements UserRepository {
+  private users: Map<string, UserRecord> = new Map();
+
+  async create(name: string, email: string): Promise<UserRecord> {
+    this.assertEmailAvailable(email);
+
+    const now = new Date();
+    const user: UserRecord = {
+      id: createId(),
+      name,
+      email,
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+      deletedAt: null,
+    };
+    this.users.set(user.id, user);
+    return { ...user };
+  }
+
+  async findById(id: string): Promise<UserRecord | null> {
+    const user = this.findActive(id);
+    return user ? { ...user } : null;
+  }
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    for (const user of this.users.values()) {
+      if (user.email === email && !user.deletedAt) return { ...user };
+    }
+    return null;
+  }
+
+  async findAll(
+    query: UserListQuery,
+    options: { deleted?: boolean } = {}
+  ): Promise<Page<UserRecord>> {
+    const { cursor, limit, sortBy, sortDirection, createdAfter, createdBefore } = query;
+    const search = query.search?.toLowerCase();
+    const sign = sortDirection === 'asc' ? 1 : -1;
+    const compare = (a: { value: unknown; id: string }, b: { value: unknown; id: string }) =>
+      sign * (compareValues(a.value, b.value) || compareValues(a.id, b.id));
+    const position = cursor ? decodeCursor(cursor) : null;
+
+    const rows = Array.from(this.users.values())
+      .filter((user) => Boolean(user.deletedAt) === Boolean(options.deleted))
+      .filter(
+        (user) =>
+          !search ||
+          user.name.toLowerCase().includes(search) ||
+          user.email.toLowerCase().includes(search)
+      )
+      .filter((user) => !createdAfter || user.createdAt >= createdAfter)
+      .filter((user) => !createdBefore || user.createdAt <= createdBefore)
+      .filter((user) => !position || compare({ value: user[sortBy], id: user.id }, position) > 0)
+      .sort((a, b) => compare({ value: a[sortBy], id: a.id }, { value: b[sortBy], id: b.id }))
+      .slice(0, limit + 1)
+      .map((user) => ({ ...user }));
+
+    return toPage(rows, limit, (user) => ({ value: user[sortBy], id: user.id }));
+  }
+
+  async update(
+    id: string,
+    data: { name?: string; email?: string },
+    expectedVersion?: number
+  ): Promise<UserRecord | null> {
+    const user = this.findActive(id);
+    if (!user) return null;
+
+    if (expectedVersion !== undefined && user.version !== expectedVersion) {
+      throw new VersionMismatchError({ ...user });
+    }
+
+    if (data.email && data.email !== user.email) {
+      this.assertEmailAvailable(data.email);
+    }
+
+    const updated: UserRecord = {
+      ...user,
+      ...data,
+      version: user.version + 1,
+      updatedAt: new Date(),
+    };
+    this.users.set(id, updated);
+    return { ...updated };
+  }
+
+  async delete(id: string): Promise<UserRecord | null> {
+    const user = this.findActive(id);
+    if (!user) return null;
+
+    const deleted: UserRecord = { ...user, deletedAt: new Date(), version: user.version + 1 };
+    this.users.set(id, deleted);
+    return { ...deleted };
+  }
+
+  async restore(id: string): Promise<UserRecord | null> {
+    const user = this.users.get(id);
+    if (!user?.deletedAt) return null;
+
+    this.assertEmailAvailable(user.email);
+    const restored: UserRecord = {
+      ...user,
+      deletedAt: null,
+      version: user.version + 1,
+      updatedAt: new Date(),
+    };
+    this.users.set(id, restored);
+    return { ...restored };
+  }
+
+  async purge(id: string): Promise<UserRecord | null> {
+    const user = this.users.get(id);
+    if (!user?.deletedAt) return null;
+
+    this.users.delete(id);
+    return user;
+  }
+
+  private findActive(id: string): UserRecord | undefined {
+    const user = this.users.get(id);
+    return user && !user.deletedAt ? user : undefined;
+  }
+
+  /**
+   * Mimic Prisma unique constraint violation (P2002)
+   * Email is unique among active users only
+   */
+  private assertEmailAvailable(email: string): void {
+    for (const user of this.users.values()) {
+      if (user.email === email && !user.deletedAt) {
+        throw Object.assign(new Error('Unique constraint failed on the fields: (`email`)'), {
+          code: 'P2002',
+          meta: { target: ['email'] },
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Generate collision-resistant ID in cuid format (same as Prisma @default(cuid()))
+ */
+function createId(): string {
+  return `c${Date.now().toString(36)}${randomBytes(8).toString('hex')}`;
+}
+
+/**
+ * Compare strings, numbers and dates
+ */
+function compareValues(a: unknown, b: unknown): number {
+  const left = a instanceof Date ? a.getTime() : (a as string | number);
+  const right = b instanceof Date ? b.getTime() : (b as string | number);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
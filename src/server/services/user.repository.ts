@@ -0,0 +1,89 @@
+import type { Page } from '../schemas/pagination';
+import type { UserListQuery } from '../schemas/user';
+
+/**
+ * User as exposed by UserService (no credentials or internal fields)
+ */
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  /** Incremented by every change (optimistic concurrency) */
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Soft-deleted user (see UserService.listDeletedUsers)
+ */
+export interface DeletedUser extends User {
+  deletedAt: Date;
+}
+
+/**
+ * User record as stored by a repository
+ * Repositories may return additional columns, UserService strips them
+ */
+export type UserRecord = User & Record<string, unknown>;
+
+/**
+ * Storage contract used by UserService
+ *
+ * Implementations:
+ * - UserDAO - Prisma/PostgreSQL (production)
+ * - InMemoryUserRepository - test double (see user.repository.memory.ts)
+ *
+ * Deleted users are kept (soft delete) until purged. Finders return active
+ * users only and the email of a deleted user may be used by a new one.
+ *
+ * Unique email violations must be reported as errors with code 'P2002'
+ * (same as Prisma), stale versions as VersionMismatchError - UserService
+ * maps both to CONFLICT.
+ */
+export interface UserRepository {
+  create(name: string, email: string): Promise<UserRecord>;
+  findById(id: string): Promise<UserRecord | null>;
+  findByEmail(email: string): Promise<UserRecord | null>;
+  /** Cursor paginated, filtered and sorted list, `deleted` lists soft-deleted users instead */
+  findAll(query: UserListQuery, options?: { deleted?: boolean }): Promise<Page<UserRecord>>;
+  /**
+   * Update user and increment its version
+   * @param expectedVersion - Fail with VersionMismatchError unless the stored version matches,
+   *   undefined overwrites unconditionally
+   * @returns Updated user or null if not found
+   */
+  update(
+    id: string,
+    data: { name?: string; email?: string },
+    expectedVersion?: number
+  ): Promise<UserRecord | null>;
+  /** Soft delete @returns Deleted user or null if not found */
+  delete(id: string): Promise<UserRecord | null>;
+  /** Undo soft delete @returns Restored user or null if not found among deleted users */
+  restore(id: string): Promise<UserRecord | null>;
+  /** Remove deleted user permanently @returns Purged user or null if not a deleted user */
+  purge(id: string): Promise<UserRecord | null>;
+}
+
+/**
+ * Stored version of a user differs from the version the caller expected -
+ * someone else changed the user meanwhile
+ */
+export class VersionMismatchError extends Error {
+  constructor(readonly current: UserRecord) {
+    super(`User ${current.id} was changed meanwhile, current version is ${current.version}`);
+    this.name = 'VersionMismatchError';
+  }
+}
+
+/**
+ * Check whether error is a unique constraint violation (Prisma P2002)
+ */
+export function isUniqueConstraintError(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as { code?: unknown }).code === 'P2002'
+  );
+}
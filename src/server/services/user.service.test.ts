@@ -1,21 +1,28 @@
 import 'reflect-metadata';
 import { expect } from 'chai';
-import { UserService } from './user.service';
+import { UserService, type UserChangeEvent } from './user.service';
+import { InMemoryUserRepository } from './user.repository.memory';
+import { EventBus, type DomainEvent } from '../events';
+import { userListInput } from '../schemas/user';
+import { ConflictError, ValidationFailedError } from '../errors';
 
 /**
  * Unit tests for UserService
  * Tests service methods using Mocha and Chai
+ * Uses the in-memory repository instead of the database
  */
 describe('UserService', () => {
   let userService: UserService;
+  let events: EventBus;
 
   beforeEach(() => {
-    userService = new UserService();
+    events = new EventBus();
+    userService = new UserService(new InMemoryUserRepository(), events);
   });
 
   describe('createUser', () => {
-    it('should create a new user', () => {
-      const user = userService.createUser('John Doe', 'john@example.com');
+    it('should create a new user', async () => {
+      const user = await userService.createUser('John Doe', 'john@example.com');
 
       expect(user).to.have.property('id');
       expect(user.name).to.equal('John Doe');
@@ -23,47 +30,101 @@ describe('UserService', () => {
       expect(user.createdAt).to.be.instanceof(Date);
     });
 
-    it('should increment user IDs', () => {
-      const user1 = userService.createUser('User 1', 'user1@example.com');
-      const user2 = userService.createUser('User 2', 'user2@example.com');
+    it('should generate unique cuid IDs', async () => {
+      const user1 = await userService.createUser('User 1', 'user1@example.com');
+      const user2 = await userService.createUser('User 2', 'user2@example.com');
 
-      expect(Number(user2.id)).to.be.greaterThan(Number(user1.id));
+      expect(user1.id).to.match(/^c[a-z0-9]+$/);
+      expect(user2.id).to.not.equal(user1.id);
+    });
+
+    it('should fail with CONFLICT if email is taken', async () => {
+      await userService.createUser('User 1', 'same@example.com');
+
+      try {
+        await userService.createUser('User 2', 'same@example.com');
+        expect.fail('Should throw CONFLICT');
+      } catch (error) {
+        expect(error).to.be.instanceof(ConflictError);
+        expect((error as ConflictError).code).to.equal('EMAIL_TAKEN');
+      }
     });
   });
 
-  describe('getAllUsers', () => {
-    it('should return empty array initially', () => {
-      const users = userService.getAllUsers();
-      expect(users).to.be.an('array').that.is.empty;
+  describe('listUsers', () => {
+    it('should return empty page initially', async () => {
+      const page = await userService.listUsers(userListInput.parse({}));
+
+      expect(page.items).to.be.an('array').that.is.empty;
+      expect(page.nextCursor).to.be.null;
     });
 
-    it('should return all created users', () => {
-      userService.createUser('User 1', 'user1@example.com');
-      userService.createUser('User 2', 'user2@example.com');
+    it('should return all created users', async () => {
+      await userService.createUser('User 1', 'user1@example.com');
+      await userService.createUser('User 2', 'user2@example.com');
 
-      const users = userService.getAllUsers();
-      expect(users).to.have.lengthOf(2);
+      const page = await userService.listUsers(userListInput.parse({}));
+      expect(page.items).to.have.lengthOf(2);
+    });
+
+    it('should page through users with cursor', async () => {
+      for (const name of ['Dave', 'Alice', 'Carol', 'Bob', 'Eve']) {
+        await userService.createUser(name, `${name.toLowerCase()}@example.com`);
+      }
+
+      const names: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const page = await userService.listUsers(
+          userListInput.parse({ limit: 2, sortBy: 'name', sortDirection: 'asc', cursor })
+        );
+        names.push(...page.items.map((user) => user.name));
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      expect(names).to.deep.equal(['Alice', 'Bob', 'Carol', 'Dave', 'Eve']);
+    });
+
+    it('should filter by free-text search on name and email', async () => {
+      await userService.createUser('John Doe', 'john@example.com');
+      await userService.createUser('Jane Roe', 'jane@company.org');
+
+      const byName = await userService.listUsers(userListInput.parse({ search: 'doe' }));
+      const byEmail = await userService.listUsers(userListInput.parse({ search: 'COMPANY' }));
+
+      expect(byName.items.map((user) => user.name)).to.deep.equal(['John Doe']);
+      expect(byEmail.items.map((user) => user.name)).to.deep.equal(['Jane Roe']);
+    });
+
+    it('should reject malformed cursor', async () => {
+      try {
+        await userService.listUsers(userListInput.parse({ cursor: 'not-a-cursor' }));
+        expect.fail('Should throw VALIDATION_FAILED');
+      } catch (error) {
+        expect(error).to.be.instanceof(ValidationFailedError);
+        expect((error as ValidationFailedError).fieldErrors).to.have.property('cursor');
+      }
     });
   });
 
   describe('getUserById', () => {
-    it('should return user if found', () => {
-      const created = userService.createUser('Test User', 'test@example.com');
-      const found = userService.getUserById(created.id);
+    it('should return user if found', async () => {
+      const created = await userService.createUser('Test User', 'test@example.com');
+      const found = await userService.getUserById(created.id);
 
       expect(found).to.deep.equal(created);
     });
 
-    it('should return null if user not found', () => {
-      const found = userService.getUserById('nonexistent');
+    it('should return null if user not found', async () => {
+      const found = await userService.getUserById('nonexistent');
       expect(found).to.be.null;
     });
   });
 
   describe('updateUser', () => {
-    it('should update user fields', () => {
-      const user = userService.createUser('John Doe', 'john@example.com');
-      const updated = userService.updateUser(user.id, {
+    it('should update user fields', async () => {
+      const user = await userService.createUser('John Doe', 'john@example.com');
+      const updated = await userService.updateUser(user.id, {
         name: 'Jane Doe',
       });
 
@@ -71,41 +132,202 @@ describe('UserService', () => {
       expect(updated?.email).to.equal('john@example.com');
     });
 
-    it('should return null if user not found', () => {
-      const result = userService.updateUser('nonexistent', { name: 'New Name' });
+    it('should return null if user not found', async () => {
+      const result = await userService.updateUser('nonexistent', { name: 'New Name' });
       expect(result).to.be.null;
     });
+
+    it('should increment version with every change', async () => {
+      const user = await userService.createUser('John Doe', 'john@example.com');
+      const updated = await userService.updateUser(user.id, { name: 'John' }, user.version);
+
+      expect(user.version).to.equal(1);
+      expect(updated?.version).to.equal(2);
+    });
+
+    it('should fail with VERSION_CONFLICT and current user on stale version', async () => {
+      const user = await userService.createUser('John Doe', 'john@example.com');
+      const current = await userService.updateUser(user.id, { name: 'Changed by admin 1' }, 1);
+
+      try {
+        await userService.updateUser(user.id, { name: 'Changed by admin 2' }, 1);
+        expect.fail('Should throw CONFLICT');
+      } catch (error) {
+        expect(error).to.be.instanceof(ConflictError);
+        expect((error as ConflictError).code).to.equal('VERSION_CONFLICT');
+        expect((error as ConflictError).current).to.deep.equal(current);
+      }
+      expect((await userService.getUserById(user.id))?.name).to.equal('Changed by admin 1');
+    });
+
+    it('should overwrite unconditionally without expected version', async () => {
+      const user = await userService.createUser('John Doe', 'john@example.com');
+      await userService.updateUser(user.id, { name: 'First' });
+
+      expect((await userService.updateUser(user.id, { name: 'Second' }))?.version).to.equal(3);
+    });
+
+    it('should fail with CONFLICT if email is taken by another user', async () => {
+      await userService.createUser('User 1', 'user1@example.com');
+      const user2 = await userService.createUser('User 2', 'user2@example.com');
+
+      try {
+        await userService.updateUser(user2.id, { email: 'user1@example.com' });
+        expect.fail('Should throw CONFLICT');
+      } catch (error) {
+        expect(error).to.be.instanceof(ConflictError);
+      }
+    });
   });
 
   describe('deleteUser', () => {
-    it('should delete existing user', () => {
-      const user = userService.createUser('To Delete', 'delete@example.com');
-      const deleted = userService.deleteUser(user.id);
+    it('should delete existing user', async () => {
+      const user = await userService.createUser('To Delete', 'delete@example.com');
+      const deleted = await userService.deleteUser(user.id);
 
       expect(deleted).to.be.true;
-      expect(userService.getUserById(user.id)).to.be.null;
+      expect(await userService.getUserById(user.id)).to.be.null;
     });
 
-    it('should return false if user not found', () => {
-      const deleted = userService.deleteUser('nonexistent');
+    it('should return false if user not found', async () => {
+      const deleted = await userService.deleteUser('nonexistent');
       expect(deleted).to.be.false;
     });
+
+    it('should hide deleted user from finders and list it as deleted', async () => {
+      const user = await userService.createUser('To Delete', 'delete@example.com');
+      await userService.createUser('Kept', 'kept@example.com');
+      await userService.deleteUser(user.id);
+
+      expect(await userService.findByEmail('delete@example.com')).to.be.null;
+      expect(await userService.updateUser(user.id, { name: 'Changed' })).to.be.null;
+      expect(await userService.deleteUser(user.id)).to.be.false;
+
+      const active = await userService.listUsers(userListInput.parse({}));
+      expect(active.items.map((item) => item.name)).to.deep.equal(['Kept']);
+      const deleted = await userService.listDeletedUsers(userListInput.parse({}));
+      expect(deleted.items.map((item) => item.id)).to.deep.equal([user.id]);
+      expect(deleted.items[0].deletedAt).to.be.instanceof(Date);
+    });
+
+    it('should let a new user take the email of a deleted user', async () => {
+      const user = await userService.createUser('Old', 'reused@example.com');
+      await userService.deleteUser(user.id);
+
+      const reused = await userService.createUser('New', 'reused@example.com');
+      expect(await userService.findByEmail('reused@example.com')).to.deep.equal(reused);
+    });
+  });
+
+  describe('restoreUser', () => {
+    it('should restore deleted user', async () => {
+      const user = await userService.createUser('John Doe', 'john@example.com');
+      await userService.deleteUser(user.id);
+
+      const restored = await userService.restoreUser(user.id);
+
+      expect(restored).to.include({ id: user.id, email: 'john@example.com' });
+      expect(await userService.getUserById(user.id)).to.deep.equal(restored);
+    });
+
+    it('should return null for active and unknown users', async () => {
+      const user = await userService.createUser('John Doe', 'john@example.com');
+
+      expect(await userService.restoreUser(user.id)).to.be.null;
+      expect(await userService.restoreUser('nonexistent')).to.be.null;
+    });
+
+    it('should fail with CONFLICT if the email was taken meanwhile', async () => {
+      const user = await userService.createUser('Old', 'reused@example.com');
+      await userService.deleteUser(user.id);
+      await userService.createUser('New', 'reused@example.com');
+
+      try {
+        await userService.restoreUser(user.id);
+        expect.fail('Should throw CONFLICT');
+      } catch (error) {
+        expect(error).to.be.instanceof(ConflictError);
+        expect((error as ConflictError).code).to.equal('EMAIL_TAKEN');
+      }
+    });
+  });
+
+  describe('purgeUser', () => {
+    it('should purge deleted users only', async () => {
+      const user = await userService.createUser('John Doe', 'john@example.com');
+
+      expect(await userService.purgeUser(user.id)).to.be.false;
+      await userService.deleteUser(user.id);
+      expect(await userService.purgeUser(user.id)).to.be.true;
+      expect(await userService.restoreUser(user.id)).to.be.null;
+    });
   });
 
   describe('findByEmail', () => {
-    it('should find user by email', () => {
-      const user = userService.createUser('Test User', 'test@example.com');
-      const found = userService.findByEmail('test@example.com');
+    it('should find user by email', async () => {
+      const user = await userService.createUser('Test User', 'test@example.com');
+      const found = await userService.findByEmail('test@example.com');
 
       expect(found).to.deep.equal(user);
     });
 
-    it('should return null if email not found', () => {
-      const found = userService.findByEmail('nonexistent@example.com');
+    it('should return null if email not found', async () => {
+      const found = await userService.findByEmail('nonexistent@example.com');
       expect(found).to.be.null;
     });
   });
 
+  describe('domain events', () => {
+    it('should publish user.created, user.updated, user.deleted and user.restored', async () => {
+      const published: DomainEvent[] = [];
+      events.subscribe(
+        ['user.created', 'user.updated', 'user.deleted', 'user.restored'],
+        (event) => published.push(event),
+        { delivery: 'sync' }
+      );
+
+      const user = await userService.createUser('John Doe', 'john@example.com');
+      await userService.updateUser(user.id, { name: 'John' });
+      await userService.updateUser('nonexistent', { name: 'Nobody' });
+      await userService.deleteUser(user.id);
+      await userService.deleteUser(user.id);
+      await userService.restoreUser(user.id);
+
+      expect(published.map((event) => event.name)).to.deep.equal([
+        'user.created',
+        'user.updated',
+        'user.deleted',
+        'user.restored',
+      ]);
+      expect(published[1].payload.user).to.deep.equal({ id: user.id, name: 'John', email: 'john@example.com' });
+    });
+  });
+
+  describe('watchChanges', () => {
+    it('should stream created, updated and deleted users', async () => {
+      events.subscribeHandlers(userService);
+      const controller = new AbortController();
+      const changes = userService.watchChanges(controller.signal);
+      const received: UserChangeEvent[] = [];
+      const consumed = (async () => {
+        for await (const change of changes) {
+          received.push(change);
+          if (received.length === 3) controller.abort();
+        }
+      })();
+
+      const user = await userService.createUser('John Doe', 'john@example.com');
+      await userService.updateUser(user.id, { name: 'John' });
+      await userService.updateUser('nonexistent', { name: 'Nobody' });
+      await userService.deleteUser(user.id);
+      await consumed;
+
+      expect(received.map((change) => change.type)).to.deep.equal(['created', 'updated', 'deleted']);
+      expect(received[1].user).to.deep.equal({ id: user.id, name: 'John', email: 'john@example.com' });
+      expect(received[2].occurredAt).to.be.a('string');
+    });
+  });
+
   describe('initialize and shutdown', () => {
     it('should initialize without errors', async () => {
       try {
@@ -1,51 +1,146 @@
-import { Service } from '@david.uhlir/services';
+import { Service, ServicesContext } from '@david.uhlir/services';
+import {
+  createPasswordSchema,
+  hashPassword,
+  verifyPassword,
+} from '../auth/password';
+import { generateOpaqueToken, hashOpaqueToken } from '../auth/tokens';
+import { UserDAO } from './user.dao';
+import { RefreshTokenDAO } from './refresh-token.dao';
+import { EventBusService } from './event-bus.service';
+import {
+  isUniqueConstraintError,
+  VersionMismatchError,
+  type DeletedUser,
+  type User,
+  type UserRecord,
+  type UserRepository,
+} from './user.repository';
+import type { Page } from '../schemas/pagination';
+import type { UserListQuery } from '../schemas/user';
+import { ConflictError, ValidationFailedError } from '../errors';
+import { getConfig } from '../config';
+import { getLogger } from '../logging';
+import { getPubSub, iterateChannel } from '../pubsub';
+import { OnEvent, type DomainEvent, type EventPublisher } from '../events';
+
+const logger = getLogger('UserService');
+
+export type { DeletedUser, User } from './user.repository';
+
+/** Pub/sub channel of user changes */
+export const USER_CHANGES_CHANNEL = 'users.changes';
 
 /**
- * UserService - Example service demonstrating service pattern
+ * Change of a user streamed to subscriptions (users.onChange)
+ * Dates are ISO strings so the event is the same in every worker
+ */
+export interface UserChangeEvent {
+  type: 'created' | 'updated' | 'deleted' | 'restored';
+  user: { id: string; name: string; email: string };
+  occurredAt: string;
+}
+
+type UserEventName = 'user.created' | 'user.updated' | 'user.deleted' | 'user.restored';
+
+const CHANGE_TYPES: Record<UserEventName, UserChangeEvent['type']> = {
+  'user.created': 'created',
+  'user.updated': 'updated',
+  'user.deleted': 'deleted',
+  'user.restored': 'restored',
+};
+
+/**
+ * UserService - domain layer for users
  * Services contain business logic and can be used across the application
- * This service is cluster-safe - each worker process gets its own instance
+ * Data is stored via UserRepository (UserDAO / PostgreSQL by default),
+ * so it survives restarts and is shared by all cluster workers
+ * Changes are published as domain events (user.created, user.updated, user.deleted,
+ * user.restored)
+ * Deleted users are kept (soft delete) until purged by an administrator or
+ * by the retention job (see RetentionService)
  *
  * Extends Service class from @david.uhlir/services for dependency injection
+ *
+ * Usage in tests (no database):
+ *   const userService = new UserService(new InMemoryUserRepository(), new EventBus());
  */
-export interface User {
-  id: string;
-  name: string;
-  email: string;
-  createdAt: Date;
-}
-
 export class UserService extends Service {
-  // In-memory storage for demo purposes (replace with database in production)
-  private users: Map<string, User> = new Map();
-  private idCounter: number = 1;
+  // Also used directly for password credentials
+  @ServicesContext.inject(UserDAO)
+  private userDAO!: UserDAO;
+
+  @ServicesContext.inject(RefreshTokenDAO)
+  private refreshTokenDAO!: RefreshTokenDAO;
+
+  @ServicesContext.inject(EventBusService)
+  private eventBus!: EventBusService;
+
+  // Password policy configured via PASSWORD_* environment variables
+  private passwordSchema = createPasswordSchema(getConfig().auth.passwordPolicy);
+
+  /**
+   * @param repositoryOverride - Alternative storage (test doubles), defaults to UserDAO
+   * @param eventsOverride - Alternative event bus (test doubles), defaults to EventBusService
+   */
+  constructor(
+    private readonly repositoryOverride?: UserRepository,
+    private readonly eventsOverride?: EventPublisher
+  ) {
+    super();
+  }
+
+  /**
+   * Storage used for user records
+   */
+  private get repository(): UserRepository {
+    return this.repositoryOverride || this.userDAO;
+  }
+
+  /**
+   * Bus the domain events are published to
+   */
+  private get events(): EventPublisher {
+    return this.eventsOverride || this.eventBus;
+  }
 
   /**
-   * Initialize the service (e.g., connect to database)
+   * Initialize the service
    * Called once during application startup
    */
   async initialize(): Promise<void> {
-    console.log('[UserService] Initializing...');
-    // Add initialization logic here
-    // Example: await this.connectToDatabase();
+    logger.info('Initializing...');
   }
 
   /**
-   * Shutdown the service (e.g., close database connections)
+   * Shutdown the service
    * Called on application termination
    */
   async shutdown(): Promise<void> {
-    console.log('[UserService] Shutting down...');
-    this.users.clear();
-    // Add cleanup logic here
-    // Example: await this.closeDatabase();
+    logger.info('Shutting down...');
   }
 
   /**
-   * Get all users
-   * @returns Array of all users
+   * List users page by page
+   * @param query - Cursor, limit, sorting and filters (see schemas/user.ts)
+   * @returns Page of users and cursor of the next page
    */
-  getAllUsers(): User[] {
-    return Array.from(this.users.values());
+  async listUsers(query: UserListQuery): Promise<Page<User>> {
+    const page = await this.repository.findAll(query);
+    return { items: page.items.map(toUser), nextCursor: page.nextCursor };
+  }
+
+  /**
+   * List soft-deleted users page by page (restore candidates)
+   * @param query - Cursor, limit, sorting and filters (see schemas/user.ts)
+   */
+  async listDeletedUsers(query: UserListQuery): Promise<Page<DeletedUser>> {
+    const page = await this.repository.findAll(query, { deleted: true });
+    const items = page.items.map((record) => ({
+      ...toUser(record),
+      deletedAt: record.deletedAt as Date,
+    }));
+    return { items, nextCursor: page.nextCursor };
   }
 
   /**
@@ -53,8 +148,9 @@ export class UserService extends Service {
    * @param id - User ID
    * @returns User or null if not found
    */
-  getUserById(id: string): User | null {
-    return this.users.get(id) || null;
+  async getUserById(id: string): Promise<User | null> {
+    const user = await this.repository.findById(id);
+    return user ? toUser(user) : null;
   }
 
   /**
@@ -62,16 +158,16 @@ export class UserService extends Service {
    * @param name - User name
    * @param email - User email
    * @returns Created user
+   * @throws ConflictError EMAIL_TAKEN if email is already taken
    */
-  createUser(name: string, email: string): User {
-    const id = String(this.idCounter++);
-    const user: User = {
-      id,
-      name,
-      email,
-      createdAt: new Date(),
-    };
-    this.users.set(id, user);
+  async createUser(name: string, email: string): Promise<User> {
+    let user: User;
+    try {
+      user = toUser(await this.repository.create(name, email));
+    } catch (error) {
+      throw mapUniqueEmailError(error, email);
+    }
+    await this.events.publish('user.created', { user: toSnapshot(user) });
     return user;
   }
 
@@ -79,24 +175,99 @@ export class UserService extends Service {
    * Update user
    * @param id - User ID
    * @param updates - Fields to update
+   * @param expectedVersion - Version the caller has seen, undefined overwrites unconditionally
    * @returns Updated user or null if not found
+   * @throws ConflictError EMAIL_TAKEN if email is already taken
+   * @throws ConflictError VERSION_CONFLICT with the current user if it was changed meanwhile
    */
-  updateUser(id: string, updates: Partial<User>): User | null {
-    const user = this.users.get(id);
-    if (!user) return null;
-
-    const updated: User = { ...user, ...updates, id, createdAt: user.createdAt };
-    this.users.set(id, updated);
-    return updated;
+  async updateUser(
+    id: string,
+    updates: { name?: string; email?: string },
+    expectedVersion?: number
+  ): Promise<User | null> {
+    let record: UserRecord | null;
+    try {
+      record = await this.repository.update(id, updates, expectedVersion);
+    } catch (error) {
+      if (error instanceof VersionMismatchError) {
+        throw new ConflictError(`User ${id} was changed by someone else`, {
+          code: 'VERSION_CONFLICT',
+          current: toUser(error.current),
+          cause: error,
+        });
+      }
+      throw mapUniqueEmailError(error, updates.email);
+    }
+    if (!record) {
+      return null;
+    }
+    const user = toUser(record);
+    await this.events.publish('user.updated', { user: toSnapshot(user) });
+    return user;
   }
 
   /**
-   * Delete user
+   * Delete user (soft delete, see restoreUser and purgeUser)
    * @param id - User ID
    * @returns True if deleted, false if not found
    */
-  deleteUser(id: string): boolean {
-    return this.users.delete(id);
+  async deleteUser(id: string): Promise<boolean> {
+    const deleted = await this.repository.delete(id);
+    if (!deleted) {
+      return false;
+    }
+    await this.events.publish('user.deleted', { user: toSnapshot(deleted) });
+    return true;
+  }
+
+  /**
+   * Restore deleted user
+   * @param id - User ID
+   * @returns Restored user or null if not found among deleted users
+   * @throws ConflictError EMAIL_TAKEN if the email was taken by another user meanwhile
+   */
+  async restoreUser(id: string): Promise<User | null> {
+    let record: UserRecord | null;
+    try {
+      record = await this.repository.restore(id);
+    } catch (error) {
+      throw mapUniqueEmailError(error);
+    }
+    if (!record) {
+      return null;
+    }
+    const user = toUser(record);
+    await this.events.publish('user.restored', { user: toSnapshot(user) });
+    return user;
+  }
+
+  /**
+   * Permanently remove deleted user, active users have to be deleted first
+   * @param id - User ID
+   * @returns True if purged, false if not found among deleted users
+   */
+  async purgeUser(id: string): Promise<boolean> {
+    return (await this.repository.purge(id)) !== null;
+  }
+
+  /**
+   * Forward user changes to subscriptions (users.onChange) of all workers
+   */
+  @OnEvent(['user.created', 'user.updated', 'user.deleted', 'user.restored'], { delivery: 'sync' })
+  protected streamChange(event: DomainEvent<UserEventName>): void {
+    getPubSub().publish<UserChangeEvent>(USER_CHANGES_CHANNEL, {
+      type: CHANGE_TYPES[event.name],
+      user: event.payload.user,
+      occurredAt: event.occurredAt,
+    });
+  }
+
+  /**
+   * Stream of user changes made in any cluster worker
+   * @param signal - Ends the stream, e.g. when the client disconnects
+   */
+  watchChanges(signal?: AbortSignal): AsyncGenerator<UserChangeEvent, void, undefined> {
+    return iterateChannel<UserChangeEvent>(USER_CHANGES_CHANNEL, { signal });
   }
 
   /**
@@ -104,10 +275,136 @@ export class UserService extends Service {
    * @param email - Email to search for
    * @returns User or null if not found
    */
-  findByEmail(email: string): User | null {
-    for (const user of this.users.values()) {
-      if (user.email === email) return user;
+  async findByEmail(email: string): Promise<User | null> {
+    const user = await this.repository.findByEmail(email);
+    return user ? toUser(user) : null;
+  }
+
+  /**
+   * Set password without knowing the current one (initial password, admin reset)
+   * @param userId - User ID
+   * @param password - New plain text password, validated against password policy
+   */
+  async setPassword(userId: string, password: string): Promise<void> {
+    this.validatePassword('password', password);
+    await this.userDAO.setPasswordHash(userId, await hashPassword(password));
+  }
+
+  /**
+   * Change password of a user
+   * All sessions (refresh tokens) of the user are revoked
+   * @param userId - User ID
+   * @param currentPassword - Current plain text password
+   * @param newPassword - New plain text password
+   */
+  async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<void> {
+    // Uncached - the cached user has no password hash and may predate a password change
+    const user = await this.userDAO.findByIdUncached(userId);
+    if (!user?.passwordHash || !(await verifyPassword(currentPassword, user.passwordHash))) {
+      throw new ValidationFailedError(
+        'Current password is invalid',
+        { currentPassword: ['Current password is invalid'] },
+        { code: 'INVALID_CURRENT_PASSWORD' }
+      );
+    }
+
+    this.validatePassword('newPassword', newPassword);
+    await this.userDAO.setPasswordHash(userId, await hashPassword(newPassword));
+    await this.refreshTokenDAO.revokeAllForUser(userId);
+  }
+
+  /**
+   * Create a single-use password reset token
+   * Only the hash of the token is stored, the raw token must be delivered to the user
+   * @param email - User email
+   * @returns Raw token and expiration, or null if no such user exists
+   */
+  async requestPasswordReset(email: string): Promise<{ token: string; expiresAt: Date } | null> {
+    const user = await this.userDAO.findByEmail(email);
+    if (!user) {
+      return null;
+    }
+
+    const token = generateOpaqueToken();
+    const expiresAt = new Date(Date.now() + getConfig().auth.passwordResetTokenTtlMinutes * 60 * 1000);
+    await this.userDAO.createPasswordResetToken(user.id, hashOpaqueToken(token), expiresAt);
+
+    logger.info('Password reset requested', { targetUserId: user.id });
+    return { token, expiresAt };
+  }
+
+  /**
+   * Set a new password using a password reset token
+   * The token is consumed, other reset tokens and all sessions are revoked
+   * @param token - Raw reset token
+   * @param newPassword - New plain text password
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    this.validatePassword('newPassword', newPassword);
+
+    const stored = await this.userDAO.findPasswordResetToken(hashOpaqueToken(token));
+    if (
+      !stored ||
+      stored.usedAt ||
+      stored.expiresAt.getTime() <= Date.now() ||
+      !(await this.userDAO.consumePasswordResetToken(stored.id))
+    ) {
+      throw new ValidationFailedError(
+        'Invalid or expired reset token',
+        { token: ['Invalid or expired reset token'] },
+        { code: 'INVALID_RESET_TOKEN' }
+      );
     }
-    return null;
+
+    await this.userDAO.setPasswordHash(stored.userId, await hashPassword(newPassword));
+    await this.userDAO.invalidatePasswordResetTokens(stored.userId);
+    await this.refreshTokenDAO.revokeAllForUser(stored.userId);
+  }
+
+  /**
+   * Validate password against configured password policy
+   * @param field - Input field reported in validation errors
+   * @throws ValidationFailedError WEAK_PASSWORD with policy violations
+   */
+  private validatePassword(field: string, password: string): void {
+    const result = this.passwordSchema.safeParse(password);
+    if (!result.success) {
+      throw ValidationFailedError.fromZodError(field, result.error, { code: 'WEAK_PASSWORD' });
+    }
+  }
+}
+
+/**
+ * Strip credentials and internal columns from a stored user
+ */
+function toUser(record: UserRecord): User {
+  return {
+    id: record.id,
+    name: record.name,
+    email: record.email,
+    version: record.version,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
+/**
+ * Public fields of a user carried by domain events
+ */
+function toSnapshot(user: User): { id: string; name: string; email: string } {
+  return { id: user.id, name: user.name, email: user.email };
+}
+
+/**
+ * Map unique constraint violation (Prisma P2002) to ConflictError
+ */
+function mapUniqueEmailError(error: unknown, email?: string): unknown {
+  if (isUniqueConstraintError(error)) {
+    const message = email ? `User with email ${email} already exists` : 'Email is already taken';
+    return new ConflictError(message, {
+      code: 'EMAIL_TAKEN',
+      cause: error,
+    });
   }
+  return error;
 }
@@ -0,0 +1,94 @@
+import { expect } from 'chai';
+import http, { type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { trackInFlightRequests } from './shutdown';
+
+/**
+ * Unit tests for in-flight request tracking used by graceful shutdown
+ */
+describe('trackInFlightRequests', () => {
+  let server: Server;
+  let release: () => void;
+
+  beforeEach(async () => {
+    const released = new Promise<void>((resolve) => (release = resolve));
+    server = http.createServer(async (_req, res) => {
+      await released;
+      res.end('done');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    release();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function request(headers: http.OutgoingHttpHeaders = {}): Promise<string> {
+    const { port } = server.address() as AddressInfo;
+    return new Promise((resolve, reject) => {
+      http
+        .get({ host: '127.0.0.1', port, agent: false, headers }, (res) => {
+          let body = '';
+          res.on('data', (chunk) => (body += chunk));
+          res.on('end', () => resolve(body));
+        })
+        .on('error', reject);
+    });
+  }
+
+  async function waitForActive(inFlight: { active: number }, count: number) {
+    while (inFlight.active < count) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  }
+
+  it('should drain immediately without requests', async () => {
+    const inFlight = trackInFlightRequests(server);
+
+    expect(inFlight.active).to.equal(0);
+    expect(await inFlight.drain(10)).to.be.true;
+  });
+
+  it('should wait for in-flight requests to finish', async () => {
+    const inFlight = trackInFlightRequests(server);
+    const responses = Promise.all([request(), request()]);
+    await waitForActive(inFlight, 2);
+
+    const drained = inFlight.drain(1000);
+    release();
+
+    expect(await drained).to.be.true;
+    expect(inFlight.active).to.equal(0);
+    expect(await responses).to.deep.equal(['done', 'done']);
+  });
+
+  it('should give up after the deadline', async () => {
+    const inFlight = trackInFlightRequests(server);
+    const response = request().catch(() => null);
+    await waitForActive(inFlight, 1);
+
+    expect(await inFlight.drain(20)).to.be.false;
+    expect(inFlight.active).to.equal(1);
+
+    release();
+    await response;
+  });
+
+  it('should not wait for subscription streams', async () => {
+    const inFlight = trackInFlightRequests(server);
+    let received = 0;
+    server.on('request', () => received++);
+
+    const responses = Promise.all([request({ accept: 'text/event-stream' }), request()]);
+    while (received < 2) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    expect(inFlight.active).to.equal(1);
+    release();
+    await responses;
+    expect(inFlight.active).to.equal(0);
+  });
+});
@@ -0,0 +1,174 @@
+import type { Server } from 'http';
+import { ServicesContext } from './services';
+import { HealthService } from './services/health.service';
+import { shutdownServices } from './init';
+import { getConfig } from './config';
+import { getLogger } from './logging';
+
+/**
+ * Graceful shutdown of a server process
+ *
+ * 1. Readiness flips to failing (load balancers stop routing to the process)
+ * 2. After SHUTDOWN_READINESS_DELAY_MS the server stops accepting connections
+ * 3. In-flight requests are drained, at most SHUTDOWN_TIMEOUT_MS
+ * 4. Services are shut down in reverse initialization order
+ * If the process does not finish in time it is terminated forcibly.
+ *
+ * Usage:
+ *   const server = app.listen(PORT);
+ *   const inFlight = trackInFlightRequests(server);
+ *   onShutdownSignal('Backend', () => gracefulShutdown(server, inFlight));
+ */
+
+const logger = getLogger('Shutdown');
+
+/** Time services get to shut down after draining */
+const SERVICES_SHUTDOWN_GRACE_MS = 5000;
+
+/**
+ * Time after the signal when a process still shutting down is killed
+ */
+export function getForceExitAfterMs(): number {
+  const { readinessDelayMs, timeoutMs } = getConfig().shutdown;
+  return readinessDelayMs + timeoutMs + SERVICES_SHUTDOWN_GRACE_MS;
+}
+
+/**
+ * Counter of requests being processed by a server
+ */
+export interface InFlightTracker {
+  readonly active: number;
+  /**
+   * Wait until no request is in flight
+   * @returns False if requests were still running after timeoutMs
+   */
+  drain(timeoutMs: number): Promise<boolean>;
+}
+
+/**
+ * Count requests in flight on a server
+ * A request is finished when its response is sent or the connection is closed
+ * Subscription streams (SSE) never finish on their own, they are not counted -
+ * they are closed after draining and clients reconnect to another process
+ */
+export function trackInFlightRequests(server: Server): InFlightTracker {
+  let active = 0;
+  const waiters = new Set<() => void>();
+
+  server.on('request', (req, res) => {
+    if (req.headers.accept?.includes('text/event-stream')) {
+      return;
+    }
+    active++;
+    res.once('close', () => {
+      active--;
+      if (active === 0) {
+        waiters.forEach((resolve) => resolve());
+      }
+    });
+  });
+
+  return {
+    get active() {
+      return active;
+    },
+    drain(timeoutMs: number) {
+      if (active === 0) {
+        return Promise.resolve(true);
+      }
+      return new Promise<boolean>((resolve) => {
+        const done = (drained: boolean) => {
+          clearTimeout(timer);
+          waiters.delete(onIdle);
+          resolve(drained);
+        };
+        const onIdle = () => done(true);
+        const timer = setTimeout(() => done(false), timeoutMs);
+        waiters.add(onIdle);
+      });
+    },
+  };
+}
+
+/**
+ * Stop accepting requests, drain in-flight ones and shut down services
+ * @param server - HTTP server
+ * @param inFlight - Tracker created right after the server was started
+ * @param timeoutMs - Drain deadline, remaining connections are destroyed after it
+ * @returns False if the deadline was exceeded
+ */
+export async function gracefulShutdown(
+  server: Server,
+  inFlight: InFlightTracker,
+  timeoutMs = getConfig().shutdown.timeoutMs
+): Promise<boolean> {
+  ServicesContext.lookup(HealthService).markShuttingDown();
+  const { readinessDelayMs } = getConfig().shutdown;
+  if (readinessDelayMs > 0) {
+    logger.info(`Readiness failing, waiting ${readinessDelayMs}ms for load balancers...`);
+    await new Promise((resolve) => setTimeout(resolve, readinessDelayMs));
+  }
+
+  logger.info(`Draining ${inFlight.active} in-flight request(s)...`);
+  const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+  server.closeIdleConnections();
+
+  const drained = await inFlight.drain(timeoutMs);
+  if (!drained) {
+    logger.warn(`Drain deadline of ${timeoutMs}ms exceeded, closing ${inFlight.active} request(s)`);
+  }
+  server.closeAllConnections();
+  await closed;
+  logger.info('Server closed');
+
+  await shutdownServices();
+  return drained;
+}
+
+/**
+ * Run shutdown once on SIGTERM or SIGINT and exit the process afterwards
+ * - exit code 0 after clean shutdown, 1 if draining exceeded the deadline or shutdown failed
+ * - process is killed if shutdown hangs past the deadline
+ * - the same signal received again exits immediately (e.g. Ctrl+C twice),
+ *   other signals are ignored (workers get SIGINT from the terminal and SIGTERM from the master)
+ * @param name - Process name for logs (logger component)
+ * @param shutdown - Shutdown procedure, resolves false if not clean
+ * @param forceExitAfterMs - Kill the process if shutdown takes longer
+ */
+export function onShutdownSignal(
+  name: string,
+  shutdown: () => Promise<boolean | void>,
+  forceExitAfterMs = getForceExitAfterMs()
+): void {
+  const processLogger = getLogger(name);
+  let receivedSignal: NodeJS.Signals | null = null;
+
+  const handler = async (signal: NodeJS.Signals) => {
+    if (receivedSignal) {
+      if (signal === receivedSignal) {
+        processLogger.warn(`${signal} received again, exiting immediately`);
+        process.exit(1);
+      }
+      return;
+    }
+    receivedSignal = signal;
+    processLogger.info(`${signal} received, shutting down gracefully...`);
+
+    setTimeout(() => {
+      processLogger.error('Shutdown did not finish in time, forcing exit');
+      process.exit(1);
+    }, forceExitAfterMs).unref();
+
+    try {
+      const clean = await shutdown();
+      processLogger.info('Shutdown complete');
+      process.exit(clean === false ? 1 : 0);
+    } catch (error) {
+      processLogger.error('Shutdown failed', { error });
+      process.exit(1);
+    }
+  };
+
+  process.on('SIGTERM', handler);
+  process.on('SIGINT', handler);
+}
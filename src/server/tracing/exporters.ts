@@ -0,0 +1,124 @@
+import type { AttributeValue, Attributes, SpanData, SpanKind, SpanStatus } from './span';
+
+/**
+ * Destination of finished spans
+ * Implement for other backends, OTLP/HTTP covers the OpenTelemetry Collector,
+ * Jaeger, Tempo, Honeycomb and most hosted tracing services.
+ */
+export interface SpanExporter {
+  export(spans: SpanData[]): Promise<void>;
+  shutdown?(): Promise<void>;
+}
+
+/**
+ * Keeps spans in memory - for tests
+ *
+ * Usage:
+ *   const exporter = new InMemorySpanExporter();
+ *   configureTracing({ enabled: true, processor: new SimpleSpanProcessor(exporter) });
+ *   ...
+ *   expect(exporter.getFinishedSpans().map((span) => span.name)).to.include('trpc users.create');
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: SpanData[] = [];
+
+  async export(spans: SpanData[]): Promise<void> {
+    this.spans.push(...spans);
+  }
+
+  getFinishedSpans(): SpanData[] {
+    return [...this.spans];
+  }
+
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+export interface OtlpHttpExporterOptions {
+  /** Collector base URL, spans are posted to `${endpoint}/v1/traces` */
+  endpoint: string;
+  /** e.g. authorization of a hosted collector */
+  headers?: Record<string, string>;
+  /** service.name resource attribute */
+  serviceName: string;
+  timeoutMs?: number;
+}
+
+const SPAN_KINDS: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const STATUS_CODES: Record<SpanStatus['code'], number> = { unset: 0, ok: 1, error: 2 };
+
+/**
+ * OTLP/HTTP exporter with JSON encoding
+ * https://opentelemetry.io/docs/specs/otlp/#otlphttp
+ */
+export class OtlpHttpExporter implements SpanExporter {
+  private readonly url: string;
+
+  constructor(private readonly options: OtlpHttpExporterOptions) {
+    this.url = `${options.endpoint.replace(/\/+$/, '')}/v1/traces`;
+  }
+
+  async export(spans: SpanData[]): Promise<void> {
+    if (!spans.length) return;
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.options.headers },
+      body: JSON.stringify(toOtlpRequest(spans, this.options.serviceName)),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 10000),
+    });
+    if (!response.ok) {
+      throw new Error(`OTLP export failed with HTTP ${response.status}`);
+    }
+  }
+}
+
+/**
+ * ExportTraceServiceRequest in the OTLP JSON encoding (ids are hex, times are strings)
+ */
+export function toOtlpRequest(spans: SpanData[], serviceName: string) {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: toOtlpAttributes({ 'service.name': serviceName }) },
+        scopeSpans: [
+          {
+            scope: { name: 'nextjs-trpc-boilerplate' },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+              name: span.name,
+              kind: SPAN_KINDS[span.kind],
+              startTimeUnixNano: span.startTimeUnixNano.toString(),
+              endTimeUnixNano: span.endTimeUnixNano.toString(),
+              attributes: toOtlpAttributes(span.attributes),
+              events: span.events.map((event) => ({
+                name: event.name,
+                timeUnixNano: event.timeUnixNano.toString(),
+                attributes: toOtlpAttributes(event.attributes),
+              })),
+              status: {
+                code: STATUS_CODES[span.status.code],
+                ...(span.status.message && { message: span.status.message }),
+              },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function toOtlpAttributes(attributes: Attributes) {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: toOtlpValue(value) }));
+}
+
+function toOtlpValue(value: AttributeValue) {
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
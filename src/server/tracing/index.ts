@@ -0,0 +1,25 @@
+export {
+  configureTracing,
+  isTracingEnabled,
+  getActiveSpan,
+  startSpan,
+  withSpan,
+  failSpan,
+  flushTracing,
+  shutdownTracing,
+} from './tracer';
+export type { TracingOptions, SpanOptions } from './tracer';
+export { Span } from './span';
+export type { SpanData, SpanKind, SpanStatus, SpanEvent, Attributes, AttributeValue } from './span';
+export { SimpleSpanProcessor, BatchSpanProcessor } from './processors';
+export type { SpanProcessor, BatchSpanProcessorOptions } from './processors';
+export { InMemorySpanExporter, OtlpHttpExporter, toOtlpRequest } from './exporters';
+export type { SpanExporter, OtlpHttpExporterOptions } from './exporters';
+export { traceMethods } from './instrument';
+export {
+  TRACEPARENT_HEADER,
+  parseTraceparent,
+  formatTraceparent,
+  type TraceContext,
+} from '../../shared/tracing/traceparent';
+// Prisma extension is imported from './prisma' directly (depends on the generated client)
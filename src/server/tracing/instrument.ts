@@ -0,0 +1,46 @@
+import { withSpan } from './tracer';
+
+/** Lifecycle methods are not traced */
+const EXCLUDED_METHODS = new Set(['constructor', 'initialize', 'shutdown']);
+
+/**
+ * Trace every method call of a service instance as span `<Service>.<method>`
+ *
+ * Methods of the class and its parents (up to `stopAt`) are wrapped on the instance,
+ * so callers get traced calls no matter how they got it (ServicesContext.lookup,
+ * @ServicesContext.inject, ctx.services).
+ *
+ * Usage (see init.ts):
+ *   services.forEach((service) => traceMethods(service, { stopAt: Service.prototype }));
+ */
+export function traceMethods<T extends object>(
+  instance: T,
+  { name = instance.constructor.name, stopAt = Object.prototype }: { name?: string; stopAt?: object } = {}
+): T {
+  const target = instance as Record<string, unknown>;
+  const wrapped = new Set<string>();
+
+  for (
+    let prototype = Object.getPrototypeOf(instance);
+    prototype && prototype !== stopAt && prototype !== Object.prototype;
+    prototype = Object.getPrototypeOf(prototype)
+  ) {
+    for (const key of Object.getOwnPropertyNames(prototype)) {
+      // Getters (e.g. injected services) are left alone, overridden methods are wrapped once
+      const descriptor = Object.getOwnPropertyDescriptor(prototype, key);
+      if (EXCLUDED_METHODS.has(key) || wrapped.has(key) || typeof descriptor?.value !== 'function') {
+        continue;
+      }
+      wrapped.add(key);
+
+      const method = descriptor.value as (...args: unknown[]) => unknown;
+      const spanName = `${name}.${key}`;
+      target[key] = function (this: unknown, ...args: unknown[]) {
+        return withSpan(spanName, () => method.apply(this, args), {
+          attributes: { 'code.namespace': name, 'code.function': key },
+        });
+      };
+    }
+  }
+  return instance;
+}
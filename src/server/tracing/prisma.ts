@@ -0,0 +1,25 @@
+import { Prisma } from '@prisma/client';
+import { withSpan } from './tracer';
+
+/**
+ * Prisma client extension tracing every query (model operations and raw queries)
+ * as client spans `prisma <Model>.<operation>`
+ *
+ * Usage:
+ *   const prisma = new PrismaClient().$extends(queryTracing);
+ */
+export const queryTracing = Prisma.defineExtension({
+  name: 'query-tracing',
+  query: {
+    $allOperations({ model, operation, args, query }) {
+      return withSpan(`prisma ${model ?? 'raw'}.${operation}`, () => query(args), {
+        kind: 'client',
+        attributes: {
+          'db.system': 'postgresql',
+          'db.operation': operation,
+          'db.prisma.model': model,
+        },
+      });
+    },
+  },
+});
@@ -0,0 +1,109 @@
+import { getLogger } from '../logging';
+import type { SpanExporter } from './exporters';
+import type { SpanData } from './span';
+
+const logger = getLogger('Tracing');
+
+/**
+ * Receives finished spans and passes them to an exporter
+ */
+export interface SpanProcessor {
+  onEnd(span: SpanData): void;
+  /** Export spans waiting in the buffer */
+  forceFlush(): Promise<void>;
+  shutdown(): Promise<void>;
+}
+
+/**
+ * Exports every span as it ends - tests and debugging
+ */
+export class SimpleSpanProcessor implements SpanProcessor {
+  private pending = new Set<Promise<void>>();
+
+  constructor(private readonly exporter: SpanExporter) {}
+
+  onEnd(span: SpanData): void {
+    const exported = this.exporter
+      .export([span])
+      .catch((error) => logger.warn('Span export failed', { error }))
+      .finally(() => this.pending.delete(exported));
+    this.pending.add(exported);
+  }
+
+  async forceFlush(): Promise<void> {
+    await Promise.all(this.pending);
+  }
+
+  async shutdown(): Promise<void> {
+    await this.forceFlush();
+    await this.exporter.shutdown?.();
+  }
+}
+
+export interface BatchSpanProcessorOptions {
+  /** Export when this many spans are waiting, default 512 */
+  maxBatchSize?: number;
+  /** Export waiting spans at least this often, default 5s */
+  scheduledDelayMs?: number;
+  /** Spans over this limit are dropped while the exporter is slow, default 2048 */
+  maxQueueSize?: number;
+}
+
+/**
+ * Buffers spans and exports them in batches - production
+ * Requests never wait for the exporter, failed batches are dropped (and logged).
+ */
+export class BatchSpanProcessor implements SpanProcessor {
+  private queue: SpanData[] = [];
+  private readonly maxBatchSize: number;
+  private readonly maxQueueSize: number;
+  private readonly timer: NodeJS.Timeout;
+  private exporting: Promise<void> = Promise.resolve();
+  private dropped = 0;
+
+  constructor(
+    private readonly exporter: SpanExporter,
+    options: BatchSpanProcessorOptions = {}
+  ) {
+    this.maxBatchSize = options.maxBatchSize ?? 512;
+    this.maxQueueSize = options.maxQueueSize ?? 2048;
+    this.timer = setInterval(() => void this.forceFlush(), options.scheduledDelayMs ?? 5000);
+    this.timer.unref();
+  }
+
+  onEnd(span: SpanData): void {
+    if (this.queue.length >= this.maxQueueSize) {
+      this.dropped++;
+      return;
+    }
+    this.queue.push(span);
+    if (this.queue.length >= this.maxBatchSize) {
+      void this.forceFlush();
+    }
+  }
+
+  forceFlush(): Promise<void> {
+    // Batches are exported one after another
+    this.exporting = this.exporting.then(async () => {
+      while (this.queue.length) {
+        const batch = this.queue.splice(0, this.maxBatchSize);
+        try {
+          await this.exporter.export(batch);
+        } catch (error) {
+          logger.warn('Span export failed, batch dropped', { spans: batch.length, error });
+        }
+      }
+      if (this.dropped) {
+        logger.warn('Span queue full, spans dropped', { spans: this.dropped });
+        this.dropped = 0;
+      }
+    });
+    return this.exporting;
+  }
+
+  async shutdown(): Promise<void> {
+    clearInterval(this.timer);
+    await this.forceFlush();
+    await this.exporter.shutdown?.();
+  }
+}
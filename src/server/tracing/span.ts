@@ -0,0 +1,129 @@
+import type { TraceContext } from '../../shared/tracing/traceparent';
+
+export type SpanKind = 'internal' | 'server' | 'client';
+export type AttributeValue = string | number | boolean;
+export type Attributes = Record<string, AttributeValue>;
+
+export interface SpanStatus {
+  code: 'unset' | 'ok' | 'error';
+  message?: string;
+}
+
+export interface SpanEvent {
+  name: string;
+  timeUnixNano: bigint;
+  attributes: Attributes;
+}
+
+/**
+ * Finished span as handed to processors and exporters
+ */
+export interface SpanData {
+  name: string;
+  kind: SpanKind;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  startTimeUnixNano: bigint;
+  endTimeUnixNano: bigint;
+  attributes: Attributes;
+  status: SpanStatus;
+  events: SpanEvent[];
+}
+
+/** Wall clock in nanoseconds with the precision of hrtime */
+const EPOCH_OFFSET_NANO = BigInt(Date.now()) * BigInt(1e6) - process.hrtime.bigint();
+
+export function nowUnixNano(): bigint {
+  return process.hrtime.bigint() + EPOCH_OFFSET_NANO;
+}
+
+/**
+ * Unit of work within a trace
+ * Spans not sampled keep their ids (children inherit the decision) but record nothing.
+ */
+export class Span {
+  private readonly startTimeUnixNano = nowUnixNano();
+  private endTimeUnixNano: bigint | null = null;
+  private readonly attributes: Attributes = {};
+  private readonly events: SpanEvent[] = [];
+  private status: SpanStatus = { code: 'unset' };
+
+  constructor(
+    readonly name: string,
+    readonly kind: SpanKind,
+    readonly traceId: string,
+    readonly spanId: string,
+    readonly parentSpanId: string | undefined,
+    private readonly onEnd: ((span: SpanData) => void) | null
+  ) {}
+
+  isRecording(): boolean {
+    return this.onEnd !== null && this.endTimeUnixNano === null;
+  }
+
+  /**
+   * Context propagated to child spans and outgoing requests
+   */
+  spanContext(): TraceContext {
+    return { traceId: this.traceId, spanId: this.spanId, sampled: this.onEnd !== null };
+  }
+
+  setAttribute(key: string, value: AttributeValue | undefined): this {
+    if (this.isRecording() && value !== undefined) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  setAttributes(attributes: Record<string, AttributeValue | undefined>): this {
+    Object.entries(attributes).forEach(([key, value]) => this.setAttribute(key, value));
+    return this;
+  }
+
+  addEvent(name: string, attributes: Attributes = {}): this {
+    if (this.isRecording()) {
+      this.events.push({ name, timeUnixNano: nowUnixNano(), attributes });
+    }
+    return this;
+  }
+
+  /**
+   * Add 'exception' event (OpenTelemetry semantic conventions)
+   */
+  recordException(error: unknown): this {
+    const err = error instanceof Error ? error : new Error(String(error));
+    return this.addEvent('exception', {
+      'exception.type': err.name,
+      'exception.message': err.message,
+      ...(err.stack && { 'exception.stacktrace': err.stack }),
+    });
+  }
+
+  setStatus(status: SpanStatus): this {
+    if (this.isRecording()) {
+      this.status = status;
+    }
+    return this;
+  }
+
+  /**
+   * Finish the span, later calls are ignored
+   */
+  end(): void {
+    if (!this.isRecording()) return;
+    this.endTimeUnixNano = nowUnixNano();
+    this.onEnd?.({
+      name: this.name,
+      kind: this.kind,
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      startTimeUnixNano: this.startTimeUnixNano,
+      endTimeUnixNano: this.endTimeUnixNano,
+      attributes: { ...this.attributes },
+      status: { ...this.status },
+      events: [...this.events],
+    });
+  }
+}
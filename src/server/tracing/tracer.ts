@@ -0,0 +1,148 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  generateSpanId,
+  generateTraceId,
+  type TraceContext,
+} from '../../shared/tracing/traceparent';
+import { Span, type AttributeValue, type SpanKind } from './span';
+import type { SpanProcessor } from './processors';
+
+/**
+ * Tracing of the backend
+ *
+ * The active span is kept in AsyncLocalStorage - spans started inside withSpan()
+ * (services, DAOs, Prisma queries) become its children without passing it around.
+ * Procedures continue the trace of the client from the W3C traceparent header.
+ *
+ * Usage:
+ *   await withSpan('UserService.sendWelcomeEmail', async (span) => {
+ *     span.setAttribute('user.id', user.id);
+ *     await mailer.send(...);
+ *   });
+ */
+
+export interface TracingOptions {
+  enabled: boolean;
+  /** Probability a new trace is recorded, traces started by the client follow its decision */
+  sampleRatio: number;
+  processor: SpanProcessor | null;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: Record<string, AttributeValue | undefined>;
+  /** Remote parent (traceparent header), default is the active span */
+  parent?: TraceContext;
+}
+
+let options: TracingOptions = { enabled: false, sampleRatio: 1, processor: null };
+
+const storage = new AsyncLocalStorage<Span>();
+
+/** Span of disabled tracing, records nothing */
+const NOOP_SPAN = new Span('noop', 'internal', '0'.repeat(32), '0'.repeat(16), undefined, null);
+
+/**
+ * Configure tracing (see TracingService, called on startup from config)
+ */
+export function configureTracing(next: Partial<TracingOptions>): void {
+  options = { ...options, ...next };
+}
+
+export function isTracingEnabled(): boolean {
+  return options.enabled;
+}
+
+/**
+ * Span of the current async call, undefined outside of a traced operation
+ */
+export function getActiveSpan(): Span | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Start span as a child of the parent / active span - caller must end() it
+ * Prefer withSpan(), which also makes the span active for nested calls
+ */
+export function startSpan(name: string, spanOptions: SpanOptions = {}): Span {
+  if (!options.enabled) return NOOP_SPAN;
+
+  const parent = spanOptions.parent ?? getActiveSpan()?.spanContext();
+  const sampled = parent ? parent.sampled : Math.random() < options.sampleRatio;
+  const processor = options.processor;
+
+  const span = new Span(
+    name,
+    spanOptions.kind ?? 'internal',
+    parent?.traceId ?? generateTraceId(),
+    generateSpanId(),
+    parent?.spanId,
+    sampled && processor ? (data) => processor.onEnd(data) : null
+  );
+  return span.setAttributes(spanOptions.attributes ?? {});
+}
+
+/**
+ * Run function in a new active span, ended when the function (or its promise) finishes
+ * Thrown errors are recorded and mark the span as failed
+ */
+export function withSpan<T>(name: string, fn: (span: Span) => T, spanOptions?: SpanOptions): T {
+  if (!options.enabled) return fn(NOOP_SPAN);
+
+  const span = startSpan(name, spanOptions);
+  return storage.run(span, () => {
+    let result: T;
+    try {
+      result = fn(span);
+    } catch (error) {
+      failSpan(span, error);
+      span.end();
+      throw error;
+    }
+
+    // Thenables too - Prisma queries return PrismaPromise
+    if (isPromiseLike(result)) {
+      return Promise.resolve(result).then(
+        (value) => {
+          span.end();
+          return value;
+        },
+        (error) => {
+          failSpan(span, error);
+          span.end();
+          throw error;
+        }
+      ) as T;
+    }
+    span.end();
+    return result;
+  });
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as PromiseLike<unknown> | null)?.then === 'function';
+}
+
+/**
+ * Record error on the span and set error status
+ */
+export function failSpan(span: Span, error: unknown): void {
+  span.recordException(error);
+  span.setStatus({ code: 'error', message: error instanceof Error ? error.message : String(error) });
+}
+
+/**
+ * Export spans waiting in the processor
+ */
+export async function flushTracing(): Promise<void> {
+  await options.processor?.forceFlush();
+}
+
+/**
+ * Flush and stop the processor (process shutdown)
+ */
+export async function shutdownTracing(): Promise<void> {
+  const { processor } = options;
+  options = { ...options, enabled: false, processor: null };
+  await processor?.shutdown();
+}
@@ -0,0 +1,224 @@
+import { expect } from 'chai';
+import { publicProcedure, router } from '../trpc';
+import { NotFoundError } from '../errors';
+import { getLogger, setLogSink } from '../logging';
+import { parseTraceparent } from '../../shared/tracing/traceparent';
+import { InMemorySpanExporter, toOtlpRequest } from './exporters';
+import { SimpleSpanProcessor } from './processors';
+import { configureTracing, flushTracing, withSpan } from './tracer';
+import { traceMethods } from './instrument';
+import type { SpanData } from './span';
+import { createStubContext } from '../context.stub';
+
+/**
+ * Unit tests for tracing (spans, propagation, instrumentation, OTLP encoding)
+ */
+describe('Tracing', () => {
+  const exporter = new InMemorySpanExporter();
+  const remote = parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')!;
+
+  async function finishedSpans(): Promise<SpanData[]> {
+    await flushTracing();
+    return exporter.getFinishedSpans();
+  }
+
+  const byName = (spans: SpanData[], name: string) => spans.find((span) => span.name === name)!;
+
+  beforeEach(() => {
+    exporter.reset();
+    configureTracing({ enabled: true, sampleRatio: 1, processor: new SimpleSpanProcessor(exporter) });
+  });
+
+  after(() => configureTracing({ enabled: false, sampleRatio: 1, processor: null }));
+
+  describe('spans', () => {
+    it('should nest spans started inside the active span', async () => {
+      await withSpan('parent', async () => {
+        await withSpan('child', async () => undefined);
+      });
+
+      const spans = await finishedSpans();
+      const parent = byName(spans, 'parent');
+      const child = byName(spans, 'child');
+      expect(child.traceId).to.equal(parent.traceId);
+      expect(child.parentSpanId).to.equal(parent.spanId);
+      expect(parent.parentSpanId).to.be.undefined;
+      expect(parent.endTimeUnixNano >= child.endTimeUnixNano).to.be.true;
+    });
+
+    it('should record thrown errors', async () => {
+      try {
+        await withSpan('failing', async () => {
+          throw new Error('Boom');
+        });
+        expect.fail('Should throw');
+      } catch (error) {
+        expect((error as Error).message).to.equal('Boom');
+      }
+
+      const [span] = await finishedSpans();
+      expect(span.status).to.deep.equal({ code: 'error', message: 'Boom' });
+      expect(span.events[0].name).to.equal('exception');
+      expect(span.events[0].attributes['exception.message']).to.equal('Boom');
+    });
+
+    it('should continue remote trace', async () => {
+      withSpan('handler', () => undefined, { kind: 'server', parent: remote });
+
+      const [span] = await finishedSpans();
+      expect(span).to.include({ traceId: remote.traceId, parentSpanId: remote.spanId, kind: 'server' });
+    });
+
+    it('should not record traces the client did not sample', async () => {
+      withSpan('handler', () => withSpan('child', () => undefined), { parent: { ...remote, sampled: false } });
+
+      expect(await finishedSpans()).to.be.empty;
+    });
+
+    it('should sample new traces by ratio', async () => {
+      configureTracing({ sampleRatio: 0 });
+      withSpan('root', () => withSpan('child', () => undefined));
+
+      expect(await finishedSpans()).to.be.empty;
+    });
+
+    it('should run function without spans when disabled', async () => {
+      configureTracing({ enabled: false });
+
+      expect(withSpan('ignored', () => 42)).to.equal(42);
+      expect(await finishedSpans()).to.be.empty;
+    });
+
+    it('should add trace id to log lines', async () => {
+      const lines: string[] = [];
+      setLogSink((line) => lines.push(line));
+      try {
+        withSpan('logged', () => getLogger('Test').info('Inside span'));
+      } finally {
+        setLogSink();
+      }
+
+      const [span] = await finishedSpans();
+      expect(JSON.parse(lines[0])).to.include({ traceId: span.traceId, spanId: span.spanId });
+    });
+  });
+
+  describe('service methods', () => {
+    class ExampleService {
+      calls = 0;
+
+      get injected(): string {
+        return 'dependency';
+      }
+
+      async create(name: string): Promise<string> {
+        this.calls++;
+        return this.format(name);
+      }
+
+      format(name: string): string {
+        return `${name}!`;
+      }
+
+      async initialize(): Promise<void> {}
+    }
+
+    it('should create span per method call with nested calls as children', async () => {
+      const service = traceMethods(new ExampleService());
+
+      expect(await service.create('john')).to.equal('john!');
+      expect(service.calls).to.equal(1);
+      expect(service.injected).to.equal('dependency');
+
+      const spans = await finishedSpans();
+      expect(spans.map((span) => span.name)).to.have.members(['ExampleService.create', 'ExampleService.format']);
+      expect(byName(spans, 'ExampleService.format').parentSpanId).to.equal(
+        byName(spans, 'ExampleService.create').spanId
+      );
+    });
+
+    it('should not trace lifecycle methods', async () => {
+      await traceMethods(new ExampleService()).initialize();
+
+      expect(await finishedSpans()).to.be.empty;
+    });
+  });
+
+  describe('procedures', () => {
+    const testRouter = router({
+      ok: publicProcedure.query(() => withSpan('resolver work', () => 'ok')),
+      missing: publicProcedure.query(() => {
+        throw new NotFoundError('User', '1');
+      }),
+      crash: publicProcedure.query(() => {
+        throw new Error('Crash');
+      }),
+    });
+    const caller = testRouter.createCaller(
+      createStubContext({ requestId: 'req-1', traceContext: remote })
+    );
+
+    it('should create server span continuing the client trace', async () => {
+      await caller.ok();
+
+      const spans = await finishedSpans();
+      const procedure = byName(spans, 'trpc ok');
+      expect(procedure).to.include({ kind: 'server', traceId: remote.traceId, parentSpanId: remote.spanId });
+      expect(procedure.attributes).to.include({ 'rpc.system': 'trpc', 'rpc.method': 'ok', 'request.id': 'req-1' });
+      expect(byName(spans, 'resolver work').parentSpanId).to.equal(procedure.spanId);
+    });
+
+    it('should fail span only on server errors', async () => {
+      await caller.missing().catch(() => undefined);
+      await caller.crash().catch(() => undefined);
+
+      const spans = await finishedSpans();
+      const missing = byName(spans, 'trpc missing');
+      expect(missing.status.code).to.equal('unset');
+      expect(missing.attributes['rpc.trpc.error_code']).to.equal('NOT_FOUND');
+      expect(byName(spans, 'trpc crash').status).to.deep.equal({ code: 'error', message: 'Crash' });
+    });
+  });
+
+  describe('OTLP encoding', () => {
+    it('should encode spans as OTLP JSON', () => {
+      const request = toOtlpRequest(
+        [
+          {
+            name: 'trpc ok',
+            kind: 'server',
+            traceId: remote.traceId,
+            spanId: '1111111111111111',
+            parentSpanId: remote.spanId,
+            startTimeUnixNano: BigInt('1700000000000000000'),
+            endTimeUnixNano: BigInt('1700000000005000000'),
+            attributes: { 'rpc.method': 'ok', retries: 2, ratio: 0.5, cached: false },
+            status: { code: 'error', message: 'Crash' },
+            events: [],
+          },
+        ],
+        'backend'
+      );
+
+      const [resourceSpans] = request.resourceSpans;
+      expect(resourceSpans.resource.attributes).to.deep.equal([
+        { key: 'service.name', value: { stringValue: 'backend' } },
+      ]);
+      const [span] = resourceSpans.scopeSpans[0].spans;
+      expect(span).to.deep.include({
+        traceId: remote.traceId,
+        parentSpanId: remote.spanId,
+        kind: 2,
+        startTimeUnixNano: '1700000000000000000',
+        endTimeUnixNano: '1700000000005000000',
+        status: { code: 2, message: 'Crash' },
+      });
+      expect(span.attributes).to.deep.equal([
+        { key: 'rpc.method', value: { stringValue: 'ok' } },
+        { key: 'retries', value: { intValue: '2' } },
+        { key: 'ratio', value: { doubleValue: 0.5 } },
+        { key: 'cached', value: { boolValue: false } },
+      ]);
+    });
+  });
+});
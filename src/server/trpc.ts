@@ -1,11 +1,177 @@
 import { initTRPC } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
 import type { Context } from './context';
+import type { PermissionRequirement } from './auth/permissions';
+import {
+  DomainError,
+  getErrorCode,
+  getConflictState,
+  getRetryAfter,
+  getValidationErrors,
+  toTRPCError,
+} from './errors';
+import { getConfig } from './config';
+import {
+  runWithAuditScope,
+  sanitizeAuditInput,
+  writeAuditEntry,
+  type AuditScope,
+} from './audit';
+import { runWithReadScope } from './database';
+import { runWithLogContext } from './logging';
+import { recordProcedureCall } from './metrics';
+import { failSpan, withSpan } from './tracing';
+
+/**
+ * Procedure metadata
+ * Set via .meta() or helpers like protectedProcedure.requires()
+ * and introspectable on the router (see auth/permission-matrix.ts)
+ */
+export interface ProcedureMeta {
+  /** Procedure requires an authenticated user */
+  authenticated?: boolean;
+  /** Permissions required before the resolver runs */
+  permissions?: PermissionRequirement;
+}
 
 /**
  * Initialize tRPC with context typing
  * Creates the base for creating procedures and routers
+ *
+ * Error shape sent to clients (error.data):
+ * - code       - tRPC code (NOT_FOUND, CONFLICT, ...)
+ * - errorCode  - stable machine-readable code (USER_NOT_FOUND, EMAIL_TAKEN, VALIDATION_FAILED, ...)
+ * - validation - flattened field errors of invalid input, null otherwise
+ * - retryAfter - seconds to wait when rate limited (TOO_MANY_REQUESTS), null otherwise
+ * - current    - server state of the entity on CONFLICT (VERSION_CONFLICT), null otherwise
+ * - stack      - development only
+ * Messages of unexpected errors are hidden in production.
+ */
+export const t = initTRPC
+  .context<Context>()
+  .meta<ProcedureMeta>()
+  .create({
+    // tRPC adds the stack to error.data only in development
+    isDev: !getConfig().isProduction,
+    errorFormatter({ shape, error }) {
+      const hideMessage = getConfig().isProduction && error.code === 'INTERNAL_SERVER_ERROR';
+      return {
+        ...shape,
+        message: hideMessage ? 'Internal server error' : shape.message,
+        data: {
+          ...shape.data,
+          errorCode: getErrorCode(error),
+          validation: getValidationErrors(error),
+          retryAfter: getRetryAfter(error),
+          current: getConflictState(error),
+        },
+      };
+    },
+    sse: {
+      // Keeps idle subscriptions alive behind proxies, the client reconnects if pings stop
+      ping: { enabled: true, intervalMs: 15_000 },
+      client: { reconnectAfterInactivityMs: 30_000 },
+    },
+  });
+
+/**
+ * Map domain errors thrown by services/DAOs (see errors.ts) to tRPC codes
+ * Without it they would all end up as INTERNAL_SERVER_ERROR
+ */
+const mapDomainErrors = t.middleware(async ({ next }) => {
+  const result = await next();
+  if (!result.ok && result.error.cause instanceof DomainError) {
+    throw toTRPCError(result.error.cause);
+  }
+  return result;
+});
+
+/**
+ * Run procedure with log context - all logs of the call carry requestId, path
+ * and userId (added by the auth middleware once known)
+ */
+const withLogContext = t.middleware(({ ctx, path, next }) =>
+  runWithLogContext({ requestId: ctx.requestId, userId: ctx.userId, path }, () => next())
+);
+
+/**
+ * Read-your-writes - reads of the call go to read replicas until it writes,
+ * then to the primary, also in following calls of the user within
+ * DATABASE_READ_YOUR_WRITES_MS (see database/read-scope.ts)
+ */
+const readYourWrites = t.middleware(({ next }) => runWithReadScope(() => next()));
+
+/**
+ * Span of every procedure call, continuing the trace of the client (traceparent header)
+ * Client errors (4xx codes) are only noted on the span, server errors fail it
+ */
+const traceProcedure = t.middleware(({ ctx, path, type, next }) =>
+  withSpan(
+    `trpc ${path}`,
+    async (span) => {
+      const result = await next();
+      if (!result.ok) {
+        span.setAttribute('rpc.trpc.error_code', result.error.code);
+        if (getHTTPStatusCodeFromError(result.error) >= 500) {
+          failSpan(span, result.error.cause ?? result.error);
+        }
+      }
+      return result;
+    },
+    {
+      kind: 'server',
+      parent: ctx.traceContext,
+      attributes: { 'rpc.system': 'trpc', 'rpc.method': path, 'rpc.trpc.type': type, 'request.id': ctx.requestId },
+    }
+  )
+);
+
+/**
+ * Record call count, errors by tRPC code and latency of every procedure (see metrics/)
+ * Runs outside of mapDomainErrors, so failed calls are counted with their final code
+ */
+const recordMetrics = t.middleware(async ({ path, type, next }) => {
+  const start = process.hrtime.bigint();
+  const result = await next();
+  const durationSeconds = Number(process.hrtime.bigint() - start) / 1e9;
+  recordProcedureCall(path, type, durationSeconds, result.ok ? undefined : result.error.code);
+  return result;
+});
+
+/**
+ * Audit log entry of every mutation (see audit/) - actor, path, sanitized input,
+ * outcome and entity changes recorded by DAOs while it ran
+ * Runs outside of mapDomainErrors, so failures are stored with their final error code
+ */
+const auditMutations = t.middleware(async ({ ctx, path, type, getRawInput, next }) => {
+  if (type !== 'mutation') {
+    return next();
+  }
+
+  const scope: AuditScope = { changes: [] };
+  const result = await runWithAuditScope(scope, () => next());
+  await writeAuditEntry({
+    actorId: scope.actorId ?? null,
+    action: path,
+    input: sanitizeAuditInput(await getRawInput().catch(() => undefined)),
+    outcome: result.ok ? 'success' : 'error',
+    errorCode: result.ok ? null : getErrorCode(result.error),
+    changes: scope.changes,
+    requestId: ctx.requestId ?? null,
+  });
+  return result;
+});
+
+/**
+ * Base of all procedures
  */
-export const t = initTRPC.context<Context>().create();
+export const baseProcedure = t.procedure
+  .use(traceProcedure)
+  .use(withLogContext)
+  .use(readYourWrites)
+  .use(recordMetrics)
+  .use(auditMutations)
+  .use(mapDomainErrors);
 
 export const router = t.router;
-export const publicProcedure = t.procedure;
+export const publicProcedure = baseProcedure;
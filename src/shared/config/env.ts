@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+/**
+ * Helpers for zod schemas of environment variables
+ * No Node.js dependencies - used by the backend, Next middleware and the browser
+ */
+
+export type Env = Record<string, string | undefined>;
+
+/**
+ * Configuration can not be used - message lists all problems, one per line
+ */
+export class ConfigError extends Error {
+  constructor(
+    readonly issues: string[],
+    title = 'Invalid configuration'
+  ) {
+    super(`${title}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Readable issues of a failed parse, prefixed by the variable name
+ */
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join('.') || 'env'}: ${issue.message}`);
+}
+
+/**
+ * Parse environment with a schema
+ * Empty variables (KEY=) are treated as not set
+ * @throws ConfigError listing all invalid variables
+ */
+export function parseEnv<T extends z.ZodTypeAny>(schema: T, env: Env, title?: string): z.output<T> {
+  const result = schema.safeParse(withoutEmpty(env));
+  if (!result.success) {
+    throw new ConfigError(formatIssues(result.error), title);
+  }
+  return result.data;
+}
+
+/**
+ * Drop empty variables (KEY=) so schema defaults apply
+ */
+export function withoutEmpty(env: Env): Env {
+  return Object.fromEntries(Object.entries(env).filter(([, value]) => value !== ''));
+}
+
+/** Comma separated list, empty items are dropped */
+export const list = (fallback: string) =>
+  z
+    .string()
+    .default(fallback)
+    .transform((value) =>
+      value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+    );
+
+/** 'true' / 'false' / '1' / '0' */
+export const boolean = (fallback: boolean) =>
+  z
+    .enum(['true', 'false', '1', '0'])
+    .optional()
+    .transform((value) => (value === undefined ? fallback : value === 'true' || value === '1'));
+
+/** Non-negative integer (milliseconds, seconds, counts) */
+export const integer = (fallback: number) => z.coerce.number().int().min(0).default(fallback);
+
+/** Positive integer, e.g. port or number of workers */
+export const positiveInteger = (fallback: number) => z.coerce.number().int().positive().default(fallback);
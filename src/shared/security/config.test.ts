@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import { ConfigError } from '../config/env';
+import { loadSecurityConfig } from './config';
+
+/**
+ * Unit tests for CORS and security headers configuration
+ */
+describe('loadSecurityConfig', () => {
+  it('should allow the local frontend by default in development', () => {
+    const config = loadSecurityConfig({ NODE_ENV: 'development' });
+
+    expect(config.cors.origins).to.deep.equal([{ type: 'exact', origin: 'http://localhost:3000' }]);
+    expect(config.cors.credentials).to.be.false;
+    expect(config.headers.hstsMaxAgeSeconds).to.equal(0);
+  });
+
+  it('should allow no origins and enable HSTS by default in production', () => {
+    const config = loadSecurityConfig({ NODE_ENV: 'production' });
+
+    expect(config.cors.origins).to.deep.equal([]);
+    expect(config.headers.hstsMaxAgeSeconds).to.be.greaterThan(0);
+  });
+
+  it('should parse exact, wildcard and regular expression origins', () => {
+    const config = loadSecurityConfig({
+      CORS_ORIGINS: 'https://App.example.com, https://*.example.org, /^https:\\/\\/pr-\\d+\\.example\\.net$/',
+      CORS_CREDENTIALS: 'true',
+      CORS_MAX_AGE_SECONDS: '3600',
+    });
+
+    const [exact, wildcard, regexp] = config.cors.origins;
+    expect(exact).to.deep.equal({ type: 'exact', origin: 'https://app.example.com' });
+    expect(wildcard.type === 'pattern' && wildcard.pattern.test('https://a.b.example.org')).to.be.true;
+    expect(wildcard.type === 'pattern' && wildcard.pattern.test('https://example.org')).to.be.false;
+    expect(wildcard.type === 'pattern' && wildcard.pattern.test('https://evil-example.org')).to.be.false;
+    expect(regexp.type === 'pattern' && regexp.pattern.test('https://pr-42.example.net')).to.be.true;
+    expect(config.cors.credentials).to.be.true;
+    expect(config.cors.maxAgeSeconds).to.equal(3600);
+  });
+
+  it('should reject wildcard origin with credentials', () => {
+    expect(() => loadSecurityConfig({ CORS_ORIGINS: '*', CORS_CREDENTIALS: 'true' })).to.throw(
+      ConfigError,
+      /CORS_ORIGINS/
+    );
+  });
+
+  it('should report all invalid variables at once', () => {
+    try {
+      loadSecurityConfig({
+        CORS_ORIGINS: 'https://example.com/path',
+        CORS_MAX_AGE_SECONDS: 'soon',
+        FRAME_OPTIONS: 'ALLOW',
+      });
+    } catch (error) {
+      expect(error).to.be.instanceof(ConfigError);
+      const { issues } = error as ConfigError;
+      expect(issues).to.have.length(3);
+      expect(issues.join('\n')).to.match(/CORS_ORIGINS.*https:\/\/example\.com\/path/);
+      return;
+    }
+    expect.fail('Should throw');
+  });
+});
@@ -0,0 +1,140 @@
+import { z } from 'zod';
+import { boolean, integer, list, parseEnv, type Env } from '../config/env';
+
+/**
+ * CORS and security headers configuration, loaded from environment
+ *
+ * CORS_ORIGINS is a comma separated allowlist of origins:
+ * - exact origin    - https://app.example.com
+ * - wildcard        - https://*.example.com (any subdomain, not the apex domain)
+ * - regular exp.    - /^https:\/\/pr-\d+\.preview\.example\.com$/
+ * - *               - any origin (not allowed together with credentials)
+ */
+
+const DEV_ORIGINS = 'http://localhost:3000';
+const DEFAULT_METHODS = 'GET,POST,PUT,PATCH,DELETE,OPTIONS';
+const DEFAULT_HEADERS = 'Content-Type,Authorization,X-Request-Id,traceparent';
+const DEFAULT_EXPOSED_HEADERS = 'Retry-After,RateLimit-Limit,RateLimit-Remaining,X-Request-Id';
+/** 180 days */
+const DEFAULT_HSTS_MAX_AGE_SECONDS = 15552000;
+
+export type OriginRule = { type: 'any' } | { type: 'exact'; origin: string } | { type: 'pattern'; pattern: RegExp };
+
+export interface CorsConfig {
+  origins: OriginRule[];
+  credentials: boolean;
+  allowedMethods: string[];
+  allowedHeaders: string[];
+  exposedHeaders: string[];
+  /** How long browsers may cache preflight responses */
+  maxAgeSeconds: number;
+}
+
+export interface SecurityHeadersConfig {
+  /** Strict-Transport-Security max-age, 0 disables the header */
+  hstsMaxAgeSeconds: number;
+  hstsIncludeSubDomains: boolean;
+  frameOptions: 'DENY' | 'SAMEORIGIN';
+  /** Content-Security-Policy of the Next pages, built from defaults when not set */
+  contentSecurityPolicy: string | null;
+}
+
+export interface SecurityConfig {
+  cors: CorsConfig;
+  headers: SecurityHeadersConfig;
+}
+
+function parseOrigin(value: string, ctx: z.RefinementCtx): OriginRule {
+  if (value === '*') {
+    return { type: 'any' };
+  }
+  if (value.length > 2 && value.startsWith('/') && value.endsWith('/')) {
+    try {
+      return { type: 'pattern', pattern: new RegExp(value.slice(1, -1)) };
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid origin pattern ${value}` });
+      return z.NEVER;
+    }
+  }
+
+  const match = /^(https?):\/\/(\*\.)?([a-z0-9.-]+)(:\d+)?$/i.exec(value);
+  if (!match) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Invalid origin ${value}, expected scheme://host[:port] without path`,
+    });
+    return z.NEVER;
+  }
+  const [, scheme, wildcard, host, port = ''] = match;
+  if (!wildcard) {
+    return { type: 'exact', origin: value.toLowerCase() };
+  }
+  const escaped = `${scheme}://`.replace(/[/.]/g, '\\$&');
+  const suffix = `${host}${port}`.replace(/\./g, '\\.');
+  return { type: 'pattern', pattern: new RegExp(`^${escaped}[a-z0-9-]+(\\.[a-z0-9-]+)*\\.${suffix}$`, 'i') };
+}
+
+/**
+ * Schema of the security environment variables, part of the server config (src/server/config.ts)
+ */
+export function securityEnvSchema(production: boolean) {
+  return z
+    .object({
+      CORS_ORIGINS: list(production ? '' : DEV_ORIGINS).transform((origins, ctx) =>
+        origins.map((origin) => parseOrigin(origin, ctx))
+      ),
+      CORS_CREDENTIALS: boolean(false),
+      CORS_ALLOWED_METHODS: list(DEFAULT_METHODS).transform((methods) =>
+        methods.map((method) => method.toUpperCase())
+      ),
+      CORS_ALLOWED_HEADERS: list(DEFAULT_HEADERS),
+      CORS_EXPOSED_HEADERS: list(DEFAULT_EXPOSED_HEADERS),
+      CORS_MAX_AGE_SECONDS: integer(600),
+      HSTS_MAX_AGE_SECONDS: integer(production ? DEFAULT_HSTS_MAX_AGE_SECONDS : 0),
+      HSTS_INCLUDE_SUBDOMAINS: boolean(true),
+      FRAME_OPTIONS: z.enum(['DENY', 'SAMEORIGIN']).default('DENY'),
+      CONTENT_SECURITY_POLICY: z.string().min(1).optional(),
+    })
+    .superRefine((env, ctx) => {
+      if (env.CORS_CREDENTIALS && env.CORS_ORIGINS.some((rule) => rule.type === 'any')) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['CORS_ORIGINS'],
+          message: 'Wildcard origin * can not be used with CORS_CREDENTIALS=true, list the origins',
+        });
+      }
+    });
+}
+
+/**
+ * Convert parsed variables to the configuration
+ */
+export function toSecurityConfig(parsed: z.output<ReturnType<typeof securityEnvSchema>>): SecurityConfig {
+  return {
+    cors: {
+      origins: parsed.CORS_ORIGINS,
+      credentials: parsed.CORS_CREDENTIALS,
+      allowedMethods: parsed.CORS_ALLOWED_METHODS,
+      allowedHeaders: parsed.CORS_ALLOWED_HEADERS,
+      exposedHeaders: parsed.CORS_EXPOSED_HEADERS,
+      maxAgeSeconds: parsed.CORS_MAX_AGE_SECONDS,
+    },
+    headers: {
+      hstsMaxAgeSeconds: parsed.HSTS_MAX_AGE_SECONDS,
+      hstsIncludeSubDomains: parsed.HSTS_INCLUDE_SUBDOMAINS,
+      frameOptions: parsed.FRAME_OPTIONS,
+      contentSecurityPolicy: parsed.CONTENT_SECURITY_POLICY ?? null,
+    },
+  };
+}
+
+/**
+ * Load and validate configuration
+ * Backend gets it as part of getConfig(), this is for the Next middleware
+ * @param env - Environment variables (process.env by default)
+ * @throws ConfigError listing all invalid variables
+ */
+export function loadSecurityConfig(env: Env = process.env): SecurityConfig {
+  const production = env.NODE_ENV === 'production';
+  return toSecurityConfig(parseEnv(securityEnvSchema(production), env, 'Invalid security configuration'));
+}
@@ -0,0 +1,85 @@
+import type { SecurityHeadersConfig } from './config';
+
+export interface HeaderEntry {
+  key: string;
+  value: string;
+}
+
+/**
+ * Headers sent with every response (API and pages)
+ */
+function commonHeaders(config: SecurityHeadersConfig): HeaderEntry[] {
+  const headers: HeaderEntry[] = [
+    { key: 'X-Content-Type-Options', value: 'nosniff' },
+    { key: 'X-Frame-Options', value: config.frameOptions },
+    { key: 'Referrer-Policy', value: 'strict-origin-when-cross-origin' },
+    { key: 'Cross-Origin-Opener-Policy', value: 'same-origin' },
+  ];
+  if (config.hstsMaxAgeSeconds > 0) {
+    const includeSubDomains = config.hstsIncludeSubDomains ? '; includeSubDomains' : '';
+    headers.push({
+      key: 'Strict-Transport-Security',
+      value: `max-age=${config.hstsMaxAgeSeconds}${includeSubDomains}`,
+    });
+  }
+  return headers;
+}
+
+/**
+ * Security headers of the API (JSON only - nothing may be rendered or framed)
+ */
+export function buildApiSecurityHeaders(config: SecurityHeadersConfig): HeaderEntry[] {
+  return [
+    ...commonHeaders(config),
+    { key: 'Content-Security-Policy', value: "default-src 'none'; frame-ancestors 'none'" },
+  ];
+}
+
+/**
+ * Default Content-Security-Policy of the Next pages
+ * - scripts and styles inline: Next bootstrap scripts and styled-components
+ * - unsafe-eval and websockets in development for Fast Refresh
+ * - frame-ancestors follows X-Frame-Options
+ * @param connectSrc - Origins the pages call (backend URL)
+ */
+export function buildPageContentSecurityPolicy(
+  connectSrc: string[],
+  production: boolean,
+  frameOptions: SecurityHeadersConfig['frameOptions'] = 'DENY'
+): string {
+  const directives: Record<string, string[]> = {
+    'default-src': ["'self'"],
+    'script-src': ["'self'", "'unsafe-inline'", ...(production ? [] : ["'unsafe-eval'"])],
+    'style-src': ["'self'", "'unsafe-inline'"],
+    'img-src': ["'self'", 'data:', 'blob:'],
+    'font-src': ["'self'", 'data:'],
+    'connect-src': ["'self'", ...connectSrc, ...(production ? [] : ['ws:'])],
+    'object-src': ["'none'"],
+    'base-uri': ["'self'"],
+    'form-action': ["'self'"],
+    'frame-ancestors': [frameOptions === 'DENY' ? "'none'" : "'self'"],
+  };
+  return Object.entries(directives)
+    .map(([name, values]) => `${name} ${values.join(' ')}`)
+    .join('; ');
+}
+
+/**
+ * Security headers of the Next pages (see src/middleware.ts)
+ * @param connectSrc - Origins the pages call, used by the default CSP
+ */
+export function buildPageSecurityHeaders(
+  config: SecurityHeadersConfig,
+  connectSrc: string[],
+  production: boolean
+): HeaderEntry[] {
+  return [
+    ...commonHeaders(config),
+    {
+      key: 'Content-Security-Policy',
+      value:
+        config.contentSecurityPolicy ??
+        buildPageContentSecurityPolicy(connectSrc, production, config.frameOptions),
+    },
+  ];
+}
@@ -0,0 +1,36 @@
+import { expect } from 'chai';
+import { formatTraceparent, parseTraceparent } from './traceparent';
+
+/**
+ * Unit tests for W3C traceparent parsing and formatting
+ */
+describe('traceparent', () => {
+  const header = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+  it('should parse valid header', () => {
+    expect(parseTraceparent(header)).to.deep.equal({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      sampled: true,
+    });
+    expect(parseTraceparent(header.replace(/01$/, '00'))?.sampled).to.be.false;
+  });
+
+  it('should reject invalid headers', () => {
+    expect(parseTraceparent(undefined)).to.be.undefined;
+    expect(parseTraceparent('garbage')).to.be.undefined;
+    expect(parseTraceparent(`ff${header.slice(2)}`)).to.be.undefined;
+    expect(parseTraceparent(`${header}-extra`)).to.be.undefined;
+    expect(parseTraceparent(`00-${'0'.repeat(32)}-00f067aa0ba902b7-01`)).to.be.undefined;
+    expect(parseTraceparent(`00-4bf92f3577b34da6a3ce929d0e0e4736-${'0'.repeat(16)}-01`)).to.be.undefined;
+  });
+
+  it('should accept future versions with additional fields', () => {
+    expect(parseTraceparent(`01${header.slice(2)}-extra`)?.traceId).to.equal('4bf92f3577b34da6a3ce929d0e0e4736');
+  });
+
+  it('should format headers that parse back', () => {
+    expect(formatTraceparent(parseTraceparent(header)!)).to.equal(header);
+    expect(formatTraceparent({ ...parseTraceparent(header)!, sampled: false })).to.match(/-00$/);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * W3C Trace Context - traceparent header
+ * https://www.w3.org/TR/trace-context/#traceparent-header
+ *
+ * No Node.js dependencies - used by the tRPC client links and the backend
+ *
+ *   traceparent: 00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01
+ *                ^  ^ trace id (16 bytes)             ^ parent span id  ^ flags (01 = sampled)
+ */
+
+export const TRACEPARENT_HEADER = 'traceparent';
+
+export interface TraceContext {
+  /** 32 lowercase hex characters */
+  traceId: string;
+  /** 16 lowercase hex characters - id of the span in the caller */
+  spanId: string;
+  sampled: boolean;
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+/**
+ * Parse traceparent header, undefined if missing or invalid
+ */
+export function parseTraceparent(header: string | string[] | undefined | null): TraceContext | undefined {
+  const value = (Array.isArray(header) ? header[0] : header)?.trim().toLowerCase();
+  const match = value ? TRACEPARENT_PATTERN.exec(value) : null;
+  if (!match) return undefined;
+
+  const [, version, traceId, spanId, flags, rest] = match;
+  // Version ff is invalid, version 00 has no additional fields
+  if (version === 'ff' || (version === '00' && rest)) return undefined;
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) return undefined;
+
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+export function formatTraceparent(context: TraceContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+function randomHex(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, (value) => value.toString(16).padStart(2, '0')).join('');
+}
+
+export function generateTraceId(): string {
+  const id = randomHex(16);
+  return id === INVALID_TRACE_ID ? generateTraceId() : id;
+}
+
+export function generateSpanId(): string {
+  const id = randomHex(8);
+  return id === INVALID_SPAN_ID ? generateSpanId() : id;
+}
@@ -9,6 +9,7 @@
 
 // Import ONLY the type, not the implementation
 // The 'type' keyword ensures this is stripped during compilation
+import type { inferRouterOutputs } from '@trpc/server';
 import type { appRouter } from '../server/routers/_app';
 
 /**
@@ -16,3 +17,9 @@ import type { appRouter } from '../server/routers/_app';
  * This is inferred from the appRouter, so it's always in sync
  */
 export type AppRouter = typeof appRouter;
+
+/**
+ * Output types of all procedures, e.g. RouterOutputs['users']['update']
+ * Dates are ISO strings on the client (no transformer)
+ */
+export type RouterOutputs = inferRouterOutputs<AppRouter>;
@@ -0,0 +1,26 @@
+const ACCESS_TOKEN_KEY = 'accessToken';
+
+/**
+ * Client-side access token storage
+ * Token is sent as `Authorization: Bearer <token>` by the tRPC client
+ *
+ * Usage:
+ *   const { accessToken } = await trpc.auth.login.mutateAsync({ email, password });
+ *   setAccessToken(accessToken);
+ */
+export function getAccessToken(): string | null {
+  if (typeof window === 'undefined') return null;
+  return window.localStorage.getItem(ACCESS_TOKEN_KEY);
+}
+
+/**
+ * Store access token, pass null to clear it
+ */
+export function setAccessToken(token: string | null): void {
+  if (typeof window === 'undefined') return;
+  if (token) {
+    window.localStorage.setItem(ACCESS_TOKEN_KEY, token);
+  } else {
+    window.localStorage.removeItem(ACCESS_TOKEN_KEY);
+  }
+}
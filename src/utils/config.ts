@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { parseEnv, positiveInteger, type Env } from '@/shared/config/env';
+
+/**
+ * Public configuration - safe to ship to the browser
+ * Only NEXT_PUBLIC_* variables, Next.js inlines them at build time.
+ * Server configuration is in src/server/config.ts and must never be imported here.
+ *
+ * Usage:
+ *   const { backendUrl } = getPublicConfig();
+ */
+
+export interface PublicConfig {
+  /** Backend base URL called from the browser, without trailing slash */
+  backendUrl: string;
+}
+
+const publicEnvSchema = z.object({
+  NEXT_PUBLIC_BACKEND_URL: z.string().url().optional(),
+  NEXT_PUBLIC_BACKEND_PORT: positiveInteger(3001),
+});
+
+/**
+ * Load and validate public configuration
+ * @throws ConfigError listing all invalid variables
+ */
+export function loadPublicConfig(env: Env): PublicConfig {
+  const parsed = parseEnv(publicEnvSchema, env, 'Invalid public configuration');
+  const backendUrl = parsed.NEXT_PUBLIC_BACKEND_URL ?? `http://localhost:${parsed.NEXT_PUBLIC_BACKEND_PORT}`;
+  return {
+    backendUrl: backendUrl.replace(/\/+$/, ''),
+  };
+}
+
+let config: PublicConfig | null = null;
+
+export function getPublicConfig(): PublicConfig {
+  if (!config) {
+    // Variables must be referenced one by one, Next.js does not inline process.env as a whole
+    config = loadPublicConfig({
+      NEXT_PUBLIC_BACKEND_URL: process.env.NEXT_PUBLIC_BACKEND_URL,
+      NEXT_PUBLIC_BACKEND_PORT: process.env.NEXT_PUBLIC_BACKEND_PORT,
+    });
+  }
+  return config;
+}
@@ -1,19 +1,42 @@
-import { httpBatchLink } from '@trpc/client';
+import { createTRPCClient, httpBatchLink, httpSubscriptionLink, splitLink } from '@trpc/client';
 import { createTRPCNext } from '@trpc/next';
 import type { AppRouter } from '@/shared/types';
+import {
+  TRACEPARENT_HEADER,
+  formatTraceparent,
+  parseTraceparent,
+} from '@/shared/tracing/traceparent';
+import { getAccessToken } from './auth';
+import { getPublicConfig } from './config';
+
+/**
+ * Client issuing subscription tickets (auth.subscriptionTicket)
+ */
+const ticketClient = createTRPCClient<AppRouter>({ links: [createBatchLink()] });
 
 /**
  * Initialize tRPC client for Next.js
- * Connects to standalone backend server
+ * Connects to standalone backend server (NEXT_PUBLIC_BACKEND_URL, see config.ts)
  * Note: Only imports types from @/shared/types, NO backend code
  */
 export const trpc = createTRPCNext<AppRouter>({
   config() {
     return {
       links: [
-        httpBatchLink({
-          url: `${getBackendUrl()}/trpc`,
-          maxURLLength: 2083,
+        splitLink({
+          // Subscriptions are long-lived SSE streams, everything else is batched
+          condition: (op) => op.type === 'subscription',
+          true: httpSubscriptionLink({
+            url: `${getPublicConfig().backendUrl}/trpc`,
+            // EventSource can not send headers and connectionParams end up in the URL -
+            // a single-use ticket is sent instead of the token, a new one on every reconnect
+            async connectionParams() {
+              if (!getAccessToken()) return null;
+              const { ticket } = await ticketClient.auth.subscriptionTicket.mutate();
+              return { ticket };
+            },
+          }),
+          false: createBatchLink(),
         }),
       ],
     };
@@ -22,14 +45,31 @@ export const trpc = createTRPCNext<AppRouter>({
 });
 
 /**
- * Get the backend URL for tRPC calls
- * @returns Backend URL depending on environment
+ * Link of queries and mutations, sends the access token and the page traceparent
+ */
+function createBatchLink() {
+  return httpBatchLink({
+    url: `${getPublicConfig().backendUrl}/trpc`,
+    maxURLLength: 2083,
+    headers() {
+      const token = getAccessToken();
+      const traceparent = getPageTraceparent();
+      return {
+        ...(traceparent && { [TRACEPARENT_HEADER]: traceparent }),
+        ...(token && { authorization: `Bearer ${token}` }),
+      };
+    },
+  });
+}
+
+/**
+ * Trace the page belongs to, from <meta name="traceparent"> rendered by an instrumented
+ * server or proxy - undefined without one, the backend then starts the trace and decides
+ * whether it is sampled (TRACING_SAMPLE_RATIO)
  */
-function getBackendUrl() {
-  if (typeof window !== 'undefined') {
-    // Browser - use relative or backend URL
-    return process.env.NEXT_PUBLIC_BACKEND_URL || `http://localhost:${process.env.NEXT_PUBLIC_BACKEND_PORT || 3001}`;
-  }
-  // Server - use environment variable or default
-  return process.env.BACKEND_URL || `http://localhost:${process.env.BACKEND_PORT || 3001}`;
+function getPageTraceparent(): string | undefined {
+  if (typeof document === 'undefined') return undefined;
+  const meta = document.querySelector('meta[name="traceparent"]');
+  const context = parseTraceparent(meta?.getAttribute('content'));
+  return context && formatTraceparent(context);
 }